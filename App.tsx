@@ -3,6 +3,7 @@ import { SimulationSelector } from './components/SimulationSelector';
 import { SimulationView } from './components/SimulationView';
 import { SyntheticChartDemo } from './components/SyntheticChartDemo';
 import { SnapshotTool } from './components/SnapshotTool';
+import { TournamentResults } from './components/TournamentResults';
 
 export default function App() {
   return (
@@ -10,6 +11,8 @@ export default function App() {
       <Route path="/" element={<Navigate to="/simulation/multi-model" replace />} />
       <Route path="/menu" element={<SimulationSelector />} />
       <Route path="/simulation/:simulationId" element={<SimulationView />} />
+      <Route path="/tournaments" element={<TournamentResults />} />
+      <Route path="/tournaments/:tournamentId" element={<TournamentResults />} />
       <Route path="/synthetic-demo" element={<SyntheticChartDemo />} />
       <Route path="/synthetic-demo" element={<SyntheticChartDemo />} />
       {import.meta.env.VITE_ENABLE_SNAPSHOT_TOOL === 'true' && (
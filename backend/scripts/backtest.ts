@@ -0,0 +1,142 @@
+// Walk-forward batch backtests without the scheduler's wall-clock intervals:
+//   npm run backtest -- --start 2024-01-02 --end 2024-12-31 --data-dir ./data/market --seeds 1-5
+// Every arena (or those named with --arenas) trades the period once per seed, and the results land in
+// --out (./data/backtests/<timestamp> by default) as run.json, summary.csv, leaderboard.csv and equity.csv.
+// Prices only come from the local files in --data-dir (MARKET_DATA_DIR). LLM traders replay the recorded
+// decisions in --cassettes (LLM_CASSETTE_DIR) or fall back to seeded synthetic trades; nothing calls a provider.
+// Webhook traders still get their HTTP requests, so point them at a local bot.
+import 'dotenv/config';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+import { configureOfflineRun, parseArgs, parsePositive, parseSeeds } from './backtestCli.js';
+
+const USAGE = `Usage: npm run backtest -- --start YYYY-MM-DD [--end YYYY-MM-DD] [--data-dir DIR] [--arenas id,id]
+  [--seeds 1,2,5-8] [--days N] [--minutes-per-tick 30] [--trade-every-hours 2] [--cassettes DIR] [--out DIR]`;
+
+const toCsv = (header: string[], rows: Array<Array<string | number | null | undefined>>): string => {
+  const escape = (value: string | number | null | undefined): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map(row => row.map(escape).join(',')).join('\n') + '\n';
+};
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const main = async (): Promise<void> => {
+  const args = parseArgs(process.argv.slice(2));
+  const start = args.get('start');
+  const dataDir = args.get('data-dir') ?? process.env.MARKET_DATA_DIR;
+  if (!start || isNaN(new Date(start).getTime())) {
+    throw new Error(`--start is required\n${USAGE}`);
+  }
+  if (!dataDir) {
+    throw new Error(`--data-dir (or MARKET_DATA_DIR) is required: backtests never fetch prices\n${USAGE}`);
+  }
+
+  const seeds = parseSeeds(args.get('seeds') ?? process.env.SIMULATION_SEED ?? '1');
+  const cassettes = args.get('cassettes');
+  const maxDays = parsePositive(args, 'days');
+  const minutesPerTick = parsePositive(args, 'minutes-per-tick');
+  const tradeEveryHours = parsePositive(args, 'trade-every-hours');
+  const outDir = resolve(args.get('out') ?? join('./data/backtests', new Date().toISOString().replace(/[:.]/g, '-')));
+
+  configureOfflineRun({ mode: 'historical', dataDir, cassettes });
+  process.env.HISTORICAL_SIMULATION_START_DATE = start;
+  if (args.has('end')) {
+    process.env.HISTORICAL_SIMULATION_END_DATE = args.get('end');
+  }
+
+  const { ARENA_TICKERS } = await import('../src/constants.js');
+  const { loadArenaConfigs } = await import('../src/services/arenaConfigService.js');
+  const { getFileDatasetVersion } = await import('../src/services/fileMarketDataService.js');
+  const { setFileSimulationTypes, getSimulationTypes } = await import('../src/simulationTypes.js');
+  const { runBacktest } = await import('../src/simulation/backtest.js');
+
+  const { types: fileTypes, errors } = await loadArenaConfigs();
+  errors.forEach(error => console.warn(`Skipping invalid arena definition ${error.file}: ${error.path} ${error.message}`));
+  setFileSimulationTypes(fileTypes);
+
+  const arenaIds = args.get('arenas')?.split(',').map(id => id.trim()).filter(Boolean);
+  const available = getSimulationTypes();
+  const arenas = arenaIds ? available.filter(simType => arenaIds.includes(simType.id)) : available;
+  const unknown = (arenaIds ?? []).filter(id => !available.some(simType => simType.id === id));
+  if (unknown.length > 0 || arenas.length === 0) {
+    throw new Error(`Unknown or disabled arenas: ${unknown.join(', ') || '(none enabled)'}`);
+  }
+
+  console.log(`Backtesting ${arenas.map(simType => simType.id).join(', ')} from ${start}${args.has('end') ? ` to ${args.get('end')}` : ''} over ${seeds.length} seed(s)`);
+  const startedAt = Date.now();
+  const runs = await runBacktest({
+    arenas,
+    seeds,
+    tickers: [...new Set([...ARENA_TICKERS, 'SPY'])],
+    minutesPerTick,
+    tradeEveryHours,
+    maxDays,
+    onDayComplete: (seed, day) => process.stdout.write(`\rseed ${seed}: day ${day + 1}`),
+  });
+  process.stdout.write('\n');
+
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(join(outDir, 'run.json'), JSON.stringify({
+    createdAt: new Date().toISOString(),
+    durationMs: Date.now() - startedAt,
+    options: { start, end: args.get('end') ?? null, arenas: arenas.map(simType => simType.id), seeds, maxDays, minutesPerTick, tradeEveryHours, cassettes: cassettes ?? null },
+    dataset: await getFileDatasetVersion(),
+    runs,
+  }, null, 2));
+
+  const participants = runs.flatMap(run => run.participants.map(participant => ({ run, participant })));
+  await fs.writeFile(join(outDir, 'summary.csv'), toCsv(
+    ['arena', 'seed', 'id', 'name', 'kind', 'trading_days', 'initial_value', 'final_value', 'total_return', 'annualized_return', 'annualized_volatility', 'sharpe', 'sortino', 'max_drawdown', 'beta', 'alpha', 'trades', 'inference_cost'],
+    participants.map(({ run, participant: p }) => [
+      run.arenaId, run.seed, p.id, p.name, p.kind, run.tradingDays, p.initialValue.toFixed(2), p.finalValue.toFixed(2),
+      p.totalReturn.toFixed(6), p.analytics.annualizedReturn.toFixed(6), p.analytics.annualizedVolatility.toFixed(6),
+      p.analytics.sharpeRatio.toFixed(4), p.analytics.sortinoRatio.toFixed(4), p.analytics.maxDrawdown.toFixed(6),
+      p.analytics.beta?.toFixed(4), p.analytics.alpha?.toFixed(6), p.trades, p.inferenceCost.toFixed(4),
+    ])
+  ));
+
+  // Averages across seeds, best mean return first within each arena
+  const groups = new Map<string, typeof participants>();
+  participants.forEach(entry => {
+    const key = `${entry.run.arenaId}\u0000${entry.participant.id}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  });
+  const leaderboard = [...groups.values()].map(entries => {
+    const returns = entries.map(({ participant }) => participant.totalReturn);
+    return {
+      arena: entries[0].run.arenaId,
+      participant: entries[0].participant,
+      runs: entries.length,
+      meanReturn: mean(returns),
+      minReturn: Math.min(...returns),
+      maxReturn: Math.max(...returns),
+      meanSharpe: mean(entries.map(({ participant }) => participant.analytics.sharpeRatio)),
+      meanMaxDrawdown: mean(entries.map(({ participant }) => participant.analytics.maxDrawdown)),
+    };
+  }).sort((a, b) => a.arena.localeCompare(b.arena) || b.meanReturn - a.meanReturn);
+  await fs.writeFile(join(outDir, 'leaderboard.csv'), toCsv(
+    ['arena', 'id', 'name', 'kind', 'runs', 'mean_return', 'min_return', 'max_return', 'mean_sharpe', 'mean_max_drawdown'],
+    leaderboard.map(row => [
+      row.arena, row.participant.id, row.participant.name, row.participant.kind, row.runs, row.meanReturn.toFixed(6),
+      row.minReturn.toFixed(6), row.maxReturn.toFixed(6), row.meanSharpe.toFixed(4), row.meanMaxDrawdown.toFixed(6),
+    ])
+  ));
+
+  await fs.writeFile(join(outDir, 'equity.csv'), toCsv(
+    ['arena', 'seed', 'id', 'day', 'value'],
+    participants.flatMap(({ run, participant }) => participant.equity.map((value, day) => [run.arenaId, run.seed, participant.id, day, value.toFixed(2)]))
+  ));
+
+  console.log(`${runs.length} run(s) in ${((Date.now() - startedAt) / 1000).toFixed(1)}s -> ${outDir}`);
+  leaderboard.forEach(row => {
+    console.log(`  ${row.arena.padEnd(20)} ${row.participant.name.padEnd(32)} ${(row.meanReturn * 100).toFixed(2).padStart(8)}%`);
+  });
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+// Argument parsing and environment setup shared by the backtest and tournament commands.
+
+export const parseArgs = (argv: string[]): Map<string, string> => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([a-z-]+)(?:=(.*))?$/);
+    if (!match) {
+      throw new Error(`Unexpected argument ${argv[i]}`);
+    }
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`--${match[1]} needs a value`);
+    }
+    args.set(match[1], value);
+  }
+  return args;
+};
+
+// "1,2,5-8" -> [1, 2, 5, 6, 7, 8]
+export const parseSeeds = (value: string): number[] => value.split(',').flatMap(part => {
+  const [from, to] = part.trim().split('-').map(bound => Number.parseInt(bound, 10));
+  if (!Number.isFinite(from) || (to !== undefined && !Number.isFinite(to))) {
+    throw new Error(`Invalid seed list "${value}"`);
+  }
+  return to === undefined ? [from] : Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+});
+
+export const parsePositive = (args: Map<string, string>, name: string): number | undefined => {
+  const raw = args.get(name);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`--${name} must be a positive number`);
+  }
+  return value;
+};
+
+// Market data, LLM and chat settings are read when their modules load, so call this before importing them.
+// Prices only come from the local files; LLM traders replay cassettes or make seeded synthetic trades.
+export const configureOfflineRun = (options: { mode: 'historical' | 'simulated'; dataDir?: string; cassettes?: string }): void => {
+  process.env.MODE = options.mode;
+  delete process.env.MAX_SIMULATION_DAYS;
+  if (options.dataDir) {
+    process.env.MARKET_DATA_DIR = options.dataDir;
+    process.env.MARKET_DATA_OFFLINE = 'true';
+  }
+  if (options.cassettes) {
+    process.env.LLM_CASSETTE_MODE = 'replay';
+    process.env.LLM_CASSETTE_DIR = options.cassettes;
+  } else {
+    process.env.ENABLE_LLM = 'false';
+    process.env.LLM_CASSETTE_MODE = 'off';
+  }
+  process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'WARNING';
+};
@@ -0,0 +1,105 @@
+// Monte Carlo tournament: repeats one arena over seeds and/or historical date windows and ranks its traders
+// with bootstrap confidence intervals, pairwise win rates and significance tests:
+//   npm run tournament -- --arena multi-model --seeds 1-20 --days 20
+//   npm run tournament -- --arena multi-model --seeds 1-5 --data-dir ./data/market \
+//     --windows 2024-01-02:2024-03-28,2024-04-01:2024-06-28,2024-07-01:2024-09-30
+// Without --windows the runs use simulated prices, so each seed is a new price path and the S&P 500 benchmark
+// follows the equal-weighted simulated universe. The result is saved to TOURNAMENT_DIR (./data/tournaments)
+// and served by GET /api/tournaments/:id and the /tournaments page.
+import 'dotenv/config';
+import { configureOfflineRun, parseArgs, parsePositive, parseSeeds } from './backtestCli.js';
+
+const USAGE = `Usage: npm run tournament -- --arena ID [--seeds 1-20] (--days N | --windows START:END,START:END --data-dir DIR)
+  [--bootstrap 2000] [--confidence 0.95] [--minutes-per-tick 30] [--trade-every-hours 2] [--cassettes DIR] [--id NAME]`;
+
+const parseWindows = (value: string): Array<{ start: string; end?: string }> => value.split(',').map(part => {
+  const [start, end] = part.trim().split(':');
+  if (!start || isNaN(new Date(start).getTime()) || (end && isNaN(new Date(end).getTime()))) {
+    throw new Error(`Invalid window "${part}", expected START:END dates`);
+  }
+  return end ? { start, end } : { start };
+});
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(2)}%`;
+
+const main = async (): Promise<void> => {
+  const args = parseArgs(process.argv.slice(2));
+  const arenaId = args.get('arena');
+  if (!arenaId) {
+    throw new Error(`--arena is required\n${USAGE}`);
+  }
+
+  const windows = args.has('windows') ? parseWindows(args.get('windows')!) : [];
+  const maxDays = parsePositive(args, 'days');
+  const dataDir = args.get('data-dir') ?? process.env.MARKET_DATA_DIR;
+  const mode = windows.length > 0 ? 'historical' : 'simulated';
+  if (mode === 'historical' && !dataDir) {
+    throw new Error(`--windows replay local prices: --data-dir (or MARKET_DATA_DIR) is required\n${USAGE}`);
+  }
+  if (mode === 'simulated' && maxDays === undefined) {
+    throw new Error(`Simulated tournaments need --days\n${USAGE}`);
+  }
+
+  const seeds = parseSeeds(args.get('seeds') ?? '1-10');
+  const confidence = parsePositive(args, 'confidence') ?? 0.95;
+  if (confidence >= 1) {
+    throw new Error('--confidence must be below 1, e.g. 0.95');
+  }
+  const bootstrapSamples = Math.round(parsePositive(args, 'bootstrap') ?? 2000);
+  const id = args.get('id') ?? `${arenaId}-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+  configureOfflineRun({ mode, dataDir, cassettes: args.get('cassettes') });
+
+  const { ARENA_TICKERS } = await import('../src/constants.js');
+  const { loadArenaConfigs } = await import('../src/services/arenaConfigService.js');
+  const { getFileDatasetVersion } = await import('../src/services/fileMarketDataService.js');
+  const { setFileSimulationTypes, getAllSimulationTypes } = await import('../src/simulationTypes.js');
+  const { runBacktest } = await import('../src/simulation/backtest.js');
+  const { buildTournamentResult, isValidTournamentId, saveTournament } = await import('../src/services/tournamentService.js');
+
+  if (!isValidTournamentId(id)) {
+    throw new Error(`--id may only use letters, digits, ".", "_" and "-"`);
+  }
+
+  const { types: fileTypes, errors } = await loadArenaConfigs();
+  errors.forEach(error => console.warn(`Skipping invalid arena definition ${error.file}: ${error.path} ${error.message}`));
+  setFileSimulationTypes(fileTypes);
+  // A tournament may run an arena that is switched off in the live server
+  const arena = getAllSimulationTypes().find(simType => simType.id === arenaId);
+  if (!arena) {
+    throw new Error(`Unknown arena "${arenaId}"`);
+  }
+
+  console.log(`Tournament ${id}: ${arena.name}, ${seeds.length} seed(s) x ${Math.max(1, windows.length)} ${mode === 'historical' ? 'window(s)' : `simulated ${maxDays}-day path(s)`}`);
+  const runs = await runBacktest({
+    arenas: [arena],
+    seeds,
+    windows: windows.length > 0 ? windows : undefined,
+    tickers: [...new Set([...ARENA_TICKERS, 'SPY'])],
+    minutesPerTick: parsePositive(args, 'minutes-per-tick'),
+    tradeEveryHours: parsePositive(args, 'trade-every-hours'),
+    maxDays,
+    onDayComplete: (seed, day) => process.stdout.write(`\rseed ${seed}: day ${day + 1}   `),
+  });
+  process.stdout.write('\n');
+
+  const result = buildTournamentResult(id, runs, {
+    mode,
+    seeds,
+    windows,
+    dataset: await getFileDatasetVersion(),
+  }, { confidence, bootstrapSamples });
+  const path = await saveTournament(result);
+
+  console.log(`${runs.length} run(s) -> ${path}`);
+  result.standings.forEach(standing => {
+    const [low, high] = standing.confidenceInterval;
+    const gap = standing.significantlyAboveNext ? '  >' : '';
+    console.log(`  ${String(standing.rank).padStart(2)}. ${standing.name.padEnd(32)} ${formatPercent(standing.meanReturn).padStart(8)}  [${formatPercent(low)}, ${formatPercent(high)}]  wins ${formatPercent(standing.winRate)}${gap}`);
+  });
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,76 @@
+// Minimal webhook agent for trying out external bots locally:
+//   WEBHOOK_AGENT_SECRET=dev-secret npm run webhook:stub
+// then give a trader `webhook: { url: http://localhost:8787/decide }` in an arena file.
+// It buys the day's strongest movers with spare cash and sells positions down more than 5%.
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createServer } from 'http';
+
+const PORT = Number(process.env.PORT || 8787);
+const SECRET = (process.env.WEBHOOK_AGENT_SECRET || '').trim();
+const MAX_SKEW_SECONDS = 300;
+
+const isSigned = (body: string, timestamp: string | undefined, signature: string | undefined): boolean => {
+  if (!SECRET) {
+    return true;
+  }
+  if (!timestamp || !signature || Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_SKEW_SECONDS) {
+    return false;
+  }
+  const expected = Buffer.from(`sha256=${createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+};
+
+const decide = (request: any) => {
+  const { portfolio, marketData, rules, chat } = request;
+  const trades: any[] = [];
+
+  for (const position of portfolio.positions) {
+    if (position.quantity > 0 && position.price < position.averageCost * 0.95) {
+      trades.push({ ticker: position.ticker, action: 'sell', quantity: position.quantity, justification: 'Stop loss at -5%' });
+    }
+  }
+
+  const budget = Math.min(portfolio.cash, portfolio.totalValue * rules.maxPositionWeight) * 0.9;
+  const movers = [...marketData]
+    .filter((quote: any) => quote.dailyChangePercent > 0)
+    .sort((a: any, b: any) => b.dailyChangePercent - a.dailyChangePercent)
+    .slice(0, 3);
+  for (const quote of movers) {
+    const quantity = Math.floor(budget / movers.length / quote.price);
+    if (quantity > 0) {
+      trades.push({ ticker: quote.ticker, action: 'buy', quantity, justification: `Up ${(quote.dailyChangePercent * 100).toFixed(2)}% today` });
+    }
+  }
+
+  return {
+    rationale: trades.length > 0 ? 'Following momentum with a 5% stop loss.' : 'Nothing to do this round.',
+    trades,
+    ...(chat ? { reply: 'Just a momentum script - no opinions here.'.slice(0, chat.maxReplyLength) } : {}),
+  };
+};
+
+createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    if (!isSigned(body, req.headers['x-arena-timestamp'] as string | undefined, req.headers['x-arena-signature'] as string | undefined)) {
+      res.writeHead(401).end('Bad signature');
+      return;
+    }
+    try {
+      const request = JSON.parse(body);
+      const decision = decide(request);
+      console.log(`${request.agentId} day ${request.day} hour ${request.intradayHour}: ${decision.trades.length} trade(s)`);
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(decision));
+    } catch (error) {
+      res.writeHead(400).end(error instanceof Error ? error.message : String(error));
+    }
+  });
+}).listen(PORT, () => {
+  console.log(`Webhook agent stub listening on http://localhost:${PORT}/decide${SECRET ? '' : ' (not checking signatures)'}`);
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from '@jest/globals';
+import { getRequestedToolCalls, runAgentTool, AGENT_TOOL_NAMES } from '../services/agentTools';
+import type { Agent, MarketData } from '../types';
+
+describe('Agent research tools', () => {
+  const marketData: MarketData = {
+    AAPL: { ticker: 'AAPL', price: 110, dailyChange: 2, dailyChangePercent: 0.02, sector: 'Technology', trailingPE: 30 },
+    MSFT: { ticker: 'MSFT', price: 100, dailyChange: -1, dailyChangePercent: -0.01, sector: 'Technology' },
+    XOM: { ticker: 'XOM', price: 50, dailyChange: 0, dailyChangePercent: 0, sector: 'Energy' },
+  };
+  const agent: Agent = {
+    id: 'test-agent',
+    name: 'Test Agent',
+    model: 'test-model',
+    color: '#000000',
+    portfolio: { cash: 8900, positions: { AAPL: { ticker: 'AAPL', quantity: 10, averageCost: 100 } } },
+    tradeHistory: [],
+    performanceHistory: [],
+    rationale: 'Test',
+    rationaleHistory: {},
+  };
+  const context = { agent, marketData };
+
+  it('reads tool calls only from responses that ask for them', () => {
+    expect(getRequestedToolCalls({ rationale: 'Hold', trades: [] })).toBe(null);
+    expect(getRequestedToolCalls({ toolCalls: [{ name: 'get_sector_summary' }] })).toEqual([
+      { name: 'get_sector_summary', arguments: {} },
+    ]);
+  });
+
+  it('answers position, fundamentals and sector queries from the current round', () => {
+    const position = runAgentTool({ name: 'get_position', arguments: { ticker: 'aapl' } }, AGENT_TOOL_NAMES, context);
+    expect(position.result).toMatchObject({ quantity: 10, marketValue: 1100, weightPercent: 11, unrealizedPnl: 100 });
+
+    const fundamentals = runAgentTool({ name: 'get_fundamentals', arguments: { ticker: 'AAPL' } }, AGENT_TOOL_NAMES, context);
+    expect(fundamentals.result).toMatchObject({ sector: 'Technology', trailingPE: 30 });
+
+    const sectors = runAgentTool({ name: 'get_sector_summary' }, AGENT_TOOL_NAMES, context).result as any[];
+    expect(sectors.map(s => [s.sector, s.tickerCount, s.averageChangePercent])).toEqual([
+      ['Energy', 1, 0],
+      ['Technology', 2, 0.5],
+    ]);
+  });
+
+  it('returns errors for unknown tickers and tools outside the agent\'s set', () => {
+    expect(runAgentTool({ name: 'get_position', arguments: { ticker: 'ZZZ' } }, AGENT_TOOL_NAMES, context).error).toBe('Unknown ticker: ZZZ');
+    expect(runAgentTool({ name: 'get_fundamentals', arguments: { ticker: 'AAPL' } }, ['get_position'], context).error).toBe('Unknown tool: get_fundamentals');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseArenaConfig } from '../services/arenaConfigService';
+
+const ARENA_YAML = `
+id: value-arena
+name: Value Arena
+initialCash: 250000
+feeBps: 2
+universe: [aapl, MSFT]
+chat:
+  enabled: true
+  maxMessagesPerAgent: 2
+riskRules:
+  maxPositionWeight: 0.25
+systemPrompt: Buy quality businesses below fair value.
+traders:
+  - id: value-gemini
+    name: Gemini
+    model: google/gemini-2.5-flash
+  - id: value-qwen
+    name: Qwen
+    model: qwen/qwen-2.5-72b-instruct
+    systemPrompt: Only buy after a 20% drawdown.
+`;
+
+describe('Arena definitions', () => {
+  it('turns a YAML file into a simulation type', () => {
+    const { type, errors } = parseArenaConfig(ARENA_YAML, 'value.yaml');
+
+    expect(errors).toEqual([]);
+    expect(type?.id).toBe('value-arena');
+    expect(type?.universe).toEqual(['AAPL', 'MSFT']);
+    expect(type?.chatEnabled).toBe(true);
+    expect(type?.chat).toEqual({ maxMessagesPerAgent: 2 });
+    expect(type?.executionCost?.feeBps).toBe(2);
+    expect(type?.traderConfigs.map(trader => trader.systemPrompt)).toEqual([
+      'Buy quality businesses below fair value.',
+      'Only buy after a 20% drawdown.',
+    ]);
+  });
+
+  it('reports every schema error with its path', () => {
+    const { type, errors } = parseArenaConfig(JSON.stringify({
+      id: 'Bad Arena',
+      name: 'Bad',
+      feeBps: -1,
+      riskRules: { maxPositionWeight: 1.5 },
+      traders: [{ id: 'a', name: 'A' }],
+      tickers: ['AAPL'],
+    }), 'bad.json');
+
+    expect(type).toBeUndefined();
+    expect(errors.map(error => `${error.path} ${error.message}`)).toEqual([
+      'id must match ^[a-z0-9][a-z0-9-]*$ (got "Bad Arena")',
+      'traders[0].model is required',
+      'feeBps must be at least 0 (got -1)',
+      'riskRules.maxPositionWeight must be at most 1 (got 1.5)',
+      'tickers is not a recognized field',
+    ]);
+  });
+
+  it('rejects duplicate traders and tickers outside the market data', () => {
+    const { errors } = parseArenaConfig(JSON.stringify({
+      id: 'dupes',
+      name: 'Dupes',
+      universe: ['AAPL', 'NOTATICKER'],
+      traders: [
+        { id: 'a', name: 'A', model: 'm' },
+        { id: 'a', name: 'B', model: 'm' },
+      ],
+    }), 'dupes.json');
+
+    expect(errors.map(error => error.path)).toEqual(['traders[1].id', 'universe[1]']);
+  });
+
+  it('reports files that do not parse', () => {
+    const { errors } = parseArenaConfig('id: [unclosed', 'broken.yaml');
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toMatch(/^could not be parsed/);
+  });
+});
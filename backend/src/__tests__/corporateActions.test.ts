@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyCorporateActions, removeDelistedTickers } from '../simulation/corporateActions';
+import type { Agent, MarketData } from '../types';
+
+describe('Corporate actions', () => {
+  const agent: Agent = {
+    id: 'test-agent',
+    name: 'Test Agent',
+    model: 'test-model',
+    color: '#000000',
+    portfolio: {
+      cash: 1000,
+      positions: {
+        AAPL: { ticker: 'AAPL', quantity: 15, averageCost: 90 },
+        XOM: { ticker: 'XOM', quantity: -10, averageCost: 110 },
+        GONE: { ticker: 'GONE', quantity: 20, averageCost: 10 },
+      },
+    },
+    tradeHistory: [],
+    performanceHistory: [],
+    rationale: 'Test',
+    rationaleHistory: {},
+  };
+
+  const marketData: MarketData = {
+    AAPL: {
+      ticker: 'AAPL', price: 50, dailyChange: 0, dailyChangePercent: 0,
+      corporateActions: [{ ticker: 'AAPL', type: 'split', date: '2024-01-10', ratio: 2 }],
+    },
+    XOM: {
+      ticker: 'XOM', price: 100, dailyChange: 0, dailyChangePercent: 0,
+      corporateActions: [{ ticker: 'XOM', type: 'dividend', date: '2024-01-10', amount: 0.5 }],
+    },
+    GONE: {
+      ticker: 'GONE', price: 4, dailyChange: 0, dailyChangePercent: 0,
+      corporateActions: [{ ticker: 'GONE', type: 'delisting', date: '2024-01-10' }],
+    },
+  };
+
+  it('splits positions and open orders, charges short dividends and closes delisted positions', () => {
+    const orders = [{
+      id: 'o-1', agentId: 'test-agent', ticker: 'AAPL', action: 'buy' as const, quantity: 4, orderType: 'limit' as const,
+      limitPrice: 96, timeInForce: 'gtc' as const, status: 'open' as const, createdAt: 0, createdDay: 0,
+    }];
+
+    const result = applyCorporateActions(agent, orders, marketData, 5);
+
+    expect(result.agent.portfolio.positions.AAPL).toMatchObject({ quantity: 30, averageCost: 45 });
+    expect(result.agent.portfolio.positions.GONE).toBeUndefined();
+    // -10 * $0.50 dividend owed on the short, +20 * $4 for the delisted shares
+    expect(result.agent.portfolio.cash).toBeCloseTo(1000 - 5 + 80);
+    expect(result.orders[0]).toMatchObject({ quantity: 8, limitPrice: 48 });
+    expect(result.agent.tradeHistory.map(trade => trade.corporateAction)).toEqual(['split', 'dividend', 'delisting']);
+    expect(removeDelistedTickers(marketData).GONE).toBeUndefined();
+  });
+
+  it('pays fractional shares from a reverse split as cash in lieu', () => {
+    const reverse: MarketData = {
+      AAPL: {
+        ticker: 'AAPL', price: 900, dailyChange: 0, dailyChangePercent: 0,
+        corporateActions: [{ ticker: 'AAPL', type: 'split', date: '2024-01-10', ratio: 0.1 }],
+      },
+    };
+
+    const result = applyCorporateActions(agent, [], reverse, 5);
+
+    expect(result.agent.portfolio.positions.AAPL.quantity).toBe(1);
+    expect(result.agent.portfolio.cash).toBeCloseTo(1000 + 0.5 * 900);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseDecisionJson } from '../utils/decisionJson';
+
+describe('Decision JSON repair', () => {
+  it('parses JSON wrapped in a markdown fence', () => {
+    const text = '```json\n{"rationale": "Buy tech", "trades": [{"ticker": "AAPL", "action": "buy", "quantity": 10}]}\n```';
+    expect(parseDecisionJson(text, 'Test')).toEqual({
+      rationale: 'Buy tech',
+      trades: [{ ticker: 'AAPL', action: 'buy', quantity: 10 }],
+    });
+  });
+
+  it('keeps only the complete trades when the output is cut off mid-array', () => {
+    const text = '{"rationale": "Rotate", "trades": [{"ticker": "AAPL", "action": "buy", "quantity": 10}, {"ticker": "MSFT", "act';
+    expect(parseDecisionJson(text, 'Test')).toEqual({
+      rationale: 'Rotate',
+      trades: [{ ticker: 'AAPL', action: 'buy', quantity: 10 }],
+    });
+  });
+
+  it('falls back to the rationale alone and throws when there is none', () => {
+    const text = '{"rationale": "Stay put", "trades": [oops]}';
+    expect(parseDecisionJson(text, 'Test')).toEqual({ rationale: 'Stay put', trades: [] });
+    expect(() => parseDecisionJson('not json at all', 'Test')).toThrow();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import { addDecisionCompliance, getRejectedTradeIndexes, validateTradeDecision } from '../utils/decisionSchema';
+
+describe('Decision schema validation', () => {
+  const tickers = ['AAPL', 'MSFT'];
+
+  it('accepts a well-formed decision', () => {
+    const validation = validateTradeDecision({
+      rationale: 'Rebalance',
+      trades: [
+        { ticker: 'AAPL', action: 'buy', quantity: 10, fairValue: 190 },
+        { ticker: 'MSFT', action: 'sell', quantity: 5, orderType: 'limit', limitPrice: 420, timeInForce: 'gtc' },
+      ],
+    }, tickers);
+    expect(validation).toEqual({ compliant: true, repaired: false, errors: [] });
+  });
+
+  it('reports per-field errors and rejects only trades with broken order fields', () => {
+    const validation = validateTradeDecision({
+      trades: [
+        { ticker: 'AAPL', action: 'buy', quantity: -3 },
+        { ticker: 'ZZZ', action: 'hold', quantity: 2.5 },
+        { ticker: 'MSFT', action: 'buy', quantity: 1, fairValue: 'high' },
+        { ticker: 'MSFT', action: 'buy', quantity: 1, orderType: 'stop' },
+      ],
+    }, tickers);
+
+    expect(validation.errors.map(error => error.path)).toEqual([
+      'rationale',
+      'trades[0].quantity',
+      'trades[1].ticker',
+      'trades[1].action',
+      'trades[1].quantity',
+      'trades[2].fairValue',
+      'trades[3].stopPrice',
+    ]);
+    expect(validation.errors[1]).toMatchObject({ ticker: 'AAPL', action: 'buy', quantity: -3, rejectsTrade: true });
+    expect(Array.from(getRejectedTradeIndexes(validation))).toEqual([0, 1, 3]);
+  });
+
+  it('counts repaired responses as non-compliant', () => {
+    const validation = validateTradeDecision({ rationale: 'Hold', trades: [] }, tickers, true);
+    expect(validation.compliant).toBe(false);
+    expect(addDecisionCompliance(addDecisionCompliance(undefined, validation), { compliant: true, repaired: false, errors: [] }))
+      .toEqual({ decisions: 2, compliant: 1, repaired: 1, fieldErrors: 0 });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeAll } from '@jest/globals';
-import { step, tradeWindow, advanceDay } from '../simulation/engine';
-import type { MarketData, Agent, Benchmark } from '../../../shared/types';
+import { step, tradeWindow, advanceDay, retireAgent } from '../simulation/engine';
+import type { MarketData, Agent, Benchmark, ChatState } from '../../../shared/types';
 import { INITIAL_CASH } from '../constants';
 
 // Simple smoke test for engine functions
@@ -39,7 +39,21 @@ describe('Simulation Engine', () => {
     id: 'SPY',
     name: 'S&P 500',
     color: '#A3A3A3',
-    performanceHistory: [],
+    performanceHistory: [{
+      totalValue: INITIAL_CASH,
+      totalReturn: 0,
+      dailyReturn: 0,
+      annualizedVolatility: 0,
+      sharpeRatio: 0,
+      maxDrawdown: 0,
+      turnover: 0,
+      timestamp: 0,
+    }],
+  };
+
+  const mockChat: ChatState = {
+    config: { enabled: false, maxMessagesPerAgent: 0, maxMessagesPerUser: 0, maxMessageLength: 0 },
+    messages: [],
   };
 
   it('step() should update portfolio values with new market data', async () => {
@@ -49,6 +63,7 @@ describe('Simulation Engine', () => {
       marketData: mockMarketData,
       agents: [mockAgent],
       benchmarks: [mockBenchmark],
+      chat: mockChat,
     };
 
     const newMarketData: MarketData = {
@@ -70,6 +85,7 @@ describe('Simulation Engine', () => {
       marketData: mockMarketData,
       agents: [mockAgent],
       benchmarks: [mockBenchmark],
+      chat: mockChat,
     };
 
     const newMarketData: MarketData = {
@@ -82,6 +98,92 @@ describe('Simulation Engine', () => {
     expect(result.day).toBe(1);
     expect(result.intradayHour).toBe(0);
   });
-});
 
+  it('step() cancels a triggered order it cannot afford and reports why', async () => {
+    const shortOfCash: Agent = { ...mockAgent, portfolio: { cash: 100, positions: {} } };
+    const result = await step({
+      day: 1,
+      intradayHour: 1,
+      marketData: mockMarketData,
+      agents: [shortOfCash],
+      benchmarks: [mockBenchmark],
+      chat: mockChat,
+      orderBooks: {
+        'test-agent': [{
+          id: 'limit-1',
+          agentId: 'test-agent',
+          ticker: 'AAPL',
+          action: 'buy',
+          quantity: 10,
+          orderType: 'limit',
+          limitPrice: 148,
+          timeInForce: 'gtc',
+          status: 'open',
+          createdAt: 1,
+          createdDay: 1,
+        }],
+      },
+    }, { ...mockMarketData, AAPL: { ...mockMarketData.AAPL, price: 147 } });
+
+    expect(result.orderBooks['test-agent']).toEqual([]);
+    const failed = (result.agents[0].memory as any).failedTrades;
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ ticker: 'AAPL', action: 'buy', quantity: 10 });
+    expect(failed[0].reason).toMatch(/^limit order limit-1 cancelled after filling 0 of 10: Insufficient cash/);
+  });
+
+  it('retireAgent() liquidates positions and stops the agent trading', async () => {
+    const holder: Agent = {
+      ...mockAgent,
+      portfolio: {
+        cash: INITIAL_CASH - 1500,
+        positions: { AAPL: { ticker: 'AAPL', quantity: 10, averageCost: 150 } },
+      },
+    };
+
+    const { agent: retired, unfilled } = retireAgent(holder, {
+      marketData: mockMarketData,
+      day: 3,
+      intradayHour: 2,
+      timestamp: 3.2,
+      reason: 'Replaced',
+    });
 
+    expect(unfilled).toEqual([]);
+    expect(retired.retiredAt).toBe(3.2);
+    expect(Object.keys(retired.portfolio.positions)).toHaveLength(0);
+    expect(retired.tradeHistory).toHaveLength(1);
+    expect(retired.tradeHistory[0].action).toBe('sell');
+    expect(retired.rationaleHistory[3]).toBe('Retired: Replaced. Positions liquidated to cash.');
+
+    const later = await step({
+      day: 3,
+      intradayHour: 4,
+      marketData: mockMarketData,
+      agents: [retired],
+      benchmarks: [mockBenchmark],
+      chat: mockChat,
+    }, { ...mockMarketData, AAPL: { ...mockMarketData.AAPL, price: 200 } });
+    expect(later.agents[0]).toBe(retired);
+  });
+
+  it('retireAgent() keeps the agent active when a position cannot be liquidated', () => {
+    const holder: Agent = {
+      ...mockAgent,
+      portfolio: {
+        cash: INITIAL_CASH - 500,
+        positions: { XYZ: { ticker: 'XYZ', quantity: 5, averageCost: 100 } },
+      },
+    };
+
+    const result = retireAgent(holder, {
+      marketData: mockMarketData,
+      day: 3,
+      intradayHour: 2,
+      timestamp: 3.2,
+    });
+
+    expect(result.unfilled).toEqual(['XYZ']);
+    expect(result.agent).toBe(holder);
+  });
+});
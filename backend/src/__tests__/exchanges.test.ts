@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { describeExchangeHours, getTickerExchange, isExchangeOpen } from '../simulation/exchanges';
+import { getOpenTickers } from '../simulation/instruments';
+import { setDateToMarketOpenET, zonedTimeToUtc } from '../simulation/marketHours';
+import type { MarketData } from '../types';
+
+const quote = (ticker: string): MarketData[string] => ({
+  ticker,
+  price: 100,
+  dailyChange: 0,
+  dailyChangePercent: 0,
+});
+
+describe('exchange profiles', () => {
+  it('follows each venue through its own daylight saving changes', () => {
+    // 08:00 London is 07:00 UTC in summer and 08:00 UTC in winter
+    expect(isExchangeOpen('lse', new Date('2025-07-15T07:30:00Z'))).toBe(true); // 08:30 BST
+    expect(isExchangeOpen('lse', new Date('2025-01-15T07:30:00Z'))).toBe(false); // 07:30 GMT
+    expect(isExchangeOpen('lse', new Date('2025-01-15T08:30:00Z'))).toBe(true);
+    expect(isExchangeOpen('xetra', new Date('2025-07-15T15:00:00Z'))).toBe(true); // 17:00 CEST
+    expect(isExchangeOpen('xetra', new Date('2025-07-15T15:45:00Z'))).toBe(false);
+    // Opens on either side of the spring clock changes
+    expect(zonedTimeToUtc(2025, 3, 31, 8 * 60, 'Europe/London').toISOString()).toBe('2025-03-31T07:00:00.000Z');
+    expect(setDateToMarketOpenET(new Date('2025-03-10')).toISOString()).toBe('2025-03-10T13:30:00.000Z');
+    expect(setDateToMarketOpenET(new Date('2025-03-07')).toISOString()).toBe('2025-03-07T14:30:00.000Z');
+  });
+
+  it('closes for lunch, local holidays and half days', () => {
+    expect(isExchangeOpen('tse', new Date('2025-07-15T01:00:00Z'))).toBe(true); // 10:00 JST
+    expect(isExchangeOpen('tse', new Date('2025-07-15T03:00:00Z'))).toBe(false); // 12:00 lunch break
+    expect(isExchangeOpen('tse', new Date('2025-07-21T01:00:00Z'))).toBe(false); // Marine Day
+    expect(isExchangeOpen('xetra', new Date('2025-05-01T10:00:00Z'))).toBe(false); // Labour Day
+    expect(isExchangeOpen('lse', new Date('2025-08-25T10:00:00Z'))).toBe(false); // Summer Bank Holiday
+    expect(isExchangeOpen('lse', new Date('2025-12-24T11:00:00Z'))).toBe(true);
+    expect(isExchangeOpen('lse', new Date('2025-12-24T13:00:00Z'))).toBe(false); // 12:30 close
+    expect(isExchangeOpen('crypto', new Date('2025-12-25T03:00:00Z'))).toBe(true);
+    expect(describeExchangeHours('tse')).toBe('09:00-11:30 and 12:30-15:30 Asia/Tokyo');
+  });
+
+  it('lists tickers by suffix, quote or the arena default and trades them in their own session', () => {
+    expect(getTickerExchange('VOD.L')).toBe('lse');
+    expect(getTickerExchange('SAP.DE')).toBe('xetra');
+    expect(getTickerExchange('7203.T')).toBe('tse');
+    expect(getTickerExchange('AAPL')).toBe('nyse');
+    expect(getTickerExchange('SIE', undefined, 'xetra')).toBe('xetra');
+    expect(getTickerExchange('SONY', { ...quote('SONY'), exchange: 'tse' })).toBe('tse');
+
+    const marketData: MarketData = { AAPL: quote('AAPL'), 'VOD.L': quote('VOD.L'), 'BTC-USD': quote('BTC-USD') };
+    // 10:00 London, 05:00 New York
+    expect(getOpenTickers(marketData, new Date('2025-07-15T09:00:00Z'))).toEqual(['VOD.L', 'BTC-USD']);
+    expect(getOpenTickers(marketData, new Date('2025-07-15T09:00:00Z'), 'lse')).toEqual(['AAPL', 'VOD.L', 'BTC-USD']);
+  });
+});
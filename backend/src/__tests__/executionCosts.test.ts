@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { getExecutionPrice, getExtendedHoursExecutionCost } from '../simulation/executionCosts';
+import type { ExecutionCostConfig, TickerData } from '../types';
+
+describe('Execution cost model', () => {
+  const config: ExecutionCostConfig = {
+    model: 'square_root',
+    halfSpreadBps: 2,
+    impactCoefficient: 0.02,
+    maxImpactBps: 500,
+  };
+
+  const thinName: TickerData = { ticker: 'THIN', price: 20, dailyChange: 0, dailyChangePercent: 0, averageVolume: 50000 };
+
+  it('charges spread plus square-root impact on large orders', () => {
+    // 5,000 shares = 10% of ADV: 2 bps spread + 0.02 * sqrt(0.1) impact
+    const buy = getExecutionPrice('buy', 5000, 20, thinName, config);
+    const sell = getExecutionPrice('sell', 5000, 20, thinName, config);
+
+    expect(buy.price).toBeCloseTo(20 * (1 + 0.0002 + 0.02 * Math.sqrt(0.1)), 3);
+    expect(sell.price).toBeCloseTo(20 * (1 - 0.0002 - 0.02 * Math.sqrt(0.1)), 3);
+    expect(buy.referencePrice).toBe(20);
+    expect(buy.slippage).toBeCloseTo((buy.price - 20) * 5000, 1);
+  });
+
+  it('never fills beyond a limit price', () => {
+    const fill = getExecutionPrice('buy', 5000, 20, thinName, config, 20.1);
+
+    expect(fill.price).toBe(20.1);
+  });
+
+  it('widens the spread and thins liquidity outside the regular session', () => {
+    const extended = getExtendedHoursExecutionCost(config, { enabled: true, spreadMultiplier: 4, liquidityFraction: 0.1 });
+    // 10% of ADV trades like 100% of the thinner session volume
+    const buy = getExecutionPrice('buy', 5000, 20, thinName, extended);
+
+    expect(buy.price).toBeCloseTo(20 * (1 + 0.0008 + 0.02), 3);
+  });
+
+  it('fills at the quote when costs are disabled', () => {
+    const fill = getExecutionPrice('buy', 5000, 20, thinName, { ...config, model: 'none' });
+
+    expect(fill).toEqual({ price: 20, referencePrice: 20, slippage: 0 });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseOhlcvCsv } from '../services/fileMarketDataService';
+
+describe('File market data', () => {
+  it('parses OHLCV rows with any header casing and sorts by date', () => {
+    const csv = [
+      'Date,Open,High,Low,Close,Adj Close,Volume',
+      '2024-01-03,101,103,100,102,101.5,2000',
+      '2024-01-02,99,101,98,100,99.5,1000',
+      '',
+    ].join('\n');
+
+    const history = parseOhlcvCsv(csv);
+
+    expect(history.map(point => point.close)).toEqual([100, 102]);
+    expect(history[0].date.toISOString()).toBe('2024-01-02T00:00:00.000Z');
+    expect(history[1]).toMatchObject({ open: 101, high: 103, low: 100, adjClose: 101.5, volume: 2000 });
+  });
+
+  it('drops rows without a usable close', () => {
+    const history = parseOhlcvCsv('date,close\n2024-01-02,\n2024-01-03,50\nnot-a-date,10');
+
+    expect(history).toHaveLength(1);
+    expect(history[0].close).toBe(50);
+  });
+});
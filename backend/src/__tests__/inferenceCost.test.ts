@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { addInferenceUsage, getInferenceCost, getReturnPerDollar, isInferenceBudgetExhausted } from '../utils/inferenceCost';
+import type { Agent, InferenceUsageRecord } from '../types';
+
+const createRecord = (day: number, promptTokens: number, completionTokens: number): InferenceUsageRecord => ({
+  day,
+  intradayHour: 0,
+  model: 'google/gemini-2.5-flash',
+  promptTokens,
+  completionTokens,
+  cost: getInferenceCost('google/gemini-2.5-flash', promptTokens, completionTokens),
+  calls: 1,
+});
+
+describe('Inference cost accounting', () => {
+  it('prices tokens from the model table and treats unknown models as free', () => {
+    expect(getInferenceCost('google/gemini-2.5-flash', 1_000_000, 100_000)).toBeCloseTo(0.55);
+    expect(getInferenceCost('google/gemini-2.5-flash:free', 1_000_000, 0)).toBeCloseTo(0.3);
+    expect(getInferenceCost('local/llama', 1_000_000, 1_000_000)).toBe(0);
+  });
+
+  it('accumulates rounds and stops the agent at its budget', () => {
+    const usage = addInferenceUsage(addInferenceUsage(undefined, createRecord(1, 2_000_000, 0)), createRecord(2, 0, 200_000));
+    expect(usage).toMatchObject({ promptTokens: 2_000_000, completionTokens: 200_000, calls: 2 });
+    expect(usage!.cost).toBeCloseTo(1.1);
+    expect(usage!.rounds).toHaveLength(2);
+
+    const agent: Agent = {
+      id: 'test-agent',
+      name: 'Test Agent',
+      model: 'google/gemini-2.5-flash',
+      color: '#000000',
+      portfolio: { cash: 0, positions: {} },
+      tradeHistory: [],
+      performanceHistory: [{
+        totalValue: 1_011_000,
+        totalReturn: 0.011,
+        dailyReturn: 0,
+        annualizedVolatility: 0,
+        sharpeRatio: 0,
+        maxDrawdown: 0,
+        turnover: 0,
+        timestamp: 2,
+      }],
+      rationale: 'Test',
+      rationaleHistory: {},
+      inferenceUsage: usage,
+      inferenceBudget: 1,
+    };
+    expect(isInferenceBudgetExhausted(agent)).toBe(true);
+    expect(isInferenceBudgetExhausted({ ...agent, inferenceBudget: 2 })).toBe(false);
+    expect(getReturnPerDollar(agent)).toBeCloseTo(10_000);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  calculateInstrumentFee,
+  calculateMaxAffordableQuantity,
+  checkInstrumentOrders,
+  getInstrumentSession,
+  getInstrumentType,
+  INSTRUMENT_PROFILES,
+  isInstrumentOpen,
+} from '../simulation/instruments';
+import type { MarketData } from '../types';
+
+const marketData: MarketData = {
+  AAPL: { ticker: 'AAPL', price: 200, dailyChange: 0, dailyChangePercent: 0 },
+  TLT: { ticker: 'TLT', price: 90, dailyChange: 0, dailyChangePercent: 0 },
+  'BTC-USD': { ticker: 'BTC-USD', price: 80000, dailyChange: 0, dailyChangePercent: 0 },
+  'EURUSD=X': { ticker: 'EURUSD=X', price: 1.1, dailyChange: 0, dailyChangePercent: 0 },
+};
+
+// Saturday 2025-06-14, noon ET
+const saturday = new Date('2025-06-14T16:00:00Z');
+// Tuesday 2025-06-10, 8 PM ET
+const tuesdayEvening = new Date('2025-06-11T00:00:00Z');
+
+describe('Instruments', () => {
+  it('infers the asset class from the ticker unless the data sets it', () => {
+    expect(getInstrumentType('AAPL')).toBe('equity');
+    expect(getInstrumentType('TLT')).toBe('bond_etf');
+    expect(getInstrumentType('BTC-USD')).toBe('crypto');
+    expect(getInstrumentType('EURUSD=X')).toBe('fx');
+    expect(getInstrumentType('XYZ', { ticker: 'XYZ', price: 1, dailyChange: 0, dailyChangePercent: 0, instrumentType: 'etf' })).toBe('etf');
+  });
+
+  it('keeps crypto open around the clock and FX through the week', () => {
+    expect(isInstrumentOpen('crypto', saturday)).toBe(true);
+    expect(isInstrumentOpen('fx', saturday)).toBe(false);
+    expect(isInstrumentOpen('fx', tuesdayEvening)).toBe(true);
+    expect(isInstrumentOpen('equity', tuesdayEvening)).toBe(false);
+  });
+
+  it('rejects closed markets and disallowed classes and rounds quantities to lots', () => {
+    const { trades, failures } = checkInstrumentOrders([
+      { ticker: 'AAPL', action: 'buy', quantity: 10 },
+      { ticker: 'BTC-USD', action: 'buy', quantity: 1 },
+      { ticker: 'EURUSD=X', action: 'buy', quantity: 2500 },
+      { ticker: 'TLT', action: 'buy', quantity: 5 },
+    ], { marketData, instrumentTypes: ['equity', 'crypto', 'fx'], date: tuesdayEvening });
+
+    expect(trades).toEqual([
+      { ticker: 'BTC-USD', action: 'buy', quantity: 1 },
+      { ticker: 'EURUSD=X', action: 'buy', quantity: 2000 },
+    ]);
+    expect(failures.map(failure => failure.reason)).toEqual([
+      'Equity market is closed',
+      'Rounded down to 2000: FX pair instruments trade in lots of 1000',
+      'Bond ETF instruments are not tradable in this arena',
+    ]);
+  });
+
+  it('opens NYSE pre-market and after-hours only to arenas that opt in', () => {
+    // Tuesday 2025-06-10, 7 AM and 7 PM ET
+    const preMarket = new Date('2025-06-10T11:00:00Z');
+    const afterHours = new Date('2025-06-10T23:00:00Z');
+
+    expect(isInstrumentOpen('equity', preMarket)).toBe(false);
+    expect(isInstrumentOpen('equity', preMarket, 'nyse', true)).toBe(true);
+    expect(isInstrumentOpen('equity', tuesdayEvening, 'nyse', true)).toBe(false); // 8 PM close
+    expect(getInstrumentSession('AAPL', marketData.AAPL, preMarket)).toBe('pre_market');
+    expect(getInstrumentSession('AAPL', marketData.AAPL, afterHours)).toBe('after_hours');
+    expect(getInstrumentSession('BTC-USD', marketData['BTC-USD'], afterHours)).toBeUndefined();
+
+    const { trades } = checkInstrumentOrders([{ ticker: 'AAPL', action: 'buy', quantity: 10 }], { marketData, date: afterHours, extendedHours: true });
+    expect(trades).toHaveLength(1);
+  });
+
+  it('charges each class its own fees when sizing affordable buys', () => {
+    expect(calculateInstrumentFee(100_000, INSTRUMENT_PROFILES.crypto)).toBeCloseTo(100);
+    expect(calculateInstrumentFee(100, INSTRUMENT_PROFILES.fx)).toBeCloseTo(0.01);
+    // $10,000 buys 9,000 EUR in whole lots of 1,000
+    expect(calculateMaxAffordableQuantity(1.1, 10_000, INSTRUMENT_PROFILES.fx)).toBe(9000);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from '@jest/globals';
+import { getMarginSummary, calculateDailyFinancingCharges } from '../utils/marginCalculations';
+import type { MarketData, MarginConfig, Portfolio } from '../types';
+
+describe('Margin calculations', () => {
+  const marketData: MarketData = {
+    AAPL: { ticker: 'AAPL', price: 100, dailyChange: 0, dailyChangePercent: 0 },
+    MSFT: { ticker: 'MSFT', price: 200, dailyChange: 0, dailyChangePercent: 0 },
+  };
+
+  const margin: MarginConfig = {
+    enabled: true,
+    initialMarginRate: 0.5,
+    maintenanceMarginRate: 0.3,
+    shortBorrowFeeRate: 0.0252,
+    marginInterestRate: 0.0504,
+  };
+
+  it('treats negative quantities as short exposure', () => {
+    // Short 100 MSFT @ 200 credited $20k to cash
+    const portfolio: Portfolio = {
+      cash: 120000,
+      positions: {
+        AAPL: { ticker: 'AAPL', quantity: 100, averageCost: 90 },
+        MSFT: { ticker: 'MSFT', quantity: -100, averageCost: 210 },
+      },
+    };
+
+    const summary = getMarginSummary(portfolio, marketData, margin);
+
+    expect(summary.longMarketValue).toBe(10000);
+    expect(summary.shortMarketValue).toBe(20000);
+    expect(summary.equity).toBe(110000);
+    expect(summary.grossExposure).toBe(30000);
+    expect(summary.buyingPower).toBe(190000);
+    expect(summary.isMarginCall).toBe(false);
+  });
+
+  it('flags a margin call when equity drops below maintenance', () => {
+    const portfolio: Portfolio = {
+      cash: 205000,
+      positions: {
+        MSFT: { ticker: 'MSFT', quantity: -1000, averageCost: 150 },
+      },
+    };
+
+    const summary = getMarginSummary(portfolio, marketData, margin);
+
+    expect(summary.equity).toBe(5000);
+    expect(summary.isMarginCall).toBe(true);
+  });
+
+  it('charges borrow fees on shorts and interest on debit cash', () => {
+    const portfolio: Portfolio = {
+      cash: -10000,
+      positions: {
+        MSFT: { ticker: 'MSFT', quantity: -100, averageCost: 200 },
+      },
+    };
+
+    const { borrowFee, marginInterest } = calculateDailyFinancingCharges(portfolio, marketData, margin);
+
+    expect(borrowFee).toBeCloseTo(20000 * 0.0252 / 252);
+    expect(marginInterest).toBeCloseTo(10000 * 0.0504 / 252);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from '@jest/globals';
+import { getEarlyCloses, getMarketHoliday, getMarketHolidays, isTradingDate } from '../simulation/marketCalendar';
+import { getNextMarketOpen, isMarketOpen } from '../simulation/marketHours';
+
+describe('NYSE calendar', () => {
+  it('generates the full holiday and early-close schedule for a year', () => {
+    expect(getMarketHolidays(2025).map(day => day.date)).toEqual([
+      '2025-01-01', '2025-01-09', '2025-01-20', '2025-02-17', '2025-04-18', '2025-05-26',
+      '2025-06-19', '2025-07-04', '2025-09-01', '2025-11-27', '2025-12-25',
+    ]);
+    expect(getEarlyCloses(2025).map(day => day.date)).toEqual(['2025-07-03', '2025-11-28', '2025-12-24']);
+  });
+
+  it('moves weekend holidays to the nearest weekday', () => {
+    // July 4th 2026 is a Saturday: closed Friday, and no early close the day before
+    expect(getMarketHoliday(2026, 7, 3)).toBe('Independence Day');
+    expect(getEarlyCloses(2026).map(day => day.date)).toEqual(['2026-11-27', '2026-12-24']);
+    // Christmas 2022 is a Sunday
+    expect(getMarketHoliday(2022, 12, 26)).toBe('Christmas Day');
+    // New Year's Day 2022 is a Saturday and is not made up on December 31st
+    expect(isTradingDate(2021, 12, 31)).toBe(true);
+    expect(getMarketHoliday(2022, 1, 3)).toBeUndefined();
+    // Juneteenth only from 2022
+    expect(isTradingDate(2021, 6, 18)).toBe(true);
+  });
+
+  it('closes the market on holidays and at 1 PM on early-close days', () => {
+    expect(isMarketOpen(new Date('2025-11-27T15:00:00Z'))).toBe(false); // Thanksgiving, 10 AM ET
+    expect(isMarketOpen(new Date('2025-11-28T17:00:00Z'))).toBe(true); // 12 PM ET
+    expect(isMarketOpen(new Date('2025-11-28T18:30:00Z'))).toBe(false); // 1:30 PM ET
+    expect(isMarketOpen(new Date('2025-04-18T15:00:00Z'))).toBe(false); // Good Friday
+  });
+
+  it('skips holidays when finding the next open', () => {
+    // Wednesday evening before Thanksgiving opens Friday
+    expect(getNextMarketOpen(new Date('2025-11-26T22:00:00Z')).toISOString()).toBe('2025-11-28T14:30:00.000Z');
+    // After the early close on Christmas Eve, the next open is December 26th
+    expect(getNextMarketOpen(new Date('2025-12-24T18:30:00Z')).toISOString()).toBe('2025-12-26T14:30:00.000Z');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildCorrelationMatrix, choleskyDecompose, getMarketRegime, simulatePriceStep } from '../simulation/marketModels';
+import { createSeededRandom } from '../utils/seededRandom';
+import type { MarketData, MarketModelConfig } from '../types';
+
+describe('Market models', () => {
+  const config: MarketModelConfig = {
+    model: 'gbm',
+    sectorCorrelation: 0.6,
+    crossSectorCorrelation: 0.3,
+    jumpIntensity: 4,
+    jumpMean: -0.01,
+    jumpVolatility: 0.06,
+    bullToBearProbability: 0.01,
+    bearToBullProbability: 0.04,
+    bearDriftShift: -0.4,
+    bearVolatilityMultiplier: 1.8,
+  };
+
+  it('builds a sector-driven correlation matrix that Cholesky reproduces', () => {
+    const matrix = buildCorrelationMatrix(['Technology', 'Technology', 'Energy'], config);
+
+    expect(matrix).toEqual([
+      [1, 0.6, 0.3],
+      [0.6, 1, 0.3],
+      [0.3, 0.3, 1],
+    ]);
+
+    const lower = choleskyDecompose(matrix);
+    matrix.forEach((row, i) => row.forEach((value, j) => {
+      const product = lower[i].reduce((sum, _, k) => sum + lower[i][k] * lower[j][k], 0);
+      expect(product).toBeCloseTo(value);
+    }));
+  });
+
+  it('recomputes the same regime path for a seed', () => {
+    const path = Array.from({ length: 200 }, (_, day) => getMarketRegime(11, day, config));
+
+    expect(getMarketRegime(11, 150, config)).toBe(path[150]);
+    expect(path[0]).toBe('bull');
+  });
+
+  it('applies per-ticker overrides and is deterministic for a seed', () => {
+    const marketData: MarketData = {
+      AAPL: { ticker: 'AAPL', price: 100, dailyChange: 0, dailyChangePercent: 0 },
+      XOM: { ticker: 'XOM', price: 100, dailyChange: 0, dailyChangePercent: 0 },
+    };
+    const frozen: MarketModelConfig = { ...config, tickerDynamics: { XOM: { drift: 0, volatility: 0 } } };
+
+    const first = simulatePriceStep(marketData, ['AAPL', 'XOM'], { config: frozen, random: createSeededRandom(3, 'test'), dtDays: 1 });
+    const second = simulatePriceStep(marketData, ['AAPL', 'XOM'], { config: frozen, random: createSeededRandom(3, 'test'), dtDays: 1 });
+
+    expect(first).toEqual(second);
+    expect(first.XOM).toBeCloseTo(100);
+    expect(first.AAPL).not.toBe(100);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from '@jest/globals';
+import { evaluateOrder, getTickPriceBar, matchOrders } from '../simulation/orderBook';
+import type { MarketData, Order } from '../types';
+
+describe('Order book matching', () => {
+  const baseOrder: Order = {
+    id: 'agent-1-0',
+    agentId: 'agent-1',
+    ticker: 'AAPL',
+    action: 'buy',
+    quantity: 10,
+    orderType: 'limit',
+    limitPrice: 98,
+    timeInForce: 'gtc',
+    status: 'open',
+    createdAt: 0,
+    createdDay: 0,
+  };
+
+  it('widens the tick bar with a new session low', () => {
+    const bar = getTickPriceBar(
+      { ticker: 'AAPL', price: 100, dailyChange: 0, dailyChangePercent: 0, dayLow: 99, dayHigh: 101 },
+      { ticker: 'AAPL', price: 101, dailyChange: 0, dailyChangePercent: 0, dayLow: 97, dayHigh: 101 }
+    );
+
+    expect(bar).toEqual({ open: 100, high: 101, low: 97, close: 101 });
+  });
+
+  it('fills a buy limit at its level, or at the open on a gap', () => {
+    expect(evaluateOrder(baseOrder, { open: 100, high: 101, low: 97, close: 100 })).toEqual({ fillPrice: 98 });
+    expect(evaluateOrder(baseOrder, { open: 95, high: 96, low: 94, close: 95 })).toEqual({ fillPrice: 95 });
+    expect(evaluateOrder(baseOrder, { open: 100, high: 101, low: 99, close: 100 })).toEqual({});
+  });
+
+  it('fills a sell stop once price trades through it', () => {
+    const stop: Order = { ...baseOrder, action: 'sell', orderType: 'stop', limitPrice: undefined, stopPrice: 95 };
+
+    expect(evaluateOrder(stop, { open: 100, high: 100, low: 94, close: 96 })).toEqual({ fillPrice: 95 });
+    expect(evaluateOrder(stop, { open: 90, high: 91, low: 89, close: 90 })).toEqual({ fillPrice: 90 });
+  });
+
+  it('leaves a stop-limit resting as triggered when the trigger price breaks the limit', () => {
+    const stopLimit: Order = { ...baseOrder, orderType: 'stop_limit', stopPrice: 102, limitPrice: 103 };
+    const previous: MarketData = { AAPL: { ticker: 'AAPL', price: 105, dailyChange: 0, dailyChangePercent: 0 } };
+    const next: MarketData = { AAPL: { ticker: 'AAPL', price: 106, dailyChange: 0, dailyChangePercent: 0 } };
+
+    const { fills, remaining } = matchOrders([stopLimit], previous, next, 1.5);
+
+    expect(fills).toHaveLength(0);
+    expect(remaining[0].status).toBe('triggered');
+    expect(remaining[0].triggeredAt).toBe(1.5);
+  });
+});
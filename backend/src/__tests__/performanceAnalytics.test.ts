@@ -0,0 +1,52 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculatePerformanceAnalytics, getRealizedTradePnl } from '../utils/performanceAnalytics';
+import type { Agent, Benchmark, PerformanceMetrics } from '../types';
+
+const toHistory = (values: number[]): PerformanceMetrics[] => values.map((totalValue, day) => ({
+  totalValue,
+  totalReturn: 0,
+  dailyReturn: 0,
+  annualizedVolatility: 0,
+  sharpeRatio: 0,
+  maxDrawdown: 0,
+  turnover: 0,
+  timestamp: day,
+}));
+
+describe('Performance analytics', () => {
+  it('realizes P&L on closing trades with average-cost accounting', () => {
+    const pnl = getRealizedTradePnl([
+      { ticker: 'AAPL', action: 'buy', quantity: 10, price: 100, timestamp: 0 },
+      { ticker: 'AAPL', action: 'buy', quantity: 10, price: 120, timestamp: 1 },
+      { ticker: 'AAPL', action: 'buy', quantity: 20, price: 0, timestamp: 2, corporateAction: 'split' },
+      { ticker: 'AAPL', action: 'sell', quantity: 20, price: 60, timestamp: 3, fees: 1 },
+      { ticker: 'AAPL', action: 'sell', quantity: 20, price: 50, timestamp: 4 },
+    ]);
+
+    // Cost basis after the 2-for-1 split is $55
+    expect(pnl).toHaveLength(2);
+    expect(pnl[0]).toBeCloseTo(99);
+    expect(pnl[1]).toBeCloseTo(-100);
+  });
+
+  it('measures beta and tracking error against the benchmark', () => {
+    const benchmarkValues = [100, 101, 99, 102, 100, 103];
+    // Twice the benchmark's daily moves
+    const agentValues = benchmarkValues.reduce<number[]>((values, value, i) => {
+      if (i === 0) return [100];
+      const benchmarkReturn = value / benchmarkValues[i - 1] - 1;
+      return [...values, values[i - 1] * (1 + 2 * benchmarkReturn)];
+    }, []);
+
+    const agent = { id: 'a', performanceHistory: toHistory(agentValues), tradeHistory: [] } as unknown as Agent;
+    const benchmark = { id: 'SPY', performanceHistory: toHistory(benchmarkValues) } as unknown as Benchmark;
+
+    const analytics = calculatePerformanceAnalytics(agent, benchmark);
+
+    expect(analytics.tradingDays).toBe(5);
+    expect(analytics.beta).toBeCloseTo(2);
+    expect(analytics.trackingError).toBeGreaterThan(0);
+    expect(analytics.hitRate).toBeNull();
+    expect(calculatePerformanceAnalytics(agent).beta).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculatePerformanceAttribution } from '../utils/performanceAttribution';
+import type { Agent, Benchmark, MarketData, PerformanceMetrics } from '../types';
+
+const toHistory = (values: number[]): PerformanceMetrics[] => values.map((totalValue, day) => ({
+  totalValue,
+  totalReturn: 0,
+  dailyReturn: 0,
+  annualizedVolatility: 0,
+  sharpeRatio: 0,
+  maxDrawdown: 0,
+  turnover: 0,
+  timestamp: day * 2,
+}));
+
+describe('Performance attribution', () => {
+  const marketData: MarketData = {
+    AAPL: { ticker: 'AAPL', price: 110, dailyChange: 0, dailyChangePercent: 0, sector: 'Technology' },
+    MSFT: { ticker: 'MSFT', price: 100, dailyChange: 0, dailyChangePercent: 0, sector: 'Technology' },
+    XOM: { ticker: 'XOM', price: 90, dailyChange: 0, dailyChangePercent: 0, sector: 'Energy' },
+  };
+  const startPrices = { AAPL: 100, MSFT: 100, XOM: 100 };
+
+  const agent: Agent = {
+    id: 'test-agent',
+    name: 'Test Agent',
+    model: 'test-model',
+    color: '#000000',
+    portfolio: { cash: 0, positions: { AAPL: { ticker: 'AAPL', quantity: 5000, averageCost: 100 } } },
+    tradeHistory: [
+      { ticker: 'AAPL', action: 'buy', quantity: 5000, price: 100, timestamp: 0 },
+      { ticker: 'XOM', action: 'buy', quantity: 1000, price: 100, timestamp: 0, fees: 5 },
+      { ticker: 'XOM', action: 'sell', quantity: 1000, price: 90, timestamp: 1, fees: 5 },
+    ],
+    performanceHistory: toHistory([1_000_000, 1_039_990]),
+    rationale: 'Test',
+    rationaleHistory: {},
+  };
+
+  const benchmark: Benchmark = { id: 'SPY', name: 'S&P 500', color: '#ffffff', performanceHistory: toHistory([1_000_000, 1_010_000]) };
+
+  it('splits P&L by ticker and sector effects by time-weighted exposure', () => {
+    const result = calculatePerformanceAttribution(agent, marketData, startPrices, benchmark);
+
+    expect(result.tickers.map(t => [t.ticker, t.realizedPnl, t.unrealizedPnl])).toEqual([
+      ['AAPL', 0, 50000],
+      ['XOM', -10010, 0],
+    ]);
+
+    const technology = result.sectors.find(s => s.sector === 'Technology')!;
+    const energy = result.sectors.find(s => s.sector === 'Energy')!;
+    expect(technology.portfolioWeight).toBeCloseTo(0.5);
+    expect(technology.benchmarkWeight).toBeCloseTo(2 / 3);
+    expect(technology.benchmarkReturn).toBeCloseTo(0.05);
+    // XOM was held for one of the two time units
+    expect(energy.portfolioWeight).toBeCloseTo(0.05);
+
+    // Sector effects explain the return over the (flat) universe; the gap to the index is the residual
+    expect(result.allocationEffect + result.selectionEffect).toBeCloseTo(result.portfolioReturn);
+    expect(result.residual).toBeCloseTo(-0.01);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from '@jest/globals';
+import { applyRiskRules, getRiskReport, recordRiskViolations } from '../simulation/riskEngine';
+import type { Agent, MarketData, RiskViolation, Trade } from '../types';
+
+const marketData: MarketData = {
+  AAPL: { ticker: 'AAPL', price: 100, dailyChange: 0, dailyChangePercent: 0, sector: 'Technology' },
+  MSFT: { ticker: 'MSFT', price: 100, dailyChange: 0, dailyChangePercent: 0, sector: 'Technology' },
+  XOM: { ticker: 'XOM', price: 50, dailyChange: 0, dailyChangePercent: 0, sector: 'Energy' },
+};
+
+// $100k portfolio: $40k cash, $30k AAPL, $30k XOM
+const createAgent = (tradeHistory: Trade[] = []): Agent => ({
+  id: 'test-agent',
+  name: 'Test Agent',
+  model: 'test-model',
+  color: '#000000',
+  portfolio: {
+    cash: 40000,
+    positions: {
+      AAPL: { ticker: 'AAPL', quantity: 300, averageCost: 100 },
+      XOM: { ticker: 'XOM', quantity: 600, averageCost: 50 },
+    },
+  },
+  tradeHistory,
+  performanceHistory: [],
+  rationale: 'Test',
+  rationaleHistory: {},
+});
+
+const order = (ticker: string, action: 'buy' | 'sell', quantity: number) => ({ ticker, action, quantity });
+
+describe('Risk engine', () => {
+  it('resizes buys to the position and sector caps', () => {
+    const { trades, violations } = applyRiskRules(createAgent(), [order('AAPL', 'buy', 200), order('MSFT', 'buy', 300)], {
+      marketData,
+      timestamp: 3.2,
+      rules: { maxPositionWeight: 0.35, maxSectorWeight: 0.5 },
+    });
+
+    // AAPL can grow to $35k; Technology then has $15k of its $50k cap left for MSFT
+    expect(trades).toEqual([order('AAPL', 'buy', 50), order('MSFT', 'buy', 150)]);
+    expect(violations.map(violation => [violation.rule, violation.allowedQuantity])).toEqual([
+      ['maxPositionWeight', 50],
+      ['maxSectorWeight', 150],
+    ]);
+  });
+
+  it('keeps holdings above the invested floor and lets restricted names only close', () => {
+    const { trades, violations } = applyRiskRules(createAgent(), [order('AAPL', 'buy', 10), order('XOM', 'sell', 600), order('AAPL', 'sell', 100)], {
+      marketData,
+      timestamp: 3,
+      rules: { minInvestedFraction: 0.5, restrictedTickers: ['AAPL'] },
+    });
+
+    // Sells run first: XOM may release $10k of the $60k invested, which leaves nothing for AAPL
+    expect(trades).toEqual([order('XOM', 'sell', 200)]);
+    expect(violations.map(violation => [violation.rule, violation.ticker, violation.action, violation.allowedQuantity])).toEqual([
+      ['minInvestedFraction', 'XOM', 'sell', 200],
+      ['minInvestedFraction', 'AAPL', 'sell', 0],
+      ['restrictedTicker', 'AAPL', 'buy', 0],
+    ]);
+  });
+
+  it('counts earlier fills of the same day toward the turnover cap', () => {
+    const agent = createAgent([
+      { ticker: 'AAPL', action: 'buy', quantity: 100, price: 100, timestamp: 2.5 },
+      { ticker: 'AAPL', action: 'buy', quantity: 150, price: 100, timestamp: 3.1 },
+      // Corporate actions are not the agent's trades and leave the cap alone
+      { ticker: 'MSFT', action: 'sell', quantity: 200, price: 100, timestamp: 3, corporateAction: 'delisting' },
+    ]);
+    const { trades, violations } = applyRiskRules(agent, [order('XOM', 'buy', 200)], {
+      marketData,
+      timestamp: 3.4,
+      rules: { maxDailyTurnover: 0.2 },
+    });
+
+    expect(trades).toEqual([order('XOM', 'buy', 100)]);
+    expect(violations[0].message).toBe("Resized to 100 shares: today's traded value would exceed 20% of portfolio value");
+  });
+
+  it('passes orders through untouched without rules', () => {
+    const trades = [order('AAPL', 'buy', 10_000)];
+    expect(applyRiskRules(createAgent(), trades, { marketData, timestamp: 1 })).toEqual({ trades, violations: [] });
+  });
+
+  it('keeps running totals while capping the stored violations', () => {
+    const violation = (allowedQuantity: number, timestamp: number): RiskViolation => ({
+      rule: allowedQuantity === 0 ? 'restrictedTicker' : 'maxPositionWeight',
+      ticker: 'AAPL',
+      action: 'buy',
+      requestedQuantity: 10,
+      allowedQuantity,
+      timestamp,
+      message: 'test',
+    });
+
+    let agent = createAgent();
+    for (let round = 0; round < 60; round++) {
+      agent = { ...agent, ...recordRiskViolations(agent, [violation(0, round), violation(5, round)]) };
+    }
+
+    expect(agent.riskViolations).toHaveLength(100);
+    expect(agent.riskViolations![0].timestamp).toBe(10);
+    expect(agent.riskViolationCounts).toEqual({
+      total: 120,
+      rejected: 60,
+      resized: 60,
+      byRule: { restrictedTicker: 60, maxPositionWeight: 60 },
+    });
+    expect(getRiskReport([agent])[0]).toMatchObject({ violations: 120, rejected: 60, resized: 60 });
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from '@jest/globals';
+import { createSeededRandom } from '../utils/seededRandom';
+
+describe('Seeded random', () => {
+  const draw = (random: () => number, count: number) => Array.from({ length: count }, () => random());
+
+  it('replays the same sequence for the same seed and key', () => {
+    expect(draw(createSeededRandom(42, 'intraday', 3, 1.5), 5)).toEqual(draw(createSeededRandom(42, 'intraday', 3, 1.5), 5));
+  });
+
+  it('produces different sequences for different seeds or keys', () => {
+    const base = draw(createSeededRandom(42, 'day', 1), 5);
+
+    expect(draw(createSeededRandom(43, 'day', 1), 5)).not.toEqual(base);
+    expect(draw(createSeededRandom(42, 'day', 2), 5)).not.toEqual(base);
+  });
+
+  it('stays within [0, 1)', () => {
+    const values = draw(createSeededRandom(7, 'range'), 1000);
+
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  createInitialMarketData,
+  generateNextDayMarketData,
+  generateNextIntradayMarketData,
+  setSimulatedBenchmark,
+  setSimulationSeed,
+} from '../services/marketDataService';
+
+// ^GSPC level after every tick of a short simulated run
+const runBenchmarkPath = async (seed: number): Promise<number[]> => {
+  setSimulationSeed(seed);
+  let marketData = await createInitialMarketData(['AAPL', 'MSFT', 'NVDA']);
+  const path = [marketData['^GSPC'].price];
+  for (let day = 0; day < 3; day++) {
+    for (let hour = 0; hour < 6; hour += 2) {
+      marketData = await generateNextIntradayMarketData(marketData, day, hour, { hoursElapsed: 2 });
+      path.push(marketData['^GSPC'].price);
+    }
+    marketData = await generateNextDayMarketData(marketData, day + 1);
+    path.push(marketData['^GSPC'].price);
+  }
+  return path;
+};
+
+describe('Simulated benchmark', () => {
+  it('replays the same S&P 500 path for the same seed without fetching the index', async () => {
+    setSimulatedBenchmark(true);
+
+    const first = [await runBenchmarkPath(1), await runBenchmarkPath(2)];
+    const second = [await runBenchmarkPath(1), await runBenchmarkPath(2)];
+
+    expect(second).toEqual(first);
+    expect(first[0]).toHaveLength(13);
+    expect(first[0]).not.toEqual(first[1]);
+    // Moves with the equal-weighted universe, so it stays within a plausible range of its start
+    first.flat().forEach(price => {
+      expect(price).toBeGreaterThan(4000);
+      expect(price).toBeLessThan(7000);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { updateTaxLots } from '../simulation/taxLots';
+import type { Agent, LotReliefMethod, Trade } from '../types';
+
+const createAgent = (tradeHistory: Trade[]): Agent => ({
+  id: 'test-agent',
+  name: 'Test Agent',
+  model: 'test-model',
+  color: '#000000',
+  portfolio: { cash: 0, positions: {} },
+  tradeHistory,
+  performanceHistory: [],
+  rationale: 'Test',
+  rationaleHistory: {},
+});
+
+describe('Tax lots', () => {
+  const buys: Trade[] = [
+    { ticker: 'AAPL', action: 'buy', quantity: 10, price: 100, timestamp: 0, fees: 1 },
+    { ticker: 'AAPL', action: 'buy', quantity: 10, price: 120, timestamp: 2 },
+  ];
+  const sell = (extra: Partial<Trade> = {}): Trade =>
+    ({ ticker: 'AAPL', action: 'sell', quantity: 10, price: 130, timestamp: 5, ...extra });
+
+  const realizeWith = (method: LotReliefMethod, trade: Trade) =>
+    updateTaxLots(createAgent([...buys, trade]), method);
+
+  it('relieves lots FIFO, LIFO or by id and stores realized P&L on the sell', () => {
+    const fifo = realizeWith('fifo', sell());
+    // The $1 opening fee is part of the first lot's basis
+    expect(fifo.tradeHistory[2].realizedPnl).toBeCloseTo(299);
+    expect(fifo.taxLots!.realizedLots[0]).toMatchObject({ lotId: 'AAPL-1', holdingDays: 5 });
+    expect(fifo.taxLots!.openLots).toEqual([
+      { id: 'AAPL-2', ticker: 'AAPL', quantity: 10, costBasis: 120, openedAt: 2 },
+    ]);
+
+    expect(realizeWith('lifo', sell()).tradeHistory[2].realizedPnl).toBeCloseTo(100);
+    expect(realizeWith('specific', sell({ lotIds: ['AAPL-2'] })).taxLots!.realizedLots[0].lotId).toBe('AAPL-2');
+  });
+
+  it('flips through zero into a short lot and restates lots on a split', () => {
+    const agent = updateTaxLots(createAgent([
+      ...buys,
+      sell({ quantity: 25 }),
+      { ticker: 'AAPL', action: 'sell', quantity: 5, price: 0, timestamp: 6, corporateAction: 'split' },
+    ]));
+
+    expect(agent.taxLots!.realizedLots).toHaveLength(2);
+    expect(agent.taxLots!.openLots).toEqual([
+      { id: 'AAPL-3', ticker: 'AAPL', quantity: -10, costBasis: 65, openedAt: 5 },
+    ]);
+    // Already processed entries are not applied twice
+    expect(updateTaxLots(agent)).toBe(agent);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from '@jest/globals';
+import { calculateTournamentStats, type TournamentEntrant } from '../utils/tournamentStats';
+
+const entrants: TournamentEntrant[] = [
+  { id: 'steady', name: 'Steady', kind: 'agent' },
+  { id: 'coin', name: 'Coin Flip', kind: 'agent' },
+  { id: 'SPY', name: 'S&P 500', kind: 'benchmark' },
+];
+
+// Twelve runs: steady always beats the index by about a point, coin flips either side of it
+const runs = Array.from({ length: 12 }, (_, i) => {
+  const market = [0.02, -0.01, 0.03, 0.00, -0.02, 0.01, 0.04, -0.03, 0.02, 0.01, -0.01, 0.00][i];
+  return { steady: market + 0.01 + (i % 3) * 0.001, coin: market + (i % 2 === 0 ? 0.005 : -0.004), SPY: market };
+});
+
+describe('Tournament statistics', () => {
+  it('ranks by mean return and only separates entrants whose gap survives the bootstrap', () => {
+    const { standings, pairwise } = calculateTournamentStats(entrants, runs, { seed: 7 });
+
+    expect(standings.map(entry => entry.id)).toEqual(['steady', 'coin', 'SPY']);
+    const steadyVsIndex = pairwise.find(pair => pair.a === 'steady' && pair.b === 'SPY')!;
+    expect(steadyVsIndex.winRate).toBe(1);
+    expect(steadyVsIndex.significant).toBe(true);
+    expect(steadyVsIndex.confidenceInterval[0]).toBeGreaterThan(0);
+
+    // The coin flip's edge over the index is noise, so the two share a tier
+    expect(pairwise.find(pair => pair.a === 'coin' && pair.b === 'SPY')!.significant).toBe(false);
+    expect(standings.map(entry => entry.tier)).toEqual([1, 2, 2]);
+    expect(standings[0].confidenceInterval[0]).toBeLessThan(standings[0].meanReturn);
+    expect(standings[2].significantlyAboveNext).toBeNull();
+  });
+
+  it('gives the same intervals for the same resampling seed and no p-value for a single run', () => {
+    const first = calculateTournamentStats(entrants, runs, { seed: 3, bootstrapSamples: 500 });
+    const second = calculateTournamentStats(entrants, runs, { seed: 3, bootstrapSamples: 500 });
+    expect(second).toEqual(first);
+
+    const single = calculateTournamentStats(entrants, runs.slice(0, 1));
+    expect(single.pairwise.every(pair => pair.pValue === null && !pair.significant)).toBe(true);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { requestWebhookDecision, signWebhookBody, type WebhookDecisionRequest } from '../services/webhookAgentService';
+
+const decisionRequest: WebhookDecisionRequest = {
+  agentId: 'momentum-bot',
+  simulationId: 'default',
+  day: 2,
+  intradayHour: 4,
+  portfolio: { cash: 10000, totalValue: 10000, positions: [] },
+  marketData: [{ ticker: 'AAPL', price: 200, dailyChangePercent: 0.01, instrumentType: 'equity' }],
+  openOrders: [],
+  failedTrades: [],
+  rules: { maxPositionWeight: 0.25, feeBps: 5, minFee: 0.25, marginEnabled: false },
+};
+
+const decision = { rationale: 'Momentum', trades: [{ ticker: 'AAPL', action: 'buy', quantity: 5 }] };
+
+describe('Webhook agents', () => {
+  let server: Server;
+  let baseUrl = '';
+  let received: { headers: IncomingHttpHeaders; body: string } | undefined;
+
+  beforeAll(async () => {
+    process.env.TEST_WEBHOOK_SECRET = 'shh';
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received = { headers: req.headers, body };
+        if (req.url === '/slow') {
+          setTimeout(() => res.end(JSON.stringify(decision)), 500);
+          return;
+        }
+        if (req.url === '/error') {
+          res.writeHead(500).end('boom');
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(decision));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  it('posts the decision context signed with the agent secret', async () => {
+    const result = await requestWebhookDecision({ url: `${baseUrl}/decide`, secretEnv: 'TEST_WEBHOOK_SECRET' }, decisionRequest);
+
+    expect(JSON.parse(result.content)).toEqual(decision);
+    expect(JSON.parse(received!.body)).toEqual(decisionRequest);
+    expect(received!.headers['x-arena-agent']).toBe('momentum-bot');
+    const timestamp = Number(received!.headers['x-arena-timestamp']);
+    expect(received!.headers['x-arena-signature']).toBe(signWebhookBody(received!.body, 'shh', timestamp));
+  });
+
+  it('fails on slow or erroring endpoints and missing secrets', async () => {
+    await expect(requestWebhookDecision({ url: `${baseUrl}/slow` }, decisionRequest, 100)).rejects.toThrow(/timeout after 100ms/);
+    await expect(requestWebhookDecision({ url: `${baseUrl}/error` }, decisionRequest)).rejects.toThrow(/responded 500: boom/);
+    await expect(requestWebhookDecision({ url: `${baseUrl}/decide`, secretEnv: 'MISSING_WEBHOOK_SECRET' }, decisionRequest)).rejects.toThrow(/MISSING_WEBHOOK_SECRET is not set/);
+  });
+});
@@ -3,11 +3,19 @@ import { simulationManager } from '../simulation/SimulationManager.js';
 import { startMultiSimScheduler, stopMultiSimScheduler, isSchedulerRunning } from '../simulation/multiSimScheduler.js';
 import { logger, LogLevel, LogCategory } from '../services/logger.js';
 import { createInitialMarketData, getMarketDataTelemetry } from '../services/marketDataService.js';
-import { S_P500_TICKERS } from '../constants.js';
+import { S_P500_TICKERS, S_P500_BENCHMARK_ID, INITIAL_CASH } from '../constants.js';
 import { addUserMessageToSimulation } from '../services/multiSimChatService.js';
 import { getTimerState } from '../services/timerService.js';
 import { priceLogService } from '../services/priceLogService.js';
 import { clearPortfolioValidationCache, clearPortfolioValidationCacheForSimulation } from '../utils/portfolioValidator.js';
+import { calculatePerformanceAnalytics } from '../utils/performanceAnalytics.js';
+import { calculatePerformanceAttribution } from '../utils/performanceAttribution.js';
+import { createInferenceUsage, getReturnPerDollar, sumInferenceUsage } from '../utils/inferenceCost.js';
+import { getModelReliability } from '../utils/decisionSchema.js';
+import { getRiskReport } from '../simulation/riskEngine.js';
+import { getArenaConfigDir } from '../services/arenaConfigService.js';
+import { addAgentToSimulation, retireAgentFromSimulation, validateCustomAgent, type CustomAgentInput } from '../services/customAgentService.js';
+import { listTournaments, loadTournament } from '../services/tournamentService.js';
 import type { ChatMessageResponse } from './dto.js';
 
 export const registerMultiSimRoutes = async (fastify: FastifyInstance): Promise<void> => {
@@ -23,10 +31,30 @@ export const registerMultiSimRoutes = async (fastify: FastifyInstance): Promise<
         showModelNames: t.showModelNames,
         agentCount: t.traderConfigs.length,
         enabled: t.enabled,
+        marginEnabled: Boolean(t.margin?.enabled),
+        source: t.source ?? null,
       })),
     };
   });
 
+  // Re-read the arena definition files: start new arenas and stop removed ones without restarting the worker
+  fastify.post('/api/simulations/types/reload', async (request, reply) => {
+    try {
+      const { added, updated, needsReset, removed, errors } = await simulationManager.reloadSimulationTypes();
+      if (errors.length > 0) {
+        reply.code(400);
+        return { ok: false, directory: getArenaConfigDir(), errors };
+      }
+      return { ok: true, added, updated, needsReset, removed };
+    } catch (error) {
+      reply.code(500);
+      return {
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+
   // Get state for a specific simulation
   fastify.get<{ Params: { typeId: string } }>('/api/simulations/:typeId/state', async (request, reply) => {
     const { typeId } = request.params;
@@ -56,7 +84,11 @@ export const registerMultiSimRoutes = async (fastify: FastifyInstance): Promise<
       ...rawSnapshot,
       agents: rawSnapshot.agents.map(agent => ({
         ...agent,
-        performanceHistory: downsamplePerformanceMetrics(agent.performanceHistory, 500)
+        performanceHistory: downsamplePerformanceMetrics(agent.performanceHistory, 500),
+        // Per-round usage is served by /costs; the leaderboard only needs the totals
+        inferenceUsage: agent.inferenceUsage ? { ...agent.inferenceUsage, rounds: [] } : undefined,
+        riskViolations: agent.riskViolations?.slice(-10), // Totals by rule are served by /risk
+        webhook: undefined, // Bot endpoints stay server-side
       })),
       benchmarks: rawSnapshot.benchmarks.map(benchmark => ({
         ...benchmark,
@@ -72,12 +104,226 @@ export const registerMultiSimRoutes = async (fastify: FastifyInstance): Promise<
         description: simType.description,
         chatEnabled: simType.chatEnabled,
         showModelNames: simType.showModelNames,
+        marginEnabled: Boolean(simType.margin?.enabled),
       },
       isLoading: false,
       marketTelemetry: getMarketDataTelemetry(),
     };
   });
 
+  // Risk analytics for one agent against the S&P 500 benchmark
+  fastify.get<{ Params: { typeId: string; agentId: string } }>('/api/simulations/:typeId/agents/:agentId/analytics', async (request, reply) => {
+    const { typeId, agentId } = request.params;
+    const instance = simulationManager.getSimulation(typeId);
+
+    if (!instance) {
+      reply.code(404);
+      return { error: `Simulation type '${typeId}' not found` };
+    }
+
+    const snapshot = instance.getSnapshot();
+    const agent = snapshot.agents.find(a => a.id === agentId);
+    if (!agent) {
+      reply.code(404);
+      return { error: `Agent '${agentId}' not found in simulation '${typeId}'` };
+    }
+
+    const benchmark = snapshot.benchmarks.find(b => b.id === S_P500_BENCHMARK_ID);
+    return {
+      agentId,
+      benchmarkId: benchmark?.id ?? null,
+      analytics: calculatePerformanceAnalytics(agent, benchmark),
+    };
+  });
+
+  // Sector (Brinson) and per-ticker attribution of one agent's excess return over the S&P 500;
+  // the arena universe stands in for the index's sector weights and the gap between them is the residual
+  fastify.get<{ Params: { typeId: string; agentId: string } }>('/api/simulations/:typeId/agents/:agentId/attribution', async (request, reply) => {
+    const { typeId, agentId } = request.params;
+    const instance = simulationManager.getSimulation(typeId);
+
+    if (!instance) {
+      reply.code(404);
+      return { error: `Simulation type '${typeId}' not found` };
+    }
+
+    const snapshot = instance.getSnapshot();
+    const agent = snapshot.agents.find(a => a.id === agentId);
+    if (!agent) {
+      reply.code(404);
+      return { error: `Agent '${agentId}' not found in simulation '${typeId}'` };
+    }
+
+    const benchmark = snapshot.benchmarks.find(b => b.id === S_P500_BENCHMARK_ID);
+    return {
+      agentId,
+      benchmarkId: benchmark?.id ?? null,
+      attribution: calculatePerformanceAttribution(agent, snapshot.marketData, snapshot.startPrices, benchmark),
+    };
+  });
+
+  // Token and dollar spend on trading decisions, per agent and for the whole simulation
+  fastify.get<{ Params: { typeId: string } }>('/api/simulations/:typeId/costs', async (request, reply) => {
+    const { typeId } = request.params;
+    const instance = simulationManager.getSimulation(typeId);
+
+    if (!instance) {
+      reply.code(404);
+      return { error: `Simulation type '${typeId}' not found` };
+    }
+
+    const snapshot = instance.getSnapshot();
+    return {
+      simulationTypeId: typeId,
+      totals: snapshot.inferenceUsage ?? sumInferenceUsage(snapshot.agents),
+      agents: snapshot.agents.map(agent => {
+        const usage = agent.inferenceUsage ?? createInferenceUsage();
+        return {
+          agentId: agent.id,
+          name: agent.name,
+          model: agent.model,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          cost: usage.cost,
+          calls: usage.calls,
+          budget: agent.inferenceBudget ?? null,
+          budgetRemaining: agent.inferenceBudget !== undefined ? Math.max(0, agent.inferenceBudget - usage.cost) : null,
+          returnPerDollar: getReturnPerDollar(agent),
+          rounds: usage.rounds,
+        };
+      }),
+    };
+  });
+
+  // How often each model's decisions matched the decision schema
+  fastify.get<{ Params: { typeId: string } }>('/api/simulations/:typeId/reliability', async (request, reply) => {
+    const { typeId } = request.params;
+    const instance = simulationManager.getSimulation(typeId);
+
+    if (!instance) {
+      reply.code(404);
+      return { error: `Simulation type '${typeId}' not found` };
+    }
+
+    const snapshot = instance.getSnapshot();
+    return {
+      simulationTypeId: typeId,
+      models: getModelReliability(snapshot.agents),
+      agents: snapshot.agents.map(agent => ({
+        agentId: agent.id,
+        name: agent.name,
+        model: agent.model,
+        ...(agent.decisionCompliance ?? { decisions: 0, compliant: 0, repaired: 0, fieldErrors: 0 }),
+      })),
+    };
+  });
+
+  // Orders each agent had resized or rejected by the arena's pre-trade risk rules
+  fastify.get<{ Params: { typeId: string } }>('/api/simulations/:typeId/risk', async (request, reply) => {
+    const { typeId } = request.params;
+    const instance = simulationManager.getSimulation(typeId);
+
+    if (!instance) {
+      reply.code(404);
+      return { error: `Simulation type '${typeId}' not found` };
+    }
+
+    const snapshot = instance.getSnapshot();
+    return {
+      simulationTypeId: typeId,
+      rules: instance.getSimulationType().riskRules ?? null,
+      agents: getRiskReport(snapshot.agents),
+    };
+  });
+
+  // Monte Carlo tournaments written by `npm run tournament`, newest first
+  fastify.get('/api/tournaments', async () => {
+    return { tournaments: await listTournaments() };
+  });
+
+  // Standings with bootstrap intervals, pairwise win rates and significance for one tournament
+  fastify.get<{ Params: { tournamentId: string } }>('/api/tournaments/:tournamentId', async (request, reply) => {
+    const { tournamentId } = request.params;
+    const tournament = await loadTournament(tournamentId);
+
+    if (!tournament) {
+      reply.code(404);
+      return { error: `Tournament '${tournamentId}' not found` };
+    }
+
+    return { tournament };
+  });
+
+  // Register a new agent in a running simulation; it starts with the arena's initial cash
+  fastify.post<{ Params: { typeId: string }; Body: CustomAgentInput }>('/api/simulations/:typeId/agents', async (request, reply) => {
+    const { typeId } = request.params;
+    if (!simulationManager.getSimulation(typeId)) {
+      reply.code(404);
+      return { error: `Simulation type '${typeId}' not found` };
+    }
+
+    const errors = validateCustomAgent(request.body);
+    if (errors.length > 0) {
+      reply.code(400);
+      return { error: 'Invalid agent', errors };
+    }
+
+    try {
+      const agent = await addAgentToSimulation(typeId, request.body);
+      reply.code(201);
+      return {
+        ok: true,
+        agent: { id: agent.id, name: agent.name, model: agent.model, color: agent.color, image: agent.image, initialCash: agent.initialCash ?? INITIAL_CASH },
+      };
+    } catch (error) {
+      reply.code(400);
+      return { error: error instanceof Error ? error.message : 'Failed to add agent' };
+    }
+  });
+
+  // Liquidate an agent to cash and stop it trading; its history stays on the leaderboard
+  fastify.post<{
+    Params: { typeId: string; agentId: string };
+    Body: { reason?: string } | undefined;
+  }>('/api/simulations/:typeId/agents/:agentId/retire', async (request, reply) => {
+    const { typeId, agentId } = request.params;
+    const instance = simulationManager.getSimulation(typeId);
+    if (!instance) {
+      reply.code(404);
+      return { error: `Simulation type '${typeId}' not found` };
+    }
+
+    const existing = instance.getSnapshot().agents.find(a => a.id === agentId);
+    if (!existing) {
+      reply.code(404);
+      return { error: `Agent '${agentId}' not found in simulation '${typeId}'` };
+    }
+    if (existing.retiredAt !== undefined) {
+      reply.code(409);
+      return { error: `Agent '${agentId}' has already retired` };
+    }
+
+    try {
+      const { agent, unfilled } = await retireAgentFromSimulation(typeId, agentId, request.body?.reason);
+      if (unfilled.length > 0) {
+        reply.code(409);
+        return { error: `Could not liquidate ${unfilled.join(', ')}; agent '${agentId}' is still active`, unfilled };
+      }
+      const metrics = agent.performanceHistory[agent.performanceHistory.length - 1];
+      return {
+        ok: true,
+        agentId,
+        retiredAt: agent.retiredAt,
+        cash: agent.portfolio.cash,
+        totalValue: metrics?.totalValue ?? agent.portfolio.cash,
+        totalReturn: metrics?.totalReturn ?? 0,
+      };
+    } catch (error) {
+      reply.code(400);
+      return { error: error instanceof Error ? error.message : 'Failed to retire agent' };
+    }
+  });
+
   // Start all simulations
   fastify.post('/api/simulations/start', async (request, reply) => {
     try {
@@ -167,8 +413,8 @@ export const registerMultiSimRoutes = async (fastify: FastifyInstance): Promise<
 
       // Reset all simulations (this will create fresh ones)
       const { createInitialMarketData } = await import('../services/marketDataService.js');
-      const { S_P500_TICKERS } = await import('../constants.js');
-      const initialMarketData = await createInitialMarketData(S_P500_TICKERS);
+      const { ARENA_TICKERS } = await import('../constants.js');
+      const initialMarketData = await createInitialMarketData(ARENA_TICKERS);
       await simulationManager.initializeAll(initialMarketData);
 
       // Restart scheduler if it should be running
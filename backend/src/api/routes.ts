@@ -13,7 +13,7 @@ import { exportSimulationData } from '../services/exportService.js';
 import { exportLogs } from '../services/logExportService.js';
 import { priceLogService } from '../services/priceLogService.js';
 import { clearPortfolioValidationCache } from '../utils/portfolioValidator.js';
-import { S_P500_TICKERS } from '../constants.js';
+import { ARENA_TICKERS } from '../constants.js';
 import {
   getPersistenceDriver,
   getPersistenceTargetDescription,
@@ -408,7 +408,7 @@ export const registerRoutes = async (fastify: FastifyInstance): Promise<void> =>
       await clearSnapshot();
 
       // Reinitialize simulation
-      const initialMarketData = await createInitialMarketData(S_P500_TICKERS);
+      const initialMarketData = await createInitialMarketData(ARENA_TICKERS);
       await simulationState.initialize(initialMarketData);
 
       // Save initial state
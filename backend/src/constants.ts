@@ -1,4 +1,4 @@
-import type { Agent, Portfolio } from './types.js';
+import type { Agent, Portfolio, MarginConfig, ExecutionCostConfig, ExecutionCostModelName, ExtendedHoursConfig, MarketModelConfig, MarketModelName, RiskRulesConfig } from './types.js';
 
 const DEFAULT_TICKERS: string[] = [
   'NVDA',
@@ -533,6 +533,11 @@ const limitedTickerCount = Math.min(requestedTickerCount, resolvedTickers.length
 
 export const S_P500_TICKERS: string[] = resolvedTickers.slice(0, limitedTickerCount);
 
+// ETFs, bond ETFs, crypto (BTC-USD) and USD-quoted FX pairs (EURUSD=X) traded alongside the equities
+export const ARENA_INSTRUMENTS: string[] = parseTickers(process.env.ARENA_INSTRUMENTS)
+  .filter(ticker => !S_P500_TICKERS.includes(ticker));
+export const ARENA_TICKERS: string[] = [...S_P500_TICKERS, ...ARENA_INSTRUMENTS];
+
 // Log the ticker configuration on module load
 if (limitedTickerCount < resolvedTickers.length) {
   console.log(`📊 Ticker limit active: Using ${limitedTickerCount} of ${resolvedTickers.length} available tickers (controlled by ARENA_TICKER_COUNT=${process.env.ARENA_TICKER_COUNT})`);
@@ -544,6 +549,7 @@ export const INITIAL_CASH = 1000000;
 export const RISK_FREE_RATE = 0.02;
 export const TRADING_DAYS_PER_YEAR = 252;
 export const MAX_POSITION_SIZE_PERCENT = 0.10;
+export const MAX_OPEN_ORDERS_PER_AGENT = Math.max(1, Math.floor(parseNumberEnv(process.env.MAX_OPEN_ORDERS_PER_AGENT, 20)));
 export const S_P500_BENCHMARK_ID = 'SPY';
 export const AI_MANAGERS_INDEX_ID = 'AIMI';
 export const AGENT_COLORS = ['#8884d8', '#ffc658', '#82ca9d', '#ff8042', '#00C49F', '#0088FE', '#FF6B9D', '#C44569', '#6C5CE7', '#A29BFE'];
@@ -558,6 +564,61 @@ const tradingFeeMinimum = Math.max(0, parseNumberEnv(process.env.MIN_TRADE_FEE,
 export const TRADING_FEE_RATE = tradingFeeBps / 10000; // Convert basis points to decimal
 export const MIN_TRADE_FEE = tradingFeeMinimum; // Flat minimum fee in dollars per execution
 
+// Margin account defaults (only used by simulation types that enable margin)
+// Rates are fractions: 0.5 initial margin = Reg T style 2x gross leverage
+export const DEFAULT_MARGIN_CONFIG: MarginConfig = {
+  enabled: false,
+  initialMarginRate: Math.min(1, Math.max(0.05, parseNumberEnv(process.env.INITIAL_MARGIN_RATE, 0.5))),
+  maintenanceMarginRate: Math.min(1, Math.max(0.05, parseNumberEnv(process.env.MAINTENANCE_MARGIN_RATE, 0.3))),
+  shortBorrowFeeRate: Math.max(0, parseNumberEnv(process.env.SHORT_BORROW_FEE_RATE, 0.03)), // Annualized, charged on short market value
+  marginInterestRate: Math.max(0, parseNumberEnv(process.env.MARGIN_INTEREST_RATE, 0.07)), // Annualized, charged on negative cash
+};
+
+const EXECUTION_COST_MODELS: ExecutionCostModelName[] = ['none', 'spread', 'square_root'];
+const configuredExecutionCostModel = process.env.EXECUTION_COST_MODEL?.trim().toLowerCase() as ExecutionCostModelName | undefined;
+
+// Spread and market impact charged on fills (on top of TRADING_FEE_RATE). Simulation types can override.
+// The impact coefficient is roughly a stock's daily volatility: trading 1% of ADV moves price by ~0.1 * coefficient.
+export const DEFAULT_EXECUTION_COST_CONFIG: ExecutionCostConfig = {
+  model: configuredExecutionCostModel && EXECUTION_COST_MODELS.includes(configuredExecutionCostModel)
+    ? configuredExecutionCostModel
+    : 'square_root',
+  halfSpreadBps: Math.max(0, parseNumberEnv(process.env.HALF_SPREAD_BPS, 2)),
+  impactCoefficient: Math.max(0, parseNumberEnv(process.env.MARKET_IMPACT_COEFFICIENT, 0.02)),
+  maxImpactBps: Math.max(0, parseNumberEnv(process.env.MAX_MARKET_IMPACT_BPS, 500)),
+};
+
+// Pre-market and after-hours trading; arenas opt in with `extendedHours` in simulationTypes.ts.
+// Thin extended-hours books mean wider quotes and more price impact per share traded.
+export const DEFAULT_EXTENDED_HOURS_CONFIG: ExtendedHoursConfig = {
+  enabled: false,
+  spreadMultiplier: Math.max(1, parseNumberEnv(process.env.EXTENDED_HOURS_SPREAD_MULTIPLIER, 4)),
+  liquidityFraction: Math.min(1, Math.max(0.01, parseNumberEnv(process.env.EXTENDED_HOURS_LIQUIDITY_FRACTION, 0.1))),
+};
+
+// The position cap and minimum investment UNIFIED_SYSTEM_PROMPT asks for, enforced by the risk engine
+export const DEFAULT_RISK_RULES: RiskRulesConfig = {
+  maxPositionWeight: MAX_POSITION_SIZE_PERCENT,
+  minInvestedFraction: 0.5,
+};
+
+const MARKET_MODELS: MarketModelName[] = ['gbm', 'jump_diffusion', 'regime_switching'];
+const configuredMarketModel = process.env.MARKET_MODEL?.trim().toLowerCase() as MarketModelName | undefined;
+
+// Price process for simulated mode. Simulation types can select a different model.
+export const DEFAULT_MARKET_MODEL_CONFIG: MarketModelConfig = {
+  model: configuredMarketModel && MARKET_MODELS.includes(configuredMarketModel) ? configuredMarketModel : 'gbm',
+  sectorCorrelation: Math.min(0.95, Math.max(0, parseNumberEnv(process.env.MARKET_SECTOR_CORRELATION, 0.6))),
+  crossSectorCorrelation: Math.min(0.95, Math.max(0, parseNumberEnv(process.env.MARKET_CROSS_SECTOR_CORRELATION, 0.3))),
+  jumpIntensity: 4, // Roughly one earnings-sized gap per quarter
+  jumpMean: -0.01,
+  jumpVolatility: 0.06,
+  bullToBearProbability: 0.01,
+  bearToBullProbability: 0.04,
+  bearDriftShift: -0.4,
+  bearVolatilityMultiplier: 1.8,
+};
+
 const initialPortfolio: Portfolio = {
   cash: INITIAL_CASH,
   positions: {},
@@ -9,7 +9,7 @@ import { registerRoutes } from './api/routes.js';
 import { registerMultiSimRoutes } from './api/multiSimRoutes.js';
 import { simulationManager } from './simulation/SimulationManager.js';
 import { createInitialMarketData } from './services/marketDataService.js';
-import { S_P500_TICKERS } from './constants.js';
+import { ARENA_TICKERS } from './constants.js';
 import { logger, LogLevel, LogCategory } from './services/logger.js';
 import { startMultiSimScheduler, stopMultiSimScheduler } from './simulation/multiSimScheduler.js';
 import { initializeTimer } from './services/timerService.js';
@@ -118,12 +118,12 @@ await fastify.register(registerMultiSimRoutes);
 // Initialize all simulations
 const initializeAllSimulations = async (): Promise<void> => {
   logger.logSimulationEvent('Initializing multi-simulation framework', {
-    tickers: S_P500_TICKERS.length,
+    tickers: ARENA_TICKERS.length,
   });
 
   // Create initial market data (shared across all simulations)
   // Always include SPY for S&P 500 benchmark tracking
-  const tickersWithSpy = [...new Set([...S_P500_TICKERS, 'SPY'])];
+  const tickersWithSpy = [...new Set([...ARENA_TICKERS, 'SPY'])];
   const initialMarketData = await createInitialMarketData(tickersWithSpy);
 
   // Initialize all simulation types with the same market data
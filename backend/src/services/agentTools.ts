@@ -0,0 +1,199 @@
+import type { Agent, AgentToolConfig, AgentToolName, MarketData, TickerData } from '../types.js';
+import { getTickerSector } from '../simulation/marketModels.js';
+import { getOpenLots } from '../simulation/taxLots.js';
+import { calculatePortfolioValue } from '../utils/portfolioCalculations.js';
+import { priceLogService } from './priceLogService.js';
+
+export const DEFAULT_MAX_TOOL_TURNS = 4;
+const DEFAULT_PRICE_HISTORY_DAYS = 20;
+const MAX_PRICE_HISTORY_DAYS = 60;
+
+const FUNDAMENTAL_FIELDS: Array<keyof TickerData> = [
+  'trailingPE', 'forwardPE', 'priceToBook', 'priceToSales', 'enterpriseValue', 'enterpriseToRevenue',
+  'enterpriseToEbitda', 'beta', 'marketCap', 'volume', 'averageVolume', 'profitMargins', 'grossMargins',
+  'operatingMargins', 'debtToEquity', 'dividendYield', 'payoutRatio', 'fiftyTwoWeekChange', 'dayHigh',
+  'dayLow', 'fiftyTwoWeekHigh', 'fiftyTwoWeekLow',
+];
+
+// What the tools can see: the deciding agent, this round's prices and the arena's price log
+export interface AgentToolContext {
+  agent: Agent;
+  marketData: MarketData;
+  simulationId?: string;
+}
+
+export interface AgentToolCall {
+  name: string;
+  arguments?: Record<string, unknown>;
+}
+
+export interface AgentToolResult {
+  name: string;
+  arguments?: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
+
+interface AgentToolSpec {
+  signature: string;
+  description: string;
+  run: (args: Record<string, unknown>, context: AgentToolContext) => unknown;
+}
+
+const round = (value: number, digits: number = 2): number => parseFloat(value.toFixed(digits));
+
+const requireTicker = (args: Record<string, unknown>, marketData: MarketData): string => {
+  const ticker = typeof args.ticker === 'string' ? args.ticker.trim().toUpperCase() : '';
+  if (!ticker || !marketData[ticker]) {
+    throw new Error(`Unknown ticker: ${String(args.ticker)}`);
+  }
+  return ticker;
+};
+
+// Index tickers (^GSPC) are benchmarks, not tradable sector members
+const getTradableTickers = (marketData: MarketData): string[] =>
+  Object.keys(marketData).filter(ticker => !ticker.startsWith('^'));
+
+const TOOLS: Record<AgentToolName, AgentToolSpec> = {
+  get_price_history: {
+    signature: 'get_price_history(ticker, days)',
+    description: `Opening price and daily change for each of the last \`days\` simulation days (default ${DEFAULT_PRICE_HISTORY_DAYS}, max ${MAX_PRICE_HISTORY_DAYS}), plus the current price`,
+    run: (args, { marketData, simulationId }) => {
+      const ticker = requireTicker(args, marketData);
+      const requestedDays = typeof args.days === 'number' && args.days > 0 ? Math.floor(args.days) : DEFAULT_PRICE_HISTORY_DAYS;
+      const days = Math.min(requestedDays, MAX_PRICE_HISTORY_DAYS);
+      // The log can hold several entries per day; keep the first one logged for each
+      const byDay = new Map<number, { day: number; price: number; changePercent: number }>();
+      priceLogService.getTickerPriceHistory(ticker, simulationId).forEach(entry => {
+        if (!byDay.has(entry.day)) {
+          byDay.set(entry.day, { day: entry.day, price: round(entry.price), changePercent: round(entry.dailyChangePercent * 100) });
+        }
+      });
+      return {
+        ticker,
+        currentPrice: round(marketData[ticker].price),
+        history: Array.from(byDay.values()).sort((a, b) => a.day - b.day).slice(-days),
+      };
+    },
+  },
+  get_fundamentals: {
+    signature: 'get_fundamentals(ticker)',
+    description: 'Valuation, margin and trading statistics (P/E, P/B, EV/EBITDA, beta, market cap, dividend yield, 52-week range, ...) where available',
+    run: (args, { marketData }) => {
+      const ticker = requireTicker(args, marketData);
+      const data = marketData[ticker];
+      const fundamentals = Object.fromEntries(FUNDAMENTAL_FIELDS
+        .filter(field => typeof data[field] === 'number')
+        .map(field => [field, data[field]]));
+      return {
+        ticker,
+        name: data.longName || data.shortName,
+        sector: getTickerSector(ticker, data),
+        industry: data.industry,
+        price: round(data.price),
+        ...fundamentals,
+      };
+    },
+  },
+  get_position: {
+    signature: 'get_position(ticker)',
+    description: 'Your holding in the ticker: quantity, average cost, market value, portfolio weight, unrealized P&L, last fair value estimate and open tax lots',
+    run: (args, { agent, marketData }) => {
+      const ticker = requireTicker(args, marketData);
+      const position = agent.portfolio.positions[ticker];
+      if (!position || position.quantity === 0) {
+        return { ticker, quantity: 0 };
+      }
+      const price = marketData[ticker].price;
+      const marketValue = position.quantity * price;
+      const portfolioValue = calculatePortfolioValue(agent.portfolio, marketData);
+      const lots = getOpenLots(agent, ticker);
+      return {
+        ticker,
+        quantity: position.quantity,
+        averageCost: round(position.averageCost),
+        currentPrice: round(price),
+        marketValue: round(marketValue),
+        weightPercent: portfolioValue > 0 ? round(marketValue / portfolioValue * 100) : 0,
+        unrealizedPnl: round((price - position.averageCost) * position.quantity),
+        lastFairValue: position.lastFairValue,
+        ...(lots.length > 0 ? { lots: lots.map(lot => ({ id: lot.id, quantity: lot.quantity, costBasis: round(lot.costBasis), openedAt: lot.openedAt })) } : {}),
+      };
+    },
+  },
+  get_sector_summary: {
+    signature: 'get_sector_summary()',
+    description: 'Per sector: number of tickers, average and best/worst daily change, and your portfolio weight',
+    run: (_args, { agent, marketData }) => {
+      const portfolioValue = calculatePortfolioValue(agent.portfolio, marketData);
+      const sectors = new Map<string, { tickers: string[]; changes: number[]; exposure: number }>();
+      getTradableTickers(marketData).forEach(ticker => {
+        const sector = getTickerSector(ticker, marketData[ticker]) || 'Other';
+        const entry = sectors.get(sector) ?? { tickers: [], changes: [], exposure: 0 };
+        entry.tickers.push(ticker);
+        entry.changes.push(marketData[ticker].dailyChangePercent * 100);
+        entry.exposure += (agent.portfolio.positions[ticker]?.quantity ?? 0) * marketData[ticker].price;
+        sectors.set(sector, entry);
+      });
+      return Array.from(sectors.entries())
+        .map(([sector, { tickers, changes, exposure }]) => {
+          const best = tickers[changes.indexOf(Math.max(...changes))];
+          const worst = tickers[changes.indexOf(Math.min(...changes))];
+          return {
+            sector,
+            tickerCount: tickers.length,
+            averageChangePercent: round(changes.reduce((sum, change) => sum + change, 0) / changes.length),
+            best: { ticker: best, changePercent: round(marketData[best].dailyChangePercent * 100) },
+            worst: { ticker: worst, changePercent: round(marketData[worst].dailyChangePercent * 100) },
+            portfolioWeightPercent: portfolioValue > 0 ? round(exposure / portfolioValue * 100) : 0,
+          };
+        })
+        .sort((a, b) => a.sector.localeCompare(b.sector));
+    },
+  },
+};
+
+export const AGENT_TOOL_NAMES = Object.keys(TOOLS) as AgentToolName[];
+
+export const getAgentToolNames = (config: AgentToolConfig): AgentToolName[] =>
+  config.tools?.length ? config.tools.filter(name => name in TOOLS) : AGENT_TOOL_NAMES;
+
+export const getMaxToolTurns = (config: AgentToolConfig): number =>
+  Math.max(2, config.maxTurns ?? DEFAULT_MAX_TOOL_TURNS);
+
+// Prompt section explaining the tool-call reply format and the agent's budget
+export const describeAgentTools = (config: AgentToolConfig): string => `
+=== RESEARCH TOOLS ===
+Before deciding, you can call research tools. To call them, return ONLY a JSON object of this form instead of a decision:
+{"toolCalls": [{"name": "get_price_history", "arguments": {"ticker": "AAPL", "days": 10}}]}
+The results come back in the next message. Several calls can go in one message. You have ${config.maxCalls} tool calls over at most ${getMaxToolTurns(config) - 1} research turns; once you have what you need, return your trading decision in the format above.
+
+Available tools:
+${getAgentToolNames(config).map(name => `- ${TOOLS[name].signature}: ${TOOLS[name].description}`).join('\n')}
+`;
+
+// Tool calls the model asked for, or null when the response is a decision
+export const getRequestedToolCalls = (response: any): AgentToolCall[] | null => {
+  if (!Array.isArray(response?.toolCalls) || response.toolCalls.length === 0) {
+    return null;
+  }
+  return response.toolCalls
+    .filter((call: any) => typeof call?.name === 'string')
+    .map((call: any) => ({
+      name: call.name,
+      arguments: call.arguments && typeof call.arguments === 'object' ? call.arguments : {},
+    }));
+};
+
+// Unknown tools, tools outside the agent's set and bad arguments come back as errors for the model to see
+export const runAgentTool = (call: AgentToolCall, allowed: AgentToolName[], context: AgentToolContext): AgentToolResult => {
+  const name = call.name as AgentToolName;
+  if (!allowed.includes(name)) {
+    return { name: call.name, arguments: call.arguments, error: `Unknown tool: ${call.name}` };
+  }
+  try {
+    return { name: call.name, arguments: call.arguments, result: TOOLS[name].run(call.arguments ?? {}, context) };
+  } catch (error) {
+    return { name: call.name, arguments: call.arguments, error: error instanceof Error ? error.message : String(error) };
+  }
+};
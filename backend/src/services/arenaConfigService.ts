@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import { extname, join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ChatConfig, ExchangeId, ExtendedHoursConfig, InstrumentType, RiskRulesConfig } from '../types.js';
+import type { SimulationType, TraderConfig } from '../simulationTypes.js';
+import { ARENA_TICKERS, DEFAULT_EXECUTION_COST_CONFIG, DEFAULT_EXTENDED_HOURS_CONFIG } from '../constants.js';
+import { validateSchema, type JsonSchema } from '../utils/decisionSchema.js';
+import { INSTRUMENT_PROFILES } from '../simulation/instruments.js';
+import { EXCHANGE_IDS } from '../simulation/exchanges.js';
+import { LLM_PROVIDER_IDS } from './llmProviders.js';
+
+// One arena per file: <ARENA_CONFIG_DIR>/<arena>.yaml, .yml or .json
+const ARENA_CONFIG_DIR = process.env.ARENA_CONFIG_DIR?.trim() || './arenas';
+
+const FILE_EXTENSIONS = ['.yaml', '.yml', '.json'];
+
+export interface ArenaConfigError {
+  file: string;
+  path: string; // e.g. "traders[2].model"
+  message: string;
+}
+
+export interface ArenaConfigLoadResult {
+  types: SimulationType[]; // Arenas from the files that passed validation
+  errors: ArenaConfigError[];
+}
+
+// The file format, as written by hand
+interface ArenaConfigFile {
+  id: string;
+  name: string;
+  description?: string;
+  showModelNames?: boolean;
+  systemPrompt?: string; // Default for traders without their own
+  traders: TraderConfig[];
+  universe?: string[];
+  instrumentTypes?: InstrumentType[];
+  exchange?: ExchangeId;
+  extendedHours?: Partial<ExtendedHoursConfig>; // Enabled unless `enabled: false`
+  initialCash?: number;
+  feeBps?: number;
+  minFee?: number;
+  chat?: Partial<ChatConfig>;
+  riskRules?: RiskRulesConfig;
+}
+
+const ID_PATTERN = '^[a-z0-9][a-z0-9-]*$';
+
+const fraction: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+const tickers: JsonSchema = { type: 'array', items: { type: 'string', minLength: 1 } };
+
+export const TRADER_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'name', 'model'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'string', pattern: ID_PATTERN },
+    name: { type: 'string', minLength: 1 },
+    model: { type: 'string', minLength: 1 },
+    systemPrompt: { type: 'string', minLength: 1 },
+    color: { type: 'string', pattern: '^#[0-9a-fA-F]{6}$' },
+    image: { type: 'string', minLength: 1 },
+    provider: { type: 'string', enum: LLM_PROVIDER_IDS },
+    baseUrl: { type: 'string', minLength: 1 },
+    inferenceBudget: { type: 'number', exclusiveMinimum: 0 },
+    webhook: {
+      type: 'object',
+      required: ['url'],
+      additionalProperties: false,
+      properties: {
+        url: { type: 'string', pattern: '^https?://' },
+        timeoutMs: { type: 'integer', minimum: 100 },
+        secretEnv: { type: 'string', pattern: '^[A-Z_][A-Z0-9_]*$' },
+      },
+    },
+  },
+};
+
+export const ARENA_CONFIG_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['id', 'name', 'traders'],
+  additionalProperties: false,
+  properties: {
+    id: { type: 'string', pattern: ID_PATTERN },
+    name: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    showModelNames: { type: 'boolean' },
+    systemPrompt: { type: 'string', minLength: 1 },
+    traders: { type: 'array', minItems: 1, items: TRADER_CONFIG_SCHEMA },
+    universe: tickers,
+    instrumentTypes: { type: 'array', items: { type: 'string', enum: Object.keys(INSTRUMENT_PROFILES) } },
+    exchange: { type: 'string', enum: EXCHANGE_IDS },
+    extendedHours: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        enabled: { type: 'boolean' },
+        spreadMultiplier: { type: 'number', minimum: 1 },
+        liquidityFraction: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+      },
+    },
+    initialCash: { type: 'number', exclusiveMinimum: 0 },
+    feeBps: { type: 'number', minimum: 0 },
+    minFee: { type: 'number', minimum: 0 },
+    chat: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        enabled: { type: 'boolean' },
+        maxMessagesPerAgent: { type: 'integer', minimum: 1 },
+        maxMessagesPerUser: { type: 'integer', minimum: 1 },
+        maxMessageLength: { type: 'integer', minimum: 40 },
+      },
+    },
+    riskRules: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        maxPositionWeight: fraction,
+        minInvestedFraction: fraction,
+        maxSectorWeight: fraction,
+        maxDailyTurnover: { type: 'number', minimum: 0 },
+        restrictedTickers: tickers,
+      },
+    },
+  },
+};
+
+// Checks the schema cannot express: unique trader ids and tickers the worker actually fetches
+const validateArenaReferences = (config: ArenaConfigFile): Array<{ path: string; message: string }> => {
+  const errors: Array<{ path: string; message: string }> = [];
+  const seen = new Set<string>();
+  config.traders.forEach((trader, index) => {
+    if (seen.has(trader.id)) {
+      errors.push({ path: `traders[${index}].id`, message: `duplicates trader id "${trader.id}"` });
+    }
+    seen.add(trader.id);
+  });
+
+  const known = new Set(ARENA_TICKERS);
+  const checkTickers = (list: string[] | undefined, path: string) => list?.forEach((ticker, index) => {
+    if (!known.has(ticker.toUpperCase())) {
+      errors.push({ path: `${path}[${index}]`, message: `${ticker} is not in the market data; add it to ARENA_INSTRUMENTS` });
+    }
+  });
+  checkTickers(config.universe, 'universe');
+  checkTickers(config.riskRules?.restrictedTickers, 'riskRules.restrictedTickers');
+  return errors;
+};
+
+const toSimulationType = (config: ArenaConfigFile, file: string): SimulationType => {
+  const { enabled: chatEnabled, ...chatLimits } = config.chat ?? {};
+  const hasCommission = config.feeBps !== undefined || config.minFee !== undefined;
+  return {
+    id: config.id,
+    name: config.name,
+    description: config.description ?? '',
+    traderConfigs: config.traders.map(trader => ({ ...trader, systemPrompt: trader.systemPrompt ?? config.systemPrompt })),
+    chatEnabled: chatEnabled ?? false,
+    chat: Object.keys(chatLimits).length > 0 ? chatLimits : undefined,
+    showModelNames: config.showModelNames ?? true,
+    executionCost: hasCommission ? { ...DEFAULT_EXECUTION_COST_CONFIG, feeBps: config.feeBps, minFee: config.minFee } : undefined,
+    riskRules: config.riskRules,
+    instrumentTypes: config.instrumentTypes,
+    universe: config.universe?.map(ticker => ticker.toUpperCase()),
+    exchange: config.exchange,
+    extendedHours: config.extendedHours ? { ...DEFAULT_EXTENDED_HOURS_CONFIG, enabled: true, ...config.extendedHours } : undefined,
+    initialCash: config.initialCash,
+    source: file,
+  };
+};
+
+// Parse and validate one definition file
+export const parseArenaConfig = (content: string, file: string): { type?: SimulationType; errors: ArenaConfigError[] } => {
+  let raw: unknown;
+  try {
+    raw = extname(file).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    return { errors: [{ file, path: '$', message: `could not be parsed: ${error instanceof Error ? error.message : String(error)}` }] };
+  }
+
+  const schemaErrors = validateSchema(raw, ARENA_CONFIG_SCHEMA);
+  const errors = schemaErrors.length > 0 ? schemaErrors : validateArenaReferences(raw as ArenaConfigFile);
+  if (errors.length > 0) {
+    return { errors: errors.map(error => ({ file, ...error })) };
+  }
+  return { type: toSimulationType(raw as ArenaConfigFile, file), errors: [] };
+};
+
+export const getArenaConfigDir = (): string => ARENA_CONFIG_DIR;
+
+// Read every definition in the directory. A missing directory means no file arenas;
+// invalid files are left out and reported.
+export const loadArenaConfigs = async (dir: string = ARENA_CONFIG_DIR): Promise<ArenaConfigLoadResult> => {
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter(name => FILE_EXTENSIONS.includes(extname(name).toLowerCase())).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { types: [], errors: [] };
+    }
+    return { types: [], errors: [{ file: dir, path: '$', message: `could not be read: ${error instanceof Error ? error.message : String(error)}` }] };
+  }
+
+  const types: SimulationType[] = [];
+  const errors: ArenaConfigError[] = [];
+  for (const name of files) {
+    const result = parseArenaConfig(await fs.readFile(join(dir, name), 'utf-8'), name);
+    errors.push(...result.errors);
+    if (!result.type) {
+      continue;
+    }
+    const duplicate = types.find(type => type.id === result.type!.id);
+    if (duplicate) {
+      errors.push({ file: name, path: 'id', message: `arena id "${result.type.id}" is already defined in ${duplicate.source}` });
+      continue;
+    }
+    types.push(result.type);
+  }
+  return { types, errors };
+};
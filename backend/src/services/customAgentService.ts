@@ -0,0 +1,147 @@
+import type { Agent } from '../types.js';
+import { simulationManager } from '../simulation/SimulationManager.js';
+import { withSimulationLock } from '../simulation/multiSimScheduler.js';
+import { getSnapshotTimestamp, retireAgent } from '../simulation/engine.js';
+import { createAgentsFromConfigs, type TraderConfig } from '../simulationTypes.js';
+import { AGENT_COLORS, DEFAULT_EXECUTION_COST_CONFIG, INITIAL_CASH } from '../constants.js';
+import { calculateAllMetrics } from '../utils/portfolioCalculations.js';
+import { validateSchema, type JsonSchema } from '../utils/decisionSchema.js';
+import { saveSnapshot } from '../store/persistence.js';
+import { TRADER_CONFIG_SCHEMA } from './arenaConfigService.js';
+import { logger, LogLevel, LogCategory } from './logger.js';
+
+export type CustomAgentInput = Omit<TraderConfig, 'id' | 'baseUrl' | 'webhook' | 'tools'> & { id?: string };
+
+// Same fields as an arena file trader, with the id derived from the name when omitted. No baseUrl
+// or webhook: the backend would send requests to whatever server the request names.
+const { baseUrl: _baseUrl, webhook: _webhook, ...customAgentProperties } = TRADER_CONFIG_SCHEMA.properties!;
+const CUSTOM_AGENT_SCHEMA: JsonSchema = {
+  ...TRADER_CONFIG_SCHEMA,
+  required: ['name', 'model'],
+  properties: customAgentProperties,
+};
+
+export const validateCustomAgent = (input: unknown): Array<{ path: string; message: string }> =>
+  validateSchema(input, CUSTOM_AGENT_SCHEMA);
+
+const createAgentId = (name: string, taken: Set<string>): string => {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'agent';
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+};
+
+const persist = async (simulationTypeId: string): Promise<void> => {
+  const instance = simulationManager.getSimulation(simulationTypeId);
+  if (!instance) {
+    return;
+  }
+  try {
+    await saveSnapshot(instance.getSnapshot(), simulationTypeId);
+  } catch (error) {
+    logger.log(LogLevel.WARNING, LogCategory.SYSTEM,
+      `Failed to save snapshot after agent change for ${simulationTypeId}`, {
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+/**
+ * Add an agent to a running simulation. It joins with the arena's starting cash at the current
+ * round and trades from the next trade window. Waits for a running round to finish first.
+ */
+export const addAgentToSimulation = (simulationTypeId: string, input: CustomAgentInput): Promise<Agent> =>
+  withSimulationLock(simulationTypeId, async () => {
+    const instance = simulationManager.getSimulation(simulationTypeId);
+    if (!instance) {
+      throw new Error(`Simulation type '${simulationTypeId}' not found`);
+    }
+
+    const snapshot = instance.getSnapshot();
+    const taken = new Set(snapshot.agents.map(agent => agent.id));
+    if (input.id && taken.has(input.id)) {
+      throw new Error(`Agent '${input.id}' already exists in simulation '${simulationTypeId}'`);
+    }
+
+    const config: TraderConfig = {
+      ...input,
+      id: input.id ?? createAgentId(input.name, taken),
+      color: input.color ?? AGENT_COLORS[snapshot.agents.length % AGENT_COLORS.length],
+    };
+    const [created] = createAgentsFromConfigs([config], instance.getSimulationType().initialCash ?? INITIAL_CASH);
+    const initialMetrics = calculateAllMetrics(created.portfolio, snapshot.marketData, [], getSnapshotTimestamp(snapshot), [], created.initialCash);
+    initialMetrics.intradayHour = snapshot.intradayHour;
+    const rationale = 'Joined mid-competition - no trades yet.';
+    const agent: Agent = {
+      ...created,
+      performanceHistory: [initialMetrics],
+      rationale,
+      rationaleHistory: { [snapshot.day]: rationale },
+      memory: {
+        recentTrades: [],
+        pastRationales: [],
+        pastPerformance: [initialMetrics],
+      },
+    };
+
+    instance.updateSnapshot({ agents: [...snapshot.agents, agent] });
+    await persist(simulationTypeId);
+
+    logger.logSimulationEvent('Custom agent added', {
+      simulationType: simulationTypeId,
+      agentId: agent.id,
+      model: agent.model,
+      day: snapshot.day,
+      intradayHour: snapshot.intradayHour,
+    });
+    return agent;
+  });
+
+/**
+ * Liquidate an agent at the current quotes, cancel its resting orders and freeze its history.
+ * Nothing changes when a position cannot be closed; the unfilled tickers are returned instead.
+ */
+export const retireAgentFromSimulation = (
+  simulationTypeId: string,
+  agentId: string,
+  reason?: string
+): Promise<{ agent: Agent; unfilled: string[] }> =>
+  withSimulationLock(simulationTypeId, async () => {
+    const instance = simulationManager.getSimulation(simulationTypeId);
+    if (!instance) {
+      throw new Error(`Simulation type '${simulationTypeId}' not found`);
+    }
+
+    const snapshot = instance.getSnapshot();
+    const agent = snapshot.agents.find(a => a.id === agentId);
+    if (!agent) {
+      throw new Error(`Agent '${agentId}' not found in simulation '${simulationTypeId}'`);
+    }
+    if (agent.retiredAt !== undefined) {
+      throw new Error(`Agent '${agentId}' has already retired`);
+    }
+
+    const simType = instance.getSimulationType();
+    const { agent: retired, unfilled } = retireAgent(agent, {
+      marketData: snapshot.marketData,
+      day: snapshot.day,
+      intradayHour: snapshot.intradayHour,
+      timestamp: getSnapshotTimestamp(snapshot),
+      margin: simType.margin,
+      executionCost: simType.executionCost ?? DEFAULT_EXECUTION_COST_CONFIG,
+      lotRelief: simType.lotRelief,
+      reason,
+    });
+    if (unfilled.length > 0) {
+      return { agent, unfilled };
+    }
+
+    instance.updateSnapshot({
+      agents: snapshot.agents.map(a => (a.id === agentId ? retired : a)),
+      orderBooks: { ...snapshot.orderBooks, [agentId]: [] },
+    });
+    await persist(simulationTypeId);
+    return { agent: retired, unfilled };
+  });
@@ -3,6 +3,9 @@ import { promises as fs } from 'fs';
 import { dirname } from 'path';
 import { logger, LogLevel, LogCategory } from './logger.js';
 import { getHistoricalSimulationPeriod } from './marketDataService.js';
+import { getFileDatasetVersion } from './fileMarketDataService.js';
+import { updateTaxLots } from '../simulation/taxLots.js';
+import { getReturnPerDollar } from '../utils/inferenceCost.js';
 
 const EXPORT_DIR = './data/exports';
 
@@ -12,6 +15,7 @@ export const exportSimulationData = async (snapshot: SimulationSnapshot): Promis
     await fs.mkdir(EXPORT_DIR, { recursive: true });
 
     const historicalPeriod = getHistoricalSimulationPeriod();
+    const datasetVersion = await getFileDatasetVersion();
     
     const exportData = {
       simulation: {
@@ -20,6 +24,8 @@ export const exportSimulationData = async (snapshot: SimulationSnapshot): Promis
         finalDay: snapshot.day,
         timestamp: new Date().toISOString(),
         mode: snapshot.mode,
+        seed: snapshot.seed,
+        ...(datasetVersion ? { datasetVersion } : {}),
         ...(historicalPeriod.start && historicalPeriod.end ? {
           historicalPeriod: {
             start: historicalPeriod.start.toISOString().split('T')[0],
@@ -29,45 +35,70 @@ export const exportSimulationData = async (snapshot: SimulationSnapshot): Promis
           }
         } : {}),
       },
-      agents: snapshot.agents.map(agent => ({
-        id: agent.id,
-        name: agent.name,
-        model: agent.model,
-        finalPortfolio: agent.portfolio,
-        trades: agent.tradeHistory.map(trade => ({
-          day: Math.floor(trade.timestamp),
-          intradayHour: Math.round((trade.timestamp - Math.floor(trade.timestamp)) * 10),
-          timestamp: trade.timestamp,
-          ticker: trade.ticker,
-          action: trade.action,
-          quantity: trade.quantity,
-          price: trade.price,
-          value: trade.quantity * trade.price,
-          fees: trade.fees ?? 0,
-          fairValue: trade.fairValue,
-          topOfBox: trade.topOfBox,
-          bottomOfBox: trade.bottomOfBox,
-          justification: trade.justification,
-        })),
-        performance: agent.performanceHistory.map(perf => ({
-          day: Math.floor(perf.timestamp),
-          intradayHour: perf.intradayHour ?? (Math.round((perf.timestamp - Math.floor(perf.timestamp)) * 10)),
-          timestamp: perf.timestamp,
-          totalValue: perf.totalValue,
-          totalReturn: perf.totalReturn,
-          dailyReturn: perf.dailyReturn,
-          sharpeRatio: perf.sharpeRatio,
-          maxDrawdown: perf.maxDrawdown,
-          volatility: perf.annualizedVolatility,
-          turnover: perf.turnover,
-        })),
-        summary: {
-          totalTrades: agent.tradeHistory.length,
-          finalValue: agent.performanceHistory[agent.performanceHistory.length - 1]?.totalValue || 0,
-          totalReturn: agent.performanceHistory[agent.performanceHistory.length - 1]?.totalReturn || 0,
-          finalSharpeRatio: agent.performanceHistory[agent.performanceHistory.length - 1]?.sharpeRatio || 0,
-        }
-      })),
+      agents: snapshot.agents.map(currentAgent => {
+        // Agents restored from snapshots that predate the lot ledger get it rebuilt from their trades
+        const agent = updateTaxLots(currentAgent, currentAgent.taxLots?.method);
+        const ledger = agent.taxLots!;
+        const realizedPnl = ledger.realizedLots.reduce((sum, lot) => sum + lot.realizedPnl, 0);
+        const unrealizedPnl = ledger.openLots.reduce((sum, lot) =>
+          sum + ((snapshot.marketData[lot.ticker]?.price ?? lot.costBasis) - lot.costBasis) * lot.quantity, 0);
+        return {
+          id: agent.id,
+          name: agent.name,
+          model: agent.model,
+          finalPortfolio: agent.portfolio,
+          trades: agent.tradeHistory.map(trade => ({
+            day: Math.floor(trade.timestamp),
+            intradayHour: Math.round((trade.timestamp - Math.floor(trade.timestamp)) * 10),
+            timestamp: trade.timestamp,
+            ticker: trade.ticker,
+            action: trade.action,
+            quantity: trade.quantity,
+            price: trade.price,
+            value: trade.quantity * trade.price,
+            fees: trade.fees ?? 0,
+            referencePrice: trade.referencePrice,
+            slippage: trade.slippage ?? 0,
+            fairValue: trade.fairValue,
+            topOfBox: trade.topOfBox,
+            bottomOfBox: trade.bottomOfBox,
+            justification: trade.justification,
+            corporateAction: trade.corporateAction,
+            lotIds: trade.lotIds,
+            realizedPnl: trade.realizedPnl,
+            session: trade.session,
+          })),
+          taxLots: {
+            method: ledger.method,
+            openLots: ledger.openLots,
+            realizedLots: ledger.realizedLots,
+          },
+          performance: agent.performanceHistory.map(perf => ({
+            day: Math.floor(perf.timestamp),
+            intradayHour: perf.intradayHour ?? (Math.round((perf.timestamp - Math.floor(perf.timestamp)) * 10)),
+            timestamp: perf.timestamp,
+            totalValue: perf.totalValue,
+            totalReturn: perf.totalReturn,
+            dailyReturn: perf.dailyReturn,
+            sharpeRatio: perf.sharpeRatio,
+            maxDrawdown: perf.maxDrawdown,
+            volatility: perf.annualizedVolatility,
+            turnover: perf.turnover,
+          })),
+          summary: {
+            totalTrades: agent.tradeHistory.filter(trade => !trade.corporateAction).length,
+            extendedHoursTrades: agent.tradeHistory.filter(trade => trade.session === 'pre_market' || trade.session === 'after_hours').length,
+            finalValue: agent.performanceHistory[agent.performanceHistory.length - 1]?.totalValue || 0,
+            totalReturn: agent.performanceHistory[agent.performanceHistory.length - 1]?.totalReturn || 0,
+            finalSharpeRatio: agent.performanceHistory[agent.performanceHistory.length - 1]?.sharpeRatio || 0,
+            realizedPnl,
+            unrealizedPnl,
+            inferenceCost: agent.inferenceUsage?.cost ?? 0,
+            inferenceTokens: (agent.inferenceUsage?.promptTokens ?? 0) + (agent.inferenceUsage?.completionTokens ?? 0),
+            returnPerDollar: getReturnPerDollar(agent),
+          }
+        };
+      }),
     };
 
     const filename = `simulation-export-day-${snapshot.day}-${new Date().toISOString().split('T')[0]}.json`;
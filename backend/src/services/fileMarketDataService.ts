@@ -0,0 +1,272 @@
+import { promises as fs } from 'fs';
+import { basename, join } from 'path';
+import { parquetReadObjects } from 'hyparquet';
+import type { CorporateAction, CorporateActionType, TickerData } from '../types.js';
+import type { HistoricalDataPoint } from './yfinanceService.js';
+import { logger, LogLevel, LogCategory } from './logger.js';
+
+// Local OHLCV files, one per ticker: <MARKET_DATA_DIR>/<TICKER>.csv or <TICKER>.parquet.
+// Index symbols may drop the caret (GSPC.csv for ^GSPC).
+const MARKET_DATA_DIR = process.env.MARKET_DATA_DIR?.trim() || null;
+// Skip the network sources entirely (air-gapped CI, pinned datasets)
+const MARKET_DATA_OFFLINE = process.env.MARKET_DATA_OFFLINE === 'true';
+
+const FILE_EXTENSIONS = ['parquet', 'csv'] as const;
+
+// null = no file for this ticker, so we only look once
+const historyCache = new Map<string, HistoricalDataPoint[] | null>();
+let datasetVersion: string | null | undefined;
+let corporateActionsByTicker: Map<string, CorporateAction[]> | null = null;
+
+const CORPORATE_ACTION_TYPES: CorporateActionType[] = ['split', 'dividend', 'delisting'];
+
+export const isFileMarketDataEnabled = (): boolean => MARKET_DATA_DIR !== null;
+
+export const isOfflineMarketData = (): boolean => MARKET_DATA_OFFLINE && isFileMarketDataEnabled();
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'bigint') {
+    return Number(value);
+  }
+  if (typeof value === 'string') {
+    return parseFloat(value.replace(/[$,"]/g, ''));
+  }
+  return typeof value === 'number' ? value : NaN;
+};
+
+// Parquet dates arrive as Date, ISO strings, epoch millis or (for DATE columns) epoch days
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim().replace(/^"|"$/g, '');
+    const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T00:00:00Z` : trimmed);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  const numeric = toNumber(value);
+  if (!Number.isFinite(numeric)) {
+    return null;
+  }
+  return new Date(numeric < 1e6 ? numeric * 86400000 : numeric);
+};
+
+const normalizeColumn = (name: string): string => name.trim().toLowerCase().replace(/[\s_-]/g, '');
+
+const COLUMN_ALIASES: Record<string, keyof HistoricalDataPoint> = {
+  date: 'date',
+  datetime: 'date',
+  timestamp: 'date',
+  open: 'open',
+  high: 'high',
+  low: 'low',
+  close: 'close',
+  adjclose: 'adjClose',
+  adjustedclose: 'adjClose',
+  volume: 'volume',
+};
+
+// Map one file row (any column casing) onto a HistoricalDataPoint; rows without a date or close are dropped
+const toHistoricalPoint = (row: Record<string, unknown>): HistoricalDataPoint | null => {
+  const fields: Partial<Record<keyof HistoricalDataPoint, unknown>> = {};
+  for (const [column, value] of Object.entries(row)) {
+    const field = COLUMN_ALIASES[normalizeColumn(column)];
+    if (field) {
+      fields[field] = value;
+    }
+  }
+
+  const date = toDate(fields.date);
+  const close = toNumber(fields.close ?? fields.adjClose);
+  if (!date || !Number.isFinite(close)) {
+    return null;
+  }
+
+  const pick = (value: unknown) => {
+    const parsed = toNumber(value);
+    return Number.isFinite(parsed) ? parsed : close;
+  };
+  const adjClose = toNumber(fields.adjClose);
+
+  return {
+    date,
+    open: pick(fields.open),
+    high: pick(fields.high),
+    low: pick(fields.low),
+    close,
+    volume: Number.isFinite(toNumber(fields.volume)) ? toNumber(fields.volume) : 0,
+    adjClose: Number.isFinite(adjClose) ? adjClose : undefined,
+  };
+};
+
+export const parseOhlcvCsv = (content: string): HistoricalDataPoint[] => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const headers = lines[0].replace(/^\uFEFF/, '').split(',');
+  return lines.slice(1)
+    .map(line => {
+      const values = line.split(',');
+      const row: Record<string, unknown> = {};
+      headers.forEach((header, i) => { row[header] = values[i]; });
+      return toHistoricalPoint(row);
+    })
+    .filter((point): point is HistoricalDataPoint => point !== null)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+const readParquet = async (path: string): Promise<HistoricalDataPoint[]> => {
+  const buffer = await fs.readFile(path);
+  const file = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  const rows = await parquetReadObjects({ file });
+  return rows
+    .map(row => toHistoricalPoint(row))
+    .filter((point): point is HistoricalDataPoint => point !== null)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+const loadTickerHistory = async (ticker: string): Promise<HistoricalDataPoint[] | null> => {
+  if (!MARKET_DATA_DIR) {
+    return null;
+  }
+  if (historyCache.has(ticker)) {
+    return historyCache.get(ticker) ?? null;
+  }
+
+  const stems = [...new Set([ticker, ticker.replace(/[^A-Za-z0-9.-]/g, '')])];
+  let history: HistoricalDataPoint[] | null = null;
+
+  for (const stem of stems) {
+    for (const extension of FILE_EXTENSIONS) {
+      const path = join(MARKET_DATA_DIR, `${stem}.${extension}`);
+      try {
+        history = extension === 'parquet'
+          ? await readParquet(path)
+          : parseOhlcvCsv(await fs.readFile(path, 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+          logger.log(LogLevel.WARNING, LogCategory.MARKET_DATA,
+            `Failed to read market data file ${path}`, { ticker, error: error instanceof Error ? error.message : String(error) });
+        }
+        continue;
+      }
+      logger.log(LogLevel.DEBUG, LogCategory.MARKET_DATA,
+        `Loaded ${history.length} rows for ${ticker} from ${path}`, { ticker, rows: history.length });
+      break;
+    }
+    if (history) {
+      break;
+    }
+  }
+
+  historyCache.set(ticker, history && history.length > 0 ? history : null);
+  return historyCache.get(ticker) ?? null;
+};
+
+// Daily bars between start and end (inclusive); null when the ticker has no file
+export const getFileHistory = async (ticker: string, start: Date, end: Date): Promise<HistoricalDataPoint[] | null> => {
+  const history = await loadTickerHistory(ticker);
+  if (!history) {
+    return null;
+  }
+  return history.filter(point => point.date >= start && point.date <= end);
+};
+
+// Latest bar as a quote, for the realtime cascade
+export const getLatestFileQuote = async (ticker: string): Promise<TickerData | null> => {
+  const history = await loadTickerHistory(ticker);
+  if (!history) {
+    return null;
+  }
+
+  const latest = history[history.length - 1];
+  const previous = history.length > 1 ? history[history.length - 2] : null;
+  const previousClose = previous?.close ?? latest.open;
+  const dailyChange = latest.close - previousClose;
+  const recent = history.slice(-20);
+
+  return {
+    ticker,
+    price: latest.close,
+    dailyChange,
+    dailyChangePercent: previousClose > 0 ? dailyChange / previousClose : 0,
+    dayHigh: latest.high,
+    dayLow: latest.low,
+    volume: latest.volume,
+    averageVolume: recent.reduce((sum, point) => sum + point.volume, 0) / recent.length,
+  };
+};
+
+// manifest.json { "version": "..." } pins the dataset; otherwise the directory name stands in
+export const getFileDatasetVersion = async (): Promise<string | null> => {
+  if (!MARKET_DATA_DIR) {
+    return null;
+  }
+  if (datasetVersion !== undefined) {
+    return datasetVersion;
+  }
+
+  try {
+    const manifest = JSON.parse(await fs.readFile(join(MARKET_DATA_DIR, 'manifest.json'), 'utf-8'));
+    datasetVersion = typeof manifest?.version === 'string' ? manifest.version : basename(MARKET_DATA_DIR);
+  } catch {
+    datasetVersion = basename(MARKET_DATA_DIR);
+  }
+  return datasetVersion;
+};
+
+// corporate_actions.csv: ticker,date,type,value - value is the split ratio (2 = 2-for-1)
+// or the cash dividend per share, and is ignored for delistings
+export const parseCorporateActionsCsv = (content: string): CorporateAction[] => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) {
+    return [];
+  }
+
+  const headers = lines[0].replace(/^\uFEFF/, '').split(',').map(normalizeColumn);
+  const column = (values: string[], name: string) => values[headers.indexOf(name)]?.trim() ?? '';
+
+  return lines.slice(1).flatMap(line => {
+    const values = line.split(',');
+    const type = column(values, 'type').toLowerCase() as CorporateActionType;
+    const date = toDate(column(values, 'date'));
+    const value = toNumber(column(values, 'value'));
+    if (!CORPORATE_ACTION_TYPES.includes(type) || !date || (type !== 'delisting' && !(value > 0))) {
+      return [];
+    }
+    return [{
+      ticker: column(values, 'ticker').toUpperCase(),
+      type,
+      date: date.toISOString().split('T')[0],
+      ...(type === 'split' ? { ratio: value } : {}),
+      ...(type === 'dividend' ? { amount: value } : {}),
+    }];
+  });
+};
+
+// Actions for a ticker from <MARKET_DATA_DIR>/corporate_actions.csv; null when the file is absent
+export const getFileCorporateActions = async (ticker: string): Promise<CorporateAction[] | null> => {
+  if (!MARKET_DATA_DIR) {
+    return null;
+  }
+
+  if (!corporateActionsByTicker) {
+    corporateActionsByTicker = new Map();
+    try {
+      const actions = parseCorporateActionsCsv(await fs.readFile(join(MARKET_DATA_DIR, 'corporate_actions.csv'), 'utf-8'));
+      actions.forEach(action => {
+        corporateActionsByTicker!.set(action.ticker, [...(corporateActionsByTicker!.get(action.ticker) || []), action]);
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        logger.log(LogLevel.WARNING, LogCategory.MARKET_DATA,
+          'Failed to read corporate_actions.csv', { error: error instanceof Error ? error.message : String(error) });
+      }
+      return null;
+    }
+  }
+
+  return corporateActionsByTicker.size > 0 ? corporateActionsByTicker.get(ticker) || [] : null;
+};
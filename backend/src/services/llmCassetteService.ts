@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import type { LlmProviderId } from '../types.js';
+import type { ChatCompletionRequest, ChatCompletionResult } from './llmProviders.js';
+import { logger, LogLevel, LogCategory } from './logger.js';
+
+// record: store every completion; replay: serve stored completions instead of calling the provider
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+const LLM_CASSETTE_MODE = (process.env.LLM_CASSETTE_MODE || 'off').trim().toLowerCase();
+// One JSONL file per agent: <LLM_CASSETTE_DIR>/<simulationId>/<agentId>.jsonl
+const LLM_CASSETTE_DIR = process.env.LLM_CASSETTE_DIR?.trim() || './data/cassettes';
+
+export interface CassetteKey {
+  simulationId: string;
+  agentId: string;
+  day: number;
+  hour: number;
+  turn?: number; // Model round trip within a tool-calling decision; 0 for single-shot decisions
+}
+
+export interface CassetteEntry {
+  key: CassetteKey;
+  provider: LlmProviderId;
+  model: string;
+  parameters: { temperature: number; maxTokens: number };
+  messages: ChatCompletionRequest['messages'];
+  completion: ChatCompletionResult;
+  recordedAt: string;
+}
+
+export const getCassetteMode = (): CassetteMode =>
+  LLM_CASSETTE_MODE === 'record' || LLM_CASSETTE_MODE === 'replay' ? LLM_CASSETTE_MODE : 'off';
+
+const toFileName = (value: string): string => value.replace(/[^A-Za-z0-9._-]/g, '_');
+
+const getCassettePath = (simulationId: string, agentId: string): string =>
+  join(LLM_CASSETTE_DIR, toFileName(simulationId), `${toFileName(agentId)}.jsonl`);
+
+const getEntryKey = (key: CassetteKey): string => `${key.day}:${key.hour}:${key.turn ?? 0}`;
+
+// Replay cassettes are read once per file; a later entry for the same day/hour/turn wins
+const loadedCassettes = new Map<string, Map<string, CassetteEntry>>();
+
+const loadCassette = async (simulationId: string, agentId: string): Promise<Map<string, CassetteEntry>> => {
+  const path = getCassettePath(simulationId, agentId);
+  const cached = loadedCassettes.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  const entries = new Map<string, CassetteEntry>();
+  try {
+    const content = await fs.readFile(path, 'utf-8');
+    content.split(/\r?\n/).filter(line => line.trim().length > 0).forEach(line => {
+      const entry = JSON.parse(line) as CassetteEntry;
+      entries.set(getEntryKey(entry.key), entry);
+    });
+  } catch (error) {
+    logger.log(LogLevel.WARNING, LogCategory.LLM, `Failed to read LLM cassette ${path}`, {
+      simulationId,
+      agentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  loadedCassettes.set(path, entries);
+  return entries;
+};
+
+export const recordCassetteEntry = async (entry: CassetteEntry): Promise<void> => {
+  const path = getCassettePath(entry.key.simulationId, entry.key.agentId);
+  try {
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.appendFile(path, JSON.stringify(entry) + '\n', 'utf-8');
+  } catch (error) {
+    // A failed write loses the recording, not the trading round
+    logger.log(LogLevel.ERROR, LogCategory.LLM, `Failed to record LLM cassette entry to ${path}`, {
+      ...entry.key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+// Stored completion for this call. Throws when the cassette has no entry for the key, and warns
+// when the prompt has drifted from the recording, since the replayed decision may no longer fit it.
+export const replayCassetteEntry = async (
+  key: CassetteKey,
+  messages: ChatCompletionRequest['messages']
+): Promise<ChatCompletionResult> => {
+  const entries = await loadCassette(key.simulationId, key.agentId);
+  const entry = entries.get(getEntryKey(key));
+  if (!entry) {
+    throw new Error(`No cassette entry for ${key.simulationId}/${key.agentId} day ${key.day} hour ${key.hour} turn ${key.turn ?? 0}`);
+  }
+
+  if (JSON.stringify(entry.messages) !== JSON.stringify(messages)) {
+    logger.log(LogLevel.WARNING, LogCategory.LLM, 'Replayed prompt differs from the recorded one', { ...key });
+  }
+  return entry.completion;
+};
@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { LlmProviderId } from '../types.js';
+import { logger, LogLevel, LogCategory } from './logger.js';
+
+const OPENROUTER_API_KEY = (process.env.OPENROUTER_API_KEY || '').trim();
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+// Any server speaking the OpenAI chat/completions API: OpenAI itself, or a local
+// llama.cpp (http://localhost:8080/v1), Ollama (http://localhost:11434/v1) or vLLM endpoint
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_BASE_URL = (process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL).trim().replace(/\/+$/, '');
+const OPENAI_API_KEY = (process.env.OPENAI_API_KEY || '').trim();
+// <LLM_RECORDINGS_DIR>/<agentId>.jsonl, one recorded response per line, replayed in order
+const LLM_RECORDINGS_DIR = process.env.LLM_RECORDINGS_DIR?.trim() || null;
+
+export const DEFAULT_LLM_PROVIDER: LlmProviderId = 'openrouter';
+
+export interface ChatCompletionRequest {
+  agentId: string;
+  model: string;
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>;
+  temperature: number;
+  maxTokens: number;
+  baseUrl?: string; // Per-trader override for OpenAI-compatible servers
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  tokensUsed?: number;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  // Reason the provider cannot be called (missing key, no recordings dir), or null when usable
+  getUnavailableReason(baseUrl?: string): string | null;
+  complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+}
+
+// Errors carry the HTTP status so callers can tell auth/credit failures from transient ones
+export type LlmProviderError = Error & { status?: number };
+
+const providerError = (message: string, status?: number): LlmProviderError =>
+  Object.assign(new Error(message), { status });
+
+const isPlaceholderOpenRouterKey = (value: string): boolean => {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) {
+    return true;
+  }
+  if (normalized === 'sk-or-v1-your-key-here') {
+    return true;
+  }
+  if (normalized.includes('your_openrouter_api_key')) {
+    return true;
+  }
+  if (normalized.includes('your-openrouter-api-key')) {
+    return true;
+  }
+  if (normalized.includes('your_key_here') || normalized.includes('your-key-here')) {
+    return true;
+  }
+  return false;
+};
+
+export const hasUsableOpenRouterKey = Boolean(OPENROUTER_API_KEY) && !isPlaceholderOpenRouterKey(OPENROUTER_API_KEY);
+
+const createOpenAiCompatibleProvider = (options: {
+  id: LlmProviderId;
+  label: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+  getUnavailableReason: (baseUrl?: string) => string | null;
+}): LlmProvider => ({
+  id: options.id,
+  getUnavailableReason: options.getUnavailableReason,
+  complete: async request => {
+    const baseUrl = (request.baseUrl || options.baseUrl).replace(/\/+$/, '');
+    // The configured key only goes to the configured server, never to a per-trader baseUrl elsewhere
+    const apiKey = baseUrl === options.baseUrl ? options.apiKey : undefined;
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        response_format: {
+          type: 'json_object'
+        },
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      })
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      let errorMessage = errorData;
+
+      try {
+        const errorJson = JSON.parse(errorData);
+        if (errorJson.error) {
+          errorMessage = errorJson.error.message || JSON.stringify(errorJson.error);
+        }
+      } catch (e) {
+        // If error data is not JSON, use it as-is
+      }
+
+      if (response.status === 429) {
+        const retryAfter = response.headers.get('retry-after');
+        throw providerError(`Rate limit exceeded. ${errorMessage}${retryAfter ? ` Retry after ${retryAfter} seconds.` : ''}`, response.status);
+      }
+
+      if (response.status === 404) {
+        throw providerError(`Model not found: ${request.model}. Please check the model identifier.`, response.status);
+      }
+
+      throw providerError(`${options.label} API error: ${response.status} - ${errorMessage}`, response.status);
+    }
+
+    const data = await response.json() as any;
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw providerError(`No response content from ${options.label}`);
+    }
+    return {
+      content,
+      tokensUsed: data.usage?.total_tokens,
+      promptTokens: data.usage?.prompt_tokens,
+      completionTokens: data.usage?.completion_tokens,
+    };
+  },
+});
+
+// Recorded responses are read once per agent and handed out in order
+const recordings = new Map<string, { responses: string[]; next: number }>();
+
+const loadRecordings = async (agentId: string): Promise<{ responses: string[]; next: number }> => {
+  const cached = recordings.get(agentId);
+  if (cached) {
+    return cached;
+  }
+
+  const path = join(LLM_RECORDINGS_DIR!, `${agentId}.jsonl`);
+  let responses: string[] = [];
+  try {
+    const content = await fs.readFile(path, 'utf-8');
+    // A line is either { "content": "<raw model output>" } or the decision object itself
+    responses = content.split(/\r?\n/).filter(line => line.trim().length > 0).map(line => {
+      const parsed = JSON.parse(line);
+      return typeof parsed?.content === 'string' ? parsed.content : JSON.stringify(parsed);
+    });
+  } catch (error) {
+    logger.log(LogLevel.WARNING, LogCategory.LLM, `Failed to read recorded responses ${path}`, {
+      agentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const entry = { responses, next: 0 };
+  recordings.set(agentId, entry);
+  return entry;
+};
+
+const recordedProvider: LlmProvider = {
+  id: 'recorded',
+  getUnavailableReason: () => LLM_RECORDINGS_DIR ? null : 'LLM_RECORDINGS_DIR not set',
+  complete: async request => {
+    const entry = await loadRecordings(request.agentId);
+    if (entry.next >= entry.responses.length) {
+      throw providerError(`No recorded responses left for ${request.agentId}`, 404);
+    }
+    return { content: entry.responses[entry.next++] };
+  },
+};
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  openrouter: createOpenAiCompatibleProvider({
+    id: 'openrouter',
+    label: 'OpenRouter',
+    baseUrl: OPENROUTER_BASE_URL,
+    apiKey: OPENROUTER_API_KEY,
+    headers: {
+      'HTTP-Referer': 'https://llm-finance-arena.com',
+      'X-Title': 'LLM Finance Arena',
+    },
+    getUnavailableReason: () => hasUsableOpenRouterKey ? null : 'OPENROUTER_API_KEY missing/placeholder',
+  }),
+  // Local servers usually run without a key; only api.openai.com itself needs one
+  openai: createOpenAiCompatibleProvider({
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    baseUrl: OPENAI_BASE_URL,
+    apiKey: OPENAI_API_KEY,
+    getUnavailableReason: baseUrl => OPENAI_API_KEY || (baseUrl || OPENAI_BASE_URL) !== DEFAULT_OPENAI_BASE_URL ? null : 'OPENAI_API_KEY missing',
+  }),
+  recorded: recordedProvider,
+};
+
+export const LLM_PROVIDER_IDS = Object.keys(PROVIDERS) as LlmProviderId[];
+
+export const getLlmProvider = (id: LlmProviderId | undefined): LlmProvider =>
+  PROVIDERS[id ?? DEFAULT_LLM_PROVIDER] ?? PROVIDERS[DEFAULT_LLM_PROVIDER];
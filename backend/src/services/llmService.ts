@@ -1,68 +1,58 @@
-import type { Agent, MarketData, Trade, TradeAction } from '../types.js';
-import { MAX_POSITION_SIZE_PERCENT, UNIFIED_SYSTEM_PROMPT, TRADING_FEE_RATE, MIN_TRADE_FEE } from '../constants.js';
+import type { Agent, MarketData, Trade, TradeAction, MarginConfig, ExecutionCostConfig, Order, LotReliefMethod, TaxLot, LlmProviderId, InferenceUsageRecord, RiskRulesConfig, InstrumentType, ExchangeId, ExtendedHoursConfig, TradingSession } from '../types.js';
+import { MAX_POSITION_SIZE_PERCENT, UNIFIED_SYSTEM_PROMPT } from '../constants.js';
 import { sanitizeOutgoingMessage } from '../utils/chatUtils.js';
+import { getMarginSummary } from '../utils/marginCalculations.js';
 import { logger, LogLevel, LogCategory } from './logger.js';
+import { getSimulationSeed } from './marketDataService.js';
+import { createSeededRandom } from '../utils/seededRandom.js';
+import { isStrictJson, parseDecisionJson } from '../utils/decisionJson.js';
+import { getRejectedTradeIndexes, TIME_IN_FORCE_VALUES, validateTradeDecision, type DecisionValidation } from '../utils/decisionSchema.js';
+import { getInferenceCost, isInferenceBudgetExhausted } from '../utils/inferenceCost.js';
+import { describeAgentTools, getAgentToolNames, getMaxToolTurns, getRequestedToolCalls, runAgentTool } from './agentTools.js';
+import { getCassetteMode, recordCassetteEntry, replayCassetteEntry, type CassetteKey } from './llmCassetteService.js';
+import { describeRiskRules } from '../simulation/riskEngine.js';
+import { calculateInstrumentFee, calculateMaxAffordableQuantity, describeExchangeListings, describeExtendedHours, describeInstrumentClasses, getInstrumentProfile, getInstrumentType, getTradableMarketData, INSTRUMENT_PROFILES, withArenaCommission, type InstrumentProfile } from '../simulation/instruments.js';
+import { getLlmProvider, hasUsableOpenRouterKey, type ChatCompletionRequest, type ChatCompletionResult, type LlmProviderError } from './llmProviders.js';
+import { DEFAULT_WEBHOOK_TIMEOUT_MS, requestWebhookDecision, type WebhookDecisionRequest } from './webhookAgentService.js';
 
-const OPENROUTER_API_KEY = (process.env.OPENROUTER_API_KEY || '').trim();
 const ENABLE_LLM = (process.env.ENABLE_LLM ?? 'true').toLowerCase() === 'true';
 const USE_UNIFIED_MODEL = (process.env.USE_UNIFIED_MODEL ?? 'false').toLowerCase() === 'true';
 const UNIFIED_MODEL = process.env.UNIFIED_MODEL || 'google/gemini-2.5-flash-lite';
 const SIMPLE_BOT_PROMPTS = (process.env.SIMPLE_BOT_PROMPTS ?? 'false').toLowerCase() === 'true';
 
-const isPlaceholderOpenRouterKey = (value: string): boolean => {
-  const normalized = value.trim().toLowerCase();
-  if (!normalized) {
-    return true;
-  }
-  if (normalized === 'sk-or-v1-your-key-here') {
-    return true;
-  }
-  if (normalized.includes('your_openrouter_api_key')) {
-    return true;
-  }
-  if (normalized.includes('your-openrouter-api-key')) {
-    return true;
-  }
-  if (normalized.includes('your_key_here') || normalized.includes('your-key-here')) {
-    return true;
-  }
-  return false;
-};
-
-const hasUsableOpenRouterKey = Boolean(OPENROUTER_API_KEY) && !isPlaceholderOpenRouterKey(OPENROUTER_API_KEY);
+const authDisabledProviders = new Set<LlmProviderId>();
+const unavailableWarned = new Set<LlmProviderId>();
+const authDisabledWarned = new Set<LlmProviderId>();
+const budgetExhaustedWarned = new Set<string>();
 
-let llmAuthDisabled = false;
-let missingKeyWarned = false;
-let authDisabledWarned = false;
-
-const warnMissingKeyOnce = (): void => {
-  if (missingKeyWarned) {
+const warnProviderUnavailableOnce = (providerId: LlmProviderId, reason: string): void => {
+  if (unavailableWarned.has(providerId)) {
     return;
   }
-  missingKeyWarned = true;
+  unavailableWarned.add(providerId);
   logger.log(
     LogLevel.WARNING,
     LogCategory.LLM,
-    'OPENROUTER_API_KEY is missing or looks like a placeholder. Using synthetic trades.',
+    `LLM provider '${providerId}' is unavailable (${reason}). Using synthetic trades.`,
     {}
   );
 };
 
-const warnAuthDisabledOnce = (message?: string): void => {
-  if (authDisabledWarned) {
+const warnAuthDisabledOnce = (providerId: LlmProviderId, message?: string): void => {
+  if (authDisabledWarned.has(providerId)) {
     return;
   }
-  authDisabledWarned = true;
+  authDisabledWarned.add(providerId);
   logger.log(
     LogLevel.ERROR,
     LogCategory.LLM,
-    'Disabling LLM calls due to OpenRouter auth/credits error. Using synthetic trades.',
+    `Disabling '${providerId}' LLM calls due to auth/credits error. Using synthetic trades.`,
     { error: message }
   );
 };
 
 if (!hasUsableOpenRouterKey && ENABLE_LLM) {
-  console.warn('OPENROUTER_API_KEY is not set or looks like a placeholder. LLM agents will use synthetic trades.');
+  console.warn('OPENROUTER_API_KEY is not set or looks like a placeholder. OpenRouter agents will use synthetic trades.');
 }
 
 if (!ENABLE_LLM) {
@@ -82,41 +72,8 @@ const getAgentPrompt = (agent: Agent): string => {
   return (agent as any).systemPrompt || UNIFIED_SYSTEM_PROMPT;
 };
 
-const estimateTradeFee = (notional: number): number => {
-  const variableFee = notional * TRADING_FEE_RATE;
-  return Math.max(variableFee, MIN_TRADE_FEE);
-};
-
-// Calculate the maximum quantity of shares that can be bought with available cash
-// Accounts for execution fees (percentage-based with minimum)
-const calculateMaxAffordableQuantity = (price: number, availableCash: number): number => {
-  if (price <= 0 || availableCash <= 0) {
-    return 0;
-  }
-  
-  // If the minimum fee alone exceeds available cash, can't buy any shares
-  if (MIN_TRADE_FEE >= availableCash) {
-    return 0;
-  }
-  
-  // Try percentage-based fee calculation first
-  // cash >= quantity * price * (1 + TRADING_FEE_RATE)
-  const maxQuantityWithPercentageFee = Math.floor(availableCash / (price * (1 + TRADING_FEE_RATE)));
-  
-  // Check if this quantity would trigger the minimum fee
-  const notionalForPercentage = maxQuantityWithPercentageFee * price;
-  const feeForPercentage = notionalForPercentage * TRADING_FEE_RATE;
-  
-  if (feeForPercentage >= MIN_TRADE_FEE) {
-    // Percentage fee applies, return this quantity
-    return Math.max(0, maxQuantityWithPercentageFee);
-  } else {
-    // Minimum fee applies, need to account for it
-    // cash >= quantity * price + MIN_TRADE_FEE
-    const maxQuantityWithMinFee = Math.floor((availableCash - MIN_TRADE_FEE) / price);
-    return Math.max(0, maxQuantityWithMinFee);
-  }
-};
+const estimateTradeFee = (notional: number, instrument: InstrumentProfile = INSTRUMENT_PROFILES.equity): number =>
+  calculateInstrumentFee(notional, instrument);
 
 const withTimeout = <T>(promise: Promise<T>, timeoutMs: number): Promise<T> => {
   return Promise.race([
@@ -140,6 +97,12 @@ const exponentialBackoff = async <T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
+      // Auth, credit and unknown-model responses won't change on retry; 429 and 5xx are retried
+      const status = (lastError as LlmProviderError).status;
+      if (status === 401 || status === 402 || status === 403 || status === 404) {
+        throw lastError;
+      }
+
       // Don't retry on certain errors (auth failures, not found, insufficient credits)
       if (lastError.message.includes('404') ||
           lastError.message.includes('401') ||
@@ -149,7 +112,11 @@ const exponentialBackoff = async <T>(
       }
 
       if (attempt < maxRetries - 1) {
-        const delay = baseDelay * Math.pow(2, attempt) + Math.random() * 1000; // Add jitter
+        const retryAfter = lastError.message.match(/Retry after (\d+(?:\.\d+)?) seconds/);
+        const delay = Math.max(
+          baseDelay * Math.pow(2, attempt) + Math.random() * 1000, // Add jitter
+          retryAfter ? Number(retryAfter[1]) * 1000 : 0
+        );
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
@@ -173,6 +140,8 @@ const generateSyntheticTrades = (
   day: number,
   chatContext?: ChatPromptContext
 ): { trades: Omit<Trade, 'price' | 'timestamp'>[]; rationale: string; reply?: string } => {
+  // Keyed by agent and decision round so a seeded run produces the same trades
+  const random = createSeededRandom(getSimulationSeed(), 'trades', agent.id, day, agent.performanceHistory.length);
   const portfolioValue = Object.values(agent.portfolio.positions).reduce((acc, pos) => 
     acc + pos.quantity * (marketData[pos.ticker]?.price || 0), agent.portfolio.cash);
   
@@ -231,7 +200,7 @@ const generateSyntheticTrades = (
         const quantity = Math.floor((notional - estimateTradeFee(notional)) / currentPrice);
         
         if (quantity > 0) {
-          const fairValue = currentPrice * (0.95 + Math.random() * 0.1); // Fair value within 95-105% of current price
+          const fairValue = currentPrice * (0.95 + random() * 0.1); // Fair value within 95-105% of current price
           const volatility = Math.abs(stock.dailyChangePercent) || 0.02;
           const topOfBox = fairValue * (1 + Math.max(0.05, volatility * 1.5));
           const bottomOfBox = fairValue * (1 - Math.max(0.05, volatility * 1.5));
@@ -295,12 +264,12 @@ const generateSyntheticTrades = (
     for (const candidate of sellCandidates) {
       const { ticker, position, stock } = candidate;
       // Sell 30-50% of the position
-      const sellPercent = 0.3 + Math.random() * 0.2;
+      const sellPercent = 0.3 + random() * 0.2;
       const quantity = Math.max(1, Math.floor(position.quantity * sellPercent));
       
       if (quantity > 0 && quantity <= position.quantity) {
         const currentPrice = stock.price;
-        const fairValue = currentPrice * (0.95 + Math.random() * 0.1);
+        const fairValue = currentPrice * (0.95 + random() * 0.1);
         const volatility = Math.abs(stock.dailyChangePercent) || 0.02;
         const topOfBox = fairValue * (1 + Math.max(0.05, volatility * 1.5));
         const bottomOfBox = fairValue * (1 - Math.max(0.05, volatility * 1.5));
@@ -343,23 +312,63 @@ const generateSyntheticTrades = (
       'Appreciate the feedback - keeping our positions aligned with market conditions.',
       'Noted - maintaining our disciplined approach to portfolio management.',
     ];
-    reply = genericReplies[Math.floor(Math.random() * genericReplies.length)];
+    reply = genericReplies[Math.floor(random() * genericReplies.length)];
   }
   
   return { trades, rationale, reply };
 };
 
+// Simulation-level state the agent's prompt depends on beyond its own portfolio
+export interface TradeDecisionContext {
+  margin?: MarginConfig;
+  executionCost?: ExecutionCostConfig;
+  openOrders?: Order[];
+  lotRelief?: LotReliefMethod; // 'specific' shows open tax lots and lets sells name them
+  riskRules?: RiskRulesConfig;
+  instrumentTypes?: InstrumentType[]; // Asset classes the arena trades; others are left out of the prompt
+  universe?: string[]; // Tickers the arena trades; others are left out of the prompt
+  exchange?: ExchangeId; // Venue of tickers without an exchange suffix; describes non-NYSE sessions
+  extendedHours?: ExtendedHoursConfig;
+  session?: TradingSession; // NYSE session at decision time, in realtime
+  simulationId?: string; // Cassette key, with the agent, day and intradayHour
+  intradayHour?: number;
+}
+
+const describeOrder = (order: Order): string => {
+  const prices = [
+    order.limitPrice !== undefined ? `limit $${order.limitPrice.toFixed(2)}` : '',
+    order.stopPrice !== undefined ? `stop $${order.stopPrice.toFixed(2)}` : '',
+  ].filter(Boolean).join(', ');
+  const status = order.status === 'triggered' ? ' [stop triggered]' : '';
+  return `${order.id}: ${order.action.toUpperCase()} ${order.quantity} ${order.ticker} ${order.orderType.toUpperCase()} (${prices}) ${order.timeInForce.toUpperCase()}${status}`;
+};
+
+const describeLot = (lot: TaxLot): string => `${lot.id} ${+lot.quantity.toFixed(4)} @ $${lot.costBasis.toFixed(2)}`;
+
 export const getTradeDecisions = async (
   agent: Agent,
   marketData: MarketData,
   day: number,
   timeoutMs: number = 30000,
   chatContext?: ChatPromptContext,
-  previousFailedTrades?: Array<{ ticker: string; action: string; quantity: number; reason: string }>
-): Promise<{ trades: Omit<Trade, 'price' | 'timestamp'>[]; rationale: string; reply?: string }> => {
+  previousFailedTrades?: Array<{ ticker: string; action: string; quantity: number; reason: string; field?: string }>,
+  context?: TradeDecisionContext
+): Promise<{ trades: Omit<Trade, 'price' | 'timestamp'>[]; rationale: string; reply?: string; cancelOrderIds?: string[]; usage?: InferenceUsageRecord; validation?: DecisionValidation }> => {
+  const provider = getLlmProvider(agent.provider);
+  // Webhook agents get the same context and validation, but no provider, tools or token billing
+  const webhook = agent.webhook;
+  const cassetteMode = getCassetteMode();
+  const cassetteKey: CassetteKey = {
+    simulationId: context?.simulationId ?? 'default',
+    agentId: agent.id,
+    day,
+    hour: context?.intradayHour ?? 0,
+  };
+  // The unified model is an OpenRouter id, so agents on other providers keep their own model
+  const useUnifiedModel = USE_UNIFIED_MODEL && provider.id === 'openrouter' && !webhook;
   // Determine which model will be used (for logging)
-  const modelToUse = USE_UNIFIED_MODEL ? UNIFIED_MODEL : agent.model;
-  const displayModel = USE_UNIFIED_MODEL ? `${agent.model} (via ${UNIFIED_MODEL})` : agent.model;
+  const modelToUse = useUnifiedModel ? UNIFIED_MODEL : agent.model;
+  const displayModel = useUnifiedModel ? `${agent.model} (via ${UNIFIED_MODEL})` : agent.model;
   // Removed verbose logging - only errors will be logged
 
   const logSyntheticReason = (reason: string) => {
@@ -371,21 +380,37 @@ export const getTradeDecisions = async (
     );
   };
 
-  // If LLM is disabled, use synthetic trades
-  if (!ENABLE_LLM) {
+  // Agents that have spent their inference budget only hold (resting orders still fill)
+  if (isInferenceBudgetExhausted(agent)) {
+    const budgetKey = `${context?.simulationId ?? 'default'}:${agent.id}`;
+    if (!budgetExhaustedWarned.has(budgetKey)) {
+      budgetExhaustedWarned.add(budgetKey);
+      logger.log(LogLevel.WARNING, LogCategory.LLM, `${agent.name} has used its $${agent.inferenceBudget!.toFixed(2)} inference budget. Holding from now on.`, {
+        agent: agent.name,
+        spent: agent.inferenceUsage?.cost,
+      });
+    }
+    return { trades: [], rationale: `Inference budget of $${agent.inferenceBudget!.toFixed(2)} used up - holding positions.` };
+  }
+
+  // If LLM is disabled, use synthetic trades. Replays still run: they never reach the provider,
+  // and offline runs without keys naturally set ENABLE_LLM=false
+  if (!ENABLE_LLM && !webhook && cassetteMode !== 'replay') {
     logSyntheticReason('ENABLE_LLM=false');
     return generateSyntheticTrades(agent, marketData, day, chatContext);
   }
 
-  if (!hasUsableOpenRouterKey) {
-    warnMissingKeyOnce();
-    logSyntheticReason('OPENROUTER_API_KEY missing/placeholder');
+  // Replays never reach the provider, so they run without keys or a model server
+  const unavailableReason = webhook || cassetteMode === 'replay' ? null : provider.getUnavailableReason(agent.providerBaseUrl);
+  if (unavailableReason) {
+    warnProviderUnavailableOnce(provider.id, unavailableReason);
+    logSyntheticReason(unavailableReason);
     return generateSyntheticTrades(agent, marketData, day, chatContext);
   }
 
-  if (llmAuthDisabled) {
-    warnAuthDisabledOnce();
-    logSyntheticReason('OpenRouter auth/credits error');
+  if (!webhook && cassetteMode !== 'replay' && authDisabledProviders.has(provider.id)) {
+    warnAuthDisabledOnce(provider.id);
+    logSyntheticReason(`${provider.id} auth/credits error`);
     return generateSyntheticTrades(agent, marketData, day, chatContext);
   }
 
@@ -400,6 +425,12 @@ export const getTradeDecisions = async (
     systemInstruction.toLowerCase().includes('holding 100% cash is allowed');
 
   const availableCash = agent.portfolio.cash;
+  const margin = context?.margin;
+  const openOrders = context?.openOrders ?? [];
+  const openLots = context?.lotRelief === 'specific' ? agent.taxLots?.openLots ?? [] : [];
+  const lotsFor = (ticker: string) => openLots.filter(lot => lot.ticker === ticker);
+  const marginEnabled = Boolean(margin?.enabled);
+  const marginSummary = marginEnabled && margin ? getMarginSummary(agent.portfolio, marketData, margin) : undefined;
   const currentPositions = Object.values(agent.portfolio.positions).map(p => {
     const currentPrice = marketData[p.ticker]?.price || 0;
     const positionValue = p.quantity * currentPrice;
@@ -412,14 +443,15 @@ export const getTradeDecisions = async (
       positionValue,
       positionPercent: positionPercent.toFixed(1),
       unrealizedGain: (currentPrice - p.averageCost) * p.quantity,
-      unrealizedGainPercent: p.averageCost > 0 ? ((currentPrice - p.averageCost) / p.averageCost * 100).toFixed(2) : '0.00',
+      unrealizedGainPercent: p.averageCost > 0 ? ((currentPrice - p.averageCost) / p.averageCost * 100 * Math.sign(p.quantity)).toFixed(2) : '0.00',
       lastFairValue: p.lastFairValue,
       lastTopOfBox: p.lastTopOfBox,
       lastBottomOfBox: p.lastBottomOfBox,
     };
   });
 
-  const availableTickers = Object.keys(marketData);
+  const tradableMarketData = getTradableMarketData(marketData, context?.instrumentTypes, context?.universe);
+  const availableTickers = Object.keys(tradableMarketData);
   
   if (availableTickers.length === 0) {
     console.error(`[${agent.name}] No market data available! Cannot make trading decisions.`);
@@ -428,12 +460,28 @@ export const getTradeDecisions = async (
     return { trades: [], rationale: "No market data available - cannot make trading decisions.", reply: fallbackReply };
   }
 
-  const tradingFeeBpsDisplay = (TRADING_FEE_RATE * 10000).toFixed(2);
-  const tradingFeePercentDisplay = (TRADING_FEE_RATE * 100).toFixed(3);
-  const minFeeDisplay = MIN_TRADE_FEE.toFixed(2);
-  const tradingCostLine = TRADING_FEE_RATE > 0
+  const executionCost = context?.executionCost;
+  const commission = withArenaCommission(INSTRUMENT_PROFILES.equity, executionCost);
+  const tradingFeeBpsDisplay = (commission.feeRate * 10000).toFixed(2);
+  const tradingFeePercentDisplay = (commission.feeRate * 100).toFixed(3);
+  const minFeeDisplay = commission.minFee.toFixed(2);
+  const tradingCostLine = commission.feeRate > 0
     ? `${tradingFeeBpsDisplay} bps (${tradingFeePercentDisplay}% of notional) with a $${minFeeDisplay} minimum`
     : `$${minFeeDisplay} per trade`;
+  const executionCostLine = executionCost && executionCost.model !== 'none'
+    ? ` Fills also pay a ${executionCost.halfSpreadBps.toFixed(1)} bps half-spread${executionCost.model === 'square_root' ? ' plus market impact that grows with order size relative to average daily volume, so large orders in thinly traded names fill well away from the quote' : ''}.`
+    : '';
+  const maxPositionPercent = (context?.riskRules?.maxPositionWeight ?? MAX_POSITION_SIZE_PERCENT) * 100;
+  const riskRuleLines = context?.riskRules ? describeRiskRules(context.riskRules) : [];
+  const instrumentLines = [
+    ...describeExchangeListings(tradableMarketData, context?.exchange),
+    ...describeInstrumentClasses(tradableMarketData, executionCost),
+    ...(context?.extendedHours?.enabled ? [describeExtendedHours(context.extendedHours, context.session)] : []),
+  ];
+  const instrumentLabel = (d: MarketData[string]): string | undefined => {
+    const profile = getInstrumentProfile(d.ticker, d);
+    return profile === INSTRUMENT_PROFILES.equity ? undefined : profile.label;
+  };
 
   const communityMessages = chatContext?.messages ?? [];
   // Only include chat section if there are actual messages to reply to
@@ -449,14 +497,16 @@ You may provide a reply (optional). If you choose to reply, it must be one sente
 
   // Build market data for prompt - only include ticker, price, and change %
   const marketDataForPrompt = SIMPLE_BOT_PROMPTS
-    ? Object.values(marketData).map(d => ({
+    ? Object.values(tradableMarketData).map(d => ({
         ticker: d.ticker,
-        price: parseFloat(d.price.toFixed(2))
+        price: parseFloat(d.price.toFixed(2)),
+        ...(instrumentLabel(d) ? { instrument: instrumentLabel(d) } : {})
       }))
-    : Object.values(marketData).map(d => ({
+    : Object.values(tradableMarketData).map(d => ({
         ticker: d.ticker,
         price: parseFloat(d.price.toFixed(2)),
-        changePercent: parseFloat((d.dailyChangePercent * 100).toFixed(2))
+        changePercent: parseFloat((d.dailyChangePercent * 100).toFixed(2)),
+        ...(instrumentLabel(d) ? { instrument: instrumentLabel(d) } : {})
       }));
 
   const prompt = SIMPLE_BOT_PROMPTS
@@ -477,15 +527,30 @@ ${JSON.stringify({
       positionValue: parseFloat(p.positionValue.toFixed(2)),
       positionPercent: parseFloat(p.positionPercent),
       unrealizedGain: parseFloat(p.unrealizedGain.toFixed(2)),
-      unrealizedGainPercent: parseFloat(p.unrealizedGainPercent)
+      unrealizedGainPercent: parseFloat(p.unrealizedGainPercent),
+      ...(lotsFor(p.ticker).length > 0 ? { lots: lotsFor(p.ticker).map(describeLot) } : {})
     }))
   },
+  ...(openOrders.length > 0 ? {
+    openOrders: openOrders.map(order => ({
+      id: order.id,
+      ticker: order.ticker,
+      action: order.action,
+      quantity: order.quantity,
+      orderType: order.orderType,
+      limitPrice: order.limitPrice,
+      stopPrice: order.stopPrice,
+      timeInForce: order.timeInForce,
+      status: order.status
+    }))
+  } : {}),
   ...(previousFailedTrades && previousFailedTrades.length > 0 ? {
     failedTrades: previousFailedTrades.map(ft => ({
       action: ft.action,
       ticker: ft.ticker,
       quantity: ft.quantity,
-      reason: ft.reason
+      reason: ft.reason,
+      ...(ft.field ? { field: ft.field } : {})
     }))
   } : {}),
   ...(chatContext?.enabled && communityMessages.length > 0 ? {
@@ -495,17 +560,32 @@ ${JSON.stringify({
     }))
   } : {}),
   tradingRules: {
-    maxPositionSizePercent: MAX_POSITION_SIZE_PERCENT * 100,
+    maxPositionSizePercent: maxPositionPercent,
     tradingFee: tradingCostLine,
-    noMargin: true,
-    noShortSelling: true,
-    allowAllCash: allowAllCash
+    ...(riskRuleLines.length > 0 ? { riskRules: riskRuleLines } : {}),
+    ...(instrumentLines.length > 0 ? { instrumentClasses: instrumentLines } : {}),
+    noMargin: !marginEnabled,
+    noShortSelling: !marginEnabled,
+    allowAllCash: allowAllCash,
+    ...(marginSummary && margin ? {
+      marginAccount: {
+        equity: parseFloat(marginSummary.equity.toFixed(2)),
+        buyingPower: parseFloat(marginSummary.buyingPower.toFixed(2)),
+        initialMarginPercent: margin.initialMarginRate * 100,
+        maintenanceMarginPercent: margin.maintenanceMarginRate * 100,
+        shortBorrowFeeAnnualPercent: margin.shortBorrowFeeRate * 100,
+        negativeQuantityMeansShort: true
+      }
+    } : {})
   }
 }, null, 2)}
 
 Return a JSON object with:
 - "rationale": A 1-2 sentence explanation of your strategy
-- "trades": Array of trades with: ticker, action ("buy" or "sell"), quantity (integer), fairValue, topOfBox, bottomOfBox, justification${communityMessages.length > 0 ? `
+- "trades": Array of trades with: ticker, action ("buy" or "sell"), quantity (integer), fairValue, topOfBox, bottomOfBox, justification
+  Optional order fields: orderType ("market" default, "limit", "stop", "stop_limit"), limitPrice, stopPrice, timeInForce ("day" default, "gtc", "ioc")${openLots.length > 0 ? `
+  Optional "lotIds": ids of the tax lots a sell should close first (otherwise oldest first)` : ''}
+- "cancelOrderIds": Optional array of open order ids to cancel${communityMessages.length > 0 ? `
 - "reply": Optional short message to community (max ${chatContext?.maxReplyLength ?? 140} chars, no links)` : ''}
 
 Example response:
@@ -530,16 +610,17 @@ IMPORTANT:
 - Only include trades to execute (no "hold" actions)
 - TRADE EXECUTION ORDER: Sells are executed FIRST, then buys. This means you can sell shares to free up cash for purchases in the same round. Even if you don't have cash right now, you can sell some shares and buy others—the sells will execute first, providing cash for your buys.
 - For BUY: You can include buy orders even if you don't currently have enough cash, as long as you also include sell orders that will free up the necessary cash (sells execute first)
-- For SELL: Ensure you have enough shares for sells${allowAllCash ? '' : `
+- For SELL: ${marginEnabled ? 'Selling more shares than you hold opens (or adds to) a short position, limited by buying power' : 'Ensure you have enough shares for sells'}${allowAllCash ? '' : `
 - You must invest available cash—holding 100% cash is not acceptable`}
+- Limit/stop orders rest in your order book and fill when the price path reaches them (your bottomOfBox/topOfBox make natural limit levels)
 - Return empty trades array if no action: {"rationale": "...", "trades": []}`
     : `
 You are a portfolio manager making trading decisions for Day ${day}.
 
 === MARKET DATA ===
 Available stocks (ONLY trade these tickers):
-${Object.values(marketData).map(d => {
-  return `- ${d.ticker}: $${d.price.toFixed(2)} | Change: ${(d.dailyChangePercent * 100).toFixed(2)}%`;
+${Object.values(tradableMarketData).map(d => {
+  return `- ${d.ticker}: $${d.price.toFixed(2)} | Change: ${(d.dailyChangePercent * 100).toFixed(2)}%${instrumentLabel(d) ? ` | ${instrumentLabel(d)}` : ''}`;
 }).join('\n')}
 
 IMPORTANT: You can ONLY trade the tickers listed above. Do NOT suggest tickers that are not in this list.
@@ -557,27 +638,40 @@ ${currentPositions.length > 0
       const fairValueComparison = p.lastFairValue !== undefined
         ? ` | Current price vs your fair value: ${p.currentPrice > p.lastFairValue ? 'OVERVALUED (price > fair value)' : p.currentPrice < p.lastFairValue ? 'UNDERVALUED (price < fair value)' : 'AT FAIR VALUE'}`
         : '';
-      return `  - ${p.ticker}: ${p.quantity} shares @ avg $${p.avgCost.toFixed(2)} | Current: $${p.currentPrice.toFixed(2)} | Value: $${p.positionValue.toFixed(2)} (${p.positionPercent}%) | P&L: $${p.unrealizedGain.toFixed(2)} (${p.unrealizedGainPercent}%)${prevEst}${fairValueComparison}`;
+      return `  - ${p.ticker}: ${p.quantity} shares${p.quantity < 0 ? ' (SHORT)' : ''} @ avg $${p.avgCost.toFixed(2)} | Current: $${p.currentPrice.toFixed(2)} | Value: $${p.positionValue.toFixed(2)} (${p.positionPercent}%) | P&L: $${p.unrealizedGain.toFixed(2)} (${p.unrealizedGainPercent}%)${prevEst}${fairValueComparison}${lotsFor(p.ticker).length > 0 ? ` | Lots: ${lotsFor(p.ticker).map(describeLot).join(', ')}` : ''}`;
     }).join('\n')
   : '  No positions held.'
-}
+}${marginSummary ? `
+- Margin Account: Equity $${marginSummary.equity.toFixed(2)} | Buying Power $${marginSummary.buyingPower.toFixed(2)} | Gross Exposure $${marginSummary.grossExposure.toFixed(2)} | Maintenance Requirement $${marginSummary.maintenanceRequirement.toFixed(2)}` : ''}
+- Open Orders:
+${openOrders.length > 0 ? openOrders.map(order => `  - ${describeOrder(order)}`).join('\n') : '  No open orders.'}
 
 ${previousFailedTrades && previousFailedTrades.length > 0 ? `
 === PREVIOUS TRADE RESULTS ===
 Some of your previous trades failed to execute:
-${previousFailedTrades.map(ft => `- ${ft.action.toUpperCase()} ${ft.quantity} ${ft.ticker}: FAILED - ${ft.reason}`).join('\n')}
-Please adjust your strategy accordingly. For BUY orders, ensure you have enough cash. For SELL orders, ensure you own the stock.
+${previousFailedTrades.map(ft => ft.field
+  ? `- ${ft.field}: INVALID - ${ft.reason}${ft.ticker ? ` (${ft.action.toUpperCase()} ${ft.ticker})` : ''}`
+  : `- ${ft.action.toUpperCase()} ${ft.quantity} ${ft.ticker}: FAILED - ${ft.reason}`).join('\n')}
+Please adjust your strategy accordingly. For BUY orders, ensure you have enough cash. For SELL orders, ensure you own the stock. INVALID entries did not match the response format.
 ` : ''}
 
 ${chatSection}
 
 === TRADING RULES ===
-1. You can only BUY if you have enough cash: quantity × current_price ≤ available_cash
+${marginEnabled && margin ? `1. Margin account: BUY and short SELL orders draw on buying power (${(margin.initialMarginRate * 100).toFixed(0)}% initial margin on gross exposure)
+2. SELL more shares than you hold to open a short (negative quantity); BUY to cover a short
+3. Maximum position size: ${maxPositionPercent}% of total portfolio value
+4. Shorts pay a ${(margin.shortBorrowFeeRate * 100).toFixed(2)}% annual borrow fee and negative cash pays ${(margin.marginInterestRate * 100).toFixed(2)}% annual interest. If equity falls below ${(margin.maintenanceMarginRate * 100).toFixed(0)}% of gross exposure, positions are force-liquidated (margin call)
+` : `1. You can only BUY if you have enough cash: quantity × current_price ≤ available_cash
 2. You can only SELL if you own the stock: check your current positions
-3. Maximum position size: ${MAX_POSITION_SIZE_PERCENT * 100}% of total portfolio value
+3. Maximum position size: ${maxPositionPercent}% of total portfolio value
 4. No margin, no short selling
-5. Quantity must be a positive integer (whole shares only)
-6. Every trade pays transaction costs: ${tradingCostLine}. Keep enough cash to cover fees.
+`}5. Quantity must be a positive integer (whole shares only)
+6. Every trade pays transaction costs: ${tradingCostLine}.${executionCostLine} Keep enough cash to cover fees.${riskRuleLines.length > 0 ? `
+7. Risk limits are checked before every order; orders that break them are cut down or rejected:
+${riskRuleLines.map(line => `   - ${line}`).join('\n')}` : ''}${instrumentLines.length > 0 ? `
+${riskRuleLines.length > 0 ? 8 : 7}. Some instruments have their own trading hours, fees and lot sizes (quantities that are not whole lots are rounded down):
+${instrumentLines.map(line => `   - ${line}`).join('\n')}` : ''}
 
 === WHAT YOU NEED TO PROVIDE ===
 You must return a JSON object with:
@@ -589,8 +683,15 @@ You must return a JSON object with:
    - "fairValue": Your estimated fair value of the stock (in dollars)
    - "topOfBox": The 10% best case scenario price by next day (in dollars)
    - "bottomOfBox": The 10% worst case scenario price by next day (in dollars)
-   - "justification": A one sentence explanation for this specific trade${communityMessages.length > 0 ? `
-3. "reply": A short (single sentence) public message responding to the community members who messaged you (${chatContext?.maxReplyLength ?? 140} characters max, no links)` : ''}
+   - "justification": A one sentence explanation for this specific trade
+   - "orderType" (optional): "market" (default, fills now), "limit", "stop" or "stop_limit"
+   - "limitPrice" (required for limit/stop_limit): Buy at or below / sell at or above this price
+   - "stopPrice" (required for stop/stop_limit): Triggers when the price trades through this level
+   - "timeInForce" (optional): "day" (default, expires at the close), "gtc" (good til cancelled) or "ioc" (fill now or cancel)${openLots.length > 0 ? `
+   - "lotIds" (optional): Ids of the tax lots a closing trade should relieve first; unnamed shares come from the oldest lots` : ''}
+   Limit and stop orders rest in your order book and are checked against every price move. Your bottomOfBox and topOfBox are natural limit-buy and take-profit levels.
+3. "cancelOrderIds" (optional): Ids of open orders to cancel${communityMessages.length > 0 ? `
+4. "reply": A short (single sentence) public message responding to the community members who messaged you (${chatContext?.maxReplyLength ?? 140} characters max, no links)` : ''}
 
 Example response:
 {
@@ -620,7 +721,7 @@ IMPORTANT:
 - Only include trades you want to execute (don't include "hold" actions)
 - TRADE EXECUTION ORDER: Sells are executed FIRST, then buys. This means you can sell shares to free up cash for purchases in the same round. Even if you don't have cash right now, you can sell some shares and buy others—the sells will execute first, providing cash for your buys.
 - For BUY: You can include buy orders even if you don't currently have enough cash, as long as you also include sell orders that will free up the necessary cash (sells execute first)
-- For SELL: Make sure you own at least that many shares${allowAllCash ? '' : `
+- For SELL: ${marginEnabled ? 'Selling more shares than you own opens a short position (limited by buying power)' : 'Make sure you own at least that many shares'}${allowAllCash ? '' : `
 - If you have cash available, you should make buy trades to invest it
 - Holding 100% cash is not acceptable - you are a portfolio manager, not a cash holder`}
 - If you don't want to trade, return an empty trades array: {"rationale": "...", "trades": []}${communityMessages.length > 0 ? `
@@ -629,14 +730,63 @@ IMPORTANT:
 Remember: Return ONLY valid JSON. No markdown, no code blocks, no explanations outside the JSON.
 `;
 
+  const webhookRequest: WebhookDecisionRequest | undefined = webhook ? {
+    agentId: agent.id,
+    simulationId: context?.simulationId ?? 'default',
+    day,
+    intradayHour: context?.intradayHour ?? 0,
+    ...(context?.session ? { session: context.session } : {}),
+    portfolio: {
+      cash: availableCash,
+      totalValue: portfolioValue,
+      positions: currentPositions.map(p => ({ ticker: p.ticker, quantity: p.quantity, averageCost: p.avgCost, price: p.currentPrice, value: p.positionValue })),
+      ...(marginSummary ? { buyingPower: marginSummary.buyingPower } : {}),
+    },
+    marketData: Object.values(tradableMarketData).map(d => ({
+      ticker: d.ticker,
+      price: d.price,
+      dailyChangePercent: d.dailyChangePercent,
+      instrumentType: getInstrumentType(d.ticker, d),
+    })),
+    openOrders,
+    failedTrades: previousFailedTrades ?? [],
+    ...(chatContext?.enabled && communityMessages.length > 0 ? {
+      chat: {
+        maxReplyLength: chatContext.maxReplyLength,
+        messages: communityMessages.map(m => ({ sender: m.sender, content: m.content })),
+      },
+    } : {}),
+    rules: {
+      maxPositionWeight: maxPositionPercent / 100,
+      feeBps: commission.feeRate * 10000,
+      minFee: commission.minFee,
+      marginEnabled,
+      riskRules: context?.riskRules,
+    },
+  } : undefined;
+
   const startTime = Date.now();
+  // Every model round trip of this decision is billed, including ones before a failure
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let calls = 0;
+  const getUsage = (): InferenceUsageRecord | undefined => calls > 0 && !webhook ? {
+    day,
+    intradayHour: context?.intradayHour ?? 0,
+    model: modelToUse,
+    promptTokens,
+    completionTokens,
+    cost: getInferenceCost(modelToUse, promptTokens, completionTokens),
+    calls,
+  } : undefined;
   
   try {
     const memoryContext = agent.memory ? `
 === YOUR TRADING HISTORY (for context) ===
 Recent Trades (last 5):
-${agent.memory.recentTrades.slice(-5).map(t => 
-  `- Day ${Math.floor(t.timestamp)}: ${t.action.toUpperCase()} ${t.quantity} ${t.ticker} @ $${t.price.toFixed(2)}${t.justification ? ` - ${t.justification}` : ''}`
+${agent.memory.recentTrades.slice(-5).map(t => t.corporateAction
+  ? `- Day ${Math.floor(t.timestamp)}: ${t.corporateAction.toUpperCase()} ${t.ticker} - ${t.justification}`
+  : `- Day ${Math.floor(t.timestamp)}: ${t.action.toUpperCase()} ${t.quantity} ${t.ticker} @ $${t.price.toFixed(2)}${t.justification ? ` - ${t.justification}` : ''}`
 ).join('\n') || 'No recent trades'}
 
 Recent Performance:
@@ -648,264 +798,140 @@ Recent Rationales:
 ${agent.memory.pastRationales.slice(-3).map((r, i) => `- ${r}`).join('\n') || 'No past rationales'}
 ` : '';
     
-    const fetchFn = async () => {
-      // Use unified model if enabled, otherwise use agent's configured model
-      const modelToUse = USE_UNIFIED_MODEL ? UNIFIED_MODEL : agent.model;
-      
-      const endpoint = 'https://openrouter.ai/api/v1/chat/completions';
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': 'https://llm-finance-arena.com',
-          'X-Title': 'LLM Finance Arena',
-        },
-        body: JSON.stringify({
+    const toolConfig = !webhook && agent.tools && agent.tools.maxCalls > 0 ? agent.tools : undefined;
+    const allowedTools = toolConfig ? getAgentToolNames(toolConfig) : [];
+    const maxTurns = toolConfig ? getMaxToolTurns(toolConfig) : 1;
+    const messages: ChatCompletionRequest['messages'] = [
+      {
+        role: 'system',
+        content: systemInstruction
+      },
+      {
+        role: 'user',
+        content: memoryContext + prompt + (toolConfig ? describeAgentTools(toolConfig) : '')
+      }
+    ];
+
+    // One model round trip: served from the cassette when replaying, saved to it when recording.
+    // Tool-calling turns share the decision's timeout.
+    const complete = async (turn: number): Promise<ChatCompletionResult> => {
+      const request: ChatCompletionRequest = {
+        agentId: agent.id,
+        model: modelToUse,
+        messages: [...messages],
+        temperature: 0.7,
+        maxTokens: 3000, // Increased for Gemini Pro which may generate longer responses
+        baseUrl: agent.providerBaseUrl,
+      };
+      const key = { ...cassetteKey, turn };
+      if (cassetteMode === 'replay') {
+        return replayCassetteEntry(key, request.messages);
+      }
+
+      const remainingMs = Math.max(1, timeoutMs - (Date.now() - startTime));
+      const completion = await withTimeout(
+        webhook && webhookRequest
+          ? requestWebhookDecision(webhook, webhookRequest, Math.min(webhook.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS, remainingMs))
+          : exponentialBackoff(() => provider.complete(request), 3, 1000),
+        remainingMs
+      );
+      if (cassetteMode === 'record') {
+        await recordCassetteEntry({
+          key,
+          provider: provider.id,
           model: modelToUse,
-          messages: [
-            {
-              role: 'system',
-              content: systemInstruction
-            },
-            {
-              role: 'user',
-              content: memoryContext + prompt
-            }
-          ],
-          response_format: {
-            type: 'json_object'
-          },
-          temperature: 0.7,
-          max_tokens: 3000, // Increased for Gemini Pro which may generate longer responses
-        })
-      });
-      
-      return response;
+          parameters: { temperature: request.temperature, maxTokens: request.maxTokens },
+          messages: request.messages,
+          completion,
+          recordedAt: new Date().toISOString(),
+        });
+      }
+      return completion;
     };
-    
-    const response = await withTimeout(
-      exponentialBackoff(fetchFn, 3, 1000),
-      timeoutMs
-    );
 
-    if (!response.ok) {
-      const errorData = await response.text();
-      let errorMessage = errorData;
-      
-      try {
-        const errorJson = JSON.parse(errorData);
-        if (errorJson.error) {
-          errorMessage = errorJson.error.message || JSON.stringify(errorJson.error);
-        }
-      } catch (e) {
-        // If error data is not JSON, use it as-is
-      }
-      
-      const responseTime = Date.now() - startTime;
-
-      if (response.status === 401 || response.status === 402 || response.status === 403) {
-        const error = new Error(`OpenRouter API error: ${response.status} - ${errorMessage}`);
-        logger.logLLMCall(agent.name, modelToUse, false, undefined, responseTime, error);
-        llmAuthDisabled = true;
-        warnAuthDisabledOnce(error.message);
-        throw error;
+    let toolCallsLeft = toolConfig?.maxCalls ?? 0;
+    let tokensUsed: number | undefined;
+    let result: any;
+    let repaired = false;
+    for (let turn = 0; turn < maxTurns; turn++) {
+      const completion = await complete(turn);
+      calls += 1;
+      if (completion.tokensUsed !== undefined) {
+        tokensUsed = (tokensUsed ?? 0) + completion.tokensUsed;
       }
-      
-      if (response.status === 429) {
-        const retryAfter = response.headers.get('retry-after');
-        const error = new Error(`Rate limit exceeded. ${errorMessage}${retryAfter ? ` Retry after ${retryAfter} seconds.` : ''}`);
-        logger.logLLMCall(agent.name, modelToUse, false, undefined, responseTime, error);
-        throw error;
+      // Providers that only report a total have it counted as prompt tokens
+      const callPromptTokens = completion.promptTokens ?? completion.tokensUsed ?? 0;
+      promptTokens += callPromptTokens;
+      completionTokens += completion.completionTokens ?? Math.max(0, (completion.tokensUsed ?? 0) - callPromptTokens);
+
+      // Parse and validate response with improved JSON repair
+      result = parseDecisionJson(completion.content, agent.name);
+      repaired = !isStrictJson(completion.content);
+
+      const toolCalls = toolConfig ? getRequestedToolCalls(result) : null;
+      if (!toolCalls) {
+        break;
       }
-      
-      if (response.status === 404) {
-        const error = new Error(`Model not found: ${modelToUse}. Please check the model identifier.`);
-        logger.logLLMCall(agent.name, modelToUse, false, undefined, responseTime, error);
-        throw error;
+      if (toolCallsLeft <= 0 || turn === maxTurns - 1) {
+        console.warn(`[${agent.name}] Tool budget used up without a trading decision.`);
+        break;
       }
-      
-      const error = new Error(`OpenRouter API error: ${response.status} - ${errorMessage}`);
-      logger.logLLMCall(agent.name, modelToUse, false, undefined, responseTime, error);
-      throw error;
-    }
 
-    const data = await response.json() as any;
-    const jsonText = data.choices?.[0]?.message?.content || '{}';
-    const responseTime = Date.now() - startTime;
-    const tokensUsed = data.usage?.total_tokens;
-    
-    if (!jsonText) {
-      const error = new Error('No response content from OpenRouter');
-      logger.logLLMCall(agent.name, modelToUse, false, tokensUsed, responseTime, error);
-      console.error(`[${agent.name}] No response content from OpenRouter`);
-      throw error;
+      const toolResults = toolCalls.map((call, index) => index < toolCallsLeft
+        ? runAgentTool(call, allowedTools, { agent, marketData, simulationId: context?.simulationId })
+        : { name: call.name, arguments: call.arguments, error: 'Tool call budget exhausted' });
+      toolCallsLeft = Math.max(0, toolCallsLeft - toolCalls.length);
+      logger.log(LogLevel.INFO, LogCategory.LLM, `${agent.name} called ${toolCalls.length} research tool(s)`, {
+        agent: agent.name,
+        turn,
+        tools: toolCalls.map(call => call.name),
+        toolCallsLeft,
+      });
+
+      const finalTurn = toolCallsLeft <= 0 || turn === maxTurns - 2;
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        {
+          role: 'user',
+          content: `Tool results:\n${JSON.stringify(toolResults)}\n\n${finalTurn
+            ? 'Your research budget is used up. Return your final trading decision JSON now, without "toolCalls".'
+            : `You have ${toolCallsLeft} tool call(s) left. Call more tools or return your trading decision JSON.`}`
+        }
+      );
     }
-    
+    const responseTime = Date.now() - startTime;
+
     // Removed verbose logging - response details only logged on errors
     logger.logLLMCall(agent.name, modelToUse, true, tokensUsed, responseTime);
 
-    // Parse and validate response with improved JSON repair
-    let result: any;
-    try {
-      result = JSON.parse(jsonText);
-    } catch (parseError) {
-      console.warn(`[${agent.name}] Initial JSON parse failed, attempting repair. Error: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-      // Try to extract JSON from markdown code blocks
-      const jsonMatch = jsonText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
-      if (jsonMatch) {
-        try {
-          result = JSON.parse(jsonMatch[1]);
-        } catch (e) {
-          // Continue to repair logic
-        }
-      }
-      
-      if (!result) {
-        // Find the start of JSON
-        const jsonStart = jsonText.indexOf('{');
-        if (jsonStart !== -1) {
-          let jsonCandidate = jsonText.substring(jsonStart);
-          
-          // Count braces to detect incomplete JSON
-          const openBraces = (jsonCandidate.match(/\{/g) || []).length;
-          const closeBraces = (jsonCandidate.match(/\}/g) || []).length;
-          const openBrackets = (jsonCandidate.match(/\[/g) || []).length;
-          const closeBrackets = (jsonCandidate.match(/\]/g) || []).length;
-          
-          // Repair incomplete JSON structure
-          if (openBraces > closeBraces || openBrackets > closeBrackets) {
-            // Check if trades array is incomplete
-            const tradesArrayStart = jsonCandidate.indexOf('"trades"');
-            if (tradesArrayStart !== -1) {
-              const tradesSection = jsonCandidate.substring(tradesArrayStart);
-              const tradesArrayMatch = tradesSection.match(/"trades"\s*:\s*\[/);
-              
-              if (tradesArrayMatch) {
-                // Find where the trades array should end
-                let arrayContent = tradesSection.substring(tradesArrayMatch.index! + tradesArrayMatch[0].length);
-                
-                // If array is incomplete, try to close it properly
-                if (!arrayContent.includes(']') || (arrayContent.match(/\[/g) || []).length > (arrayContent.match(/\]/g) || []).length) {
-                  // Find the last complete trade object
-                  const tradeObjects = arrayContent.match(/\{[^}]*"ticker"[^}]*\}/g);
-                  if (tradeObjects && tradeObjects.length > 0) {
-                    // Use only complete trade objects
-                    const completeTrades = tradeObjects.filter(t => {
-                      try {
-                        JSON.parse(t);
-                        return true;
-                      } catch {
-                        return false;
-                      }
-                    });
-                    
-                    // Reconstruct JSON with only complete trades
-                    const rationaleMatch = jsonCandidate.match(/"rationale"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
-                    const rationale = rationaleMatch ? rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500) : 'Trading decision made.';
-                    
-                    result = {
-                      rationale: rationale,
-                      trades: completeTrades.map(t => {
-                        try {
-                          return JSON.parse(t);
-                        } catch {
-                          return null;
-                        }
-                      }).filter(t => t !== null)
-                    };
-                    
-                    // Add reply if present
-                    const replyMatch = jsonCandidate.match(/"reply"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
-                    if (replyMatch) {
-                      result.reply = replyMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 200);
-                    }
-                  }
-                }
-              }
-            }
-            
-            // If still no result, try basic repair
-            if (!result) {
-              // Close incomplete strings in rationale
-              const rationaleMatch = jsonCandidate.match(/"rationale"\s*:\s*"([^"]*)/);
-              if (rationaleMatch && !jsonCandidate.includes(rationaleMatch[0] + '"')) {
-                const rationale = rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500);
-                jsonCandidate = jsonCandidate.replace(/"rationale"\s*:\s*"[^"]*/, `"rationale": "${rationale.replace(/"/g, '\\"')}"`);
-              }
-              
-              // Close brackets and braces
-              if (openBrackets > closeBrackets) {
-                jsonCandidate += ']'.repeat(openBrackets - closeBrackets);
-              }
-              if (openBraces > closeBraces) {
-                jsonCandidate += '}'.repeat(openBraces - closeBraces);
-              }
-              
-              try {
-                result = JSON.parse(jsonCandidate);
-              } catch (e) {
-                // Last resort: extract rationale and return empty trades
-                const rationaleMatch = jsonCandidate.match(/"rationale"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
-                if (rationaleMatch) {
-                  result = {
-                    rationale: rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500),
-                    trades: []
-                  };
-                }
-              }
-            }
-          } else {
-            // JSON structure seems complete, try parsing as-is
-            try {
-              result = JSON.parse(jsonCandidate);
-            } catch (e) {
-              // Extract rationale as fallback
-              const rationaleMatch = jsonCandidate.match(/"rationale"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
-              if (rationaleMatch) {
-                result = {
-                  rationale: rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500),
-                  trades: []
-                };
-              }
-            }
-          }
-        }
-      }
-      
-      // Final fallback: extract rationale and return empty trades
-      if (!result) {
-        const rationaleMatch = jsonText.match(/"rationale"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
-        if (rationaleMatch) {
-          console.warn(`[${agent.name}] JSON repair failed, using fallback: extracted rationale only`);
-          result = {
-            rationale: rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500),
-            trades: []
-          };
-        } else {
-          console.error(`[${agent.name}] Complete JSON parse failure. First 500 chars: ${jsonText.substring(0, 500)}`);
-          throw new Error(`Invalid JSON response from AI model. Received: ${jsonText.substring(0, 300)}...`);
-        }
-      } else {
-        console.log(`[${agent.name}] JSON repair successful`);
-      }
+    // Schema check: trades with an invalid ticker, action, quantity or order field are dropped,
+    // and every field error goes back to the agent next round
+    const validation = validateTradeDecision(result, availableTickers, repaired);
+    if (validation.errors.length > 0) {
+      logger.log(LogLevel.WARNING, LogCategory.LLM, `${agent.name} decision failed schema validation (${validation.errors.length} error(s))`, {
+        agent: agent.name,
+        model: modelToUse,
+        errors: validation.errors.map(error => `${error.path}: ${error.message}`),
+      });
     }
-    
+    const rejectedTradeIndexes = getRejectedTradeIndexes(validation);
+
     // Validate and filter trades
-    const rawTrades = result.trades || [];
+    const rawTrades: any[] = Array.isArray(result.trades) ? result.trades : [];
     // Removed verbose trade count logging - only errors will be logged
     
     const validTrades = rawTrades
-      .filter((t: any) => {
-        if (t.action === 'hold' || !['buy', 'sell'].includes(t.action)) {
+      .filter((t: any, index: number) => {
+        if (rejectedTradeIndexes.has(index)) {
           return false;
         }
-        if (!Number.isInteger(t.quantity) || t.quantity <= 0) {
-          return false;
+        // Resting orders are checked for cash/shares when they fill
+        if (t.orderType && t.orderType !== 'market') {
+          return true;
         }
-        if (!marketData[t.ticker]) {
-          console.warn(`[${agent.name}] Ticker ${t.ticker} not found in market data.`);
-          return false;
+        // Margin accounts are checked against buying power at execution time
+        if (marginEnabled) {
+          return true;
         }
         if (t.action === 'sell') {
           const position = agent.portfolio.positions[t.ticker];
@@ -916,13 +942,14 @@ ${agent.memory.pastRationales.slice(-3).map((r, i) => `- ${r}`).join('\n') || 'N
         }
         if (t.action === 'buy') {
           const price = marketData[t.ticker].price;
+          const instrument = getInstrumentProfile(t.ticker, marketData[t.ticker], context?.executionCost);
           const requestedQuantity = t.quantity;
           const notional = requestedQuantity * price;
-          const fees = estimateTradeFee(notional);
+          const fees = estimateTradeFee(notional, instrument);
           const totalCost = notional + fees;
           if (totalCost > agent.portfolio.cash) {
             // Cannot afford full quantity - adjust to maximum affordable quantity
-            const maxAffordableQuantity = calculateMaxAffordableQuantity(price, agent.portfolio.cash);
+            const maxAffordableQuantity = calculateMaxAffordableQuantity(price, agent.portfolio.cash, instrument);
             
             if (maxAffordableQuantity > 0) {
               // Adjust the trade quantity to what can be afforded
@@ -964,7 +991,7 @@ ${agent.memory.pastRationales.slice(-3).map((r, i) => `- ${r}`).join('\n') || 'N
 
         const referencePrice = marketData[t.ticker]?.price ?? 0;
         if (referencePrice > 0) {
-          trade.fees = estimateTradeFee(trade.quantity * referencePrice);
+          trade.fees = estimateTradeFee(trade.quantity * referencePrice, getInstrumentProfile(t.ticker, marketData[t.ticker], context?.executionCost));
         }
 
         if (t.fairValue !== undefined && typeof t.fairValue === 'number' && t.fairValue > 0) {
@@ -979,6 +1006,24 @@ ${agent.memory.pastRationales.slice(-3).map((r, i) => `- ${r}`).join('\n') || 'N
         if (t.justification !== undefined && typeof t.justification === 'string' && t.justification.trim()) {
           trade.justification = t.justification.trim();
         }
+        if (t.orderType && t.orderType !== 'market') {
+          trade.orderType = t.orderType;
+          if (typeof t.limitPrice === 'number') {
+            trade.limitPrice = t.limitPrice;
+          }
+          if (typeof t.stopPrice === 'number') {
+            trade.stopPrice = t.stopPrice;
+          }
+        }
+        if (TIME_IN_FORCE_VALUES.includes(t.timeInForce)) {
+          trade.timeInForce = t.timeInForce;
+        }
+        if (Array.isArray(t.lotIds)) {
+          const lotIds = t.lotIds.filter((id: unknown): id is string => typeof id === 'string' && lotsFor(t.ticker).some(lot => lot.id === id));
+          if (lotIds.length > 0) {
+            trade.lotIds = lotIds;
+          }
+        }
         
         return trade;
       });
@@ -986,28 +1031,44 @@ ${agent.memory.pastRationales.slice(-3).map((r, i) => `- ${r}`).join('\n') || 'N
     // Only process reply if the agent received messages to reply to
     let reply: string | undefined;
     if (chatContext?.enabled && communityMessages.length > 0) {
-      if (result.reply && result.reply.trim()) {
+      if (typeof result.reply === 'string' && result.reply.trim()) {
         const sanitized = sanitizeOutgoingMessage(result.reply, chatContext.maxReplyLength);
         reply = sanitized || undefined;
       }
     }
 
-    return { trades: validTrades, rationale: result.rationale || "No rationale provided.", reply };
+    const openOrderIds = new Set(openOrders.map(order => order.id));
+    const cancelOrderIds = Array.isArray(result.cancelOrderIds)
+      ? result.cancelOrderIds.filter((id: unknown): id is string => typeof id === 'string' && openOrderIds.has(id))
+      : [];
+
+    return {
+      trades: validTrades,
+      rationale: typeof result.rationale === 'string' && result.rationale.trim() ? result.rationale : "No rationale provided.",
+      reply,
+      cancelOrderIds: cancelOrderIds.length > 0 ? cancelOrderIds : undefined,
+      usage: getUsage(),
+      validation,
+    };
 
   } catch (error) {
     const responseTime = Date.now() - startTime;
     const errorMessage = error instanceof Error ? error.message : String(error || 'Unknown error');
-    const modelToUse = USE_UNIFIED_MODEL ? UNIFIED_MODEL : agent.model;
     logger.logLLMCall(agent.name, modelToUse, false, undefined, responseTime, errorMessage);
     console.error("Error fetching trade decisions:", error);
-    if (llmAuthDisabled) {
-      logSyntheticReason('OpenRouter auth/credits error');
-      return generateSyntheticTrades(agent, marketData, day, chatContext);
+    const status = (error as LlmProviderError)?.status;
+    if (!webhook && (status === 401 || status === 402 || status === 403)) {
+      authDisabledProviders.add(provider.id);
+      warnAuthDisabledOnce(provider.id, errorMessage);
+    }
+    if (!webhook && authDisabledProviders.has(provider.id)) {
+      logSyntheticReason(`${provider.id} auth/credits error`);
+      return { ...generateSyntheticTrades(agent, marketData, day, chatContext), usage: getUsage() };
     }
     // Never throw past the service boundary - return empty trades instead
     const communityMessages = chatContext?.messages ?? [];
     const fallbackReply = (chatContext?.enabled && communityMessages.length > 0) ? 'Unable to respond right now.' : undefined;
-    return { trades: [], rationale: `Error communicating with AI model: ${errorMessage}`, reply: fallbackReply };
+    return { trades: [], rationale: `Error communicating with ${webhook ? 'webhook' : 'AI model'}: ${errorMessage}`, reply: fallbackReply, usage: getUsage() };
   }
 };
 
@@ -1,8 +1,12 @@
-﻿import type { MarketData, TickerData, MarketDataTelemetry, SimulationSnapshot } from '../types.js';
-import { Ticker, type HistoricalDataPoint } from './yfinanceService.js';
+﻿import type { MarketData, TickerData, MarketDataTelemetry, SimulationSnapshot, MarketModelConfig, CorporateAction } from '../types.js';
+import { Ticker, type HistoricalDataPoint, type TickerActions } from './yfinanceService.js';
+import { getFileHistory, getLatestFileQuote, getFileCorporateActions, isFileMarketDataEnabled, isOfflineMarketData } from './fileMarketDataService.js';
 import { logger, LogLevel, LogCategory } from './logger.js';
-import { S_P500_TICKERS } from '../constants.js';
+import { ARENA_TICKERS, DEFAULT_MARKET_MODEL_CONFIG } from '../constants.js';
 import { setDateToMarketOpenET, isMarketOpen } from '../simulation/marketHours.js';
+import { createSeededRandom, generateSeed, type RandomSource } from '../utils/seededRandom.js';
+import { simulatePriceStep, getMarketRegime, OVERNIGHT_VARIANCE_SHARE, SESSION_HOURS } from '../simulation/marketModels.js';
+import { adjustPriceForCorporateActions } from '../simulation/corporateActions.js';
 
 const resolveMode = (): 'simulated' | 'realtime' | 'historical' | 'hybrid' => {
   const raw = (process.env.MODE || 'simulated').toLowerCase();
@@ -36,8 +40,8 @@ const resolveMode = (): 'simulated' | 'realtime' | 'historical' | 'hybrid' => {
 const MODE = resolveMode();
 const ALPHA_VANTAGE_API_KEY = process.env.ALPHA_VANTAGE_API_KEY;
 const POLYGON_API_KEY = process.env.POLYGON_API_KEY;
-const HISTORICAL_SIMULATION_START_DATE = process.env.HISTORICAL_SIMULATION_START_DATE;
-const HISTORICAL_SIMULATION_END_DATE = process.env.HISTORICAL_SIMULATION_END_DATE;
+let HISTORICAL_SIMULATION_START_DATE = process.env.HISTORICAL_SIMULATION_START_DATE;
+let HISTORICAL_SIMULATION_END_DATE = process.env.HISTORICAL_SIMULATION_END_DATE;
 const USE_DELAYED_DATA = process.env.USE_DELAYED_DATA === 'true'; // Use 15-30 min delayed data to avoid rate limits
 const DATA_DELAY_MINUTES = parseInt(process.env.DATA_DELAY_MINUTES || '30', 10); // Default 30 minutes delay
 const ENABLE_YAHOO_DETAILED_INFO = process.env.ENABLE_YAHOO_DETAILED_INFO === 'true';
@@ -82,6 +86,7 @@ let historicalDataCache: { [ticker: string]: { date: string, price: number, chan
 let historicalWeekStart: Date | null = null;
 let historicalWeekEnd: Date | null = null;
 let historicalTradingDates: Date[] = [];
+let historicalCorporateActions: { [ticker: string]: CorporateAction[] } = {};
 let currentHistoricalDay = 0;
 let currentIntradayHour = 0;
 let lastTradingHour = 0;
@@ -89,6 +94,16 @@ let lastTradingHour = 0;
 // Hybrid mode state tracking
 let hybridModeHasTransitioned = false;
 
+// Simulated mode builds ^GSPC from the simulated universe instead of fetching the live index, so batch runs
+// stay offline and reproducible per seed
+let simulatedBenchmark = false;
+
+// Seed for generated prices; set SIMULATION_SEED to reproduce a run
+let simulationSeed = (() => {
+  const parsed = Number.parseInt(process.env.SIMULATION_SEED || '', 10);
+  return Number.isFinite(parsed) ? parsed >>> 0 : generateSeed();
+})();
+
 // Rate limiting: simple in-memory tracking
 const rateLimitMap = new Map<string, { count: number; resetAt: number }>();
 const RATE_LIMIT_WINDOW = 60000; // 1 minute
@@ -113,7 +128,7 @@ const getYahooRateLimitSettings = () => {
   return null;
 };
 
-type MarketDataSource = 'yahoo' | 'alphaVantage' | 'polygon';
+type MarketDataSource = 'file' | 'yahoo' | 'alphaVantage' | 'polygon';
 
 interface MarketDataSourceStats {
   success: number;
@@ -147,6 +162,7 @@ const marketDataTelemetry: {
   rateLimits: { yahoo: YahooRateLimitTelemetry };
 } = {
   sources: {
+    file: createSourceStats(),
     yahoo: createSourceStats(),
     alphaVantage: createSourceStats(),
     polygon: createSourceStats(),
@@ -170,6 +186,7 @@ export interface RealtimePrefetchOptions {
   batchSize?: number;
   minPauseMs?: number;
   useCache?: boolean;
+  extendedHours?: boolean; // Price from pre-market and after-hours prints, not just the regular session
 }
 
 export interface RealtimePrefetchResult {
@@ -442,6 +459,24 @@ export const setHybridModeTransitioned = (transitioned: boolean): void => {
   hybridModeHasTransitioned = transitioned;
 };
 
+// Batch runs replay several date windows in one process; takes effect at the next createInitialMarketData
+export const setHistoricalSimulationRange = (start: string, end?: string): void => {
+  HISTORICAL_SIMULATION_START_DATE = start;
+  HISTORICAL_SIMULATION_END_DATE = end;
+};
+
+export const getSimulationSeed = (): number => {
+  return simulationSeed;
+};
+
+export const setSimulationSeed = (seed: number): void => {
+  simulationSeed = seed >>> 0;
+};
+
+export const setSimulatedBenchmark = (enabled: boolean): void => {
+  simulatedBenchmark = enabled;
+};
+
 export const shouldHybridModeTransition = (currentDate: string, currentDay: number, intradayHour: number, minutesPerTick?: number): boolean => {
   if (MODE !== 'hybrid' || hybridModeHasTransitioned) {
     return false;
@@ -590,14 +625,6 @@ export const shouldHybridModeTransition = (currentDate: string, currentDay: numb
   return shouldTransition;
 };
 
-const getNextPrice = (currentPrice: number): number => {
-  const volatility = 0.035;
-  const trend = 0.0005;
-  const randomChange = (Math.random() - 0.5) * 2 * volatility;
-  const newPrice = currentPrice * (1 + randomChange + trend);
-  return Math.max(newPrice, 1);
-};
-
 const validateMarketData = (data: TickerData, previousPrice?: number): boolean => {
   if (!data.price || data.price <= 0 || data.price > 100000) {
     logger.log(LogLevel.WARNING, LogCategory.MARKET_DATA,
@@ -793,7 +820,7 @@ const fetchDelayedYahooFinanceData = async (ticker: string, delayMinutes: number
   return null;
 };
 
-const fetchYahooFinanceData = async (ticker: string, useCache: boolean = true): Promise<TickerData | null> => {
+const fetchYahooFinanceData = async (ticker: string, useCache: boolean = true, extendedHours = false): Promise<TickerData | null> => {
   // If using delayed data, fetch from historical endpoints (less rate-limited)
   if (USE_DELAYED_DATA) {
     return await fetchDelayedYahooFinanceData(ticker, DATA_DELAY_MINUTES);
@@ -815,7 +842,7 @@ const fetchYahooFinanceData = async (ticker: string, useCache: boolean = true):
     const yfTicker = new Ticker(ticker);
 
     // For real-time mode: only use fastInfo() to reduce API calls
-    const fastInfo = await yfTicker.fastInfo().catch(() => null);
+    const fastInfo = await yfTicker.fastInfo({ includePrePost: extendedHours }).catch(() => null);
 
     const responseTime = Date.now() - startTime;
 
@@ -854,20 +881,38 @@ const fetchYahooFinanceData = async (ticker: string, useCache: boolean = true):
   }
 };
 
-const fetchTickerWithCascade = async (ticker: string, useCache: boolean): Promise<TickerData> => {
+const fetchTickerWithCascade = async (ticker: string, useCache: boolean, extendedHours = false): Promise<TickerData> => {
   let tickerData: TickerData | null = null;
   let sourceUsed = '';
+  const offline = isOfflineMarketData();
 
-  try {
-    tickerData = await fetchYahooFinanceData(ticker, useCache);
-    if (tickerData) {
-      sourceUsed = 'Yahoo Finance';
+  if (isFileMarketDataEnabled()) {
+    try {
+      tickerData = await getLatestFileQuote(ticker);
+      if (tickerData) {
+        sourceUsed = 'Local file';
+        recordMarketDataResult('file', true);
+      } else {
+        recordMarketDataResult('file', false, 'No data file for ticker');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error || 'Unknown error');
+      recordMarketDataResult('file', false, errorMessage);
+    }
+  }
+
+  if (!tickerData && !offline) {
+    try {
+      tickerData = await fetchYahooFinanceData(ticker, useCache, extendedHours);
+      if (tickerData) {
+        sourceUsed = 'Yahoo Finance';
+      }
+    } catch (error) {
+      console.warn(`Yahoo Finance failed for ${ticker}, trying next source...`);
     }
-  } catch (error) {
-    console.warn(`Yahoo Finance failed for ${ticker}, trying next source...`);
   }
 
-  if (!tickerData && ALPHA_VANTAGE_API_KEY) {
+  if (!tickerData && !offline && ALPHA_VANTAGE_API_KEY) {
     if (!checkRateLimit('alphavantage')) {
       logger.log(LogLevel.WARNING, LogCategory.MARKET_DATA,
         `Rate limit exceeded for Alpha Vantage`, { ticker });
@@ -912,7 +957,7 @@ const fetchTickerWithCascade = async (ticker: string, useCache: boolean): Promis
     }
   }
 
-  if (!tickerData && POLYGON_API_KEY) {
+  if (!tickerData && !offline && POLYGON_API_KEY) {
     if (!checkRateLimit('polygon')) {
       logger.log(LogLevel.WARNING, LogCategory.MARKET_DATA,
         `Rate limit exceeded for Polygon`, { ticker });
@@ -1006,6 +1051,7 @@ export const prefetchRealtimeMarketData = async (
     batchSize = parseInt(process.env.REALTIME_FETCH_BATCH_SIZE || '8', 10),
     minPauseMs = parseInt(process.env.REALTIME_FETCH_MIN_PAUSE_MS || '150', 10),
     useCache = false,
+    extendedHours = false,
   } = options;
 
   const startedAt = Date.now();
@@ -1046,7 +1092,7 @@ export const prefetchRealtimeMarketData = async (
     const batchTickers = batches[batchIndex];
     const results = await Promise.all(batchTickers.map(async ticker => {
       try {
-        const data = await fetchTickerWithCascade(ticker, useCache);
+        const data = await fetchTickerWithCascade(ticker, useCache, extendedHours);
         return { ticker, data };
       } catch (error) {
         logger.log(LogLevel.ERROR, LogCategory.MARKET_DATA,
@@ -1111,6 +1157,56 @@ export const prefetchRealtimeMarketData = async (
   };
 };
 
+// Yahoo closes are split-adjusted; convert its events to actions and the closes back to raw prices
+// so the replay matches the share counts the corporate-action feed adjusts
+const fromYahooActions = (ticker: string, history: HistoricalDataPoint[], actions: TickerActions): CorporateAction[] => {
+  const splitFactorAfter = (date: Date) => actions.splits
+    .filter(split => split.date > date)
+    .reduce((factor, split) => factor * (split.numerator / split.denominator), 1);
+
+  history.forEach(point => {
+    point.close *= splitFactorAfter(point.date);
+  });
+
+  return [
+    ...actions.splits.map(split => ({
+      ticker,
+      type: 'split' as const,
+      date: formatDate(split.date),
+      ratio: split.numerator / split.denominator,
+    })),
+    ...actions.dividends.map(dividend => ({
+      ticker,
+      type: 'dividend' as const,
+      date: formatDate(dividend.date),
+      amount: dividend.amount * splitFactorAfter(dividend.date),
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Actions that take effect between the previous trading day's close and this day's open
+const getCorporateActionsForDay = (ticker: string, day: number): CorporateAction[] => {
+  const date = historicalTradingDates[day];
+  if (!date || day === 0) {
+    return [];
+  }
+  const previousKey = formatDate(historicalTradingDates[day - 1]);
+  const dateKey = formatDate(date);
+  return (historicalCorporateActions[ticker] || []).filter(action => action.date > previousKey && action.date <= dateKey);
+};
+
+// Delisted tickers trade up to the previous close and are dropped once the delisting is processed
+const isDelistedBeforeDay = (ticker: string, day: number, inclusive: boolean): boolean => {
+  const date = historicalTradingDates[day];
+  if (!date) {
+    return false;
+  }
+  const dateKey = formatDate(date);
+  return (historicalCorporateActions[ticker] || []).some(action =>
+    action.type === 'delisting' && (inclusive ? action.date <= dateKey : action.date < dateKey)
+  );
+};
+
 const fetchHistoricalRangeData = async (tickers: string[]): Promise<{ [ticker: string]: { date: string, price: number, change: number, changePercent: number }[] }> => {
   const historicalData: { [ticker: string]: { date: string, price: number, change: number, changePercent: number }[] } = {};
 
@@ -1122,24 +1218,41 @@ const fetchHistoricalRangeData = async (tickers: string[]): Promise<{ [ticker: s
   historicalWeekStart = tradingDates[0] ?? rangeStart;
   historicalWeekEnd = setToEndOfDay(tradingDates[tradingDates.length - 1] ?? rangeEnd);
   currentHistoricalDay = 0;
+  historicalCorporateActions = {};
 
   console.log(`Historical Simulation Period: ${formatDate(historicalWeekStart)} to ${formatDate(historicalWeekEnd)} (${tradingDates.length} trading days)`);
 
   for (const ticker of tickers) {
     historicalData[ticker] = [];
 
+    let sourceLabel = 'Yahoo Finance (Historical)';
+    let yahooActions: CorporateAction[] = [];
     try {
-      const yfTicker = new Ticker(ticker);
       const startDate = new Date(rangeStart);
       startDate.setDate(rangeStart.getDate() - 2);
       const endDate = new Date(rangeEnd);
       endDate.setDate(rangeEnd.getDate() + 2);
 
-      const history = await yfTicker.history({
-        start: startDate,
-        end: endDate,
-        interval: '1d',
-      });
+      // Local files win when they cover the ticker; offline runs never reach Yahoo
+      let history: HistoricalDataPoint[] = await getFileHistory(ticker, startDate, endDate) ?? [];
+      if (history.length > 0) {
+        sourceLabel = 'Local file (Historical)';
+        recordMarketDataResult('file', true);
+      } else if (isOfflineMarketData()) {
+        throw new Error('No local data file covers the simulation range');
+      } else {
+        const yfTicker = new Ticker(ticker);
+        history = await yfTicker.history({
+          start: startDate,
+          end: endDate,
+          interval: '1d',
+        });
+        yahooActions = fromYahooActions(ticker, history, yfTicker.actions());
+      }
+
+      // corporate_actions.csv, when present, replaces the Yahoo events
+      const actions = await getFileCorporateActions(ticker) ?? yahooActions;
+      historicalCorporateActions[ticker] = actions;
 
       const historyByDate = new Map<string, number>();
       let seedClose: number | null = null;
@@ -1156,6 +1269,7 @@ const fetchHistoricalRangeData = async (tickers: string[]): Promise<{ [ticker: s
 
       const rangeData: { date: string, price: number, change: number, changePercent: number }[] = [];
       let prevClose: number | null = null;
+      let previousDateKey: string | null = null;
 
       for (const tradingDate of tradingDates) {
         const dateKey = formatDate(tradingDate);
@@ -1173,8 +1287,12 @@ const fetchHistoricalRangeData = async (tickers: string[]): Promise<{ [ticker: s
           continue;
         }
 
-        const change = prevClose !== null ? price - prevClose : 0;
-        const changePercent = prevClose !== null && prevClose > 0 ? change / prevClose : 0;
+        // Measure the move against the previous close restated for splits and dividends
+        const adjustedPrevClose = prevClose !== null
+          ? adjustPriceForCorporateActions(prevClose, actions.filter(action => action.date > previousDateKey! && action.date <= dateKey))
+          : null;
+        const change = adjustedPrevClose !== null ? price - adjustedPrevClose : 0;
+        const changePercent = adjustedPrevClose !== null && adjustedPrevClose > 0 ? change / adjustedPrevClose : 0;
 
         rangeData.push({
           date: dateKey,
@@ -1184,27 +1302,29 @@ const fetchHistoricalRangeData = async (tickers: string[]): Promise<{ [ticker: s
         });
 
         prevClose = price;
+        previousDateKey = dateKey;
       }
 
       if (rangeData.length > 0) {
         historicalData[ticker] = rangeData;
-        logger.logMarketData('Yahoo Finance (Historical)', ticker, true, rangeData[0].price);
+        logger.logMarketData(sourceLabel, ticker, true, rangeData[0].price);
         continue;
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error || 'Unknown error');
-      logger.logMarketData('Yahoo Finance (Historical)', ticker, false, undefined, errorMessage);
+      logger.logMarketData(sourceLabel, ticker, false, undefined, errorMessage);
       console.warn(`Error fetching historical data for ${ticker}:`, error);
     }
 
     // Fallback: generate simulated historical data
-    const basePrice = 50 + Math.random() * 250;
+    const random = createSeededRandom(simulationSeed, 'historical', ticker);
+    const basePrice = 50 + random() * 250;
     if (historicalData[ticker].length === 0) {
       const fallbackData: { date: string, price: number, change: number, changePercent: number }[] = [];
       for (let day = 0; day < tradingDates.length; day++) {
         const date = tradingDates[day];
         const volatility = 0.02;
-        const price = basePrice * (1 + (Math.random() - 0.5) * volatility * day);
+        const price = basePrice * (1 + (random() - 0.5) * volatility * day);
         fallbackData.push({
           date: formatDate(date),
           price,
@@ -1221,6 +1341,7 @@ const fetchHistoricalRangeData = async (tickers: string[]): Promise<{ [ticker: s
 
 const createSimulatedMarketData = async (tickers: string[]): Promise<MarketData> => {
   const marketData: MarketData = {};
+  const random = createSeededRandom(simulationSeed, 'initial');
 
   // Check for duplicates
   const uniqueTickers = [...new Set(tickers)];
@@ -1238,8 +1359,17 @@ const createSimulatedMarketData = async (tickers: string[]): Promise<MarketData>
   const benchmarkTickers = uniqueTickers.filter(t => BENCHMARK_TICKERS.includes(t));
   const regularTickers = uniqueTickers.filter(t => !BENCHMARK_TICKERS.includes(t));
 
-  // Fetch real prices for benchmark tickers (^GSPC) from yfinance
-  if (benchmarkTickers.length > 0) {
+  if (simulatedBenchmark) {
+    benchmarkTickers.forEach(ticker => {
+      marketData[ticker] = {
+        ticker,
+        price: 5000 + createSeededRandom(simulationSeed, 'initial', ticker)() * 1000,
+        dailyChange: 0,
+        dailyChangePercent: 0,
+      };
+    });
+  } else if (benchmarkTickers.length > 0) {
+    // Fetch real prices for benchmark tickers (^GSPC) from yfinance
     try {
       const realBenchmarkData = await fetchRealMarketDataWithCascade(benchmarkTickers, false);
       Object.assign(marketData, realBenchmarkData);
@@ -1263,7 +1393,7 @@ const createSimulatedMarketData = async (tickers: string[]): Promise<MarketData>
       benchmarkTickers.forEach(ticker => {
         marketData[ticker] = {
           ticker,
-          price: ticker === '^GSPC' ? 5000 + Math.random() * 1000 : 250 + Math.random() * 100,
+          price: ticker === '^GSPC' ? 5000 + random() * 1000 : 250 + random() * 100,
           dailyChange: 0,
           dailyChangePercent: 0,
         };
@@ -1281,6 +1411,11 @@ const createSimulatedMarketData = async (tickers: string[]): Promise<MarketData>
     'AMZN': { min: 100, max: 200, name: 'Amazon' },
     'META': { min: 200, max: 500, name: 'Meta' },
     'TSLA': { min: 100, max: 400, name: 'Tesla' },
+    'TLT': { min: 80, max: 100, name: '20+ Year Treasury Bond ETF' },
+    'BTC-USD': { min: 60000, max: 100000, name: 'Bitcoin' },
+    'ETH-USD': { min: 2000, max: 4000, name: 'Ether' },
+    'EURUSD=X': { min: 1.0, max: 1.2, name: 'Euro / US Dollar' },
+    'GBPUSD=X': { min: 1.2, max: 1.4, name: 'British Pound / US Dollar' },
   };
 
   // Generate random prices for regular trading tickers
@@ -1290,10 +1425,10 @@ const createSimulatedMarketData = async (tickers: string[]): Promise<MarketData>
 
     if (expectedRange) {
       // Use expected range if available
-      initialPrice = expectedRange.min + Math.random() * (expectedRange.max - expectedRange.min);
+      initialPrice = expectedRange.min + random() * (expectedRange.max - expectedRange.min);
     } else {
       // Default random range for other tickers
-      initialPrice = 50 + Math.random() * 250;
+      initialPrice = 50 + random() * 250;
     }
 
     marketData[ticker] = {
@@ -1409,7 +1544,7 @@ export const createInitialMarketData = async (tickers: string[]): Promise<Market
           dailyChangePercent: 0,
         };
       } else {
-        const fallbackPrice = 50 + Math.random() * 250;
+        const fallbackPrice = 50 + createSeededRandom(simulationSeed, 'initial', ticker)() * 250;
         marketData[ticker] = {
           ticker,
           price: fallbackPrice,
@@ -1455,10 +1590,68 @@ export const createInitialMarketData = async (tickers: string[]): Promise<Market
   return await createSimulatedMarketData(tickersWithBenchmark);
 };
 
-const getIntradayPrice = (basePrice: number, dailyChangePercent: number, intradayHour: number): number => {
+// Session time covered by one simulated tick when the caller does not say (SIM_MARKET_MINUTES_PER_TICK default)
+const DEFAULT_TICK_HOURS = 0.5;
+
+// Reuse benchmark quotes already fetched for the shared market data
+const copyBenchmarkData = (
+  benchmarkTickers: string[],
+  benchmarkData: MarketData,
+  previousMarketData: MarketData,
+  target: MarketData
+): void => {
+  benchmarkTickers.forEach(ticker => {
+    const data = benchmarkData[ticker] ?? previousMarketData[ticker];
+    if (data) {
+      target[ticker] = { ...data };
+    }
+  });
+};
+
+// Running session high/low for generated intraday ticks (resting orders are matched against it)
+const trackSessionRange = (
+  previous: TickerData | undefined,
+  previousPrice: number,
+  price: number
+): { dayHigh: number; dayLow: number } => ({
+  dayHigh: Math.max(previous?.dayHigh ?? previousPrice, previousPrice, price),
+  dayLow: Math.min(previous?.dayLow ?? previousPrice, previousPrice, price),
+});
+
+// Equal-weighted move of the simulated universe since the previous tick, applied to the benchmark's last level
+const simulateBenchmarkData = (
+  benchmarkTickers: string[],
+  regularTickers: string[],
+  previousMarketData: MarketData,
+  newMarketData: MarketData,
+  intraday: boolean
+): void => {
+  const returns = regularTickers
+    .filter(ticker => previousMarketData[ticker]?.price > 0 && newMarketData[ticker])
+    .map(ticker => newMarketData[ticker].price / previousMarketData[ticker].price - 1);
+  const averageReturn = returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : 0;
+
+  benchmarkTickers.forEach(ticker => {
+    const prevData = previousMarketData[ticker];
+    const price = prevData.price * (1 + averageReturn);
+    const change = price - prevData.price;
+    // Intraday changes accumulate from the session open, like the generated stock prices
+    const dailyChange = intraday ? prevData.dailyChange + change : change;
+    const basePrice = price - dailyChange;
+    newMarketData[ticker] = {
+      ticker,
+      price,
+      dailyChange,
+      dailyChangePercent: basePrice > 0 ? dailyChange / basePrice : 0,
+      ...(intraday ? trackSessionRange(prevData, prevData.price, price) : {}),
+    };
+  });
+};
+
+const getIntradayPrice = (basePrice: number, dailyChangePercent: number, intradayHour: number, random: RandomSource): number => {
   const progress = intradayHour / 6;
   const intradayVariation = basePrice * dailyChangePercent * progress;
-  const volatility = (Math.random() - 0.5) * 0.006;
+  const volatility = (random() - 0.5) * 0.006;
   return basePrice + intradayVariation + (basePrice * volatility);
 };
 
@@ -1466,8 +1659,15 @@ export const generateNextIntradayMarketData = async (
   previousMarketData: MarketData,
   day: number,
   intradayHour: number,
-  options?: { prefetchedData?: MarketData; missingTickers?: string[] }
+  options?: {
+    prefetchedData?: MarketData;
+    missingTickers?: string[];
+    hoursElapsed?: number; // Simulated session time since the previous tick
+    marketModel?: MarketModelConfig; // Simulated mode only; defaults to DEFAULT_MARKET_MODEL_CONFIG
+    benchmarkData?: MarketData; // Benchmark quotes to reuse instead of fetching them again
+  }
 ): Promise<MarketData> => {
+  const random = createSeededRandom(simulationSeed, 'intraday', day, intradayHour);
   // Hybrid mode should use historical data if HISTORICAL_SIMULATION_START_DATE is set and hasn't transitioned yet
   const shouldUseHistorical = MODE === 'historical' || (MODE === 'hybrid' && HISTORICAL_SIMULATION_START_DATE && !hasHybridModeTransitioned());
 
@@ -1478,7 +1678,7 @@ export const generateNextIntradayMarketData = async (
       tickers = [...new Set([...Object.keys(historicalDataCache), '^GSPC'])];
     }
     if (tickers.length === 0) {
-      tickers = [...new Set([...S_P500_TICKERS, '^GSPC'])];
+      tickers = [...new Set([...ARENA_TICKERS, '^GSPC'])];
     }
 
     if (tickers.length === 0) {
@@ -1488,16 +1688,21 @@ export const generateNextIntradayMarketData = async (
     const marketData: MarketData = {};
 
     tickers.forEach(ticker => {
+      if (isDelistedBeforeDay(ticker, day, true)) {
+        return;
+      }
+
       const historicalDays = historicalDataCache[ticker] || [];
       const dayData = historicalDays[day];
 
       if (dayData) {
         const prevDayData = historicalDays[day - 1];
-        const dayOpenPrice = prevDayData ? prevDayData.price : dayData.price;
+        // change is measured from the previous close restated for any split or dividend
+        const dayOpenPrice = prevDayData ? dayData.price - dayData.change : dayData.price;
         const dayClosePrice = dayData.price;
         const dailyChangePercent = dayData.changePercent;
 
-        const intradayPrice = getIntradayPrice(dayOpenPrice, dailyChangePercent, intradayHour);
+        const intradayPrice = getIntradayPrice(dayOpenPrice, dailyChangePercent, intradayHour, random);
         const prevPrice = previousMarketData[ticker]?.price || dayOpenPrice;
         const intradayChange = intradayPrice - prevPrice;
         const intradayChangePercent = prevPrice > 0 ? intradayChange / prevPrice : 0;
@@ -1507,10 +1712,11 @@ export const generateNextIntradayMarketData = async (
           price: intradayPrice,
           dailyChange: intradayPrice - dayOpenPrice,
           dailyChangePercent: dayOpenPrice > 0 ? (intradayPrice - dayOpenPrice) / dayOpenPrice : 0,
+          ...trackSessionRange(previousMarketData[ticker], prevPrice, intradayPrice),
         };
       } else {
-        const prevPrice = previousMarketData[ticker]?.price || 50 + Math.random() * 250;
-        const volatility = (Math.random() - 0.5) * 0.01;
+        const prevPrice = previousMarketData[ticker]?.price || 50 + random() * 250;
+        const volatility = (random() - 0.5) * 0.01;
         const newPrice = prevPrice * (1 + volatility);
         marketData[ticker] = {
           ticker,
@@ -1568,7 +1774,11 @@ export const generateNextIntradayMarketData = async (
 
   // Fetch real prices for benchmark tickers during intraday updates
   const benchmarkTickers = Object.keys(previousMarketData).filter(t => BENCHMARK_TICKERS.includes(t));
-  if (benchmarkTickers.length > 0) {
+  if (simulatedBenchmark) {
+    // Generated below, once the universe has moved
+  } else if (options?.benchmarkData) {
+    copyBenchmarkData(benchmarkTickers, options.benchmarkData, previousMarketData, newMarketData);
+  } else if (benchmarkTickers.length > 0) {
     try {
       const realBenchmarkData = await fetchRealMarketDataWithCascade(benchmarkTickers, true);
       Object.assign(newMarketData, realBenchmarkData);
@@ -1587,16 +1797,20 @@ export const generateNextIntradayMarketData = async (
     }
   }
 
-  // Generate random prices for regular trading tickers
-  Object.keys(previousMarketData).forEach(ticker => {
-    // Skip benchmark tickers (already handled above)
-    if (BENCHMARK_TICKERS.includes(ticker)) {
-      return;
-    }
+  // Generate prices for regular trading tickers from the market model
+  const marketModel = options?.marketModel ?? DEFAULT_MARKET_MODEL_CONFIG;
+  const regularTickers = Object.keys(previousMarketData).filter(ticker => !BENCHMARK_TICKERS.includes(ticker));
+  const hoursElapsed = options?.hoursElapsed ?? DEFAULT_TICK_HOURS;
+  const modelPrices = simulatePriceStep(previousMarketData, regularTickers, {
+    config: marketModel,
+    random: createSeededRandom(simulationSeed, 'intraday', marketModel.model, day, intradayHour),
+    dtDays: (hoursElapsed / SESSION_HOURS) * (1 - OVERNIGHT_VARIANCE_SHARE),
+    regime: getMarketRegime(simulationSeed, day, marketModel),
+  });
 
+  regularTickers.forEach(ticker => {
     const prevData = previousMarketData[ticker];
-    const volatility = (Math.random() - 0.5) * 0.01;
-    const intradayPrice = prevData.price * (1 + volatility);
+    const intradayPrice = modelPrices[ticker];
 
     const prevPrice = prevData.price;
     const intradayChange = intradayPrice - prevPrice;
@@ -1606,6 +1820,7 @@ export const generateNextIntradayMarketData = async (
       price: intradayPrice,
       dailyChange: prevData.dailyChange + intradayChange,
       dailyChangePercent: prevPrice > 0 ? (intradayPrice - (prevPrice - prevData.dailyChange)) / (prevPrice - prevData.dailyChange) : 0,
+      ...trackSessionRange(prevData, prevPrice, intradayPrice),
     };
 
     // Validate and log if there's a suspicious jump (>5% intraday change)
@@ -1625,11 +1840,20 @@ export const generateNextIntradayMarketData = async (
     validateMarketData(newTickerData, prevPrice);
     newMarketData[ticker] = newTickerData;
   });
+
+  if (simulatedBenchmark) {
+    simulateBenchmarkData(benchmarkTickers, regularTickers, previousMarketData, newMarketData, true);
+  }
   return newMarketData;
 };
 
-export const generateNextDayMarketData = async (previousMarketData: MarketData): Promise<MarketData> => {
+export const generateNextDayMarketData = async (
+  previousMarketData: MarketData,
+  day: number,
+  options?: { marketModel?: MarketModelConfig; benchmarkData?: MarketData }
+): Promise<MarketData> => {
   currentIntradayHour = 0;
+  const random = createSeededRandom(simulationSeed, 'day', day);
   const BENCHMARK_TICKERS = ['^GSPC'];
 
   // Hybrid mode should use historical data if HISTORICAL_SIMULATION_START_DATE is set and hasn't transitioned yet
@@ -1673,18 +1897,27 @@ export const generateNextDayMarketData = async (previousMarketData: MarketData):
     const marketData: MarketData = {};
 
     tickers.forEach(ticker => {
+      if (isDelistedBeforeDay(ticker, currentHistoricalDay, false)) {
+        return;
+      }
+
       const historicalDays = historicalDataCache[ticker] || [];
       const dayData = historicalDays[currentHistoricalDay];
+      // Splits and dividends restate yesterday's prices; the engine adjusts positions to match
+      const corporateActions = getCorporateActionsForDay(ticker, currentHistoricalDay);
 
       if (dayData) {
         // Get previous day's historical data to calculate the change correctly
         const previousDayData = currentHistoricalDay > 0 ? historicalDays[currentHistoricalDay - 1] : null;
-        const previousDayClose = previousDayData?.price || previousMarketData[ticker]?.price || dayData.price;
+        const previousDayClose = adjustPriceForCorporateActions(
+          previousDayData?.price || previousMarketData[ticker]?.price || dayData.price, corporateActions);
 
         // Use simulation's current price for day opening to prevent execution slippage
         // This ensures trades at day boundaries execute at the simulation's current price,
         // not the historical cache's stale price
-        const dayOpenPrice = previousMarketData[ticker]?.price || dayData.price;
+        const dayOpenPrice = previousMarketData[ticker]?.price
+          ? adjustPriceForCorporateActions(previousMarketData[ticker].price, corporateActions)
+          : dayData.price;
 
         // Calculate daily change from previous day's close to current day's open
         // Use historical data's change if available, otherwise calculate from prices
@@ -1731,12 +1964,16 @@ export const generateNextDayMarketData = async (previousMarketData: MarketData):
           });
           marketData[ticker] = previousMarketData[ticker] || {
             ticker,
-            price: 50 + Math.random() * 250,
+            price: 50 + random() * 250,
             dailyChange: 0,
             dailyChangePercent: 0,
           };
         }
       }
+
+      if (corporateActions.length > 0 && marketData[ticker]) {
+        marketData[ticker] = { ...marketData[ticker], corporateActions };
+      }
     });
 
     return marketData;
@@ -1758,7 +1995,11 @@ export const generateNextDayMarketData = async (previousMarketData: MarketData):
 
   // Fetch real prices for benchmark tickers
   const benchmarkTickers = Object.keys(previousMarketData).filter(t => BENCHMARK_TICKERS.includes(t));
-  if (benchmarkTickers.length > 0) {
+  if (simulatedBenchmark) {
+    // Generated below, once the universe has moved
+  } else if (options?.benchmarkData) {
+    copyBenchmarkData(benchmarkTickers, options.benchmarkData, previousMarketData, newMarketData);
+  } else if (benchmarkTickers.length > 0) {
     try {
       const realBenchmarkData = await fetchRealMarketDataWithCascade(benchmarkTickers, true);
       Object.assign(newMarketData, realBenchmarkData);
@@ -1777,15 +2018,19 @@ export const generateNextDayMarketData = async (previousMarketData: MarketData):
     }
   }
 
-  // Generate random prices for regular trading tickers
-  Object.keys(previousMarketData).forEach(ticker => {
-    // Skip benchmark tickers (already handled above)
-    if (BENCHMARK_TICKERS.includes(ticker)) {
-      return;
-    }
+  // Overnight move for regular trading tickers from the market model
+  const marketModel = options?.marketModel ?? DEFAULT_MARKET_MODEL_CONFIG;
+  const regularTickers = Object.keys(previousMarketData).filter(ticker => !BENCHMARK_TICKERS.includes(ticker));
+  const modelPrices = simulatePriceStep(previousMarketData, regularTickers, {
+    config: marketModel,
+    random: createSeededRandom(simulationSeed, 'day', marketModel.model, day),
+    dtDays: OVERNIGHT_VARIANCE_SHARE,
+    regime: getMarketRegime(simulationSeed, day, marketModel),
+  });
 
+  regularTickers.forEach(ticker => {
     const prevData = previousMarketData[ticker];
-    const newPrice = getNextPrice(prevData.price);
+    const newPrice = modelPrices[ticker];
     const dailyChange = newPrice - prevData.price;
     const dailyChangePercent = dailyChange / prevData.price;
 
@@ -1814,6 +2059,10 @@ export const generateNextDayMarketData = async (previousMarketData: MarketData):
     validateMarketData(newTickerData, prevData.price);
     newMarketData[ticker] = newTickerData;
   });
+
+  if (simulatedBenchmark) {
+    simulateBenchmarkData(benchmarkTickers, regularTickers, previousMarketData, newMarketData, false);
+  }
   return newMarketData;
 };
 
@@ -1821,6 +2070,7 @@ export const getMarketDataTelemetry = (): MarketDataTelemetry => {
   const { sources, rateLimits } = marketDataTelemetry;
   return {
     sources: {
+      file: { ...sources.file },
       yahoo: { ...sources.yahoo },
       alphaVantage: { ...sources.alphaVantage },
       polygon: { ...sources.polygon },
@@ -1873,7 +2123,7 @@ const ensureHistoricalCacheForSnapshot = async (
   });
 
   if (!hasCacheForAllTickers || Object.keys(historicalDataCache).length === 0) {
-    const tickersToFetch = tickers.length > 0 ? tickers : S_P500_TICKERS;
+    const tickersToFetch = tickers.length > 0 ? tickers : ARENA_TICKERS;
     logger.logSimulationEvent('Refreshing historical data cache from persisted snapshot', {
       tickers: tickersToFetch.length,
       requestedDay: snapshot.day,
@@ -55,6 +55,9 @@ export const addUserMessageToSimulation = (
     if (!agent) {
       throw new Error(`Agent '${input.agentId}' not found`);
     }
+    if (agent.retiredAt !== undefined) {
+      throw new Error(`${agent.name} has retired and no longer replies`);
+    }
   }
 
   // Sanitize and validate username
@@ -199,11 +199,15 @@ class PriceLogService {
   }
 
   /**
-   * Get price history for a specific ticker
+   * Get price history for a specific ticker, optionally limited to one simulation
    */
-  getTickerPriceHistory(ticker: string): StockPriceLog[] {
+  getTickerPriceHistory(ticker: string, simulationId?: string): StockPriceLog[] {
     const tickerLogs: StockPriceLog[] = [];
+    const simulationKey = simulationId ? this.getSimulationKey(simulationId) : undefined;
     this.logs.forEach(log => {
+      if (simulationKey && (log.simulationId ?? 'default') !== simulationKey) {
+        return;
+      }
       const tickerData = log.stockPrices.find(sp => sp.ticker === ticker);
       if (tickerData) {
         tickerLogs.push(tickerData);
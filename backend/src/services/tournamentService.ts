@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { TournamentResult, TournamentSummary } from '../types.js';
+import type { BacktestRunResult, BacktestWindow } from '../simulation/backtest.js';
+import { calculateTournamentStats, type TournamentEntrant, type TournamentStatsOptions } from '../utils/tournamentStats.js';
+import { logger, LogLevel, LogCategory } from './logger.js';
+
+// One JSON file per tournament: <TOURNAMENT_DIR>/<id>.json, written by `npm run tournament`
+const TOURNAMENT_DIR = process.env.TOURNAMENT_DIR?.trim() || './data/tournaments';
+
+// Ids become file names, so they stay within one path segment
+const TOURNAMENT_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+export const isValidTournamentId = (id: string): boolean => TOURNAMENT_ID_PATTERN.test(id) && !id.startsWith('.');
+
+const toSummary = (result: TournamentResult): TournamentSummary => ({
+  id: result.id,
+  arenaId: result.arenaId,
+  arenaName: result.arenaName,
+  createdAt: result.createdAt,
+  mode: result.mode,
+  runs: result.runs,
+  leaderId: result.leaderId,
+});
+
+// Rank the agents and benchmarks of one arena's backtest runs
+export const buildTournamentResult = (
+  id: string,
+  runs: BacktestRunResult[],
+  details: { mode: 'historical' | 'simulated'; seeds: number[]; windows: BacktestWindow[]; dataset: string | null },
+  options: TournamentStatsOptions = {}
+): TournamentResult => {
+  const entrants = new Map<string, TournamentEntrant>();
+  runs.forEach(run => run.participants.forEach(({ id: entrantId, name, kind }) => entrants.set(entrantId, { id: entrantId, name, kind })));
+
+  const runReturns = runs.map(run => ({
+    seed: run.seed,
+    startDate: run.startDate,
+    endDate: run.endDate,
+    returns: Object.fromEntries(run.participants.map(participant => [participant.id, participant.totalReturn])),
+  }));
+  const { standings, pairwise } = calculateTournamentStats([...entrants.values()], runReturns.map(run => run.returns), options);
+
+  return {
+    id,
+    arenaId: runs[0]?.arenaId ?? '',
+    arenaName: runs[0]?.arenaName ?? '',
+    createdAt: new Date().toISOString(),
+    mode: details.mode,
+    runs: runs.length,
+    leaderId: standings[0]?.id ?? null,
+    seeds: details.seeds,
+    windows: details.windows,
+    confidence: options.confidence ?? 0.95,
+    bootstrapSamples: options.bootstrapSamples ?? 2000,
+    dataset: details.dataset,
+    standings,
+    pairwise,
+    runReturns,
+  };
+};
+
+export const saveTournament = async (result: TournamentResult): Promise<string> => {
+  if (!isValidTournamentId(result.id)) {
+    throw new Error(`Invalid tournament id "${result.id}"`);
+  }
+  await fs.mkdir(TOURNAMENT_DIR, { recursive: true });
+  const path = join(TOURNAMENT_DIR, `${result.id}.json`);
+  await fs.writeFile(path, JSON.stringify(result, null, 2), 'utf-8');
+  return path;
+};
+
+export const loadTournament = async (id: string): Promise<TournamentResult | null> => {
+  if (!isValidTournamentId(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await fs.readFile(join(TOURNAMENT_DIR, `${id}.json`), 'utf-8')) as TournamentResult;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger.log(LogLevel.WARNING, LogCategory.SYSTEM, `Failed to read tournament ${id}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return null;
+  }
+};
+
+// Newest first; a missing directory means no tournaments have been run
+export const listTournaments = async (): Promise<TournamentSummary[]> => {
+  let files: string[];
+  try {
+    files = (await fs.readdir(TOURNAMENT_DIR)).filter(name => name.endsWith('.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const results = await Promise.all(files.map(name => loadTournament(name.slice(0, -'.json'.length))));
+  return results
+    .filter((result): result is TournamentResult => result !== null)
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
@@ -0,0 +1,106 @@
+import { createHmac } from 'crypto';
+import type { InstrumentType, Order, RiskRulesConfig, TradingSession, WebhookAgentConfig } from '../types.js';
+import type { ChatCompletionResult } from './llmProviders.js';
+import { logger, LogLevel, LogCategory } from './logger.js';
+
+const DEFAULT_WEBHOOK_SECRET = (process.env.WEBHOOK_AGENT_SECRET || '').trim();
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10000;
+
+const unsignedWarned = new Set<string>();
+
+// What a webhook agent is sent each trade window: the context an LLM gets in its prompt, as data.
+// It answers with the same decision JSON: { rationale, trades, cancelOrderIds?, reply? }.
+export interface WebhookDecisionRequest {
+  agentId: string;
+  simulationId: string;
+  day: number;
+  intradayHour: number;
+  session?: TradingSession; // NYSE session in realtime arenas
+  portfolio: {
+    cash: number;
+    totalValue: number;
+    positions: Array<{ ticker: string; quantity: number; averageCost: number; price: number; value: number }>;
+    buyingPower?: number; // Margin accounts only
+  };
+  marketData: Array<{ ticker: string; price: number; dailyChangePercent: number; instrumentType: InstrumentType }>;
+  openOrders: Order[];
+  failedTrades: Array<{ ticker: string; action: string; quantity: number; reason: string; field?: string }>;
+  chat?: {
+    maxReplyLength: number;
+    messages: Array<{ sender: string; content: string }>;
+  };
+  rules: {
+    maxPositionWeight: number;
+    feeBps: number;
+    minFee: number;
+    marginEnabled: boolean;
+    riskRules?: RiskRulesConfig;
+  };
+}
+
+// Receivers recompute this over "<X-Arena-Timestamp>.<raw body>" and reject stale timestamps
+export const signWebhookBody = (body: string, secret: string, timestamp: number): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+const getWebhookSecret = (webhook: WebhookAgentConfig): string => {
+  if (!webhook.secretEnv) {
+    return DEFAULT_WEBHOOK_SECRET;
+  }
+  const secret = (process.env[webhook.secretEnv] || '').trim();
+  if (!secret) {
+    throw new Error(`Webhook signing secret ${webhook.secretEnv} is not set`);
+  }
+  return secret;
+};
+
+/**
+ * POST a decision request to an agent's webhook and return the raw response body.
+ * Unlike provider calls this is not retried: a late answer is as good as no answer.
+ */
+export const requestWebhookDecision = async (
+  webhook: WebhookAgentConfig,
+  request: WebhookDecisionRequest,
+  timeoutMs: number = webhook.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS
+): Promise<ChatCompletionResult> => {
+  const body = JSON.stringify(request);
+  const secret = getWebhookSecret(webhook);
+  const timestamp = Math.floor(Date.now() / 1000);
+  if (!secret && !unsignedWarned.has(request.agentId)) {
+    unsignedWarned.add(request.agentId);
+    logger.log(LogLevel.WARNING, LogCategory.LLM, `WEBHOOK_AGENT_SECRET not set; sending unsigned decision requests for ${request.agentId}`, {
+      url: webhook.url,
+    });
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Arena-Agent': request.agentId,
+        'X-Arena-Timestamp': String(timestamp),
+        ...(secret ? { 'X-Arena-Signature': signWebhookBody(body, secret, timestamp) } : {}),
+      },
+      body,
+      signal: controller.signal,
+    });
+
+    const content = await response.text();
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status}: ${content.slice(0, 200)}`);
+    }
+    if (!content.trim()) {
+      throw new Error('Webhook returned an empty response');
+    }
+    return { content };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Webhook timeout after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+};
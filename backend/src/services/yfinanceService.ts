@@ -53,10 +53,17 @@ export interface HistoryOptions {
   end?: string | Date;
 }
 
+// Dividends and splits reported alongside a history() request
+export interface TickerActions {
+  dividends: { date: Date; amount: number }[];
+  splits: { date: Date; numerator: number; denominator: number }[];
+}
+
 export class Ticker {
   private symbol: string;
   private _info: TickerInfo | null = null;
   private _historyCache: HistoricalDataPoint[] | null = null;
+  private _actions: TickerActions = { dividends: [], splits: [] };
 
   constructor(symbol: string) {
     this.symbol = symbol.toUpperCase();
@@ -148,7 +155,7 @@ export class Ticker {
     try {
       const { period = '1mo', interval = '1d', start, end } = options;
 
-      let url = `https://query1.finance.yahoo.com/v8/finance/chart/${this.symbol}?interval=${interval}`;
+      let url = `https://query1.finance.yahoo.com/v8/finance/chart/${this.symbol}?interval=${interval}&events=div%7Csplit`;
 
       if (start && end) {
         const startDate = typeof start === 'string' ? new Date(start) : start;
@@ -205,6 +212,18 @@ export class Ticker {
         });
       }
 
+      const events = result.events || {};
+      this._actions = {
+        dividends: Object.values(events.dividends || {})
+          .map((event: any) => ({ date: new Date(event.date * 1000), amount: event.amount }))
+          .filter(event => event.amount > 0)
+          .sort((a, b) => a.date.getTime() - b.date.getTime()),
+        splits: Object.values(events.splits || {})
+          .map((event: any) => ({ date: new Date(event.date * 1000), numerator: event.numerator, denominator: event.denominator }))
+          .filter(event => event.numerator > 0 && event.denominator > 0)
+          .sort((a, b) => a.date.getTime() - b.date.getTime()),
+      };
+
       this._historyCache = history;
       return history;
     } catch (error) {
@@ -213,9 +232,13 @@ export class Ticker {
     }
   }
 
-  async fastInfo(): Promise<{ price: number; change: number; changePercent: number }> {
+  // With includePrePost the price is the latest minute bar, pre-market and after-hours included,
+  // and the change is measured from the previous regular close
+  async fastInfo(options: { includePrePost?: boolean } = {}): Promise<{ price: number; change: number; changePercent: number }> {
     try {
-      const url = `https://query1.finance.yahoo.com/v8/finance/chart/${this.symbol}?interval=1d&range=2d`;
+      const url = options.includePrePost
+        ? `https://query1.finance.yahoo.com/v8/finance/chart/${this.symbol}?interval=1m&range=1d&includePrePost=true`
+        : `https://query1.finance.yahoo.com/v8/finance/chart/${this.symbol}?interval=1d&range=2d`;
       
       const response = await fetch(url, {
         method: 'GET',
@@ -240,6 +263,19 @@ export class Ticker {
       const closes = quote.close || [];
       const timestamps = result.timestamp || [];
 
+      if (options.includePrePost) {
+        const lastPrint = [...closes].reverse().find((close: number | null) => typeof close === 'number' && close > 0);
+        const previousClose = result.meta?.chartPreviousClose ?? result.meta?.previousClose;
+        if (!lastPrint || !previousClose) {
+          throw new Error(`No extended-hours data for ${this.symbol}`);
+        }
+        return {
+          price: lastPrint,
+          change: lastPrint - previousClose,
+          changePercent: (lastPrint - previousClose) / previousClose,
+        };
+      }
+
       if (closes.length < 2) {
         throw new Error(`Insufficient data for ${this.symbol}`);
       }
@@ -260,6 +296,11 @@ export class Ticker {
     }
   }
 
+  // Corporate actions from the most recent history() call
+  actions(): TickerActions {
+    return this._actions;
+  }
+
   get ticker(): string {
     return this.symbol;
   }
@@ -1,17 +1,19 @@
 import type { SimulationSnapshot, Agent, Benchmark, MarketData, ChatState } from '../types.js';
-import { SIMULATION_TYPES, SimulationType, createAgentsFromConfigs, getAllSimulationTypes } from '../simulationTypes.js';
+import { SimulationType, createAgentsFromConfigs, getAllSimulationTypes, getSimulationTypes, setFileSimulationTypes } from '../simulationTypes.js';
 import { INITIAL_CASH, S_P500_BENCHMARK_ID, AI_MANAGERS_INDEX_ID, BENCHMARK_COLORS } from '../constants.js';
 import { calculateAllMetrics } from '../utils/portfolioCalculations.js';
-import { getSimulationMode } from '../services/marketDataService.js';
+import { getSimulationMode, getSimulationSeed, setSimulationSeed } from '../services/marketDataService.js';
 import { cloneChatMessages } from '../utils/chatUtils.js';
 import { logger, LogLevel, LogCategory } from '../services/logger.js';
 import type { ChatConfig, ChatMessage } from '../types.js';
 import { loadSnapshot, saveSnapshot } from '../store/persistence.js';
+import { getStartPrices } from '../utils/performanceAttribution.js';
+import { loadArenaConfigs, type ArenaConfigError } from '../services/arenaConfigService.js';
 
 /**
  * SimulationInstance - manages state for a single simulation
  */
-class SimulationInstance {
+export class SimulationInstance {
   private snapshot: SimulationSnapshot;
   private simulationType: SimulationType;
 
@@ -24,6 +26,7 @@ class SimulationInstance {
       agents: [],
       benchmarks: [],
       mode: getSimulationMode(),
+      seed: getSimulationSeed(),
       chat: this.createChatState(),
       lastUpdated: new Date().toISOString(),
     };
@@ -41,11 +44,12 @@ class SimulationInstance {
     // Chat is only enabled for the main multi-model simulation
     const enabled = this.simulationType.chatEnabled && (process.env.CHAT_ENABLED ?? 'true') !== 'false';
 
+    const limits = this.simulationType.chat;
     return {
       enabled,
-      maxMessagesPerAgent: Math.max(1, parseIntWithDefault(process.env.CHAT_MAX_MESSAGES_PER_AGENT, 3)),
-      maxMessagesPerUser: Math.max(1, parseIntWithDefault(process.env.CHAT_MAX_MESSAGES_PER_USER, 2)),
-      maxMessageLength: Math.max(40, parseIntWithDefault(process.env.CHAT_MESSAGE_MAX_LENGTH, 140)),
+      maxMessagesPerAgent: limits?.maxMessagesPerAgent ?? Math.max(1, parseIntWithDefault(process.env.CHAT_MAX_MESSAGES_PER_AGENT, 3)),
+      maxMessagesPerUser: limits?.maxMessagesPerUser ?? Math.max(1, parseIntWithDefault(process.env.CHAT_MAX_MESSAGES_PER_USER, 2)),
+      maxMessageLength: limits?.maxMessageLength ?? Math.max(40, parseIntWithDefault(process.env.CHAT_MESSAGE_MAX_LENGTH, 140)),
     };
   }
 
@@ -61,8 +65,14 @@ class SimulationInstance {
     // Restore chat state
     const restoredChat = snapshot.chat ? this.createChatState(snapshot.chat.messages) : this.createChatState();
 
+    // Keep generating prices from the seed the run started with
+    if (snapshot.seed !== undefined) {
+      setSimulationSeed(snapshot.seed);
+    }
+
     this.snapshot = {
       ...snapshot,
+      seed: getSimulationSeed(),
       chat: restoredChat,
     };
 
@@ -82,6 +92,7 @@ class SimulationInstance {
     }
 
     const mode = getSimulationMode();
+    const initialCash = this.simulationType.initialCash ?? INITIAL_CASH;
 
     // Check if we should preload historical data in realtime mode
     const shouldPreloadHistorical = mode === 'realtime' &&
@@ -155,9 +166,9 @@ class SimulationInstance {
           });
 
           // Fall back to normal initialization
-          const agents = createAgentsFromConfigs(this.simulationType.traderConfigs);
+          const agents = createAgentsFromConfigs(this.simulationType.traderConfigs, initialCash);
           initialAgentStates = agents.map(agent => {
-            const initialMetrics = calculateAllMetrics(agent.portfolio, marketData, [], 0);
+            const initialMetrics = calculateAllMetrics(agent.portfolio, marketData, [], 0, [], agent.initialCash);
             return {
               ...agent,
               performanceHistory: [initialMetrics],
@@ -170,13 +181,14 @@ class SimulationInstance {
             };
           });
 
-          const initialBenchmarkMetrics = calculateAllMetrics({ cash: INITIAL_CASH, positions: {} }, marketData, [], 0);
+          const initialBenchmarkMetrics = calculateAllMetrics({ cash: initialCash, positions: {} }, marketData, [], 0, [], initialCash);
           benchmarks = [
             {
               id: S_P500_BENCHMARK_ID,
               name: 'S&P 500',
               color: BENCHMARK_COLORS[S_P500_BENCHMARK_ID],
               performanceHistory: [initialBenchmarkMetrics],
+              initialCash: this.simulationType.initialCash,
               metadata: {
                 lastGspcPrice: marketData['^GSPC']?.price
               }
@@ -188,7 +200,8 @@ class SimulationInstance {
               id: AI_MANAGERS_INDEX_ID,
               name: 'AI Managers Index',
               color: BENCHMARK_COLORS[AI_MANAGERS_INDEX_ID],
-              performanceHistory: [initialBenchmarkMetrics]
+              performanceHistory: [initialBenchmarkMetrics],
+              initialCash: this.simulationType.initialCash
             });
           }
         }
@@ -200,9 +213,9 @@ class SimulationInstance {
         });
 
         // Fall back to normal initialization
-        const agents = createAgentsFromConfigs(this.simulationType.traderConfigs);
+        const agents = createAgentsFromConfigs(this.simulationType.traderConfigs, initialCash);
         initialAgentStates = agents.map(agent => {
-          const initialMetrics = calculateAllMetrics(agent.portfolio, marketData, [], 0);
+          const initialMetrics = calculateAllMetrics(agent.portfolio, marketData, [], 0, [], agent.initialCash);
           return {
             ...agent,
             performanceHistory: [initialMetrics],
@@ -215,13 +228,14 @@ class SimulationInstance {
           };
         });
 
-        const initialBenchmarkMetrics = calculateAllMetrics({ cash: INITIAL_CASH, positions: {} }, marketData, [], 0);
+        const initialBenchmarkMetrics = calculateAllMetrics({ cash: initialCash, positions: {} }, marketData, [], 0, [], initialCash);
         benchmarks = [
           {
             id: S_P500_BENCHMARK_ID,
             name: 'S&P 500',
             color: BENCHMARK_COLORS[S_P500_BENCHMARK_ID],
             performanceHistory: [initialBenchmarkMetrics],
+            initialCash: this.simulationType.initialCash,
             metadata: {
               lastGspcPrice: marketData['^GSPC']?.price
             }
@@ -233,15 +247,16 @@ class SimulationInstance {
             id: AI_MANAGERS_INDEX_ID,
             name: 'AI Managers Index',
             color: BENCHMARK_COLORS[AI_MANAGERS_INDEX_ID],
-            performanceHistory: [initialBenchmarkMetrics]
+            performanceHistory: [initialBenchmarkMetrics],
+            initialCash: this.simulationType.initialCash
           });
         }
       }
     } else {
       // Normal initialization without preload
-      const agents = createAgentsFromConfigs(this.simulationType.traderConfigs);
+      const agents = createAgentsFromConfigs(this.simulationType.traderConfigs, initialCash);
       initialAgentStates = agents.map(agent => {
-        const initialMetrics = calculateAllMetrics(agent.portfolio, marketData, [], 0);
+        const initialMetrics = calculateAllMetrics(agent.portfolio, marketData, [], 0, [], agent.initialCash);
         return {
           ...agent,
           performanceHistory: [initialMetrics],
@@ -254,13 +269,14 @@ class SimulationInstance {
         };
       });
 
-      const initialBenchmarkMetrics = calculateAllMetrics({ cash: INITIAL_CASH, positions: {} }, marketData, [], 0);
+      const initialBenchmarkMetrics = calculateAllMetrics({ cash: initialCash, positions: {} }, marketData, [], 0, [], initialCash);
       benchmarks = [
         {
           id: S_P500_BENCHMARK_ID,
           name: 'S&P 500',
           color: BENCHMARK_COLORS[S_P500_BENCHMARK_ID],
           performanceHistory: [initialBenchmarkMetrics],
+          initialCash: this.simulationType.initialCash,
           metadata: {
             lastGspcPrice: marketData['^GSPC']?.price
           }
@@ -272,7 +288,8 @@ class SimulationInstance {
           id: AI_MANAGERS_INDEX_ID,
           name: 'AI Managers Index',
           color: BENCHMARK_COLORS[AI_MANAGERS_INDEX_ID],
-          performanceHistory: [initialBenchmarkMetrics]
+          performanceHistory: [initialBenchmarkMetrics],
+          initialCash: this.simulationType.initialCash
         });
       }
     }
@@ -354,6 +371,8 @@ class SimulationInstance {
       agents: initialAgentStates,
       benchmarks,
       mode,
+      seed: getSimulationSeed(),
+      startPrices: getStartPrices(marketData),
       startDate,
       currentDate,
       currentTimestamp,
@@ -392,6 +411,20 @@ class SimulationInstance {
     return this.simulationType;
   }
 
+  // A reloaded definition applies from the next round; trader changes need a reset
+  setSimulationType(simulationType: SimulationType): void {
+    this.simulationType = simulationType;
+    this.snapshot = {
+      ...this.snapshot,
+      chat: this.createChatState(this.snapshot.chat.messages),
+    };
+  }
+
+  // Simulation types with their own market model run a separate price path in simulated mode
+  hasOwnMarketData(): boolean {
+    return Boolean(this.simulationType.marketModel) && getSimulationMode() === 'simulated';
+  }
+
   reset(): void {
     this.snapshot = {
       day: 0,
@@ -400,6 +433,7 @@ class SimulationInstance {
       agents: [],
       benchmarks: [],
       mode: getSimulationMode(),
+      seed: getSimulationSeed(),
       chat: this.createChatState(),
       lastUpdated: new Date().toISOString(),
     };
@@ -425,7 +459,14 @@ class SimulationManager {
   async initializeAll(initialMarketData: MarketData): Promise<void> {
     this.sharedMarketData = initialMarketData;
 
-    const enabledTypes = SIMULATION_TYPES;
+    // Invalid arena files are left out at startup; the reload route reports them
+    const { types: fileTypes, errors } = await loadArenaConfigs();
+    errors.forEach(error => {
+      logger.log(LogLevel.ERROR, LogCategory.SYSTEM, `Invalid arena definition ${error.file}: ${error.path} ${error.message}`, { ...error });
+    });
+    setFileSimulationTypes(fileTypes);
+
+    const enabledTypes = getSimulationTypes();
     const allTypes = getAllSimulationTypes();
 
     // Check if we should reset (start fresh)
@@ -435,93 +476,164 @@ class SimulationManager {
     logger.logSimulationEvent('Simulation types status', {
       enabled: enabledTypes.map(t => t.id),
       disabled: allTypes.filter(t => !t.enabled).map(t => t.id),
+      fromFiles: fileTypes.map(t => t.id),
       totalAvailable: allTypes.length,
       resetSimulation: shouldReset,
     });
 
     // Only initialize enabled simulations
     for (const simType of enabledTypes) {
-      const instance = new SimulationInstance(simType);
+      await this.startSimulation(simType, initialMarketData, shouldReset);
+    }
 
-      if (shouldReset) {
-        // Start fresh
-        logger.logSimulationEvent('Starting fresh simulation (RESET_SIMULATION=true)', {
-          simulationType: simType.id,
-        });
-        await instance.initialize(initialMarketData);
-      } else {
-        // Try to load from persistence
-        try {
-          let snapshot = await loadSnapshot(simType.id);
-          let shouldForceReset = false;
-
-          // Check if we need to force a reset due to configuration changes
-          // Specifically, if the user changed the historical preload snapshot ID
-          if (snapshot && getSimulationMode() === 'realtime' && process.env.REALTIME_PRELOAD_HISTORICAL === 'true') {
-            const configuredPreloadId = process.env.HISTORICAL_PRELOAD_SNAPSHOT_ID || 'optimized';
-            const snapshotPreloadId = snapshot.preloadSnapshotId;
-
-            // If the snapshot doesn't have a preload ID (old format) or it differs from configured, force reset
-            // This ensures we pick up the new historical data
-            if (snapshotPreloadId !== configuredPreloadId) {
-              logger.log(LogLevel.WARNING, LogCategory.SYSTEM,
-                'Detected configuration change in historical preload ID. Forcing reset to use new data.', {
-                configuredPreloadId,
-                snapshotPreloadId: snapshotPreloadId || 'undefined',
-                simulationType: simType.id
-              });
-              shouldForceReset = true;
-            }
-          }
+    logger.logSimulationEvent('Simulation instances initialized', {
+      initializedCount: this.simulations.size,
+      initializedTypes: enabledTypes.map(t => t.id),
+      enabledCount: enabledTypes.length,
+      totalAvailable: allTypes.length,
+      resetSimulation: shouldReset,
+    });
+  }
 
-          if (snapshot && !shouldForceReset) {
-            logger.logSimulationEvent('Loaded snapshot from persistence', {
-              simulationType: simType.id,
-              day: snapshot.day,
-              intradayHour: snapshot.intradayHour,
-              preloadSnapshotId: snapshot.preloadSnapshotId
-            });
-            // Use the market data from snapshot if available, otherwise use initial
-            const snapshotMarketData = snapshot.marketData && Object.keys(snapshot.marketData).length > 0
-              ? snapshot.marketData
-              : initialMarketData;
-            await instance.initialize(snapshotMarketData, snapshot);
-          } else {
-            logger.logSimulationEvent(shouldForceReset ? 'Forcing fresh start with new configuration' : 'No snapshot found, starting fresh', {
-              simulationType: simType.id,
+  /**
+   * Create and register the instance for a simulation type, resuming its persisted snapshot unless resetting
+   */
+  private async startSimulation(simType: SimulationType, initialMarketData: MarketData, shouldReset: boolean): Promise<void> {
+    const instance = new SimulationInstance(simType);
+
+    if (shouldReset) {
+      // Start fresh
+      logger.logSimulationEvent('Starting fresh simulation (RESET_SIMULATION=true)', {
+        simulationType: simType.id,
+      });
+      await instance.initialize(initialMarketData);
+    } else {
+      // Try to load from persistence
+      try {
+        let snapshot = await loadSnapshot(simType.id);
+        let shouldForceReset = false;
+
+        // Check if we need to force a reset due to configuration changes
+        // Specifically, if the user changed the historical preload snapshot ID
+        if (snapshot && getSimulationMode() === 'realtime' && process.env.REALTIME_PRELOAD_HISTORICAL === 'true') {
+          const configuredPreloadId = process.env.HISTORICAL_PRELOAD_SNAPSHOT_ID || 'optimized';
+          const snapshotPreloadId = snapshot.preloadSnapshotId;
+
+          // If the snapshot doesn't have a preload ID (old format) or it differs from configured, force reset
+          // This ensures we pick up the new historical data
+          if (snapshotPreloadId !== configuredPreloadId) {
+            logger.log(LogLevel.WARNING, LogCategory.SYSTEM,
+              'Detected configuration change in historical preload ID. Forcing reset to use new data.', {
+              configuredPreloadId,
+              snapshotPreloadId: snapshotPreloadId || 'undefined',
+              simulationType: simType.id
             });
-            await instance.initialize(initialMarketData);
+            shouldForceReset = true;
           }
-        } catch (error) {
-          logger.log(LogLevel.ERROR, LogCategory.SYSTEM,
-            `Failed to load snapshot for ${simType.id}, starting fresh`, {
-            error: error instanceof Error ? error.message : String(error)
+        }
+
+        if (snapshot && !shouldForceReset) {
+          logger.logSimulationEvent('Loaded snapshot from persistence', {
+            simulationType: simType.id,
+            day: snapshot.day,
+            intradayHour: snapshot.intradayHour,
+            preloadSnapshotId: snapshot.preloadSnapshotId
+          });
+          // Use the market data from snapshot if available, otherwise use initial
+          const snapshotMarketData = snapshot.marketData && Object.keys(snapshot.marketData).length > 0
+            ? snapshot.marketData
+            : initialMarketData;
+          await instance.initialize(snapshotMarketData, snapshot);
+        } else {
+          logger.logSimulationEvent(shouldForceReset ? 'Forcing fresh start with new configuration' : 'No snapshot found, starting fresh', {
+            simulationType: simType.id,
           });
           await instance.initialize(initialMarketData);
         }
+      } catch (error) {
+        logger.log(LogLevel.ERROR, LogCategory.SYSTEM,
+          `Failed to load snapshot for ${simType.id}, starting fresh`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        await instance.initialize(initialMarketData);
+      }
+    }
+
+    this.simulations.set(simType.id, instance);
+
+    // Save initial snapshot if starting fresh (always save after initialization)
+    try {
+      const snapshot = instance.getSnapshot();
+      await saveSnapshot(snapshot, simType.id);
+    } catch (error) {
+      logger.log(LogLevel.WARNING, LogCategory.SYSTEM,
+        `Failed to save initial snapshot for ${simType.id}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Re-read the arena definition files: new arenas start right away, running ones pick up their
+   * changed settings and arenas no longer defined are stopped. A changed trader list only takes
+   * effect when the arena is reset. Nothing changes when any file is invalid.
+   */
+  async reloadSimulationTypes(): Promise<{ added: string[]; updated: string[]; needsReset: string[]; removed: string[]; errors: ArenaConfigError[] }> {
+    if (!this.sharedMarketData) {
+      throw new Error('No market data available for new arenas');
+    }
+
+    const { types, errors } = await loadArenaConfigs();
+    if (errors.length > 0) {
+      return { added: [], updated: [], needsReset: [], removed: [], errors };
+    }
+    setFileSimulationTypes(types);
+
+    const added: string[] = [];
+    const updated: string[] = [];
+    const needsReset: string[] = [];
+    const shouldReset = process.env.RESET_SIMULATION === 'true';
+    const simulationTypes = getSimulationTypes();
+    for (const simType of simulationTypes) {
+      const instance = this.simulations.get(simType.id);
+      if (!instance) {
+        await this.startSimulation(simType, this.sharedMarketData, shouldReset);
+        added.push(simType.id);
+        continue;
       }
 
-      this.simulations.set(simType.id, instance);
+      const { traderConfigs: currentTraders, ...currentSettings } = instance.getSimulationType();
+      const { traderConfigs: nextTraders, ...nextSettings } = simType;
+      const tradersChanged = JSON.stringify(currentTraders) !== JSON.stringify(nextTraders);
+      const settingsChanged = JSON.stringify(currentSettings) !== JSON.stringify(nextSettings);
+      if (tradersChanged || settingsChanged) {
+        instance.setSimulationType(simType);
+      }
+      if (settingsChanged) {
+        updated.push(simType.id);
+      }
+      if (tradersChanged) {
+        needsReset.push(simType.id);
+      }
+    }
 
-      // Save initial snapshot if starting fresh (always save after initialization)
+    // Arenas whose file was deleted (or that were disabled) stop after a last snapshot
+    const activeIds = new Set(simulationTypes.map(simType => simType.id));
+    const removed = Array.from(this.simulations.keys()).filter(typeId => !activeIds.has(typeId));
+    for (const typeId of removed) {
       try {
-        const snapshot = instance.getSnapshot();
-        await saveSnapshot(snapshot, simType.id);
+        await saveSnapshot(this.simulations.get(typeId)!.getSnapshot(), typeId);
       } catch (error) {
         logger.log(LogLevel.WARNING, LogCategory.SYSTEM,
-          `Failed to save initial snapshot for ${simType.id}`, {
+          `Failed to save final snapshot for ${typeId}`, {
           error: error instanceof Error ? error.message : String(error)
         });
       }
+      this.simulations.delete(typeId);
     }
 
-    logger.logSimulationEvent('Simulation instances initialized', {
-      initializedCount: this.simulations.size,
-      initializedTypes: enabledTypes.map(t => t.id),
-      enabledCount: enabledTypes.length,
-      totalAvailable: allTypes.length,
-      resetSimulation: shouldReset,
-    });
+    logger.logSimulationEvent('Arena definitions reloaded', { added, updated, needsReset, removed, fromFiles: types.map(t => t.id) });
+    return { added, updated, needsReset, removed, errors: [] };
   }
 
   /**
@@ -545,7 +657,9 @@ class SimulationManager {
     this.sharedMarketData = marketData;
     // Update market data for all simulations
     for (const [_, instance] of this.simulations) {
-      const snapshot = instance.getSnapshot();
+      if (instance.hasOwnMarketData()) {
+        continue; // Keeps its own simulated price path
+      }
       instance.updateSnapshot({ marketData });
     }
   }
@@ -589,7 +703,7 @@ class SimulationManager {
    * Get list of all simulation types (only enabled ones)
    */
   getSimulationTypes(): SimulationType[] {
-    return SIMULATION_TYPES;
+    return getSimulationTypes();
   }
 
   /**
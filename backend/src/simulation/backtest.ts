@@ -0,0 +1,234 @@
+// Batch backtests: drives the engine through a whole period as fast as it will go, for several arenas,
+// date windows and seeds, without the scheduler's wall-clock intervals or snapshot persistence. Market data
+// comes from the configured MODE (historical with local files for walk-forward runs), so callers set the environment first.
+
+import type { Agent, Benchmark, MarketData, PerformanceAnalytics } from '../types.js';
+import type { SimulationType } from '../simulationTypes.js';
+import { DEFAULT_EXECUTION_COST_CONFIG, S_P500_BENCHMARK_ID } from '../constants.js';
+import { createInitialMarketData, generateNextDayMarketData, generateNextIntradayMarketData, isHistoricalSimulationComplete, setHistoricalSimulationRange, setSimulatedBenchmark, setSimulationSeed } from '../services/marketDataService.js';
+import { calculatePerformanceAnalytics } from '../utils/performanceAnalytics.js';
+import { getDayIdentifier } from '../utils/portfolioCalculations.js';
+import { sumInferenceUsage } from '../utils/inferenceCost.js';
+import { SimulationInstance } from './SimulationManager.js';
+import { advanceDay, step, tradeWindow } from './engine.js';
+import { getNextMarketOpen } from './marketHours.js';
+
+// Market close is 6.5 session hours after the open, as in the scheduler
+const SESSION_HOURS = 6.5;
+
+export interface BacktestWindow {
+  start: string;
+  end?: string; // MAX_SIMULATION_DAYS or maxDays bound the window when omitted
+}
+
+export interface BacktestOptions {
+  arenas: SimulationType[];
+  seeds: number[];
+  windows?: BacktestWindow[]; // Historical date ranges; the configured HISTORICAL_SIMULATION_* range when omitted
+  tickers: string[];
+  minutesPerTick?: number; // Session minutes per price step; 30 when omitted (SIM_MARKET_MINUTES_PER_TICK)
+  tradeEveryHours?: number; // Session hours between trade windows; 2 when omitted (TRADE_INTERVAL_MS)
+  maxDays?: number; // Trading days per run; the whole historical period when omitted (required in simulated mode)
+  onDayComplete?: (seed: number, day: number) => void;
+}
+
+export interface BacktestParticipantResult {
+  id: string;
+  name: string;
+  kind: 'agent' | 'benchmark';
+  initialValue: number;
+  finalValue: number;
+  totalReturn: number;
+  trades: number;
+  inferenceCost: number;
+  analytics: PerformanceAnalytics;
+  equity: number[]; // End-of-day portfolio value, one per trading day
+}
+
+export interface BacktestRunResult {
+  arenaId: string;
+  arenaName: string;
+  seed: number;
+  startDate?: string;
+  endDate?: string;
+  tradingDays: number;
+  participants: BacktestParticipantResult[];
+  inferenceCost: number;
+  durationMs: number;
+}
+
+const getEndOfDayEquity = (history: Array<{ timestamp: number; totalValue: number }>): number[] => {
+  const values = new Map<string, number>();
+  history.forEach(entry => values.set(getDayIdentifier(entry.timestamp), entry.totalValue));
+  return [...values.values()];
+};
+
+const toParticipantResult = (participant: Agent | Benchmark, kind: 'agent' | 'benchmark', benchmark?: Benchmark): BacktestParticipantResult => {
+  const history = participant.performanceHistory;
+  const initialValue = history[0]?.totalValue ?? 0;
+  const finalValue = history[history.length - 1]?.totalValue ?? initialValue;
+  const agent = kind === 'agent' ? participant as Agent : undefined;
+  return {
+    id: participant.id,
+    name: participant.name,
+    kind,
+    initialValue,
+    finalValue,
+    totalReturn: initialValue > 0 ? finalValue / initialValue - 1 : 0,
+    trades: agent ? agent.tradeHistory.filter(trade => trade.action !== 'hold' && !trade.corporateAction).length : 0,
+    inferenceCost: agent?.inferenceUsage?.cost ?? 0,
+    // Benchmarks are scored on their own series; analytics only read the fields they share with agents
+    analytics: calculatePerformanceAnalytics({ tradeHistory: [], ...participant } as Agent, kind === 'agent' ? benchmark : undefined),
+    equity: getEndOfDayEquity(history),
+  };
+};
+
+const summarizeRun = (instance: SimulationInstance, seed: number, startedAt: number): BacktestRunResult => {
+  const snapshot = instance.getSnapshot();
+  const simType = instance.getSimulationType();
+  const benchmark = snapshot.benchmarks.find(entry => entry.id === S_P500_BENCHMARK_ID);
+  return {
+    arenaId: simType.id,
+    arenaName: simType.name,
+    seed,
+    startDate: snapshot.startDate,
+    endDate: snapshot.currentDate,
+    tradingDays: snapshot.day + 1,
+    participants: [
+      ...snapshot.agents.map(agent => toParticipantResult(agent, 'agent', benchmark)),
+      ...snapshot.benchmarks.map(entry => toParticipantResult(entry, 'benchmark')),
+    ],
+    inferenceCost: sumInferenceUsage(snapshot.agents).cost,
+    durationMs: Date.now() - startedAt,
+  };
+};
+
+const getEngineContext = (simType: SimulationType) => ({
+  simulationId: simType.id,
+  margin: simType.margin,
+  executionCost: simType.executionCost ?? DEFAULT_EXECUTION_COST_CONFIG,
+  lotRelief: simType.lotRelief,
+  riskRules: simType.riskRules,
+  instrumentTypes: simType.instrumentTypes,
+  universe: simType.universe,
+  exchange: simType.exchange,
+});
+
+const getEngineSnapshot = (instance: SimulationInstance, marketData?: MarketData) => {
+  const snapshot = instance.getSnapshot();
+  return {
+    day: snapshot.day,
+    intradayHour: snapshot.intradayHour,
+    marketData: marketData ?? snapshot.marketData,
+    agents: snapshot.agents,
+    benchmarks: snapshot.benchmarks,
+    chat: snapshot.chat,
+    mode: snapshot.mode,
+    orderBooks: snapshot.orderBooks,
+  };
+};
+
+// One seed: every arena walks the same price path in lockstep, like the scheduler's shared market data
+const runSeed = async (options: BacktestOptions, seed: number): Promise<BacktestRunResult[]> => {
+  const startedAt = Date.now();
+  const hoursPerTick = (options.minutesPerTick ?? 30) / 60;
+  const tradeEveryHours = options.tradeEveryHours ?? 2;
+
+  setSimulationSeed(seed);
+  let marketData = await createInitialMarketData(options.tickers);
+
+  const instances: SimulationInstance[] = [];
+  for (const simType of options.arenas) {
+    const instance = new SimulationInstance(simType);
+    await instance.initialize(marketData);
+    instances.push(instance);
+  }
+
+  for (let day = 0; ; day++) {
+    let nextTradeHour = tradeEveryHours;
+    for (let hour = hoursPerTick; hour < SESSION_HOURS; hour += hoursPerTick) {
+      const newMarketData = await generateNextIntradayMarketData(marketData, day, hour - hoursPerTick, { hoursElapsed: hoursPerTick });
+      for (const instance of instances) {
+        const simType = instance.getSimulationType();
+        // Arenas with their own market model continue their own price path, with a benchmark built from it
+        const previous = instance.hasOwnMarketData() ? instance.getSnapshot().marketData : marketData;
+        const next = instance.hasOwnMarketData()
+          ? await generateNextIntradayMarketData(previous, day, hour - hoursPerTick, { hoursElapsed: hoursPerTick, marketModel: simType.marketModel, benchmarkData: newMarketData })
+          : newMarketData;
+        instance.updateSnapshot({ intradayHour: hour });
+        const result = await step(getEngineSnapshot(instance, previous), next, getEngineContext(simType));
+        instance.updateSnapshot({
+          agents: result.agents,
+          benchmarks: result.benchmarks,
+          marketData: result.marketData,
+          chat: result.chat,
+          orderBooks: result.orderBooks,
+        });
+      }
+      marketData = newMarketData;
+
+      if (hour >= nextTradeHour) {
+        nextTradeHour += tradeEveryHours;
+        for (const instance of instances) {
+          const simType = instance.getSimulationType();
+          const result = await tradeWindow(getEngineSnapshot(instance), { ...getEngineContext(simType), extendedHours: simType.extendedHours });
+          instance.updateSnapshot({
+            agents: result.agents,
+            benchmarks: result.benchmarks,
+            chat: result.chat,
+            marketData: result.marketData,
+            orderBooks: result.orderBooks,
+            inferenceUsage: result.inferenceUsage,
+          });
+        }
+      }
+    }
+
+    options.onDayComplete?.(seed, day);
+    const lastDay = isHistoricalSimulationComplete(day + 1) || (options.maxDays !== undefined && day + 1 >= options.maxDays);
+    if (lastDay) {
+      break;
+    }
+
+    const nextDayData = await generateNextDayMarketData(marketData, day + 1);
+    for (const instance of instances) {
+      const simType = instance.getSimulationType();
+      const { currentDate } = instance.getSnapshot();
+      const previous = instance.hasOwnMarketData() ? instance.getSnapshot().marketData : marketData;
+      const next = instance.hasOwnMarketData()
+        ? await generateNextDayMarketData(previous, day + 1, { marketModel: simType.marketModel, benchmarkData: nextDayData })
+        : nextDayData;
+      const result = await advanceDay(getEngineSnapshot(instance, previous), next, getEngineContext(simType));
+      instance.updateSnapshot({
+        day: day + 1,
+        intradayHour: 0,
+        currentDate: currentDate ? getNextMarketOpen(new Date(currentDate)).toISOString() : undefined,
+        agents: result.agents,
+        benchmarks: result.benchmarks,
+        marketData: result.marketData,
+        chat: result.chat,
+        orderBooks: result.orderBooks,
+        inferenceUsage: result.inferenceUsage,
+      });
+    }
+    marketData = nextDayData;
+  }
+
+  return instances.map(instance => summarizeRun(instance, seed, startedAt));
+};
+
+// Windows and seeds run one after another: the market data service keeps a single price path at a time
+export const runBacktest = async (options: BacktestOptions): Promise<BacktestRunResult[]> => {
+  const results: BacktestRunResult[] = [];
+  // Simulated runs never fetch the live index; ^GSPC follows each seed's generated universe instead
+  setSimulatedBenchmark(true);
+  for (const window of options.windows ?? [undefined]) {
+    if (window) {
+      setHistoricalSimulationRange(window.start, window.end);
+    }
+    for (const seed of options.seeds) {
+      results.push(...await runSeed(options, seed));
+    }
+  }
+  return results;
+};
@@ -0,0 +1,153 @@
+import type { Agent, CorporateAction, MarketData, Order, Portfolio, Trade } from '../types.js';
+import { logger, LogLevel, LogCategory } from '../services/logger.js';
+
+const collectActions = (marketData: MarketData): CorporateAction[] =>
+  Object.values(marketData).flatMap(tickerData => tickerData.corporateActions || []);
+
+// Price the previous close would have had under the post-action share count
+export const adjustPriceForCorporateActions = (price: number, actions: CorporateAction[] = []): number =>
+  actions.reduce((adjusted, action) => {
+    if (action.type === 'split' && action.ratio && action.ratio > 0) {
+      return adjusted / action.ratio;
+    }
+    if (action.type === 'dividend' && action.amount) {
+      return Math.max(0.01, adjusted - action.amount);
+    }
+    return adjusted;
+  }, price);
+
+// Restate the previous tick on the new share basis so order matching does not see a split as a price move
+export const adjustPreviousMarketData = (previousMarketData: MarketData, marketData: MarketData): MarketData => {
+  const adjusted: MarketData = { ...previousMarketData };
+  Object.entries(marketData).forEach(([ticker, tickerData]) => {
+    if (tickerData.corporateActions?.length && adjusted[ticker]) {
+      adjusted[ticker] = { ...adjusted[ticker], price: adjustPriceForCorporateActions(adjusted[ticker].price, tickerData.corporateActions) };
+    }
+  });
+  return adjusted;
+};
+
+export const isDelisted = (marketData: MarketData, ticker: string): boolean =>
+  (marketData[ticker]?.corporateActions || []).some(action => action.type === 'delisting');
+
+export const removeDelistedTickers = (marketData: MarketData): MarketData => {
+  const tradable: MarketData = {};
+  Object.entries(marketData).forEach(([ticker, tickerData]) => {
+    if (!isDelisted(marketData, ticker)) {
+      tradable[ticker] = tickerData;
+    }
+  });
+  return tradable;
+};
+
+const formatSplitRatio = (ratio: number): string =>
+  ratio >= 1 ? `${+ratio.toFixed(4)}-for-1` : `1-for-${+(1 / ratio).toFixed(4)}`;
+
+// Resting orders follow the share count: quantities scale with a split, prices scale inversely
+const adjustOrdersForSplit = (orders: Order[], ticker: string, ratio: number): Order[] =>
+  orders.map(order => order.ticker !== ticker ? order : {
+    ...order,
+    quantity: Math.max(1, Math.floor(order.quantity * ratio)),
+    limitPrice: order.limitPrice !== undefined ? order.limitPrice / ratio : undefined,
+    stopPrice: order.stopPrice !== undefined ? order.stopPrice / ratio : undefined,
+  });
+
+// Apply the day's splits, dividends and delistings to one agent before it trades.
+// Each adjustment is recorded in tradeHistory as a synthetic entry flagged with corporateAction.
+export const applyCorporateActions = (
+  agent: Agent,
+  orders: Order[],
+  marketData: MarketData,
+  timestamp: number
+): { agent: Agent; orders: Order[] } => {
+  const actions = collectActions(marketData);
+  if (actions.length === 0) {
+    return { agent, orders };
+  }
+
+  const portfolio: Portfolio = { ...agent.portfolio, positions: { ...agent.portfolio.positions } };
+  const entries: Trade[] = [];
+  let adjustedOrders = orders;
+
+  for (const action of actions) {
+    const position = portfolio.positions[action.ticker];
+    const price = marketData[action.ticker]?.price || 0;
+
+    if (action.type === 'split' && action.ratio && action.ratio > 0 && action.ratio !== 1) {
+      adjustedOrders = adjustOrdersForSplit(adjustedOrders, action.ticker, action.ratio);
+      if (!position) {
+        continue;
+      }
+      const splitQuantity = position.quantity * action.ratio;
+      // Fractional shares from a reverse split are paid out as cash in lieu
+      const wholeQuantity = Math.sign(splitQuantity) * Math.floor(Math.abs(splitQuantity) + 1e-9);
+      const cashInLieu = (splitQuantity - wholeQuantity) * price;
+      portfolio.cash += cashInLieu;
+      if (wholeQuantity === 0) {
+        delete portfolio.positions[action.ticker];
+      } else {
+        portfolio.positions[action.ticker] = {
+          ...position,
+          quantity: wholeQuantity,
+          averageCost: position.averageCost / action.ratio,
+        };
+      }
+      const delta = wholeQuantity - position.quantity;
+      entries.push({
+        ticker: action.ticker,
+        action: delta >= 0 ? 'buy' : 'sell',
+        quantity: Math.abs(delta),
+        price: 0,
+        timestamp,
+        fees: 0,
+        justification: `${formatSplitRatio(action.ratio)} split: ${position.quantity} -> ${wholeQuantity} shares` +
+          (Math.abs(cashInLieu) > 0.005 ? `, $${cashInLieu.toFixed(2)} cash in lieu` : ''),
+        corporateAction: 'split',
+      });
+    } else if (action.type === 'dividend' && action.amount && position) {
+      // Longs receive the dividend; shorts owe it to the share lender
+      const payment = position.quantity * action.amount;
+      portfolio.cash += payment;
+      entries.push({
+        ticker: action.ticker,
+        action: 'hold',
+        quantity: Math.abs(position.quantity),
+        price: action.amount,
+        timestamp,
+        fees: 0,
+        justification: `Dividend of $${action.amount.toFixed(4)}/share ${payment >= 0 ? 'received' : 'paid on short'}: $${Math.abs(payment).toFixed(2)}`,
+        corporateAction: 'dividend',
+      });
+    } else if (action.type === 'delisting') {
+      adjustedOrders = adjustedOrders.filter(order => order.ticker !== action.ticker);
+      if (!position) {
+        continue;
+      }
+      // Closed out at the last traded price, without fees or market impact
+      portfolio.cash += position.quantity * price;
+      delete portfolio.positions[action.ticker];
+      entries.push({
+        ticker: action.ticker,
+        action: position.quantity > 0 ? 'sell' : 'buy',
+        quantity: Math.abs(position.quantity),
+        price,
+        timestamp,
+        fees: 0,
+        justification: `Delisted: position closed at last price $${price.toFixed(2)}`,
+        corporateAction: 'delisting',
+      });
+    }
+  }
+
+  if (entries.length > 0) {
+    logger.log(LogLevel.INFO, LogCategory.TRADE, `[${agent.name}] Applied ${entries.length} corporate action(s)`, {
+      agentName: agent.name,
+      actions: entries.map(entry => `${entry.corporateAction} ${entry.ticker}`),
+    });
+  }
+
+  return {
+    agent: { ...agent, portfolio, tradeHistory: [...agent.tradeHistory, ...entries] },
+    orders: adjustedOrders,
+  };
+};
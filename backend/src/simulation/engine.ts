@@ -1,6 +1,9 @@
-import type { Agent, Benchmark, MarketData, Trade, PerformanceMetrics, ChatState } from '../types.js';
-import { S_P500_BENCHMARK_ID, INITIAL_CASH, TRADING_FEE_RATE, MIN_TRADE_FEE, TRADING_DAYS_PER_YEAR, RISK_FREE_RATE } from '../constants.js';
+import type { Agent, Benchmark, MarketData, Trade, PerformanceMetrics, ChatState, Portfolio, MarginConfig, ExecutionCostConfig, Order, OrderBooks, LotReliefMethod, InferenceUsageRecord, InferenceUsageTotals, RiskRulesConfig, RiskViolation, InstrumentType, ExchangeId, ExtendedHoursConfig, TradingSession } from '../types.js';
+import { S_P500_BENCHMARK_ID, INITIAL_CASH, TRADING_DAYS_PER_YEAR, RISK_FREE_RATE } from '../constants.js';
 import { calculateAllMetrics } from '../utils/portfolioCalculations.js';
+import { getMarginSummary, calculateDailyFinancingCharges } from '../utils/marginCalculations.js';
+import { getExecutionPrice, getExtendedHoursExecutionCost, type ExecutionPrice } from './executionCosts.js';
+import { getTradingSession } from './marketHours.js';
 import { getTradeDecisions } from '../services/llmService.js';
 import { logger, LogLevel, LogCategory } from '../services/logger.js';
 import { applyAgentRepliesToChat, type AgentReplyInput } from '../services/chatService.js';
@@ -8,6 +11,22 @@ import { createRoundId } from '../utils/chatUtils.js';
 import { priceLogService } from '../services/priceLogService.js';
 import { validatePortfolioCalculations, validatePriceMovements } from '../utils/portfolioValidator.js';
 import { hasHybridModeTransitioned } from '../services/marketDataService.js';
+import {
+  capOrderBook,
+  createOrder,
+  evaluateOrder,
+  expireDayOrders,
+  getPointBar,
+  isRestingOrderType,
+  matchOrders,
+  orderFillToTrade,
+} from './orderBook.js';
+import { applyCorporateActions, adjustPreviousMarketData, removeDelistedTickers } from './corporateActions.js';
+import { updateTaxLots } from './taxLots.js';
+import { addInferenceUsage, sumInferenceUsage } from '../utils/inferenceCost.js';
+import { addDecisionCompliance, type DecisionValidation } from '../utils/decisionSchema.js';
+import { applyRiskRules, recordRiskViolations } from './riskEngine.js';
+import { calculateInstrumentFee, calculateMaxAffordableQuantity, checkInstrumentOrders, getInstrumentProfile, getInstrumentSession, getOpenTickers, roundToLot, type InstrumentProfile } from './instruments.js';
 
 const parseIntWithDefault = (value: string | undefined, fallback: number): number => {
   if (value === undefined) {
@@ -28,6 +47,17 @@ const simulatedIntervalMs = Math.max(0, parseIntWithDefault(process.env.SIM_INTE
 const isRealtimeMode = (mode: 'simulated' | 'realtime' | 'historical' | 'hybrid' | undefined): boolean =>
   mode === 'realtime' || (mode === 'hybrid' && hasHybridModeTransitioned());
 
+// Timestamp of the snapshot's current round, as stamped on trades and performance history
+export const getSnapshotTimestamp = (snapshot: {
+  day: number;
+  intradayHour: number;
+  mode?: 'simulated' | 'realtime' | 'historical' | 'hybrid';
+  currentTimestamp?: number;
+}): number =>
+  isRealtimeMode(snapshot.mode) && snapshot.currentTimestamp !== undefined
+    ? snapshot.currentTimestamp / 1000
+    : snapshot.day + (snapshot.intradayHour / 10);
+
 const getRequestSpacingMs = (mode: 'simulated' | 'realtime' | 'historical' | 'hybrid' | undefined, agentCount: number): number => {
   if (manualSpacingMs >= 0) {
     return manualSpacingMs;
@@ -53,40 +83,556 @@ const getMaxConcurrentRequests = (agentCount: number): number => {
   return Math.max(1, Math.min(maxConcurrentRequests, agentCount));
 };
 
-const calculateExecutionFee = (notional: number): number => {
-  const variableFee = notional * TRADING_FEE_RATE;
-  return Math.max(variableFee, MIN_TRADE_FEE);
+// Fees follow the instrument's asset class
+const calculateExecutionFee = (notional: number, instrument: InstrumentProfile): number =>
+  calculateInstrumentFee(notional, instrument);
+
+type FailedTrade = { ticker: string; action: string; quantity: number; reason: string; field?: string };
+
+// Schema errors in the agent's last decision, in the failed-trade shape its next prompt reports
+const getSchemaFailures = (validation: DecisionValidation | undefined): FailedTrade[] =>
+  (validation?.errors || []).map(error => ({
+    ticker: error.ticker ?? '',
+    action: error.action ?? '',
+    quantity: error.quantity ?? 0,
+    reason: error.message,
+    field: error.path,
+  }));
+
+// Orders the risk engine cut down or rejected, reported back with the rule they broke
+const getRiskFailures = (violations: RiskViolation[]): FailedTrade[] =>
+  violations.map(violation => ({
+    ticker: violation.ticker,
+    action: violation.action,
+    quantity: violation.requestedQuantity,
+    reason: violation.message,
+  }));
+
+const addRiskViolations = (agent: Agent, violations: RiskViolation[]): Pick<Agent, 'riskViolations' | 'riskViolationCounts'> => {
+  if (violations.length === 0) {
+    return { riskViolations: agent.riskViolations, riskViolationCounts: agent.riskViolationCounts };
+  }
+  logger.log(LogLevel.WARNING, LogCategory.TRADE, `[${agent.name}] ${violations.length} order(s) resized or rejected by risk rules`, {
+    agentName: agent.name,
+    violations: violations.map(violation => `${violation.action.toUpperCase()} ${violation.requestedQuantity} ${violation.ticker}: ${violation.message}`),
+  });
+  return recordRiskViolations(agent, violations);
 };
 
-// Calculate the maximum quantity of shares that can be bought with available cash
-// Accounts for execution fees (percentage-based with minimum)
-const calculateMaxAffordableQuantity = (price: number, availableCash: number): number => {
-  if (price <= 0 || availableCash <= 0) {
-    return 0;
-  }
-  
-  // If the minimum fee alone exceeds available cash, can't buy any shares
-  if (MIN_TRADE_FEE >= availableCash) {
-    return 0;
+// A trade ready for execution. Order fills carry their own price; market orders use the quote.
+type ExecutableTrade = Omit<Trade, 'price' | 'timestamp'> & { executionPrice?: number };
+
+// Apply a fill to the portfolio in place. Positive quantity buys, negative sells.
+// Handles opening, adding, reducing and flipping between long and short.
+const applyFill = (
+  portfolio: Portfolio,
+  trade: Omit<Trade, 'price' | 'timestamp'>,
+  signedQuantity: number,
+  price: number
+): void => {
+  const existingPosition = portfolio.positions[trade.ticker];
+  const previousQuantity = existingPosition?.quantity ?? 0;
+  const newQuantity = previousQuantity + signedQuantity;
+
+  portfolio.cash -= signedQuantity * price;
+
+  if (newQuantity === 0) {
+    delete portfolio.positions[trade.ticker];
+    return;
   }
-  
-  // Try percentage-based fee calculation first
-  // cash >= quantity * price * (1 + TRADING_FEE_RATE)
-  const maxQuantityWithPercentageFee = Math.floor(availableCash / (price * (1 + TRADING_FEE_RATE)));
-  
-  // Check if this quantity would trigger the minimum fee
-  const notionalForPercentage = maxQuantityWithPercentageFee * price;
-  const feeForPercentage = notionalForPercentage * TRADING_FEE_RATE;
-  
-  if (feeForPercentage >= MIN_TRADE_FEE) {
-    // Percentage fee applies, return this quantity
-    return Math.max(0, maxQuantityWithPercentageFee);
+
+  let averageCost: number;
+  if (!existingPosition || previousQuantity === 0 || Math.sign(newQuantity) !== Math.sign(previousQuantity)) {
+    // New position or flipped through zero: the remainder was opened at this price
+    averageCost = price;
+  } else if (Math.abs(newQuantity) > Math.abs(previousQuantity)) {
+    const aggregateCost = (existingPosition.averageCost * Math.abs(previousQuantity)) + (Math.abs(signedQuantity) * price);
+    averageCost = aggregateCost / Math.abs(newQuantity);
   } else {
-    // Minimum fee applies, need to account for it
-    // cash >= quantity * price + MIN_TRADE_FEE
-    const maxQuantityWithMinFee = Math.floor((availableCash - MIN_TRADE_FEE) / price);
-    return Math.max(0, maxQuantityWithMinFee);
+    // Reducing a position keeps its entry price
+    averageCost = existingPosition.averageCost;
+  }
+
+  const position = { ...existingPosition, ticker: trade.ticker, quantity: newQuantity, averageCost };
+  const isIncreasing = !existingPosition || Math.abs(newQuantity) > Math.abs(previousQuantity);
+  if (!existingPosition || (isIncreasing && trade.fairValue !== undefined)) {
+    position.lastFairValue = trade.fairValue;
+    position.lastTopOfBox = trade.topOfBox;
+    position.lastBottomOfBox = trade.bottomOfBox;
+  }
+  portfolio.positions[trade.ticker] = position;
+};
+
+// Largest quantity of new exposure (beyond closing `closingQuantity` shares) that keeps
+// equity above the initial margin requirement after fees
+const calculateMaxMarginQuantity = (
+  portfolio: Portfolio,
+  marketData: MarketData,
+  margin: MarginConfig,
+  price: number,
+  closingQuantity: number,
+  requestedQuantity: number,
+  instrument: InstrumentProfile
+): number => {
+  const summary = getMarginSummary(portfolio, marketData, margin);
+  const grossAfterClose = Math.max(0, summary.grossExposure - closingQuantity * price);
+  const fits = (quantity: number): boolean => {
+    const fees = calculateExecutionFee((closingQuantity + quantity) * price, instrument);
+    return summary.equity - fees >= margin.initialMarginRate * (grossAfterClose + quantity * price);
+  };
+
+  if (fits(requestedQuantity)) {
+    return requestedQuantity;
+  }
+
+  const upperBound = Math.floor((summary.equity / margin.initialMarginRate - grossAfterClose) / price);
+  const estimatedFees = calculateExecutionFee((closingQuantity + Math.max(0, upperBound)) * price, instrument);
+  let quantity = roundToLot(Math.min(
+    requestedQuantity,
+    Math.floor(((summary.equity - estimatedFees) / margin.initialMarginRate - grossAfterClose) / price)
+  ), instrument.lotSize);
+  while (quantity > 0 && !fits(quantity)) {
+    quantity -= instrument.lotSize;
+  }
+  return Math.max(0, quantity);
+};
+
+// Execute decided trades against a copy of the agent's portfolio.
+// Sells run first so agents can free up cash (or buying power) for buys.
+// Fills pay spread and market impact from the execution cost model, sized on the executed quantity.
+// Realtime fills (`date` given) record their session; pre-market and after-hours fills pay
+// extended-hours costs.
+const executeTrades = (
+  agent: Agent,
+  decidedTrades: ExecutableTrade[],
+  options: {
+    marketData: MarketData;
+    timestamp: number;
+    margin?: MarginConfig;
+    executionCost?: ExecutionCostConfig;
+    date?: Date;
+    exchange?: ExchangeId;
+    extendedHours?: ExtendedHoursConfig;
+  }
+): { portfolio: Portfolio; tradeHistory: Trade[]; failedTrades: FailedTrade[] } => {
+  const { marketData, timestamp, margin, executionCost, date, exchange, extendedHours } = options;
+  const marginEnabled = Boolean(margin?.enabled);
+
+  const failedTrades: FailedTrade[] = [];
+  const newTradeHistory = [...agent.tradeHistory];
+  const newPortfolio: Portfolio = { ...agent.portfolio, positions: { ...agent.portfolio.positions } };
+
+  const recordFill = (trade: ExecutableTrade, quantity: number, fill: ExecutionPrice, fees: number, session?: TradingSession) => {
+    const { executionPrice: _executionPrice, ...tradeFields } = trade;
+    newTradeHistory.push({
+      ...tradeFields,
+      quantity,
+      price: fill.price,
+      timestamp,
+      fairValue: trade.fairValue,
+      topOfBox: trade.topOfBox,
+      bottomOfBox: trade.bottomOfBox,
+      justification: trade.justification,
+      fees,
+      referencePrice: fill.referencePrice,
+      slippage: fill.slippage,
+      ...(session ? { session } : {}),
+    });
+    const partialNote = quantity < trade.quantity
+      ? `Partial execution: requested ${trade.quantity}, ${trade.action === 'buy' ? 'bought' : 'sold'} ${quantity}`
+      : undefined;
+    logger.logTrade(agent.name, trade.ticker, trade.action, quantity, fill.price, true, partialNote, fees);
+  };
+
+  const recordFailure = (trade: Omit<Trade, 'price' | 'timestamp'>, price: number, reason: string, fees?: number) => {
+    console.warn(`[${agent.name}] Cannot ${trade.action} ${trade.quantity} shares of ${trade.ticker} - ${reason}`);
+    logger.logTrade(agent.name, trade.ticker, trade.action, trade.quantity, price, false, reason, fees);
+    failedTrades.push({
+      ticker: trade.ticker,
+      action: trade.action,
+      quantity: trade.quantity,
+      reason,
+    });
+  };
+
+  // Sort trades: execute sells first, then buys (so agents can sell to free up cash for buys)
+  const sortedTrades = [...decidedTrades].sort((a, b) => {
+    if (a.action === 'sell' && b.action === 'buy') return -1;
+    if (a.action === 'buy' && b.action === 'sell') return 1;
+    return 0; // Keep original order for same action type
+  });
+
+  sortedTrades.forEach(trade => {
+    const referencePrice = trade.executionPrice ?? marketData[trade.ticker]?.price;
+    if (!referencePrice) {
+      console.warn(`[${agent.name}] Skipping trade for ${trade.ticker} - price not available`);
+      return;
+    }
+    if (trade.action !== 'buy' && trade.action !== 'sell') {
+      return;
+    }
+    const instrument = getInstrumentProfile(trade.ticker, marketData[trade.ticker], executionCost);
+    const session = date ? getInstrumentSession(trade.ticker, marketData[trade.ticker], date, exchange) : undefined;
+    const fillCost = extendedHours?.enabled && (session === 'pre_market' || session === 'after_hours')
+      ? getExtendedHoursExecutionCost(executionCost, extendedHours)
+      : executionCost;
+    const priceFill = (quantity: number): ExecutionPrice =>
+      getExecutionPrice(trade.action, quantity, referencePrice, marketData[trade.ticker], fillCost, trade.limitPrice);
+    // Size against the cost of the full request; smaller executions only get cheaper
+    const tradePrice = priceFill(trade.quantity).price;
+
+    if (marginEnabled && margin) {
+      const direction = trade.action === 'buy' ? 1 : -1;
+      const heldQuantity = newPortfolio.positions[trade.ticker]?.quantity ?? 0;
+      // Covering shorts (buy) or selling longs (sell) reduces exposure and never needs buying power
+      const closingQuantity = Math.min(trade.quantity, Math.max(0, -direction * heldQuantity));
+      const openingRequested = trade.quantity - closingQuantity;
+      const openingQuantity = openingRequested > 0
+        ? calculateMaxMarginQuantity(newPortfolio, marketData, margin, tradePrice, closingQuantity, openingRequested, instrument)
+        : 0;
+      const executedQuantity = closingQuantity + openingQuantity;
+
+      if (executedQuantity <= 0) {
+        const { buyingPower } = getMarginSummary(newPortfolio, marketData, margin);
+        const fees = calculateExecutionFee(trade.quantity * tradePrice, instrument);
+        recordFailure(trade, tradePrice,
+          `Insufficient buying power: need $${(trade.quantity * tradePrice).toFixed(2)} of new exposure plus fees, have $${buyingPower.toFixed(2)}`,
+          fees);
+        return;
+      }
+
+      const fill = priceFill(executedQuantity);
+      const fees = calculateExecutionFee(executedQuantity * fill.price, instrument);
+      applyFill(newPortfolio, trade, direction * executedQuantity, fill.price);
+      newPortfolio.cash -= fees;
+      recordFill(trade, executedQuantity, fill, fees, session);
+      return;
+    }
+
+    if (trade.action === 'buy') {
+      const notional = trade.quantity * tradePrice;
+      const fees = calculateExecutionFee(notional, instrument);
+      const totalCost = notional + fees;
+
+      // Buy the full quantity if affordable, otherwise as much as possible
+      const quantityToBuy = newPortfolio.cash >= totalCost
+        ? trade.quantity
+        : calculateMaxAffordableQuantity(tradePrice, newPortfolio.cash, instrument);
+
+      if (quantityToBuy > 0) {
+        const fill = priceFill(quantityToBuy);
+        const executedFees = calculateExecutionFee(quantityToBuy * fill.price, instrument);
+        applyFill(newPortfolio, trade, quantityToBuy, fill.price);
+        newPortfolio.cash -= executedFees;
+        recordFill(trade, quantityToBuy, fill, executedFees, session);
+      } else {
+        // Cannot afford even 1 share
+        recordFailure(trade, tradePrice,
+          `Insufficient cash: need $${totalCost.toFixed(2)} including fees, have $${newPortfolio.cash.toFixed(2)}`,
+          fees);
+      }
+    } else {
+      const existingPosition = newPortfolio.positions[trade.ticker];
+      if (existingPosition && existingPosition.quantity > 0) {
+        const quantityToSell = Math.min(trade.quantity, existingPosition.quantity);
+        if (quantityToSell < trade.quantity) {
+          console.warn(`[${agent.name}] Attempted to sell ${trade.quantity} shares of ${trade.ticker} but only owns ${existingPosition.quantity}. Selling ${quantityToSell} instead.`);
+        }
+        const fill = priceFill(quantityToSell);
+        const fees = calculateExecutionFee(quantityToSell * fill.price, instrument);
+        applyFill(newPortfolio, trade, -quantityToSell, fill.price);
+        newPortfolio.cash -= fees;
+        recordFill(trade, quantityToSell, fill, fees, session);
+      } else {
+        recordFailure(trade, tradePrice, existingPosition ? `only owns ${existingPosition.quantity}` : 'does not own this stock');
+      }
+    }
+  });
+
+  return { portfolio: newPortfolio, tradeHistory: newTradeHistory, failedTrades };
+};
+
+// Split agent decisions into market trades and resting orders. New orders that are already
+// marketable at the current quote fill immediately; IOC orders never rest.
+const placeOrders = (
+  agent: Agent,
+  decisions: Omit<Trade, 'price' | 'timestamp'>[],
+  openOrders: Order[],
+  options: {
+    marketData: MarketData;
+    timestamp: number;
+    day: number;
+    cancelOrderIds?: string[];
+  }
+): { executable: ExecutableTrade[]; orders: Order[]; rejected: FailedTrade[] } => {
+  const { marketData, timestamp, day, cancelOrderIds } = options;
+  const cancelIds = new Set(cancelOrderIds || []);
+  const orders = openOrders.filter(order => !cancelIds.has(order.id));
+  if (orders.length < openOrders.length) {
+    logger.log(LogLevel.INFO, LogCategory.TRADE, `[${agent.name}] Cancelled ${openOrders.length - orders.length} open order(s)`, {
+      agentName: agent.name,
+      orderIds: openOrders.filter(order => cancelIds.has(order.id)).map(order => order.id),
+    });
+  }
+
+  const executable: ExecutableTrade[] = [];
+  const rejected: FailedTrade[] = [];
+
+  decisions.forEach((decision, index) => {
+    if (!isRestingOrderType(decision.orderType)) {
+      executable.push(decision);
+      return;
+    }
+
+    const order = createOrder(agent.id, decision, `${agent.id}-${Math.round(timestamp * 1000)}-${index}`, timestamp, day);
+    const price = marketData[decision.ticker]?.price;
+    if (!order || !price) {
+      rejected.push({
+        ticker: decision.ticker,
+        action: decision.action,
+        quantity: decision.quantity,
+        reason: !order ? `Invalid ${decision.orderType} order: missing limit/stop price` : 'price not available',
+      });
+      return;
+    }
+
+    const result = evaluateOrder(order, getPointBar(price));
+    if (result.fillPrice !== undefined) {
+      executable.push(orderFillToTrade({ order, price: result.fillPrice }));
+    } else if (order.timeInForce === 'ioc') {
+      rejected.push({
+        ticker: order.ticker,
+        action: order.action,
+        quantity: order.quantity,
+        reason: `IOC ${order.orderType} order not marketable at $${price.toFixed(2)}`,
+      });
+    } else {
+      orders.push(result.triggered ? { ...order, status: 'triggered', triggeredAt: timestamp } : order);
+    }
+  });
+
+  return { executable, orders: capOrderBook(orders), rejected };
+};
+
+// Failures outside a trade window wait in memory until the next window reports them
+const rememberFailedTrades = (agent: Agent, failures: FailedTrade[]): Agent => {
+  if (failures.length === 0) {
+    return agent;
   }
+  const previous: FailedTrade[] = (agent.memory as any)?.failedTrades || [];
+  return {
+    ...agent,
+    memory: { recentTrades: [], pastRationales: [], pastPerformance: [], ...agent.memory, failedTrades: [...previous, ...failures] } as Agent['memory'],
+  };
+};
+
+// Fill resting orders touched by the move from previousMarketData to marketData. In realtime
+// (`date` given) orders wait while their market is closed to this arena. A triggered order that
+// cannot fully execute (cash, shares, buying power) leaves the book with its reason recorded as a failed trade.
+const fillRestingOrders = (
+  agent: Agent,
+  orders: Order[],
+  options: {
+    previousMarketData: MarketData;
+    marketData: MarketData;
+    timestamp: number;
+    margin?: MarginConfig;
+    executionCost?: ExecutionCostConfig;
+    date?: Date;
+    exchange?: ExchangeId;
+    extendedHours?: ExtendedHoursConfig;
+  }
+): { agent: Agent; orders: Order[]; newTrades: Trade[] } => {
+  const { previousMarketData, marketData, timestamp, margin, executionCost, date, exchange, extendedHours } = options;
+  if (orders.length === 0) {
+    return { agent, orders, newTrades: [] };
+  }
+
+  // Closed tickers are left out of the quotes, so their orders stay in the book unmatched
+  const matchableData = date
+    ? Object.fromEntries(getOpenTickers(marketData, date, exchange, extendedHours?.enabled).map(ticker => [ticker, marketData[ticker]]))
+    : marketData;
+  const { fills, remaining } = matchOrders(orders, previousMarketData, matchableData, timestamp);
+  if (fills.length === 0) {
+    return { agent, orders: remaining, newTrades: [] };
+  }
+
+  const { portfolio, tradeHistory, failedTrades } = executeTrades(agent, fills.map(orderFillToTrade), { marketData, timestamp, margin, executionCost, date, exchange, extendedHours });
+  const newTrades = tradeHistory.slice(agent.tradeHistory.length);
+  const cancelled: FailedTrade[] = fills.flatMap(({ order }) => {
+    const filled = newTrades
+      .filter(trade => trade.orderId === order.id)
+      .reduce((sum, trade) => sum + trade.quantity, 0);
+    if (filled >= order.quantity) {
+      return [];
+    }
+    const failure = failedTrades.find(trade => trade.ticker === order.ticker && trade.action === order.action);
+    return [{
+      ticker: order.ticker,
+      action: order.action,
+      quantity: order.quantity - filled,
+      reason: `${order.orderType} order ${order.id} cancelled after filling ${filled} of ${order.quantity}${failure ? `: ${failure.reason}` : ''}`,
+    }];
+  });
+  if (cancelled.length > 0) {
+    logger.log(LogLevel.INFO, LogCategory.TRADE, `[${agent.name}] Cancelled ${cancelled.length} triggered order(s) that could not fully execute`, {
+      agentName: agent.name,
+      orders: cancelled.map(trade => trade.reason),
+    });
+  }
+
+  return {
+    agent: rememberFailedTrades({ ...agent, portfolio, tradeHistory }, cancelled),
+    orders: remaining,
+    newTrades,
+  };
+};
+
+// Charge daily financing (when requested) and force liquidations if equity has fallen
+// below the maintenance requirement. Returns the agent unchanged when margin is disabled.
+const settleMarginAccount = (
+  agent: Agent,
+  marketData: MarketData,
+  margin: MarginConfig | undefined,
+  timestamp: number,
+  options: { chargeFinancing: boolean; executionCost?: ExecutionCostConfig }
+): Agent => {
+  if (!margin?.enabled) {
+    return agent;
+  }
+
+  const portfolio: Portfolio = { ...agent.portfolio, positions: { ...agent.portfolio.positions } };
+
+  if (options.chargeFinancing) {
+    const { borrowFee, marginInterest } = calculateDailyFinancingCharges(portfolio, marketData, margin);
+    if (borrowFee > 0 || marginInterest > 0) {
+      portfolio.cash -= borrowFee + marginInterest;
+      portfolio.borrowFeesPaid = (portfolio.borrowFeesPaid || 0) + borrowFee;
+      portfolio.marginInterestPaid = (portfolio.marginInterestPaid || 0) + marginInterest;
+    }
+  }
+
+  let summary = getMarginSummary(portfolio, marketData, margin);
+  if (!summary.isMarginCall) {
+    return { ...agent, portfolio };
+  }
+
+  logger.log(LogLevel.WARNING, LogCategory.TRADE, `Margin call for ${agent.name}: forcing liquidation`, {
+    agentName: agent.name,
+    equity: summary.equity.toFixed(2),
+    grossExposure: summary.grossExposure.toFixed(2),
+    maintenanceRequirement: summary.maintenanceRequirement.toFixed(2),
+  });
+
+  const liquidationTrades: Trade[] = [];
+  const positionsBySize = Object.values(portfolio.positions)
+    .filter(position => (marketData[position.ticker]?.price || 0) > 0)
+    .sort((a, b) =>
+      Math.abs(b.quantity * marketData[b.ticker].price) - Math.abs(a.quantity * marketData[a.ticker].price));
+
+  for (const position of positionsBySize) {
+    if (!summary.isMarginCall) {
+      break;
+    }
+    const quote = marketData[position.ticker].price;
+    const instrument = getInstrumentProfile(position.ticker, marketData[position.ticker], options.executionCost);
+    // Gross exposure that must be shed so equity covers the maintenance requirement (with a fee buffer)
+    const excessExposure = summary.grossExposure - summary.equity / margin.maintenanceMarginRate;
+    const sharesNeeded = Math.ceil((excessExposure * (1 + instrument.feeRate)) / quote) + 1;
+    const quantity = Math.min(Math.abs(position.quantity), Math.max(1, sharesNeeded));
+    const trade: Omit<Trade, 'price' | 'timestamp'> = {
+      ticker: position.ticker,
+      action: position.quantity > 0 ? 'sell' : 'buy',
+      quantity,
+      justification: 'Margin call: forced liquidation to restore maintenance margin',
+      marginCall: true,
+    };
+    const { price, referencePrice, slippage } = getExecutionPrice(
+      trade.action, quantity, quote, marketData[position.ticker], options.executionCost);
+    const fees = calculateExecutionFee(quantity * price, instrument);
+
+    applyFill(portfolio, trade, position.quantity > 0 ? -quantity : quantity, price);
+    portfolio.cash -= fees;
+    liquidationTrades.push({ ...trade, price, timestamp, fees, referencePrice, slippage });
+    logger.logTrade(agent.name, trade.ticker, trade.action, quantity, price, true, 'Margin call liquidation', fees);
+
+    summary = getMarginSummary(portfolio, marketData, margin);
+  }
+
+  return {
+    ...agent,
+    portfolio,
+    tradeHistory: [...agent.tradeHistory, ...liquidationTrades],
+  };
+};
+
+// Close every position at the current quotes and freeze the agent: it keeps its history but no
+// longer trades, fills orders or marks its portfolio. If any position cannot be closed (no quote,
+// not enough cash to cover a short) the agent is returned unchanged along with the unfilled tickers.
+export const retireAgent = (
+  agent: Agent,
+  options: {
+    marketData: MarketData;
+    day: number;
+    intradayHour: number;
+    timestamp: number;
+    margin?: MarginConfig;
+    executionCost?: ExecutionCostConfig;
+    lotRelief?: LotReliefMethod;
+    reason?: string;
+  }
+): { agent: Agent; unfilled: string[] } => {
+  const { marketData, day, intradayHour, timestamp } = options;
+  const closingTrades: ExecutableTrade[] = Object.values(agent.portfolio.positions)
+    .filter(position => position.quantity !== 0)
+    .map(position => ({
+      ticker: position.ticker,
+      action: position.quantity > 0 ? 'sell' : 'buy',
+      quantity: Math.abs(position.quantity),
+      justification: 'Liquidated on retirement',
+    }));
+  const { portfolio, tradeHistory, failedTrades } = executeTrades(agent, closingTrades, {
+    marketData,
+    timestamp,
+    margin: options.margin,
+    executionCost: options.executionCost,
+  });
+  // Trades without a quote are skipped rather than failed, so check what is still open
+  const unfilled = Object.values(portfolio.positions)
+    .filter(position => position.quantity !== 0)
+    .map(position => position.ticker);
+  if (unfilled.length > 0) {
+    logger.log(LogLevel.WARNING, LogCategory.SIMULATION, `Not retiring ${agent.name}: positions could not be liquidated`, {
+      agentId: agent.id,
+      unfilled,
+      reasons: failedTrades.map(trade => trade.reason),
+    });
+    return { agent, unfilled };
+  }
+  const liquidation = tradeHistory.slice(agent.tradeHistory.length);
+
+  const newMetrics = calculateAllMetrics(portfolio, marketData, agent.performanceHistory, timestamp, liquidation, agent.initialCash);
+  newMetrics.intradayHour = intradayHour;
+  const rationale = `Retired${options.reason ? `: ${options.reason}` : ''}. Positions liquidated to cash.`;
+
+  logger.logSimulationEvent(`Agent retired: ${agent.name}`, {
+    agentId: agent.id,
+    liquidatedTrades: liquidation.length,
+    finalValue: newMetrics.totalValue,
+  });
+
+  return {
+    agent: updateTaxLots({
+      ...agent,
+      portfolio,
+      tradeHistory,
+      performanceHistory: [...agent.performanceHistory, newMetrics],
+      rationale,
+      rationaleHistory: { ...agent.rationaleHistory, [day]: rationale },
+      retiredAt: timestamp,
+    }, options.lotRelief),
+    unfilled: [],
+  };
 };
 
 const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
@@ -157,16 +703,32 @@ const handleTradeWindowAgent = async (
     currentTimestamp?: number;
     chatContext?: AgentChatContext;
     previousFailedTrades?: Array<{ ticker: string; action: string; quantity: number; reason: string }>;
+    margin?: MarginConfig;
+    executionCost?: ExecutionCostConfig;
+    openOrders?: Order[];
+    lotRelief?: LotReliefMethod;
+    riskRules?: RiskRulesConfig;
+    instrumentTypes?: InstrumentType[];
+    universe?: string[];
+    exchange?: ExchangeId;
+    extendedHours?: ExtendedHoursConfig;
+    simulationId?: string;
   }
-): Promise<{ agent: Agent; reply?: string; failedTrades?: Array<{ ticker: string; action: string; quantity: number; reason: string }> }> => {
-  const { marketData, day, intradayHour, mode, timestamp, currentTimestamp, chatContext, previousFailedTrades } = options;
+): Promise<{ agent: Agent; reply?: string; failedTrades?: Array<{ ticker: string; action: string; quantity: number; reason: string }>; orders: Order[] }> => {
+  const { marketData, day, intradayHour, mode, timestamp, currentTimestamp, chatContext, previousFailedTrades, margin, executionCost } = options;
+  if (agent.retiredAt !== undefined) {
+    return { agent, orders: [] };
+  }
+  const openOrders = options.openOrders || [];
+  // Wall-clock time of the decision in realtime; simulated trade windows stand for open sessions
+  const date = isRealtimeMode(mode) && currentTimestamp !== undefined ? new Date(currentTimestamp) : undefined;
 
   try {
     // Increased timeout to 60 seconds to account for retries and exponential backoff
     const timeoutMs = 60000;
     const tradeDecision = await Promise.race([
-      getTradeDecisions(agent, marketData, day, timeoutMs, chatContext, previousFailedTrades),
-      new Promise<{ trades: Omit<Trade, 'price' | 'timestamp'>[]; rationale: string; reply?: string }>((_, reject) =>
+      getTradeDecisions(agent, marketData, day, timeoutMs, chatContext, previousFailedTrades, { margin, executionCost, openOrders, lotRelief: options.lotRelief, riskRules: options.riskRules, instrumentTypes: options.instrumentTypes, universe: options.universe, exchange: options.exchange, extendedHours: options.extendedHours, session: date ? getTradingSession(date) : undefined, simulationId: options.simulationId, intradayHour }),
+      new Promise<{ trades: Omit<Trade, 'price' | 'timestamp'>[]; rationale: string; reply?: string; cancelOrderIds?: string[]; usage?: InferenceUsageRecord; validation?: DecisionValidation }>((_, reject) =>
         setTimeout(() => reject(new Error('Trade decision timeout')), timeoutMs)
       )
     ]).catch(error => {
@@ -182,10 +744,13 @@ const handleTradeWindowAgent = async (
         trades: [],
         rationale: `Trade decision unavailable - holding positions. ${error instanceof Error ? error.message : String(error)}`,
         reply: fallbackReply,
+        cancelOrderIds: undefined,
+        usage: undefined,
+        validation: undefined,
       };
     });
 
-    const { trades: decidedTrades, rationale, reply: rawReply } = tradeDecision;
+    const { trades: decidedTrades, rationale, reply: rawReply, cancelOrderIds, usage, validation } = tradeDecision;
     
     // Log trade decision results for debugging
     if (decidedTrades.length === 0) {
@@ -208,160 +773,35 @@ const handleTradeWindowAgent = async (
       });
     }
     
-    // Track failed trades for prompt feedback
-    const failedTrades: Array<{ ticker: string; action: string; quantity: number; reason: string }> = [];
-    
-    const newTradeHistory = [...agent.tradeHistory];
-    const newPortfolio = { ...agent.portfolio, positions: { ...agent.portfolio.positions } };
-
-    // Sort trades: execute sells first, then buys (so agents can sell to free up cash for buys)
-    const sortedTrades = [...decidedTrades].sort((a, b) => {
-      if (a.action === 'sell' && b.action === 'buy') return -1;
-      if (a.action === 'buy' && b.action === 'sell') return 1;
-      return 0; // Keep original order for same action type
+    // Instrument checks (asset class, trading hours, lot size) and risk rules apply at order entry,
+    // before anything reaches the book
+    const { trades: instrumentTrades, failures: instrumentFailures } = checkInstrumentOrders(decidedTrades, {
+      marketData,
+      instrumentTypes: options.instrumentTypes,
+      universe: options.universe,
+      exchange: options.exchange,
+      extendedHours: options.extendedHours?.enabled,
+      date,
+    });
+    const { trades: checkedTrades, violations } = applyRiskRules(agent, instrumentTrades, { marketData, timestamp, rules: options.riskRules });
+    const { executable, orders, rejected } = placeOrders(agent, checkedTrades, openOrders, {
+      marketData,
+      timestamp,
+      day,
+      cancelOrderIds,
     });
 
-    sortedTrades.forEach(trade => {
-      const tradePrice = marketData[trade.ticker]?.price;
-      if (!tradePrice) {
-        console.warn(`[${agent.name}] Skipping trade for ${trade.ticker} - price not available`);
-        return;
-      }
-
-      if (trade.action === 'buy') {
-        const notional = trade.quantity * tradePrice;
-        const fees = calculateExecutionFee(notional);
-        const totalCost = notional + fees;
-
-        if (newPortfolio.cash >= totalCost) {
-          // Can afford the full quantity
-          newPortfolio.cash -= totalCost;
-          const existingPosition = newPortfolio.positions[trade.ticker];
-          if (existingPosition) {
-            const aggregateCost = (existingPosition.averageCost * existingPosition.quantity) + notional;
-            existingPosition.quantity += trade.quantity;
-            existingPosition.averageCost = aggregateCost / existingPosition.quantity;
-            if (trade.fairValue !== undefined) {
-              existingPosition.lastFairValue = trade.fairValue;
-              existingPosition.lastTopOfBox = trade.topOfBox;
-              existingPosition.lastBottomOfBox = trade.bottomOfBox;
-            }
-          } else {
-            newPortfolio.positions[trade.ticker] = {
-              ticker: trade.ticker,
-              quantity: trade.quantity,
-              averageCost: tradePrice,
-              lastFairValue: trade.fairValue,
-              lastTopOfBox: trade.topOfBox,
-              lastBottomOfBox: trade.bottomOfBox,
-            };
-          }
-          newTradeHistory.push({
-            ...trade,
-            price: tradePrice,
-            timestamp,
-            fairValue: trade.fairValue,
-            topOfBox: trade.topOfBox,
-            bottomOfBox: trade.bottomOfBox,
-            justification: trade.justification,
-            fees,
-          });
-          logger.logTrade(agent.name, trade.ticker, 'buy', trade.quantity, tradePrice, true, undefined, fees);
-        } else {
-          // Cannot afford full quantity - buy as much as possible
-          const maxAffordableQuantity = calculateMaxAffordableQuantity(tradePrice, newPortfolio.cash);
-          
-          if (maxAffordableQuantity > 0) {
-            // Execute partial trade
-            const adjustedNotional = maxAffordableQuantity * tradePrice;
-            const adjustedFees = calculateExecutionFee(adjustedNotional);
-            const adjustedTotalCost = adjustedNotional + adjustedFees;
-            
-            newPortfolio.cash -= adjustedTotalCost;
-            const existingPosition = newPortfolio.positions[trade.ticker];
-            if (existingPosition) {
-              const aggregateCost = (existingPosition.averageCost * existingPosition.quantity) + adjustedNotional;
-              existingPosition.quantity += maxAffordableQuantity;
-              existingPosition.averageCost = aggregateCost / existingPosition.quantity;
-              if (trade.fairValue !== undefined) {
-                existingPosition.lastFairValue = trade.fairValue;
-                existingPosition.lastTopOfBox = trade.topOfBox;
-                existingPosition.lastBottomOfBox = trade.bottomOfBox;
-              }
-            } else {
-              newPortfolio.positions[trade.ticker] = {
-                ticker: trade.ticker,
-                quantity: maxAffordableQuantity,
-                averageCost: tradePrice,
-                lastFairValue: trade.fairValue,
-                lastTopOfBox: trade.topOfBox,
-                lastBottomOfBox: trade.bottomOfBox,
-              };
-            }
-            newTradeHistory.push({
-              ...trade,
-              quantity: maxAffordableQuantity,
-              price: tradePrice,
-              timestamp,
-              fairValue: trade.fairValue,
-              topOfBox: trade.topOfBox,
-              bottomOfBox: trade.bottomOfBox,
-              justification: trade.justification,
-              fees: adjustedFees,
-            });
-            logger.logTrade(agent.name, trade.ticker, 'buy', maxAffordableQuantity, tradePrice, true, 
-              `Partial execution: requested ${trade.quantity}, bought ${maxAffordableQuantity}`, adjustedFees);
-          } else {
-            // Cannot afford even 1 share
-            const errorMsg = `Insufficient cash: need $${totalCost.toFixed(2)} including fees, have $${newPortfolio.cash.toFixed(2)}`;
-            logger.logTrade(agent.name, trade.ticker, 'buy', trade.quantity, tradePrice, false, errorMsg, fees);
-            failedTrades.push({
-              ticker: trade.ticker,
-              action: 'buy',
-              quantity: trade.quantity,
-              reason: errorMsg,
-            });
-          }
-        }
-      } else if (trade.action === 'sell') {
-        const existingPosition = newPortfolio.positions[trade.ticker];
-        if (existingPosition && existingPosition.quantity > 0) {
-          const quantityToSell = Math.min(trade.quantity, existingPosition.quantity);
-          if (quantityToSell < trade.quantity) {
-            console.warn(`[${agent.name}] Attempted to sell ${trade.quantity} shares of ${trade.ticker} but only owns ${existingPosition.quantity}. Selling ${quantityToSell} instead.`);
-          }
-          const notional = quantityToSell * tradePrice;
-          const fees = quantityToSell > 0 ? calculateExecutionFee(notional) : 0;
-          newPortfolio.cash += notional - fees;
-          existingPosition.quantity -= quantityToSell;
-          if (existingPosition.quantity === 0) {
-            delete newPortfolio.positions[trade.ticker];
-          }
-          newTradeHistory.push({
-            ...trade,
-            quantity: quantityToSell,
-            price: tradePrice,
-            timestamp,
-            fairValue: trade.fairValue,
-            topOfBox: trade.topOfBox,
-            bottomOfBox: trade.bottomOfBox,
-            justification: trade.justification,
-            fees,
-          });
-          logger.logTrade(agent.name, trade.ticker, 'sell', quantityToSell, tradePrice, true, undefined, fees);
-        } else {
-          const errorMsg = existingPosition ? `only owns ${existingPosition.quantity}` : 'does not own this stock';
-          console.warn(`[${agent.name}] Cannot sell ${trade.quantity} shares of ${trade.ticker} - ${errorMsg}`);
-          logger.logTrade(agent.name, trade.ticker, 'sell', trade.quantity, tradePrice, false, errorMsg);
-          failedTrades.push({
-            ticker: trade.ticker,
-            action: 'sell',
-            quantity: trade.quantity,
-            reason: errorMsg,
-          });
-        }
-      }
+    // Track failed trades for prompt feedback
+    const { portfolio: newPortfolio, tradeHistory: newTradeHistory, failedTrades: executionFailures } = executeTrades(agent, executable, {
+      marketData,
+      timestamp,
+      margin,
+      executionCost,
+      date,
+      exchange: options.exchange,
+      extendedHours: options.extendedHours,
     });
+    const failedTrades = [...getSchemaFailures(validation), ...instrumentFailures, ...getRiskFailures(violations), ...rejected, ...executionFailures];
 
     const intradayTrades = newTradeHistory.filter(t => {
       if (isRealtimeMode(mode) && currentTimestamp !== undefined) {
@@ -371,14 +811,14 @@ const handleTradeWindowAgent = async (
       const timestampDiff = Math.abs(t.timestamp - timestamp);
       return timestampDiff < 0.01;
     });
-    const newMetrics = calculateAllMetrics(newPortfolio, marketData, agent.performanceHistory, timestamp, intradayTrades);
+    const newMetrics = calculateAllMetrics(newPortfolio, marketData, agent.performanceHistory, timestamp, intradayTrades, agent.initialCash);
     newMetrics.intradayHour = intradayHour;
 
     const updatedMemory = {
       recentTrades: [...(agent.memory?.recentTrades || []), ...decidedTrades.map(t => {
         const executedPrice = marketData[t.ticker]?.price || 0;
         const estimatedNotional = t.quantity * executedPrice;
-        const fees = executedPrice > 0 ? calculateExecutionFee(estimatedNotional) : undefined;
+        const fees = executedPrice > 0 ? calculateExecutionFee(estimatedNotional, getInstrumentProfile(t.ticker, marketData[t.ticker], executionCost)) : undefined;
         return { ...t, price: executedPrice, timestamp, fees } as Trade;
       })].slice(-10),
       pastRationales: [...(agent.memory?.pastRationales || []), rationale].slice(-5),
@@ -398,9 +838,13 @@ const handleTradeWindowAgent = async (
           [day]: rationale
         },
         memory: updatedMemory,
+        inferenceUsage: addInferenceUsage(agent.inferenceUsage, usage),
+        decisionCompliance: addDecisionCompliance(agent.decisionCompliance, validation),
+        ...addRiskViolations(agent, violations),
       },
       reply,
       failedTrades,
+      orders,
     };
   } catch (error) {
     console.error(`Failed to process agent ${agent.name}:`, error);
@@ -411,7 +855,7 @@ const handleTradeWindowAgent = async (
       error: error instanceof Error ? error.message : String(error)
     });
     const errorRationale = `Error: Could not retrieve trade decision. Holding positions. ${error}`;
-    const newMetrics = calculateAllMetrics(agent.portfolio, marketData, agent.performanceHistory, timestamp);
+    const newMetrics = calculateAllMetrics(agent.portfolio, marketData, agent.performanceHistory, timestamp, [], agent.initialCash);
     newMetrics.intradayHour = intradayHour;
     return {
       agent: {
@@ -424,6 +868,7 @@ const handleTradeWindowAgent = async (
         }
       },
       reply: chatContext?.enabled ? 'Unable to respond right now.' : undefined,
+      orders: openOrders,
     };
   }
 };
@@ -433,180 +878,113 @@ const handleAdvanceDayAgent = async (
   options: {
     nextDay: number;
     marketData: MarketData;
+    previousMarketData: MarketData;
+    margin?: MarginConfig;
+    executionCost?: ExecutionCostConfig;
+    openOrders?: Order[];
+    lotRelief?: LotReliefMethod;
+    riskRules?: RiskRulesConfig;
+    instrumentTypes?: InstrumentType[];
+    universe?: string[];
+    exchange?: ExchangeId;
+    simulationId?: string;
   }
-): Promise<Agent> => {
-  const { nextDay, marketData } = options;
+): Promise<{ agent: Agent; orders: Order[] }> => {
+  const { nextDay, margin, executionCost } = options;
+  if (agent.retiredAt !== undefined) {
+    return { agent, orders: [] };
+  }
+
+  // Splits, dividends and delistings settle at the open, before any order can fill.
+  // Delisted tickers are then dropped so they can no longer be traded.
+  const { agent: adjustedAgent, orders: adjustedOrders } = applyCorporateActions(agent, options.openOrders || [], options.marketData, nextDay);
+  const marketData = removeDelistedTickers(options.marketData);
+  const previousMarketData = adjustPreviousMarketData(options.previousMarketData, options.marketData);
+
+  // Day orders expire at the close; GTC orders are checked against the overnight gap
+  const { active, expired } = expireDayOrders(adjustedOrders);
+  if (expired.length > 0) {
+    logger.log(LogLevel.INFO, LogCategory.TRADE, `[${agent.name}] ${expired.length} day order(s) expired`, {
+      agentName: agent.name,
+      orderIds: expired.map(order => order.id),
+    });
+  }
+  const { agent: filledAgent, orders: restingOrders } = fillRestingOrders(adjustedAgent, active, {
+    previousMarketData,
+    marketData,
+    timestamp: nextDay,
+    margin,
+    executionCost,
+  });
+
+  // Overnight financing and margin calls settle before the agent sees the new day
+  const settledAgent = settleMarginAccount(filledAgent, marketData, margin, nextDay, { chargeFinancing: true, executionCost });
 
   try {
     // Increased timeout to 60 seconds to account for retries and exponential backoff
     const timeoutMs = 60000;
-    const { trades: decidedTrades, rationale } = await Promise.race([
-      getTradeDecisions(agent, marketData, nextDay, timeoutMs),
-      new Promise<{ trades: Omit<Trade, 'price' | 'timestamp'>[]; rationale: string }>((_, reject) =>
+    const { trades: decidedTrades, rationale, cancelOrderIds, usage, validation } = await Promise.race([
+      getTradeDecisions(settledAgent, marketData, nextDay, timeoutMs, undefined, undefined, { margin, executionCost, openOrders: restingOrders, lotRelief: options.lotRelief, riskRules: options.riskRules, instrumentTypes: options.instrumentTypes, universe: options.universe, exchange: options.exchange, simulationId: options.simulationId, intradayHour: 0 }),
+      new Promise<{ trades: Omit<Trade, 'price' | 'timestamp'>[]; rationale: string; cancelOrderIds?: string[]; usage?: InferenceUsageRecord; validation?: DecisionValidation }>((_, reject) =>
         setTimeout(() => reject(new Error('Trade decision timeout')), timeoutMs)
       )
     ]).catch(error => {
       console.warn(`[${agent.name}] Trade decision timeout or error:`, error);
-      return { trades: [], rationale: `Trade decision unavailable - holding positions. ${error instanceof Error ? error.message : String(error)}` };
+      return { trades: [], rationale: `Trade decision unavailable - holding positions. ${error instanceof Error ? error.message : String(error)}`, cancelOrderIds: undefined, usage: undefined, validation: undefined };
     });
 
-    const newTradeHistory = [...agent.tradeHistory];
-    const newPortfolio = { ...agent.portfolio, positions: { ...agent.portfolio.positions } };
-
-    // Sort trades: execute sells first, then buys (so agents can sell to free up cash for buys)
-    const sortedTrades = [...decidedTrades].sort((a, b) => {
-      if (a.action === 'sell' && b.action === 'buy') return -1;
-      if (a.action === 'buy' && b.action === 'sell') return 1;
-      return 0; // Keep original order for same action type
+    const { trades: instrumentTrades, failures: instrumentFailures } = checkInstrumentOrders(decidedTrades, { marketData, instrumentTypes: options.instrumentTypes, universe: options.universe, exchange: options.exchange });
+    const { trades: checkedTrades, violations } = applyRiskRules(settledAgent, instrumentTrades, { marketData, timestamp: nextDay, rules: options.riskRules });
+    const { executable, orders, rejected } = placeOrders(settledAgent, checkedTrades, restingOrders, {
+      marketData,
+      timestamp: nextDay,
+      day: nextDay,
+      cancelOrderIds,
     });
 
-    sortedTrades.forEach(trade => {
-      const tradePrice = marketData[trade.ticker]?.price;
-      if (!tradePrice) {
-        console.warn(`[${agent.name}] Skipping trade for ${trade.ticker} - price not available`);
-        return;
-      }
-
-      if (trade.action === 'buy') {
-        const notional = trade.quantity * tradePrice;
-        const fees = calculateExecutionFee(notional);
-        const totalCost = notional + fees;
-
-        if (newPortfolio.cash >= totalCost) {
-          // Can afford the full quantity
-          newPortfolio.cash -= totalCost;
-          const existingPosition = newPortfolio.positions[trade.ticker];
-          if (existingPosition) {
-            const aggregateCost = (existingPosition.averageCost * existingPosition.quantity) + notional;
-            existingPosition.quantity += trade.quantity;
-            existingPosition.averageCost = aggregateCost / existingPosition.quantity;
-            if (trade.fairValue !== undefined) {
-              existingPosition.lastFairValue = trade.fairValue;
-              existingPosition.lastTopOfBox = trade.topOfBox;
-              existingPosition.lastBottomOfBox = trade.bottomOfBox;
-            }
-          } else {
-            newPortfolio.positions[trade.ticker] = {
-              ticker: trade.ticker,
-              quantity: trade.quantity,
-              averageCost: tradePrice,
-              lastFairValue: trade.fairValue,
-              lastTopOfBox: trade.topOfBox,
-              lastBottomOfBox: trade.bottomOfBox,
-            };
-          }
-          newTradeHistory.push({
-            ...trade,
-            price: tradePrice,
-            timestamp: nextDay,
-            fairValue: trade.fairValue,
-            topOfBox: trade.topOfBox,
-            bottomOfBox: trade.bottomOfBox,
-            justification: trade.justification,
-            fees,
-          });
-          logger.logTrade(agent.name, trade.ticker, 'buy', trade.quantity, tradePrice, true, undefined, fees);
-        } else {
-          // Cannot afford full quantity - buy as much as possible
-          const maxAffordableQuantity = calculateMaxAffordableQuantity(tradePrice, newPortfolio.cash);
-          
-          if (maxAffordableQuantity > 0) {
-            // Execute partial trade
-            const adjustedNotional = maxAffordableQuantity * tradePrice;
-            const adjustedFees = calculateExecutionFee(adjustedNotional);
-            const adjustedTotalCost = adjustedNotional + adjustedFees;
-            
-            newPortfolio.cash -= adjustedTotalCost;
-            const existingPosition = newPortfolio.positions[trade.ticker];
-            if (existingPosition) {
-              const aggregateCost = (existingPosition.averageCost * existingPosition.quantity) + adjustedNotional;
-              existingPosition.quantity += maxAffordableQuantity;
-              existingPosition.averageCost = aggregateCost / existingPosition.quantity;
-              if (trade.fairValue !== undefined) {
-                existingPosition.lastFairValue = trade.fairValue;
-                existingPosition.lastTopOfBox = trade.topOfBox;
-                existingPosition.lastBottomOfBox = trade.bottomOfBox;
-              }
-            } else {
-              newPortfolio.positions[trade.ticker] = {
-                ticker: trade.ticker,
-                quantity: maxAffordableQuantity,
-                averageCost: tradePrice,
-                lastFairValue: trade.fairValue,
-                lastTopOfBox: trade.topOfBox,
-                lastBottomOfBox: trade.bottomOfBox,
-              };
-            }
-            newTradeHistory.push({
-              ...trade,
-              quantity: maxAffordableQuantity,
-              price: tradePrice,
-              timestamp: nextDay,
-              fairValue: trade.fairValue,
-              topOfBox: trade.topOfBox,
-              bottomOfBox: trade.bottomOfBox,
-              justification: trade.justification,
-              fees: adjustedFees,
-            });
-            logger.logTrade(agent.name, trade.ticker, 'buy', maxAffordableQuantity, tradePrice, true, 
-              `Partial execution: requested ${trade.quantity}, bought ${maxAffordableQuantity}`, adjustedFees);
-          } else {
-            // Cannot afford even 1 share
-            const errorMsg = `Insufficient cash: need $${totalCost.toFixed(2)} including fees, have $${newPortfolio.cash.toFixed(2)}`;
-            logger.logTrade(agent.name, trade.ticker, 'buy', trade.quantity, tradePrice, false, errorMsg, fees);
-          }
-        }
-      } else if (trade.action === 'sell') {
-        const existingPosition = newPortfolio.positions[trade.ticker];
-        if (existingPosition && existingPosition.quantity > 0) {
-          const quantityToSell = Math.min(trade.quantity, existingPosition.quantity);
-          const notional = quantityToSell * tradePrice;
-          const fees = quantityToSell > 0 ? calculateExecutionFee(notional) : 0;
-          newPortfolio.cash += notional - fees;
-          existingPosition.quantity -= quantityToSell;
-          if (existingPosition.quantity === 0) {
-            delete newPortfolio.positions[trade.ticker];
-          }
-          newTradeHistory.push({
-            ...trade,
-            quantity: quantityToSell,
-            price: tradePrice,
-            timestamp: nextDay,
-            fairValue: trade.fairValue,
-            topOfBox: trade.topOfBox,
-            bottomOfBox: trade.bottomOfBox,
-            justification: trade.justification,
-            fees,
-          });
-          logger.logTrade(agent.name, trade.ticker, 'sell', quantityToSell, tradePrice, true, undefined, fees);
-        } else {
-          const errorMsg = existingPosition ? `only owns ${existingPosition.quantity}` : 'does not own this stock';
-          logger.logTrade(agent.name, trade.ticker, 'sell', trade.quantity, tradePrice, false, errorMsg);
-        }
-      }
+    const { portfolio: newPortfolio, tradeHistory: newTradeHistory, failedTrades: executionFailures } = executeTrades(settledAgent, executable, {
+      marketData,
+      timestamp: nextDay,
+      margin,
+      executionCost,
     });
 
     const dailyTrades = newTradeHistory.filter(t => Math.floor(t.timestamp) === nextDay);
-    const newMetrics = calculateAllMetrics(newPortfolio, marketData, agent.performanceHistory, nextDay, dailyTrades);
+    const newMetrics = calculateAllMetrics(newPortfolio, marketData, agent.performanceHistory, nextDay, dailyTrades, agent.initialCash);
     newMetrics.intradayHour = 0;
 
     const updatedMemory = {
       recentTrades: [...(agent.memory?.recentTrades || []), ...dailyTrades].slice(-10),
       pastRationales: [...(agent.memory?.pastRationales || []), rationale].slice(-5),
       pastPerformance: [...(agent.memory?.pastPerformance || []), newMetrics].slice(-10),
+      // Reported back in the first trade window, after anything still waiting from yesterday (the daily decision does not see them)
+      failedTrades: [
+        ...((settledAgent.memory as any)?.failedTrades || []),
+        ...getSchemaFailures(validation),
+        ...instrumentFailures,
+        ...getRiskFailures(violations),
+        ...rejected,
+        ...executionFailures,
+      ],
     };
 
     return {
-      ...agent,
-      portfolio: newPortfolio,
-      tradeHistory: newTradeHistory,
-      performanceHistory: [...agent.performanceHistory, newMetrics],
-      rationale,
-      rationaleHistory: {
-        ...agent.rationaleHistory,
-        [nextDay]: rationale
+      agent: {
+        ...settledAgent,
+        portfolio: newPortfolio,
+        tradeHistory: newTradeHistory,
+        performanceHistory: [...agent.performanceHistory, newMetrics],
+        rationale,
+        rationaleHistory: {
+          ...agent.rationaleHistory,
+          [nextDay]: rationale
+        },
+        memory: updatedMemory,
+        inferenceUsage: addInferenceUsage(settledAgent.inferenceUsage, usage),
+        decisionCompliance: addDecisionCompliance(settledAgent.decisionCompliance, validation),
+        ...addRiskViolations(settledAgent, violations),
       },
-      memory: updatedMemory,
+      orders,
     };
   } catch (error) {
     console.error(`Failed to process agent ${agent.name}:`, error);
@@ -616,15 +994,18 @@ const handleAdvanceDayAgent = async (
       error: error instanceof Error ? error.message : String(error)
     });
     const errorRationale = `Error: Could not retrieve trade decision. Holding positions. ${error}`;
-    const newMetrics = calculateAllMetrics(agent.portfolio, marketData, agent.performanceHistory, nextDay);
+    const newMetrics = calculateAllMetrics(settledAgent.portfolio, marketData, agent.performanceHistory, nextDay, [], agent.initialCash);
     return {
-      ...agent,
-      performanceHistory: [...agent.performanceHistory, newMetrics],
-      rationale: errorRationale,
-      rationaleHistory: {
-        ...agent.rationaleHistory,
-        [nextDay]: errorRationale
-      }
+      agent: {
+        ...settledAgent,
+        performanceHistory: [...agent.performanceHistory, newMetrics],
+        rationale: errorRationale,
+        rationaleHistory: {
+          ...agent.rationaleHistory,
+          [nextDay]: errorRationale
+        }
+      },
+      orders: restingOrders,
     };
   }
 };
@@ -640,9 +1021,10 @@ export const step = async (
     chat: ChatState;
     mode?: 'simulated' | 'realtime' | 'historical' | 'hybrid';
     currentTimestamp?: number;
+    orderBooks?: OrderBooks;
   },
   newMarketData: MarketData,
-  context?: { simulationId?: string }
+  context?: { simulationId?: string; margin?: MarginConfig; executionCost?: ExecutionCostConfig; lotRelief?: LotReliefMethod; exchange?: ExchangeId; extendedHours?: ExtendedHoursConfig }
 ): Promise<{
   day: number;
   intradayHour: number;
@@ -650,6 +1032,7 @@ export const step = async (
   agents: Agent[];
   benchmarks: Benchmark[];
   chat: ChatState;
+  orderBooks: OrderBooks;
 }> => {
   const { day, intradayHour, agents, benchmarks, mode, currentTimestamp } = currentSnapshot;
 
@@ -663,16 +1046,39 @@ export const step = async (
     timestamp = currentTimestamp / 1000; // Convert to seconds
   }
 
-  // Update agents with new market data (no trading, just portfolio valuation)
+  // Update agents with new market data (no new decisions, just portfolio valuation)
+  // Resting orders touched by the price move fill here, and margin accounts can be force-liquidated
+  const updatedOrderBooks: OrderBooks = {};
   const updatedAgents = agents.map(agent => {
+    if (agent.retiredAt !== undefined) {
+      return agent; // History stays frozen at retirement
+    }
+    const { agent: filledAgent, orders } = fillRestingOrders(agent, currentSnapshot.orderBooks?.[agent.id] || [], {
+      previousMarketData: currentSnapshot.marketData,
+      marketData: newMarketData,
+      timestamp,
+      margin: context?.margin,
+      executionCost: context?.executionCost,
+      date: isRealtimeMode(mode) && currentTimestamp !== undefined ? new Date(currentTimestamp) : undefined,
+      exchange: context?.exchange,
+      extendedHours: context?.extendedHours,
+    });
+    updatedOrderBooks[agent.id] = orders;
+
+    const settledAgent = settleMarginAccount(filledAgent, newMarketData, context?.margin, timestamp, {
+      chargeFinancing: false,
+      executionCost: context?.executionCost,
+    });
+    const tickTrades = settledAgent.tradeHistory.slice(agent.tradeHistory.length);
+
     // Calculate metrics with the correct timestamp (includes intraday hour)
-    const newMetrics = calculateAllMetrics(agent.portfolio, newMarketData, agent.performanceHistory, timestamp);
+    const newMetrics = calculateAllMetrics(settledAgent.portfolio, newMarketData, agent.performanceHistory, timestamp, tickTrades, agent.initialCash);
     newMetrics.intradayHour = intradayHour;
 
-    return {
-      ...agent,
+    return updateTaxLots({
+      ...settledAgent,
       performanceHistory: [...agent.performanceHistory, newMetrics],
-    };
+    }, context?.lotRelief);
   });
 
   // Log prices and portfolio values for debugging
@@ -743,7 +1149,7 @@ export const step = async (
     // We don't use calculateAllMetrics with a fake portfolio because we want to use the exact
     // totalValue we calculated from market returns, not recalculate it from a portfolio
     const dailyReturn = lastPerf.totalValue > 0 ? (newTotalValue / lastPerf.totalValue) - 1 : 0;
-    const totalReturn = (newTotalValue / INITIAL_CASH) - 1;
+    const totalReturn = (newTotalValue / (b.initialCash ?? INITIAL_CASH)) - 1;
 
     // Calculate volatility and other metrics from historical returns
     const allReturns = [...b.performanceHistory.map(h => h.dailyReturn), dailyReturn];
@@ -793,6 +1199,7 @@ export const step = async (
     agents: updatedAgents,
     benchmarks: updatedBenchmarks,
     chat: currentSnapshot.chat,
+    orderBooks: updatedOrderBooks,
   };
 };
 
@@ -807,8 +1214,9 @@ export const tradeWindow = async (
     chat: ChatState;
     mode?: 'simulated' | 'realtime' | 'historical' | 'hybrid';
     currentTimestamp?: number;
+    orderBooks?: OrderBooks;
   },
-  context?: { simulationId?: string }
+  context?: { simulationId?: string; margin?: MarginConfig; executionCost?: ExecutionCostConfig; lotRelief?: LotReliefMethod; riskRules?: RiskRulesConfig; instrumentTypes?: InstrumentType[]; universe?: string[]; exchange?: ExchangeId; extendedHours?: ExtendedHoursConfig }
 ): Promise<{
   day: number;
   intradayHour: number;
@@ -816,6 +1224,8 @@ export const tradeWindow = async (
   agents: Agent[];
   benchmarks: Benchmark[];
   chat: ChatState;
+  orderBooks: OrderBooks;
+  inferenceUsage: InferenceUsageTotals;
 }> => {
   const { day, intradayHour, marketData, agents, benchmarks, chat, mode, currentTimestamp } = currentSnapshot;
 
@@ -889,10 +1299,21 @@ export const tradeWindow = async (
         maxReplyLength: chatWithDeliveredMessages.config.maxMessageLength,
       },
       previousFailedTrades,
+      margin: context?.margin,
+      executionCost: context?.executionCost,
+      openOrders: currentSnapshot.orderBooks?.[agent.id],
+      lotRelief: context?.lotRelief,
+      riskRules: context?.riskRules,
+      instrumentTypes: context?.instrumentTypes,
+      universe: context?.universe,
+      exchange: context?.exchange,
+      extendedHours: context?.extendedHours,
+      simulationId: context?.simulationId,
     });
   });
 
-  const updatedAgents: Agent[] = agentResults.map(result => result.agent);
+  const updatedAgents: Agent[] = agentResults.map(result => updateTaxLots(result.agent, context?.lotRelief));
+  const updatedOrderBooks: OrderBooks = Object.fromEntries(agentResults.map(result => [result.agent.id, result.orders]));
 
   // Collect all agents that processed this round (with or without replies)
   const allProcessedAgents = agentResults.map(result => result.agent);
@@ -958,7 +1379,7 @@ export const tradeWindow = async (
       }
     }
 
-    const newMetrics = calculateAllMetrics({cash: newTotalValue, positions: {}}, marketData, b.performanceHistory, timestamp);
+    const newMetrics = calculateAllMetrics({cash: newTotalValue, positions: {}}, marketData, b.performanceHistory, timestamp, [], b.initialCash);
     newMetrics.intradayHour = intradayHour;
 
     // Update metadata with current ^GSPC price for next calculation
@@ -982,6 +1403,8 @@ export const tradeWindow = async (
     agents: updatedAgents,
     benchmarks: updatedBenchmarks,
     chat: updatedChat,
+    orderBooks: updatedOrderBooks,
+    inferenceUsage: sumInferenceUsage(updatedAgents),
   };
 };
 
@@ -995,9 +1418,10 @@ export const advanceDay = async (
     benchmarks: Benchmark[];
     chat: ChatState;
     mode?: 'simulated' | 'realtime' | 'historical' | 'hybrid';
+    orderBooks?: OrderBooks;
   },
   newMarketData: MarketData,
-  context?: { simulationId?: string }
+  context?: { simulationId?: string; margin?: MarginConfig; executionCost?: ExecutionCostConfig; lotRelief?: LotReliefMethod; riskRules?: RiskRulesConfig; instrumentTypes?: InstrumentType[]; universe?: string[]; exchange?: ExchangeId }
 ): Promise<{
   day: number;
   intradayHour: number;
@@ -1005,16 +1429,30 @@ export const advanceDay = async (
   agents: Agent[];
   benchmarks: Benchmark[];
   chat: ChatState;
+  orderBooks: OrderBooks;
+  inferenceUsage: InferenceUsageTotals;
 }> => {
   const nextDay = currentSnapshot.day + 1;
 
   // Process agents with trades at start of day
-  const updatedAgents: Agent[] = await processAgentsWithPacing(currentSnapshot.agents, currentSnapshot.mode, agent =>
+  const agentResults = await processAgentsWithPacing(currentSnapshot.agents, currentSnapshot.mode, agent =>
     handleAdvanceDayAgent(agent, {
       nextDay,
       marketData: newMarketData,
+      previousMarketData: currentSnapshot.marketData,
+      margin: context?.margin,
+      executionCost: context?.executionCost,
+      openOrders: currentSnapshot.orderBooks?.[agent.id],
+      lotRelief: context?.lotRelief,
+      riskRules: context?.riskRules,
+      instrumentTypes: context?.instrumentTypes,
+      universe: context?.universe,
+      exchange: context?.exchange,
+      simulationId: context?.simulationId,
     })
   );
+  const updatedAgents: Agent[] = agentResults.map(result => updateTaxLots(result.agent, context?.lotRelief));
+  const updatedOrderBooks: OrderBooks = Object.fromEntries(agentResults.map(result => [result.agent.id, result.orders]));
   
   // Update benchmarks
   const updatedBenchmarks = currentSnapshot.benchmarks.map(b => {
@@ -1063,7 +1501,7 @@ export const advanceDay = async (
       }
     }
 
-    const newMetrics = calculateAllMetrics({cash: newTotalValue, positions: {}}, newMarketData, b.performanceHistory, nextDay);
+    const newMetrics = calculateAllMetrics({cash: newTotalValue, positions: {}}, newMarketData, b.performanceHistory, nextDay, [], b.initialCash);
     newMetrics.intradayHour = 0;
 
     // Update metadata with current ^GSPC price for next calculation
@@ -1087,6 +1525,8 @@ export const advanceDay = async (
     agents: updatedAgents,
     benchmarks: updatedBenchmarks,
     chat: currentSnapshot.chat,
+    orderBooks: updatedOrderBooks,
+    inferenceUsage: sumInferenceUsage(updatedAgents),
   };
 };
 
@@ -0,0 +1,206 @@
+// Exchange profiles: each venue's timezone, sessions and holiday rules, so an arena can trade
+// London, Frankfurt or Tokyo listings during their real hours. Session times are exchange-local.
+
+import type { ExchangeId, TickerData } from '../types.js';
+import { getEasterSunday, getMarketCloseMinutes, getMarketHoliday, nthWeekday, REGULAR_CLOSE_MINUTES } from './marketCalendar.js';
+import { getZonedTime } from './marketHours.js';
+
+export interface ExchangeSession {
+  open: number; // Minutes after local midnight
+  close: number;
+}
+
+export interface ExchangeProfile {
+  id: ExchangeId;
+  label: string;
+  timezone: string; // IANA zone the sessions are given in
+  sessions: ExchangeSession[]; // Empty for venues that trade around the clock, weekends included
+  getHoliday?: (year: number, month: number, day: number) => string | undefined; // Weekday closures, months 1-12
+  getCloseMinutes?: (year: number, month: number, day: number) => number | undefined; // Early close on half days
+}
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const toUtcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day));
+
+const shiftDays = (date: Date, days: number): Date => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+const isWeekend = (date: Date): boolean => date.getUTCDay() === 0 || date.getUTCDay() === 6;
+
+// Holiday tables are generated once per exchange and year
+const holidayCache = new Map<string, Map<string, string>>();
+
+const holidayLookup = (id: ExchangeId, build: (year: number) => Map<string, string>) =>
+  (year: number, month: number, day: number): string | undefined => {
+    const cacheKey = `${id}:${year}`;
+    let holidays = holidayCache.get(cacheKey);
+    if (!holidays) {
+      holidays = build(year);
+      holidayCache.set(cacheKey, holidays);
+    }
+    return holidays.get(toDateKey(toUtcDate(year, month, day)));
+  };
+
+// England and Wales bank holidays; weekend holidays move to the following weekdays
+const buildLseHolidays = (year: number): Map<string, string> => {
+  const holidays = new Map<string, string>();
+  const add = (date: Date, name: string) => holidays.set(toDateKey(date), name);
+  const substitute = (date: Date, name: string) => {
+    let day = date;
+    while (isWeekend(day) || holidays.has(toDateKey(day))) {
+      day = shiftDays(day, 1);
+    }
+    add(day, name);
+  };
+
+  substitute(toUtcDate(year, 1, 1), "New Year's Day");
+  const easter = getEasterSunday(year);
+  add(shiftDays(easter, -2), 'Good Friday');
+  add(shiftDays(easter, 1), 'Easter Monday');
+  add(nthWeekday(year, 5, 1, 1), 'Early May Bank Holiday');
+  add(nthWeekday(year, 5, 1, -1), 'Spring Bank Holiday');
+  add(nthWeekday(year, 8, 1, -1), 'Summer Bank Holiday');
+  substitute(toUtcDate(year, 12, 25), 'Christmas Day');
+  substitute(toUtcDate(year, 12, 26), 'Boxing Day');
+  return holidays;
+};
+
+// Xetra closes on fixed dates and does not make up weekend holidays
+const buildXetraHolidays = (year: number): Map<string, string> => {
+  const easter = getEasterSunday(year);
+  return new Map([
+    [toDateKey(toUtcDate(year, 1, 1)), "New Year's Day"],
+    [toDateKey(shiftDays(easter, -2)), 'Good Friday'],
+    [toDateKey(shiftDays(easter, 1)), 'Easter Monday'],
+    [toDateKey(toUtcDate(year, 5, 1)), 'Labour Day'],
+    [toDateKey(toUtcDate(year, 12, 24)), 'Christmas Eve'],
+    [toDateKey(toUtcDate(year, 12, 25)), 'Christmas Day'],
+    [toDateKey(toUtcDate(year, 12, 26)), 'Boxing Day'],
+    [toDateKey(toUtcDate(year, 12, 31)), "New Year's Eve"],
+  ]);
+};
+
+// Japanese national holidays by the current law (equinoxes by the approximation valid to 2099),
+// plus the exchange's year-end break. One-off moves such as the 2020-21 Olympic shifts are not modelled.
+const buildTseHolidays = (year: number): Map<string, string> => {
+  const holidays = new Map<string, string>();
+  const add = (date: Date, name: string) => holidays.set(toDateKey(date), name);
+  const equinoxShift = 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4);
+
+  const national: Array<[Date, string]> = [
+    [toUtcDate(year, 1, 1), "New Year's Day"],
+    [nthWeekday(year, 1, 1, 2), 'Coming of Age Day'],
+    [toUtcDate(year, 2, 11), 'National Foundation Day'],
+    [toUtcDate(year, 2, 23), "Emperor's Birthday"],
+    [toUtcDate(year, 3, Math.floor(20.8431 + equinoxShift)), 'Vernal Equinox Day'],
+    [toUtcDate(year, 4, 29), 'Showa Day'],
+    [toUtcDate(year, 5, 3), 'Constitution Memorial Day'],
+    [toUtcDate(year, 5, 4), 'Greenery Day'],
+    [toUtcDate(year, 5, 5), "Children's Day"],
+    [nthWeekday(year, 7, 1, 3), 'Marine Day'],
+    [toUtcDate(year, 8, 11), 'Mountain Day'],
+    [nthWeekday(year, 9, 1, 3), 'Respect for the Aged Day'],
+    [toUtcDate(year, 9, Math.floor(23.2488 + equinoxShift)), 'Autumnal Equinox Day'],
+    [nthWeekday(year, 10, 1, 2), 'Sports Day'],
+    [toUtcDate(year, 11, 3), 'Culture Day'],
+    [toUtcDate(year, 11, 23), 'Labour Thanksgiving Day'],
+  ];
+  national.forEach(([date, name]) => add(date, name));
+  // A holiday on a Sunday is made up on the next day that is not already a holiday
+  national.filter(([date]) => date.getUTCDay() === 0).forEach(([date, name]) => {
+    let day = shiftDays(date, 1);
+    while (holidays.has(toDateKey(day))) {
+      day = shiftDays(day, 1);
+    }
+    add(day, `${name} (observed)`);
+  });
+
+  add(toUtcDate(year, 1, 2), 'Year-end holiday');
+  add(toUtcDate(year, 1, 3), 'Year-end holiday');
+  add(toUtcDate(year, 12, 31), 'Year-end holiday');
+  return holidays;
+};
+
+export const EXCHANGE_PROFILES: Record<ExchangeId, ExchangeProfile> = {
+  nyse: {
+    id: 'nyse',
+    label: 'NYSE',
+    timezone: 'America/New_York',
+    sessions: [{ open: 9 * 60 + 30, close: REGULAR_CLOSE_MINUTES }],
+    getHoliday: getMarketHoliday,
+    getCloseMinutes: getMarketCloseMinutes,
+  },
+  lse: {
+    id: 'lse',
+    label: 'London Stock Exchange',
+    timezone: 'Europe/London',
+    sessions: [{ open: 8 * 60, close: 16 * 60 + 30 }],
+    getHoliday: holidayLookup('lse', buildLseHolidays),
+    // Half days on Christmas Eve and New Year's Eve
+    getCloseMinutes: (_year, month, day) => (month === 12 && (day === 24 || day === 31) ? 12 * 60 + 30 : undefined),
+  },
+  xetra: {
+    id: 'xetra',
+    label: 'Xetra',
+    timezone: 'Europe/Berlin',
+    sessions: [{ open: 9 * 60, close: 17 * 60 + 30 }],
+    getHoliday: holidayLookup('xetra', buildXetraHolidays),
+  },
+  tse: {
+    id: 'tse',
+    label: 'Tokyo Stock Exchange',
+    timezone: 'Asia/Tokyo',
+    // Morning and afternoon sessions around the lunch break
+    sessions: [{ open: 9 * 60, close: 11 * 60 + 30 }, { open: 12 * 60 + 30, close: 15 * 60 + 30 }],
+    getHoliday: holidayLookup('tse', buildTseHolidays),
+  },
+  crypto: {
+    id: 'crypto',
+    label: 'Crypto',
+    timezone: 'UTC',
+    sessions: [],
+  },
+};
+
+export const EXCHANGE_IDS = Object.keys(EXCHANGE_PROFILES) as ExchangeId[];
+
+// Yahoo symbol suffixes of the non-US venues
+const SUFFIX_EXCHANGES: Array<[string, ExchangeId]> = [['.L', 'lse'], ['.DE', 'xetra'], ['.T', 'tse']];
+
+// Where a ticker is listed: the quote's own exchange, then its symbol suffix, then the arena's default venue
+export const getTickerExchange = (ticker: string, data?: TickerData, fallback: ExchangeId = 'nyse'): ExchangeId => {
+  if (data?.exchange) {
+    return data.exchange;
+  }
+  const suffix = SUFFIX_EXCHANGES.find(([ending]) => ticker.endsWith(ending));
+  return suffix ? suffix[1] : fallback;
+};
+
+export const isExchangeOpen = (exchange: ExchangeId, date: Date = new Date()): boolean => {
+  const profile = EXCHANGE_PROFILES[exchange];
+  if (profile.sessions.length === 0) {
+    return true;
+  }
+
+  const local = getZonedTime(date, profile.timezone);
+  if (local.weekday === 0 || local.weekday === 6 || profile.getHoliday?.(local.year, local.month, local.day) !== undefined) {
+    return false;
+  }
+
+  const minutes = local.hour * 60 + local.minute;
+  const earlyClose = profile.getCloseMinutes?.(local.year, local.month, local.day) ?? Infinity;
+  return profile.sessions.some(session => minutes >= session.open && minutes < Math.min(session.close, earlyClose));
+};
+
+const formatMinutes = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// e.g. "09:00-11:30 and 12:30-15:30 Asia/Tokyo"
+export const describeExchangeHours = (exchange: ExchangeId): string => {
+  const profile = EXCHANGE_PROFILES[exchange];
+  if (profile.sessions.length === 0) {
+    return '24/7';
+  }
+  const sessions = profile.sessions.map(session => `${formatMinutes(session.open)}-${formatMinutes(session.close)}`);
+  return `${sessions.join(' and ')} ${profile.timezone}`;
+};
@@ -0,0 +1,80 @@
+import type { ExecutionCostConfig, ExecutionCostModelName, ExtendedHoursConfig, TickerData, TradeAction } from '../types.js';
+
+export interface ExecutionCostInput {
+  quantity: number;
+  referencePrice: number;
+  tickerData?: TickerData;
+}
+
+// A cost model returns the fraction of the reference price paid on top of (buys) or
+// given up below (sells) the quote
+export type ExecutionCostModel = (input: ExecutionCostInput, config: ExecutionCostConfig) => number;
+
+export interface ExecutionPrice {
+  price: number;
+  referencePrice: number;
+  slippage: number;
+}
+
+const BPS = 10_000;
+
+const spreadCost: ExecutionCostModel = (_input, config) => config.halfSpreadBps / BPS;
+
+// Square-root impact: cost grows with the square root of the order's share of average daily volume.
+// Without volume data the liquidity is unknown, so only the spread is charged.
+const squareRootImpactCost: ExecutionCostModel = (input, config) => {
+  const averageVolume = input.tickerData?.averageVolume || input.tickerData?.volume;
+  if (!averageVolume || averageVolume <= 0) {
+    return spreadCost(input, config);
+  }
+  const participation = input.quantity / averageVolume;
+  const impact = Math.min(config.impactCoefficient * Math.sqrt(participation), config.maxImpactBps / BPS);
+  return spreadCost(input, config) + impact;
+};
+
+// New models plug in here and become selectable through ExecutionCostConfig.model
+const executionCostModels: Record<ExecutionCostModelName, ExecutionCostModel> = {
+  none: () => 0,
+  spread: spreadCost,
+  square_root: squareRootImpactCost,
+};
+
+// Costs for extended-hours fills: the half-spread widens, and an order is a larger share of the
+// thinner session volume, so square-root impact grows by 1 / sqrt(liquidityFraction)
+export const getExtendedHoursExecutionCost = (config: ExecutionCostConfig | undefined, extendedHours: ExtendedHoursConfig): ExecutionCostConfig | undefined =>
+  config && {
+    ...config,
+    halfSpreadBps: config.halfSpreadBps * extendedHours.spreadMultiplier,
+    impactCoefficient: config.impactCoefficient / Math.sqrt(extendedHours.liquidityFraction),
+  };
+
+// Price an order of `quantity` shares against the quote. A limit price caps how far
+// costs can push the fill, so resting limit orders never fill beyond their limit.
+export const getExecutionPrice = (
+  action: TradeAction,
+  quantity: number,
+  referencePrice: number,
+  tickerData: TickerData | undefined,
+  config: ExecutionCostConfig | undefined,
+  limitPrice?: number
+): ExecutionPrice => {
+  const model = config ? executionCostModels[config.model] : undefined;
+  if (!model || quantity <= 0 || referencePrice <= 0 || (action !== 'buy' && action !== 'sell')) {
+    return { price: referencePrice, referencePrice, slippage: 0 };
+  }
+
+  const costFraction = Math.max(0, model({ quantity, referencePrice, tickerData }, config));
+  let price = action === 'buy'
+    ? referencePrice * (1 + costFraction)
+    : referencePrice * Math.max(0, 1 - costFraction);
+
+  if (limitPrice !== undefined && limitPrice > 0) {
+    price = action === 'buy'
+      ? Math.min(price, Math.max(limitPrice, referencePrice))
+      : Math.max(price, Math.min(limitPrice, referencePrice));
+  }
+
+  price = Math.round(price * 10_000) / 10_000;
+  const slippage = Math.abs(price - referencePrice) * quantity;
+  return { price, referencePrice, slippage: Math.round(slippage * 100) / 100 };
+};
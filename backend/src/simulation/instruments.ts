@@ -0,0 +1,238 @@
+import type { ExchangeId, ExecutionCostConfig, ExtendedHoursConfig, InstrumentType, MarketData, TickerData, Trade, TradingSession } from '../types.js';
+import { MIN_TRADE_FEE, TRADING_FEE_RATE } from '../constants.js';
+import { getTradingSession, isFxMarketOpen } from './marketHours.js';
+import { describeExchangeHours, EXCHANGE_PROFILES, getTickerExchange, isExchangeOpen } from './exchanges.js';
+
+const EPSILON = 1e-9;
+
+type DecidedTrade = Omit<Trade, 'price' | 'timestamp'>;
+
+export interface InstrumentProfile {
+  label: string;
+  hours: 'exchange' | 'fx' | 'always'; // The listing venue's session, Sunday-to-Friday around the clock, or 24/7
+  feeRate: number; // Fraction of notional per execution
+  minFee: number; // Dollars per execution
+  lotSize: number; // Order quantities are whole multiples of this
+}
+
+export const INSTRUMENT_PROFILES: Record<InstrumentType, InstrumentProfile> = {
+  equity: { label: 'Equity', hours: 'exchange', feeRate: TRADING_FEE_RATE, minFee: MIN_TRADE_FEE, lotSize: 1 },
+  etf: { label: 'ETF', hours: 'exchange', feeRate: TRADING_FEE_RATE, minFee: MIN_TRADE_FEE, lotSize: 1 },
+  bond_etf: { label: 'Bond ETF', hours: 'exchange', feeRate: TRADING_FEE_RATE, minFee: MIN_TRADE_FEE, lotSize: 1 },
+  crypto: { label: 'Crypto', hours: 'always', feeRate: 0.001, minFee: 0, lotSize: 1 },
+  // Quantities are units of the base currency; only pairs quoted in USD keep portfolio values in dollars
+  fx: { label: 'FX pair', hours: 'fx', feeRate: 0.0001, minFee: 0, lotSize: 1000 },
+};
+
+// Well-known funds; crypto (BTC-USD) and FX (EURUSD=X) are recognized by their Yahoo symbol suffix
+const INSTRUMENT_TICKERS: Record<string, InstrumentType> = {
+  SPY: 'etf', VOO: 'etf', IVV: 'etf', VTI: 'etf', QQQ: 'etf', IWM: 'etf', DIA: 'etf', GLD: 'etf',
+  SLV: 'etf', XLU: 'etf', XLP: 'etf', XLV: 'etf', XLE: 'etf', XLF: 'etf', XLK: 'etf', VNQ: 'etf',
+  TLT: 'bond_etf', IEF: 'bond_etf', SHY: 'bond_etf', AGG: 'bond_etf', BND: 'bond_etf', LQD: 'bond_etf',
+  HYG: 'bond_etf', TIP: 'bond_etf', BIL: 'bond_etf', SGOV: 'bond_etf',
+};
+
+export const getInstrumentType = (ticker: string, data?: TickerData): InstrumentType => {
+  if (data?.instrumentType) {
+    return data.instrumentType;
+  }
+  if (INSTRUMENT_TICKERS[ticker]) {
+    return INSTRUMENT_TICKERS[ticker];
+  }
+  if (ticker.endsWith('-USD')) {
+    return 'crypto';
+  }
+  return ticker.endsWith('=X') ? 'fx' : 'equity';
+};
+
+// Exchange-traded classes pay the arena's commission when its execution costs set one;
+// crypto and FX keep their venue fees
+export const withArenaCommission = (profile: InstrumentProfile, executionCost?: ExecutionCostConfig): InstrumentProfile => {
+  if (profile.hours !== 'exchange' || (executionCost?.feeBps === undefined && executionCost?.minFee === undefined)) {
+    return profile;
+  }
+  return {
+    ...profile,
+    feeRate: executionCost.feeBps !== undefined ? executionCost.feeBps / 10000 : profile.feeRate,
+    minFee: executionCost.minFee ?? profile.minFee,
+  };
+};
+
+export const getInstrumentProfile = (ticker: string, data?: TickerData, executionCost?: ExecutionCostConfig): InstrumentProfile =>
+  withArenaCommission(INSTRUMENT_PROFILES[getInstrumentType(ticker, data)], executionCost);
+
+// Exchange-traded classes follow their listing venue (see exchanges.ts); NYSE listings also
+// trade pre-market and after-hours when `extendedHours` is set
+export const isInstrumentOpen = (type: InstrumentType, date: Date = new Date(), exchange: ExchangeId = 'nyse', extendedHours = false): boolean => {
+  switch (INSTRUMENT_PROFILES[type].hours) {
+    case 'always':
+      return true;
+    case 'fx':
+      return isFxMarketOpen(date);
+    default:
+      return exchange === 'nyse' && extendedHours ? getTradingSession(date) !== undefined : isExchangeOpen(exchange, date);
+  }
+};
+
+// Session an exchange-traded quote trades in at `date`. Other venues only have their regular
+// session; crypto and FX have none.
+export const getInstrumentSession = (ticker: string, data: TickerData | undefined, date: Date, exchange?: ExchangeId): TradingSession | undefined => {
+  if (INSTRUMENT_PROFILES[getInstrumentType(ticker, data)].hours !== 'exchange') {
+    return undefined;
+  }
+  const venue = getTickerExchange(ticker, data, exchange);
+  if (venue === 'nyse') {
+    return getTradingSession(date);
+  }
+  return isExchangeOpen(venue, date) ? 'regular' : undefined;
+};
+
+// Tickers whose market is open at `date`; crypto keeps trading after the equity close, and
+// London or Tokyo listings trade while New York is shut. Unsuffixed tickers list on `exchange`.
+export const getOpenTickers = (marketData: MarketData, date: Date = new Date(), exchange?: ExchangeId, extendedHours = false): string[] =>
+  Object.keys(marketData).filter(ticker =>
+    !ticker.startsWith('^') &&
+    isInstrumentOpen(getInstrumentType(ticker, marketData[ticker]), date, getTickerExchange(ticker, marketData[ticker], exchange), extendedHours));
+
+export const calculateInstrumentFee = (notional: number, profile: InstrumentProfile): number =>
+  Math.max(notional * profile.feeRate, profile.minFee);
+
+export const roundToLot = (quantity: number, lotSize: number): number =>
+  Math.floor(quantity / lotSize + EPSILON) * lotSize;
+
+// Calculate the maximum quantity of shares that can be bought with available cash
+// Accounts for execution fees (percentage-based with minimum) and whole lots
+export const calculateMaxAffordableQuantity = (price: number, availableCash: number, instrument: InstrumentProfile): number => {
+  if (price <= 0 || availableCash <= 0) {
+    return 0;
+  }
+  
+  // If the minimum fee alone exceeds available cash, can't buy any shares
+  if (instrument.minFee >= availableCash) {
+    return 0;
+  }
+  
+  // Try percentage-based fee calculation first
+  // cash >= quantity * price * (1 + feeRate)
+  const maxQuantityWithPercentageFee = Math.floor(availableCash / (price * (1 + instrument.feeRate)));
+  
+  // Check if this quantity would trigger the minimum fee
+  const notionalForPercentage = maxQuantityWithPercentageFee * price;
+  const feeForPercentage = notionalForPercentage * instrument.feeRate;
+  
+  if (feeForPercentage >= instrument.minFee) {
+    // Percentage fee applies, return this quantity
+    return Math.max(0, roundToLot(maxQuantityWithPercentageFee, instrument.lotSize));
+  } else {
+    // Minimum fee applies, need to account for it
+    // cash >= quantity * price + minFee
+    const maxQuantityWithMinFee = Math.floor((availableCash - instrument.minFee) / price);
+    return Math.max(0, roundToLot(maxQuantityWithMinFee, instrument.lotSize));
+  }
+};
+
+// Quotes the arena's agents may trade; all of them when the arena limits neither asset classes nor tickers
+export const getTradableMarketData = (marketData: MarketData, instrumentTypes?: InstrumentType[], universe?: string[]): MarketData => {
+  if (!instrumentTypes?.length && !universe?.length) {
+    return marketData;
+  }
+  return Object.fromEntries(Object.entries(marketData).filter(([ticker, data]) =>
+    (!instrumentTypes?.length || instrumentTypes.includes(getInstrumentType(ticker, data))) &&
+    (!universe?.length || universe.includes(ticker))));
+};
+
+// Order-entry checks for the instrument itself: the arena must allow the ticker and its asset class,
+// its market must be open (only when `date` is given - simulated trade windows stand for open
+// sessions; unsuffixed tickers list on `exchange`, and `extendedHours` opens NYSE pre-market and
+// after-hours) and quantities are cut to whole lots
+export const checkInstrumentOrders = (
+  trades: DecidedTrade[],
+  options: { marketData: MarketData; instrumentTypes?: InstrumentType[]; universe?: string[]; exchange?: ExchangeId; extendedHours?: boolean; date?: Date }
+): { trades: DecidedTrade[]; failures: Array<{ ticker: string; action: string; quantity: number; reason: string }> } => {
+  const { marketData, instrumentTypes, universe, exchange, extendedHours, date } = options;
+  const checked: DecidedTrade[] = [];
+  const failures: Array<{ ticker: string; action: string; quantity: number; reason: string }> = [];
+
+  trades.forEach(trade => {
+    const type = getInstrumentType(trade.ticker, marketData[trade.ticker]);
+    const profile = INSTRUMENT_PROFILES[type];
+    const fail = (reason: string) => failures.push({ ticker: trade.ticker, action: trade.action, quantity: trade.quantity, reason });
+
+    if (universe?.length && !universe.includes(trade.ticker)) {
+      fail(`${trade.ticker} is not in this arena's universe`);
+      return;
+    }
+    if (instrumentTypes?.length && !instrumentTypes.includes(type)) {
+      fail(`${profile.label} instruments are not tradable in this arena`);
+      return;
+    }
+    if (date) {
+      const venue = getTickerExchange(trade.ticker, marketData[trade.ticker], exchange);
+      if (!isInstrumentOpen(type, date, venue, extendedHours)) {
+        fail(profile.hours === 'exchange' && venue !== 'nyse' ? `${EXCHANGE_PROFILES[venue].label} is closed` : `${profile.label} market is closed`);
+        return;
+      }
+    }
+    const quantity = roundToLot(trade.quantity, profile.lotSize);
+    if (quantity <= 0) {
+      fail(`${profile.label} instruments trade in lots of ${profile.lotSize}`);
+      return;
+    }
+    if (quantity < trade.quantity) {
+      fail(`Rounded down to ${quantity}: ${profile.label} instruments trade in lots of ${profile.lotSize}`);
+    }
+    checked.push(quantity === trade.quantity ? trade : { ...trade, quantity });
+  });
+
+  return { trades: checked, failures };
+};
+
+const describeHours = (profile: InstrumentProfile): string => {
+  switch (profile.hours) {
+    case 'always':
+      return 'trades 24/7';
+    case 'fx':
+      return 'trades Sunday 5 PM to Friday 5 PM ET';
+    default:
+      return 'trades during exchange hours';
+  }
+};
+
+// Prompt lines for the venues of the exchange-traded quotes, when any of them is not the NYSE
+export const describeExchangeListings = (marketData: MarketData, exchange?: ExchangeId): string[] => {
+  const byExchange = new Map<ExchangeId, string[]>();
+  Object.keys(marketData).filter(ticker => !ticker.startsWith('^')).forEach(ticker => {
+    if (INSTRUMENT_PROFILES[getInstrumentType(ticker, marketData[ticker])].hours === 'exchange') {
+      const venue = getTickerExchange(ticker, marketData[ticker], exchange);
+      byExchange.set(venue, [...(byExchange.get(venue) ?? []), ticker]);
+    }
+  });
+  if (byExchange.size === 0 || (byExchange.size === 1 && byExchange.has('nyse'))) {
+    return [];
+  }
+  return Array.from(byExchange.entries()).map(([venue, tickers]) =>
+    `${EXCHANGE_PROFILES[venue].label} (${tickers.join(', ')}): trades ${describeExchangeHours(venue)}, closed on its local holidays`);
+};
+
+const SESSION_LABELS: Record<TradingSession, string> = { pre_market: 'pre-market', regular: 'regular', after_hours: 'after-hours' };
+
+// Prompt line for arenas that trade NYSE listings outside the regular session
+export const describeExtendedHours = (extendedHours: ExtendedHoursConfig, session?: TradingSession): string =>
+  `NYSE extended hours: listings also trade pre-market (4:00-9:30 AM ET) and after-hours (until 8:00 PM ET, 5:00 PM after early closes) at ${extendedHours.spreadMultiplier}x the half-spread and with thinner liquidity, so large orders move the price more${session && session !== 'regular' ? `. The ${SESSION_LABELS[session]} session is open now` : ''}`;
+
+// Prompt lines for the non-equity asset classes among the quotes
+export const describeInstrumentClasses = (marketData: MarketData, executionCost?: ExecutionCostConfig): string[] => {
+  const byType = new Map<InstrumentType, string[]>();
+  Object.keys(marketData).filter(ticker => !ticker.startsWith('^')).forEach(ticker => {
+    const type = getInstrumentType(ticker, marketData[ticker]);
+    if (type !== 'equity') {
+      byType.set(type, [...(byType.get(type) ?? []), ticker]);
+    }
+  });
+  return Array.from(byType.entries()).map(([type, tickers]) => {
+    const profile = withArenaCommission(INSTRUMENT_PROFILES[type], executionCost);
+    const fee = `${+(profile.feeRate * 10000).toFixed(2)} bps fee${profile.minFee > 0 ? ` ($${profile.minFee.toFixed(2)} minimum)` : ''}`;
+    const lots = profile.lotSize > 1 ? `, quantity in multiples of ${profile.lotSize}` : '';
+    return `${profile.label} (${tickers.join(', ')}): ${describeHours(profile)}, ${fee}${lots}`;
+  });
+};
@@ -1,5 +1,8 @@
 // Market hours and holiday checking
-// Converts to America/New_York (ET) timezone for accurate market hours
+// Converts to the configured IANA timezone (America/New_York by default) for accurate market hours
+
+import type { TradingSession } from '../types.js';
+import { getMarketCloseMinutes, isTradingDate } from './marketCalendar.js';
 
 export interface MarketHoursConfig {
   timezone?: string;
@@ -17,155 +20,153 @@ const DEFAULT_CONFIG: Required<MarketHoursConfig> = {
   closeMinute: 0, // Market closes at 4:00 PM ET
 };
 
-// Convert a date to ET timezone
-// ET is UTC-5 (EST) or UTC-4 (EDT) depending on DST
-const toET = (date: Date): { hour: number; minute: number; dayOfWeek: number; month: number; day: number } => {
-  // Get UTC time
-  const utc = new Date(date.toISOString());
-  
-  // ET offset: EST is UTC-5, EDT is UTC-4
-  // DST starts 2nd Sunday in March, ends 1st Sunday in November
-  const year = utc.getUTCFullYear();
-  
-  // Find DST start (2nd Sunday in March)
-  const march1 = new Date(Date.UTC(year, 2, 1));
-  const march1Day = march1.getUTCDay();
-  const dstStart = new Date(Date.UTC(year, 2, (8 - march1Day) % 7 + 8)); // 2nd Sunday
-  
-  // Find DST end (1st Sunday in November)
-  const nov1 = new Date(Date.UTC(year, 10, 1));
-  const nov1Day = nov1.getUTCDay();
-  const dstEnd = new Date(Date.UTC(year, 10, (8 - nov1Day) % 7 + 1)); // 1st Sunday
-  
-  // Check if date is in DST period
-  const isDST = utc >= dstStart && utc < dstEnd;
-  const etOffset = isDST ? -4 : -5; // EDT is UTC-4, EST is UTC-5
-  
-  // Convert to ET
-  const etTime = new Date(utc.getTime() + (etOffset * 60 * 60 * 1000));
-  
+// Wall-clock time of an instant in an IANA timezone (months 1-12, weekday 0 = Sunday)
+export interface ZonedTime {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export const getZonedTime = (date: Date, timezone: string): ZonedTime => {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    });
+    zonedFormatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
   return {
-    hour: etTime.getUTCHours(),
-    minute: etTime.getUTCMinutes(),
-    dayOfWeek: etTime.getUTCDay(),
-    month: etTime.getUTCMonth(),
-    day: etTime.getUTCDate(),
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
   };
 };
 
-// Simple holiday check (can be expanded)
-const isHoliday = (etTime: { month: number; day: number; dayOfWeek: number }): boolean => {
-  const { month, day, dayOfWeek } = etTime;
-  
-  // Weekend
-  if (dayOfWeek === 0 || dayOfWeek === 6) return true;
-  
-  // New Year's Day
-  if (month === 0 && day === 1) return true;
-  // Independence Day
-  if (month === 6 && day === 4) return true;
-  // Christmas
-  if (month === 11 && day === 25) return true;
-  
-  return false;
+// Minutes the timezone is ahead of UTC at `date` (-240 for EDT)
+export const getTimezoneOffsetMinutes = (date: Date, timezone: string): number => {
+  const zoned = getZonedTime(date, timezone);
+  const wallClock = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+  return Math.round((wallClock - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+};
+
+// The instant a wall-clock time occurs in a timezone, e.g. 8:00 AM in London on a date
+export const zonedTimeToUtc = (year: number, month: number, day: number, minutes: number, timezone: string): Date => {
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * 60000;
+  const offset = getTimezoneOffsetMinutes(new Date(wallClock), timezone);
+  const candidate = wallClock - offset * 60000;
+  // Around a DST change the offset at the result can differ from the one at the guess
+  const correctedOffset = getTimezoneOffsetMinutes(new Date(candidate), timezone);
+  return new Date(wallClock - correctedOffset * 60000);
+};
+
+// Wall-clock time in the market's timezone (months 0-11, as the helpers below expect)
+const toET = (date: Date, timezone: string = DEFAULT_CONFIG.timezone): { hour: number; minute: number; dayOfWeek: number; year: number; month: number; day: number } => {
+  const zoned = getZonedTime(date, timezone);
+  return {
+    hour: zoned.hour,
+    minute: zoned.minute,
+    dayOfWeek: zoned.weekday,
+    year: zoned.year,
+    month: zoned.month - 1,
+    day: zoned.day,
+  };
 };
 
+// Weekends and NYSE holidays (see marketCalendar.ts)
+const isHoliday = (etTime: { year: number; month: number; day: number }): boolean =>
+  !isTradingDate(etTime.year, etTime.month + 1, etTime.day);
+
+// The configured close, or 1:00 PM ET on early-close days
+const getCloseTimeMinutes = (etTime: { year: number; month: number; day: number }, cfg: Required<MarketHoursConfig>): number =>
+  Math.min(cfg.closeHour * 60 + cfg.closeMinute, getMarketCloseMinutes(etTime.year, etTime.month + 1, etTime.day));
+
 export const isMarketOpen = (date: Date = new Date(), config: MarketHoursConfig = {}): boolean => {
   const cfg = { ...DEFAULT_CONFIG, ...config };
   
-  // Convert to ET time
-  const et = toET(date);
+  // Convert to the market's timezone
+  const et = toET(date, cfg.timezone);
   
   // Check if holiday/weekend
   if (isHoliday(et)) {
     return false;
   }
   
-  // Check market hours (9:30 AM - 4:00 PM ET)
+  // Check market hours (9:30 AM - 4:00 PM ET, 1:00 PM on early-close days)
   const currentTimeMinutes = et.hour * 60 + et.minute;
   const openTimeMinutes = cfg.openHour * 60 + cfg.openMinute;
-  const closeTimeMinutes = cfg.closeHour * 60 + cfg.closeMinute;
+  const closeTimeMinutes = getCloseTimeMinutes(et, cfg);
   
   return currentTimeMinutes >= openTimeMinutes && currentTimeMinutes < closeTimeMinutes;
 };
 
+const PRE_MARKET_OPEN_MINUTES = 4 * 60;
+const AFTER_HOURS_MINUTES = 4 * 60; // After-hours runs four hours past the close
+
+// NYSE session at `date`: pre-market from 4:00 AM ET, the regular session, then after-hours until
+// 8:00 PM ET (5:00 PM on early-close days). Undefined overnight, on weekends and on holidays.
+export const getTradingSession = (date: Date = new Date()): TradingSession | undefined => {
+  const et = toET(date);
+  if (isHoliday(et)) {
+    return undefined;
+  }
+  const currentTimeMinutes = et.hour * 60 + et.minute;
+  const closeTimeMinutes = getCloseTimeMinutes(et, DEFAULT_CONFIG);
+  if (currentTimeMinutes < PRE_MARKET_OPEN_MINUTES || currentTimeMinutes >= closeTimeMinutes + AFTER_HOURS_MINUTES) {
+    return undefined;
+  }
+  if (currentTimeMinutes < DEFAULT_CONFIG.openHour * 60 + DEFAULT_CONFIG.openMinute) {
+    return 'pre_market';
+  }
+  return currentTimeMinutes < closeTimeMinutes ? 'regular' : 'after_hours';
+};
+
+// FX trades around the clock from Sunday 5:00 PM to Friday 5:00 PM ET
+export const isFxMarketOpen = (date: Date = new Date()): boolean => {
+  const et = toET(date);
+  if (et.dayOfWeek === 6) return false;
+  if (et.dayOfWeek === 0) return et.hour >= 17;
+  if (et.dayOfWeek === 5) return et.hour < 17;
+  return true;
+};
+
 // Get current ET time as a Date object (for display/logging)
 // Returns a Date object where the UTC components represent ET time
-export const getETTime = (date: Date = new Date()): Date => {
-  const utc = new Date(date.toISOString());
-  const year = utc.getUTCFullYear();
-  
-  // Find DST start (2nd Sunday in March)
-  const march1 = new Date(Date.UTC(year, 2, 1));
-  const march1Day = march1.getUTCDay();
-  const dstStart = new Date(Date.UTC(year, 2, (8 - march1Day) % 7 + 8));
-  
-  // Find DST end (1st Sunday in November)
-  const nov1 = new Date(Date.UTC(year, 10, 1));
-  const nov1Day = nov1.getUTCDay();
-  const dstEnd = new Date(Date.UTC(year, 10, (8 - nov1Day) % 7 + 1));
-  
-  const isDST = utc >= dstStart && utc < dstEnd;
-  const etOffsetHours = isDST ? -4 : -5;
-  
-  // Create a new date with ET offset applied
-  // We'll store ET time as UTC for easier manipulation
-  const etMilliseconds = utc.getTime() + (etOffsetHours * 60 * 60 * 1000);
-  return new Date(etMilliseconds);
-};
+export const getETTime = (date: Date = new Date()): Date =>
+  new Date(date.getTime() + getTimezoneOffsetMinutes(date, DEFAULT_CONFIG.timezone) * 60000);
 
 /**
  * Set a date to market open time (9:30 AM ET) for a given date
- * This properly handles ET timezone conversion
- * ET is UTC-5 (EST) or UTC-4 (EDT) depending on DST
+ * The calendar day is read from the date's UTC components, so "2025-11-09" means November 9th
  */
 export const setDateToMarketOpenET = (date: Date, config: MarketHoursConfig = {}): Date => {
   const cfg = { ...DEFAULT_CONFIG, ...config };
-  
-  // Get the year, month, and day from the input date
-  // Use UTC methods to avoid timezone issues when parsing date strings like "2025-11-09"
-  // If the date was created from a string like "2025-11-09", it's already at midnight UTC
-  // If it was created from local time, we need to get the UTC components
-  const year = date.getUTCFullYear();
-  const month = date.getUTCMonth();
-  const day = date.getUTCDate();
-  
-  // Create a date at noon UTC for the given date to check DST (avoid edge cases at midnight)
-  const checkDate = new Date(Date.UTC(year, month, day, 12, 0, 0));
-  
-  // Find DST start (2nd Sunday in March)
-  const march1 = new Date(Date.UTC(year, 2, 1));
-  const march1Day = march1.getUTCDay();
-  const dstStart = new Date(Date.UTC(year, 2, (8 - march1Day) % 7 + 8)); // 2nd Sunday
-  
-  // Find DST end (1st Sunday in November)
-  const nov1 = new Date(Date.UTC(year, 10, 1));
-  const nov1Day = nov1.getUTCDay();
-  const dstEnd = new Date(Date.UTC(year, 10, (8 - nov1Day) % 7 + 1)); // 1st Sunday
-  
-  // Check if date is in DST period
-  const isDST = checkDate >= dstStart && checkDate < dstEnd;
-  const etOffsetHours = isDST ? 4 : 5; // EDT is UTC-4, EST is UTC-5
-  
-  // Market open is 9:30 AM ET
-  // To convert to UTC: 9:30 AM ET = 9:30 + offset hours UTC
-  // So UTC time = 9:30 + 4 (EDT) or 9:30 + 5 (EST) = 13:30 UTC (EDT) or 14:30 UTC (EST)
-  const utcHour = cfg.openHour + etOffsetHours;
-  const utcMinute = cfg.openMinute;
-  
-  // Create UTC date for market open
-  const marketOpenUTC = new Date(Date.UTC(year, month, day, utcHour, utcMinute, 0, 0));
-  
-  return marketOpenUTC;
+  return zonedTimeToUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), cfg.openHour * 60 + cfg.openMinute, cfg.timezone);
 };
 
 export const getNextMarketOpen = (date: Date = new Date(), config: MarketHoursConfig = {}): Date => {
   const cfg = { ...DEFAULT_CONFIG, ...config };
 
   // Get current ET time to properly check market status
-  const currentET = toET(date);
+  const currentET = toET(date, cfg.timezone);
   const currentTimeMinutes = currentET.hour * 60 + currentET.minute;
-  const closeTimeMinutes = cfg.closeHour * 60 + cfg.closeMinute;
+  const closeTimeMinutes = getCloseTimeMinutes(currentET, cfg);
 
   // Start with current date
   let nextDate = new Date(date);
@@ -184,10 +185,10 @@ export const getNextMarketOpen = (date: Date = new Date(), config: MarketHoursCo
   nextDate.setUTCDate(nextDate.getUTCDate() + 1);
 
   // Skip weekends and holidays
-  let nextET = toET(nextDate);
+  let nextET = toET(nextDate, cfg.timezone);
   while (isHoliday(nextET)) {
     nextDate.setUTCDate(nextDate.getUTCDate() + 1);
-    nextET = toET(nextDate);
+    nextET = toET(nextDate, cfg.timezone);
   }
 
   // Set to market open time for the next valid trading day
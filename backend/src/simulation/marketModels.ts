@@ -0,0 +1,215 @@
+import type { InstrumentType, MarketData, MarketModelConfig, TickerData, TickerDynamics } from '../types.js';
+import { TRADING_DAYS_PER_YEAR } from '../constants.js';
+import { createSeededRandom, type RandomSource } from '../utils/seededRandom.js';
+import { getInstrumentType } from './instruments.js';
+
+export type MarketRegime = 'bull' | 'bear';
+
+// Share of a day's variance realized between the close and the next open
+export const OVERNIGHT_VARIANCE_SHARE = 0.25;
+
+// Regular session length; intraday ticks are scaled against it
+export const SESSION_HOURS = 6.5;
+
+// Long-run annualized drift and volatility by GICS sector
+const SECTOR_DYNAMICS: Record<string, TickerDynamics> = {
+  'Technology': { drift: 0.12, volatility: 0.32 },
+  'Communication Services': { drift: 0.10, volatility: 0.28 },
+  'Consumer Discretionary': { drift: 0.09, volatility: 0.30 },
+  'Financials': { drift: 0.08, volatility: 0.24 },
+  'Health Care': { drift: 0.07, volatility: 0.20 },
+  'Industrials': { drift: 0.08, volatility: 0.22 },
+  'Consumer Staples': { drift: 0.05, volatility: 0.15 },
+  'Energy': { drift: 0.06, volatility: 0.28 },
+  'Utilities': { drift: 0.05, volatility: 0.16 },
+  'Materials': { drift: 0.06, volatility: 0.22 },
+  'Real Estate': { drift: 0.05, volatility: 0.22 },
+};
+
+const DEFAULT_DYNAMICS: TickerDynamics = { drift: 0.07, volatility: 0.25 };
+
+// Non-equity instruments without a sector of their own
+const INSTRUMENT_DYNAMICS: Partial<Record<InstrumentType, TickerDynamics>> = {
+  etf: { drift: 0.07, volatility: 0.16 },
+  bond_etf: { drift: 0.03, volatility: 0.08 },
+  crypto: { drift: 0.15, volatility: 0.65 },
+  fx: { drift: 0, volatility: 0.08 },
+};
+
+// Sectors for the largest names; other tickers use TickerData.sector when the data source provides it
+const TICKER_SECTORS: Record<string, string> = {
+  NVDA: 'Technology', AAPL: 'Technology', MSFT: 'Technology', AVGO: 'Technology', ORCL: 'Technology',
+  PLTR: 'Technology', AMD: 'Technology', IBM: 'Technology', CSCO: 'Technology', MU: 'Technology',
+  CRM: 'Technology', LRCX: 'Technology', APP: 'Technology', QCOM: 'Technology', AMAT: 'Technology',
+  INTU: 'Technology', INTC: 'Technology', NOW: 'Technology', APH: 'Technology', ANET: 'Technology',
+  KLAC: 'Technology', ACN: 'Technology',
+  GOOGL: 'Communication Services', GOOG: 'Communication Services', META: 'Communication Services',
+  NFLX: 'Communication Services', TMUS: 'Communication Services', DIS: 'Communication Services',
+  T: 'Communication Services', VZ: 'Communication Services',
+  AMZN: 'Consumer Discretionary', TSLA: 'Consumer Discretionary', HD: 'Consumer Discretionary',
+  MCD: 'Consumer Discretionary', BKNG: 'Consumer Discretionary', TJX: 'Consumer Discretionary',
+  'BRK-B': 'Financials', JPM: 'Financials', V: 'Financials', MA: 'Financials', BAC: 'Financials',
+  WFC: 'Financials', MS: 'Financials', AXP: 'Financials', GS: 'Financials', SCHW: 'Financials',
+  BLK: 'Financials', SPGI: 'Financials',
+  LLY: 'Health Care', JNJ: 'Health Care', ABBV: 'Health Care', UNH: 'Health Care', MRK: 'Health Care',
+  ABT: 'Health Care', TMO: 'Health Care', ISRG: 'Health Care', AMGN: 'Health Care', BSX: 'Health Care',
+  DHR: 'Health Care', GILD: 'Health Care',
+  GE: 'Industrials', CAT: 'Industrials', RTX: 'Industrials', UBER: 'Industrials', GEV: 'Industrials',
+  BA: 'Industrials',
+  WMT: 'Consumer Staples', COST: 'Consumer Staples', PG: 'Consumer Staples', KO: 'Consumer Staples',
+  PM: 'Consumer Staples', PEP: 'Consumer Staples',
+  XOM: 'Energy', CVX: 'Energy',
+  NEE: 'Utilities',
+  LIN: 'Materials',
+};
+
+export const getTickerSector = (ticker: string, data?: TickerData): string | undefined =>
+  data?.sector || TICKER_SECTORS[ticker];
+
+// Sector (or asset class) defaults unless the config overrides the ticker
+export const getTickerDynamics = (ticker: string, data: TickerData | undefined, config: MarketModelConfig): TickerDynamics => {
+  const sector = getTickerSector(ticker, data);
+  const base = (sector && SECTOR_DYNAMICS[sector]) || INSTRUMENT_DYNAMICS[getInstrumentType(ticker, data)] || DEFAULT_DYNAMICS;
+  const override = config.tickerDynamics?.[ticker];
+  return {
+    drift: override?.drift ?? base.drift,
+    volatility: override?.volatility ?? base.volatility,
+  };
+};
+
+// Tickers in the same sector share sectorCorrelation, everything else crossSectorCorrelation.
+// Tickers without a known sector only share the market-wide correlation.
+export const buildCorrelationMatrix = (sectors: Array<string | undefined>, config: MarketModelConfig): number[][] => {
+  const crossSector = Math.min(config.crossSectorCorrelation, config.sectorCorrelation);
+  return sectors.map((sectorA, i) => sectors.map((sectorB, j) => {
+    if (i === j) {
+      return 1;
+    }
+    return sectorA && sectorA === sectorB ? config.sectorCorrelation : crossSector;
+  }));
+};
+
+// Lower-triangular L with L * L^T = matrix
+export const choleskyDecompose = (matrix: number[][]): number[][] => {
+  const n = matrix.length;
+  const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+      if (i === j) {
+        // Guard against rounding pushing a pivot to zero or below
+        lower[i][j] = Math.sqrt(Math.max(sum, 1e-10));
+      } else {
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+  }
+
+  return lower;
+};
+
+const choleskyCache = new Map<string, number[][]>();
+
+const getCorrelationFactor = (sectors: Array<string | undefined>, config: MarketModelConfig): number[][] => {
+  const key = `${config.sectorCorrelation}:${config.crossSectorCorrelation}:${sectors.join('|')}`;
+  let factor = choleskyCache.get(key);
+  if (!factor) {
+    if (choleskyCache.size >= 8) {
+      choleskyCache.clear();
+    }
+    factor = choleskyDecompose(buildCorrelationMatrix(sectors, config));
+    choleskyCache.set(key, factor);
+  }
+  return factor;
+};
+
+const sampleNormal = (random: RandomSource): number => {
+  const u1 = 1 - random();
+  const u2 = random();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
+
+const samplePoisson = (lambda: number, random: RandomSource): number => {
+  const threshold = Math.exp(-lambda);
+  let count = 0;
+  let product = random();
+  while (product > threshold) {
+    count++;
+    product *= random();
+  }
+  return count;
+};
+
+// Two-state Markov chain that switches at most once per day. Each day's draw is keyed
+// by the seed, so the regime on any day can be recomputed without stored state.
+const regimeCache = new Map<string, MarketRegime[]>();
+
+export const getMarketRegime = (seed: number, day: number, config: MarketModelConfig): MarketRegime => {
+  const key = `${seed}:${config.bullToBearProbability}:${config.bearToBullProbability}`;
+  const history = regimeCache.get(key) ?? ['bull'];
+  for (let d = history.length; d <= day; d++) {
+    const draw = createSeededRandom(seed, 'regime', d)();
+    const previous = history[d - 1];
+    const switchProbability = previous === 'bull' ? config.bullToBearProbability : config.bearToBullProbability;
+    history.push(draw < switchProbability ? (previous === 'bull' ? 'bear' : 'bull') : previous);
+  }
+  regimeCache.set(key, history);
+  return history[Math.max(0, day)];
+};
+
+// Advance prices by dtDays trading days under the configured model.
+// Diffusion shocks are correlated through the sector matrix; jumps are idiosyncratic.
+export const simulatePriceStep = (
+  previousMarketData: MarketData,
+  tickers: string[],
+  options: {
+    config: MarketModelConfig;
+    random: RandomSource;
+    dtDays: number;
+    regime?: MarketRegime;
+  }
+): Record<string, number> => {
+  const { config, random, dtDays } = options;
+  const dt = dtDays / TRADING_DAYS_PER_YEAR;
+  const prices: Record<string, number> = {};
+  if (tickers.length === 0 || dt <= 0) {
+    tickers.forEach(ticker => { prices[ticker] = previousMarketData[ticker]?.price; });
+    return prices;
+  }
+
+  const factor = getCorrelationFactor(tickers.map(ticker => getTickerSector(ticker, previousMarketData[ticker])), config);
+  const shocks = tickers.map(() => sampleNormal(random));
+  const isBear = config.model === 'regime_switching' && options.regime === 'bear';
+  const jumpCompensation = Math.exp(config.jumpMean + 0.5 * config.jumpVolatility ** 2) - 1;
+
+  tickers.forEach((ticker, i) => {
+    const data = previousMarketData[ticker];
+    let correlatedShock = 0;
+    for (let j = 0; j <= i; j++) {
+      correlatedShock += factor[i][j] * shocks[j];
+    }
+
+    const dynamics = getTickerDynamics(ticker, data, config);
+    const drift = isBear ? dynamics.drift + config.bearDriftShift : dynamics.drift;
+    const volatility = isBear ? dynamics.volatility * config.bearVolatilityMultiplier : dynamics.volatility;
+
+    let logReturn = (drift - 0.5 * volatility ** 2) * dt + volatility * Math.sqrt(dt) * correlatedShock;
+
+    if (config.model === 'jump_diffusion') {
+      // Merton: compensate the drift so jumps do not change the expected return
+      logReturn -= config.jumpIntensity * jumpCompensation * dt;
+      const jumps = samplePoisson(config.jumpIntensity * dt, random);
+      if (jumps > 0) {
+        logReturn += jumps * config.jumpMean + Math.sqrt(jumps) * config.jumpVolatility * sampleNormal(random);
+      }
+    }
+
+    prices[ticker] = Math.max(0.01, data.price * Math.exp(logReturn));
+  });
+
+  return prices;
+};
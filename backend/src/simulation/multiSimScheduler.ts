@@ -2,16 +2,46 @@ import { simulationManager } from './SimulationManager.js';
 import { step, tradeWindow, advanceDay } from './engine.js';
 import { generateNextIntradayMarketData, generateNextDayMarketData, isHistoricalSimulationComplete, getSimulationMode, prefetchRealtimeMarketData, type RealtimePrefetchResult, hasHybridModeTransitioned, shouldHybridModeTransition, setHybridModeTransitioned } from '../services/marketDataService.js';
 import { logger, LogLevel, LogCategory } from '../services/logger.js';
-import { isMarketOpen as checkMarketOpen, getNextMarketOpen, getETTime, isMarketOpen } from './marketHours.js';
+import { isMarketOpen as checkMarketOpen, getNextMarketOpen, getETTime, getTradingSession, isMarketOpen } from './marketHours.js';
 import type { MarketData, SimulationSnapshot } from '../types.js';
 import { updateChatMessagesStatusForSimulation } from '../services/multiSimChatService.js';
 import { updateTimerState } from '../services/timerService.js';
 import { saveSnapshot } from '../store/persistence.js';
 import { priceLogService } from '../services/priceLogService.js';
 import { getHistoricalPreloadSnapshotId } from '../utils/historicalPreload.js';
+import { DEFAULT_EXECUTION_COST_CONFIG } from '../constants.js';
+import { getOpenTickers } from './instruments.js';
 
 const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
 
+// Tickers some arena can trade at `now`; arenas can list unsuffixed tickers on their own exchange
+// and opt in to NYSE pre-market and after-hours sessions
+const getOpenArenaTickers = (marketData: MarketData, now: Date): string[] => {
+  const tickers = new Set(getOpenTickers(marketData, now));
+  simulationManager.getAllSimulations().forEach(instance => {
+    const simType = instance.getSimulationType();
+    getOpenTickers(marketData, now, simType.exchange, simType.extendedHours?.enabled).forEach(ticker => tickers.add(ticker));
+  });
+  return [...tickers];
+};
+
+// Pre-market or after-hours, with some arena trading it: quotes then need extended-hours prints
+const isExtendedSessionTraded = (now: Date): boolean => {
+  const session = getTradingSession(now);
+  return (session === 'pre_market' || session === 'after_hours') &&
+    [...simulationManager.getAllSimulations().values()].some(instance => instance.getSimulationType().extendedHours?.enabled);
+};
+
+// Crypto (24/7), FX (24/5), London or Tokyo listings and opted-in extended hours trade outside
+// NYSE hours, so realtime ticks and trade windows run while any instrument in the universe can trade
+const isAnyMarketOpen = (now: Date): boolean => {
+  if (checkMarketOpen(now)) {
+    return true;
+  }
+  const marketData = simulationManager.getSharedMarketData();
+  return Boolean(marketData && getOpenArenaTickers(marketData, now).length > 0);
+};
+
 // Intervals - different for real-time vs simulated/historical
 export const getSimInterval = (): number => {
   const mode = getSimulationMode();
@@ -82,7 +112,7 @@ let lastTradeWindowSkipLog = 0;
 
 const simulationLocks = new Map<string, Promise<void>>();
 
-const withSimulationLock = async <T>(
+export const withSimulationLock = async <T>(
   simulationTypeId: string,
   task: () => Promise<T>
 ): Promise<T> => {
@@ -192,27 +222,33 @@ const maybeSaveRealtimeHistoricalPreload = async (
 /**
  * Update portfolio valuations for a simulation instance
  */
-const stepSimulation = async (simulationTypeId: string, newMarketData: MarketData): Promise<void> => {
+const stepSimulation = async (
+  simulationTypeId: string,
+  newMarketData: MarketData,
+  previousMarketData?: MarketData
+): Promise<void> => {
   return withSimulationLock(simulationTypeId, async () => {
     const instance = simulationManager.getSimulation(simulationTypeId);
     if (!instance) return;
 
     const snapshot = instance.getSnapshot();
+    const simType = instance.getSimulationType();
 
     try {
       const result = await step(
         {
           day: snapshot.day,
           intradayHour: snapshot.intradayHour,
-          marketData: snapshot.marketData,
+          marketData: previousMarketData ?? snapshot.marketData,
           agents: snapshot.agents,
           benchmarks: snapshot.benchmarks,
           chat: snapshot.chat,
           mode: snapshot.mode,
           currentTimestamp: snapshot.currentTimestamp,
+          orderBooks: snapshot.orderBooks,
         },
         newMarketData,
-        { simulationId: simulationTypeId }
+        { simulationId: simulationTypeId, margin: simType.margin, executionCost: simType.executionCost ?? DEFAULT_EXECUTION_COST_CONFIG, lotRelief: simType.lotRelief, exchange: simType.exchange, extendedHours: simType.extendedHours }
       );
 
       instance.updateSnapshot({
@@ -220,6 +256,7 @@ const stepSimulation = async (simulationTypeId: string, newMarketData: MarketDat
         benchmarks: result.benchmarks,
         marketData: result.marketData,
         chat: result.chat,
+        orderBooks: result.orderBooks,
       });
 
       // Save snapshot after step
@@ -269,13 +306,16 @@ const tradeWindowSimulation = async (simulationTypeId: string): Promise<void> =>
         chat: snapshot.chat,
         mode: snapshot.mode,
         currentTimestamp: snapshot.currentTimestamp,
-      }, { simulationId: simulationTypeId });
+        orderBooks: snapshot.orderBooks,
+      }, { simulationId: simulationTypeId, margin: simType.margin, executionCost: simType.executionCost ?? DEFAULT_EXECUTION_COST_CONFIG, lotRelief: simType.lotRelief, riskRules: simType.riskRules, instrumentTypes: simType.instrumentTypes, universe: simType.universe, exchange: simType.exchange, extendedHours: simType.extendedHours });
 
       instance.updateSnapshot({
         agents: result.agents,
         benchmarks: result.benchmarks,
         chat: result.chat,
         marketData: result.marketData,
+        orderBooks: result.orderBooks,
+        inferenceUsage: result.inferenceUsage,
       });
 
       // Removed verbose "Trade window completed" log - only errors will be logged
@@ -303,12 +343,17 @@ const tradeWindowSimulation = async (simulationTypeId: string): Promise<void> =>
 /**
  * Advance to next day for a simulation instance
  */
-const advanceDaySimulation = async (simulationTypeId: string, newMarketData: MarketData): Promise<void> => {
+const advanceDaySimulation = async (
+  simulationTypeId: string,
+  newMarketData: MarketData,
+  previousMarketData?: MarketData
+): Promise<void> => {
   return withSimulationLock(simulationTypeId, async () => {
     const instance = simulationManager.getSimulation(simulationTypeId);
     if (!instance) return;
 
     const snapshot = instance.getSnapshot();
+    const simType = instance.getSimulationType();
     const newDay = snapshot.day + 1;
 
     try {
@@ -316,14 +361,15 @@ const advanceDaySimulation = async (simulationTypeId: string, newMarketData: Mar
         {
           day: snapshot.day,
           intradayHour: snapshot.intradayHour,
-          marketData: snapshot.marketData,
+          marketData: previousMarketData ?? snapshot.marketData,
           agents: snapshot.agents,
           benchmarks: snapshot.benchmarks,
           chat: snapshot.chat,
           mode: snapshot.mode,
+          orderBooks: snapshot.orderBooks,
         },
         newMarketData,
-        { simulationId: simulationTypeId }
+        { simulationId: simulationTypeId, margin: simType.margin, executionCost: simType.executionCost ?? DEFAULT_EXECUTION_COST_CONFIG, lotRelief: simType.lotRelief, riskRules: simType.riskRules, instrumentTypes: simType.instrumentTypes, universe: simType.universe, exchange: simType.exchange }
       );
 
       // Calculate new currentDate for the advanced day
@@ -373,6 +419,8 @@ const advanceDaySimulation = async (simulationTypeId: string, newMarketData: Mar
         benchmarks: result.benchmarks,
         marketData: result.marketData,
         chat: result.chat,
+        orderBooks: result.orderBooks,
+        inferenceUsage: result.inferenceUsage,
       });
 
       // Get S&P 500 price for logging
@@ -658,16 +706,26 @@ export const startMultiSimScheduler = async (): Promise<void> => {
           }
 
           // Advance to next day
-          const nextDayData = await generateNextDayMarketData(currentMarketData);
+          const nextDayData = await generateNextDayMarketData(currentMarketData, snapshot.day + 1);
           simulationManager.updateSharedMarketData(nextDayData);
 
-          const advancePromises = Array.from(simulations.keys()).map(typeId =>
-            advanceDaySimulation(typeId, nextDayData)
-          );
+          // Arenas with their own market model continue their own price path (benchmarks stay shared)
+          const advancePromises = Array.from(simulations.entries()).map(async ([typeId, instance]) => {
+            if (!instance.hasOwnMarketData()) {
+              return advanceDaySimulation(typeId, nextDayData, currentMarketData);
+            }
+            const ownMarketData = instance.getSnapshot().marketData;
+            const ownNextDayData = await generateNextDayMarketData(ownMarketData, snapshot.day + 1, {
+              marketModel: instance.getSimulationType().marketModel,
+              benchmarkData: nextDayData,
+            });
+            return advanceDaySimulation(typeId, ownNextDayData, ownMarketData);
+          });
           await Promise.all(advancePromises);
         } else {
           // Regular price tick
-          const newMarketData = await generateNextIntradayMarketData(currentMarketData, snapshot.day, snapshot.intradayHour);
+          const hoursElapsed = minutesPerTick / 60;
+          const newMarketData = await generateNextIntradayMarketData(currentMarketData, snapshot.day, snapshot.intradayHour, { hoursElapsed });
           simulationManager.updateSharedMarketData(newMarketData);
 
           // Update all simulations with new intraday hour
@@ -676,16 +734,25 @@ export const startMultiSimScheduler = async (): Promise<void> => {
           }
 
           // Step all simulations
-          const stepPromises = Array.from(simulations.keys()).map(typeId =>
-            stepSimulation(typeId, newMarketData)
-          );
+          const stepPromises = Array.from(simulations.entries()).map(async ([typeId, instance]) => {
+            if (!instance.hasOwnMarketData()) {
+              return stepSimulation(typeId, newMarketData, currentMarketData);
+            }
+            const ownMarketData = instance.getSnapshot().marketData;
+            const ownNewMarketData = await generateNextIntradayMarketData(ownMarketData, snapshot.day, snapshot.intradayHour, {
+              hoursElapsed,
+              marketModel: instance.getSimulationType().marketModel,
+              benchmarkData: newMarketData,
+            });
+            return stepSimulation(typeId, ownNewMarketData, ownMarketData);
+          });
           await Promise.all(stepPromises);
         }
       } else {
         // Real-time mode (including hybrid after transition)
         // Check if market is closed - skip price ticks if closed
         const now = new Date();
-        const isOpen = checkMarketOpen(now);
+        const isOpen = isAnyMarketOpen(now);
         if (!isOpen) {
           // Log market closed status (only once per status change)
           const lastMarketStatus = (global as any).lastPriceTickMarketStatus;
@@ -755,7 +822,8 @@ export const startMultiSimScheduler = async (): Promise<void> => {
 
         let newMarketData: MarketData;
         if (prefetchedRealtimeData?.marketData) {
-          newMarketData = prefetchedRealtimeData.marketData;
+          // Outside equity hours only the open instruments are fetched; the rest keep their last quote
+          newMarketData = { ...currentMarketData, ...prefetchedRealtimeData.marketData };
         } else {
           newMarketData = await generateNextIntradayMarketData(currentMarketData, snapshot.day, newIntradayHour);
         }
@@ -765,7 +833,7 @@ export const startMultiSimScheduler = async (): Promise<void> => {
 
         // Step all simulations
         const stepPromises = Array.from(simulations.keys()).map(typeId =>
-          stepSimulation(typeId, newMarketData)
+          stepSimulation(typeId, newMarketData, currentMarketData)
         );
         await Promise.all(stepPromises);
 
@@ -804,7 +872,7 @@ export const startMultiSimScheduler = async (): Promise<void> => {
       const isRealtimeModeForTrades = mode === 'realtime' || (mode === 'hybrid' && hasHybridModeTransitioned());
       if (isRealtimeModeForTrades) {
         const now = new Date();
-        const isOpen = checkMarketOpen(now);
+        const isOpen = isAnyMarketOpen(now);
         if (!isOpen) {
           // Log market closed status (only once per status change)
           const lastMarketStatus = (global as any).lastMarketStatus;
@@ -889,7 +957,7 @@ export const startMultiSimScheduler = async (): Promise<void> => {
     realtimePriceLoopPromise = (async () => {
       while (!abortController.stop) {
         const now = new Date();
-        const isOpen = checkMarketOpen(now);
+        const isOpen = isAnyMarketOpen(now);
         if (!isOpen) {
           const nextOpen = getNextMarketOpen(now);
           const msUntilOpen = nextOpen.getTime() - now.getTime();
@@ -903,7 +971,7 @@ export const startMultiSimScheduler = async (): Promise<void> => {
 
         const currentMarketData = simulationManager.getSharedMarketData();
         if (currentMarketData) {
-          const tickers = Object.keys(currentMarketData);
+          const tickers = checkMarketOpen(now) ? Object.keys(currentMarketData) : getOpenArenaTickers(currentMarketData, now);
           const guardMs = Math.max(0, parseInt(process.env.PREFETCH_GUARD_MS || '1000', 10));
           const batchSize = Math.max(1, parseInt(process.env.PREFETCH_BATCH_SIZE || '25', 10));
 
@@ -911,6 +979,7 @@ export const startMultiSimScheduler = async (): Promise<void> => {
             intervalMs: simInterval,
             guardMs,
             batchSize,
+            extendedHours: isExtendedSessionTraded(now),
           });
           await priceTickHandler(prefetchResult);
         } else {
@@ -0,0 +1,163 @@
+import type { MarketData, Order, TickerData, Trade } from '../types.js';
+import { MAX_OPEN_ORDERS_PER_AGENT } from '../constants.js';
+
+// Price range covered by one tick, used to decide whether resting orders were touched
+export interface PriceBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface OrderFill {
+  order: Order;
+  price: number;
+}
+
+export const isRestingOrderType = (orderType: Trade['orderType']): orderType is Order['orderType'] =>
+  orderType === 'limit' || orderType === 'stop' || orderType === 'stop_limit';
+
+export const getPointBar = (price: number): PriceBar => ({ open: price, high: price, low: price, close: price });
+
+// Path from the previous price to the new one. If the session high/low moved since the
+// previous tick, that extreme printed somewhere in between, so the bar is widened to include it.
+export const getTickPriceBar = (previous: TickerData | undefined, next: TickerData): PriceBar => {
+  const open = previous?.price ?? next.price;
+  const close = next.price;
+  let high = Math.max(open, close);
+  let low = Math.min(open, close);
+
+  if (next.dayHigh !== undefined && next.dayHigh > 0 && (previous?.dayHigh === undefined || next.dayHigh > previous.dayHigh)) {
+    high = Math.max(high, next.dayHigh);
+  }
+  if (next.dayLow !== undefined && next.dayLow > 0 && (previous?.dayLow === undefined || next.dayLow < previous.dayLow)) {
+    low = Math.min(low, next.dayLow);
+  }
+
+  return { open, high, low, close };
+};
+
+// Build a resting order from an agent decision. Returns null if the required prices are missing.
+export const createOrder = (
+  agentId: string,
+  decision: Omit<Trade, 'price' | 'timestamp'>,
+  id: string,
+  timestamp: number,
+  day: number
+): Order | null => {
+  if (!isRestingOrderType(decision.orderType) || (decision.action !== 'buy' && decision.action !== 'sell')) {
+    return null;
+  }
+  const needsLimit = decision.orderType === 'limit' || decision.orderType === 'stop_limit';
+  const needsStop = decision.orderType === 'stop' || decision.orderType === 'stop_limit';
+  if ((needsLimit && !(decision.limitPrice! > 0)) || (needsStop && !(decision.stopPrice! > 0))) {
+    return null;
+  }
+
+  return {
+    id,
+    agentId,
+    ticker: decision.ticker,
+    action: decision.action,
+    quantity: decision.quantity,
+    orderType: decision.orderType,
+    limitPrice: needsLimit ? decision.limitPrice : undefined,
+    stopPrice: needsStop ? decision.stopPrice : undefined,
+    timeInForce: decision.timeInForce || 'day',
+    status: 'open',
+    createdAt: timestamp,
+    createdDay: day,
+    fairValue: decision.fairValue,
+    topOfBox: decision.topOfBox,
+    bottomOfBox: decision.bottomOfBox,
+    justification: decision.justification,
+  };
+};
+
+// Check a single order against a price bar.
+// Orders that gap through their level fill at the open, otherwise at the level itself.
+export const evaluateOrder = (order: Order, bar: PriceBar): { fillPrice?: number; triggered?: boolean } => {
+  const isBuy = order.action === 'buy';
+  const limitReached = (limit: number) => (isBuy ? bar.low <= limit : bar.high >= limit);
+  const limitFillPrice = (limit: number) => (isBuy ? Math.min(limit, bar.open) : Math.max(limit, bar.open));
+  const stopReached = (stop: number) => (isBuy ? bar.high >= stop : bar.low <= stop);
+  const stopFillPrice = (stop: number) => (isBuy ? Math.max(stop, bar.open) : Math.min(stop, bar.open));
+
+  switch (order.orderType) {
+    case 'limit':
+      return limitReached(order.limitPrice!) ? { fillPrice: limitFillPrice(order.limitPrice!) } : {};
+    case 'stop':
+      return stopReached(order.stopPrice!) ? { fillPrice: stopFillPrice(order.stopPrice!) } : {};
+    case 'stop_limit': {
+      if (order.status === 'triggered') {
+        return limitReached(order.limitPrice!) ? { fillPrice: limitFillPrice(order.limitPrice!) } : {};
+      }
+      if (!stopReached(order.stopPrice!)) {
+        return {};
+      }
+      // Once the stop is hit the order only fills if the trigger price respects the limit;
+      // otherwise it rests as a plain limit from the next tick on
+      const triggerPrice = stopFillPrice(order.stopPrice!);
+      const marketable = isBuy ? triggerPrice <= order.limitPrice! : triggerPrice >= order.limitPrice!;
+      return marketable ? { fillPrice: triggerPrice, triggered: true } : { triggered: true };
+    }
+    default:
+      return {};
+  }
+};
+
+// Match every order in a book against the move from previousMarketData to newMarketData
+export const matchOrders = (
+  orders: Order[],
+  previousMarketData: MarketData,
+  newMarketData: MarketData,
+  timestamp: number
+): { fills: OrderFill[]; remaining: Order[] } => {
+  const fills: OrderFill[] = [];
+  const remaining: Order[] = [];
+
+  orders.forEach(order => {
+    const next = newMarketData[order.ticker];
+    if (!next || !(next.price > 0)) {
+      remaining.push(order);
+      return;
+    }
+
+    const result = evaluateOrder(order, getTickPriceBar(previousMarketData[order.ticker], next));
+    if (result.fillPrice !== undefined) {
+      fills.push({ order, price: result.fillPrice });
+    } else if (result.triggered) {
+      remaining.push({ ...order, status: 'triggered', triggeredAt: timestamp });
+    } else {
+      remaining.push(order);
+    }
+  });
+
+  return { fills, remaining };
+};
+
+// Day orders do not survive the close
+export const expireDayOrders = (orders: Order[]): { active: Order[]; expired: Order[] } => ({
+  active: orders.filter(order => order.timeInForce !== 'day'),
+  expired: orders.filter(order => order.timeInForce === 'day'),
+});
+
+// Oldest orders are dropped first when an agent exceeds the open order limit
+export const capOrderBook = (orders: Order[]): Order[] =>
+  orders.length > MAX_OPEN_ORDERS_PER_AGENT ? orders.slice(-MAX_OPEN_ORDERS_PER_AGENT) : orders;
+
+export const orderFillToTrade = (fill: OrderFill): Omit<Trade, 'price' | 'timestamp'> & { executionPrice: number } => ({
+  ticker: fill.order.ticker,
+  action: fill.order.action,
+  quantity: fill.order.quantity,
+  orderType: fill.order.orderType,
+  limitPrice: fill.order.limitPrice,
+  stopPrice: fill.order.stopPrice,
+  timeInForce: fill.order.timeInForce,
+  orderId: fill.order.id,
+  fairValue: fill.order.fairValue,
+  topOfBox: fill.order.topOfBox,
+  bottomOfBox: fill.order.bottomOfBox,
+  justification: fill.order.justification,
+  executionPrice: fill.price,
+});
@@ -0,0 +1,202 @@
+import type { Agent, MarketData, RiskRule, RiskRulesConfig, RiskViolation, RiskViolationCounts, Trade } from '../types.js';
+import { calculatePortfolioValue } from '../utils/portfolioCalculations.js';
+import { getTickerSector } from './marketModels.js';
+
+const EPSILON = 1e-9;
+const RECENT_VIOLATIONS = 10;
+// Violations kept on the agent (and so in every snapshot); older ones only survive in the counts
+const MAX_STORED_VIOLATIONS = 100;
+
+type DecidedTrade = Omit<Trade, 'price' | 'timestamp'>;
+
+export interface RiskCheckResult {
+  trades: DecidedTrade[]; // Orders that passed, some cut down to the size the rules allow
+  violations: RiskViolation[];
+}
+
+interface RiskLimit {
+  rule: RiskRule;
+  allowed: number;
+  reason: string;
+}
+
+const toPercent = (fraction: number): string => `${+(fraction * 100).toFixed(2)}%`;
+
+// Realtime trades are stamped in epoch seconds, the other modes in (fractional) simulation days
+const getTradingDay = (timestamp: number): number =>
+  timestamp > 1_000_000_000 ? Math.floor(timestamp / 86400) : Math.floor(timestamp);
+
+// Shares of an order an exposure limit allows. The first `closing` shares shrink the exposure
+// (selling a long, covering a short); every share beyond them adds `price` to it.
+const getAllowedQuantity = (closing: number, exposure: number, limit: number, price: number): number =>
+  closing + Math.max(0, Math.floor((limit - (exposure - closing * price)) / price + EPSILON));
+
+export const hasRiskRules = (rules: RiskRulesConfig | undefined): rules is RiskRulesConfig =>
+  Boolean(rules && (
+    rules.maxPositionWeight !== undefined ||
+    rules.minInvestedFraction !== undefined ||
+    rules.maxSectorWeight !== undefined ||
+    rules.maxDailyTurnover !== undefined ||
+    rules.restrictedTickers?.length
+  ));
+
+// Check an agent's orders against the arena's rules before they are placed. Orders are checked
+// against the portfolio as it would be after the ones before them, sells first as they execute,
+// and sized at the current quote. Each order is cut to the tightest limit it breaks.
+export const applyRiskRules = (
+  agent: Agent,
+  trades: DecidedTrade[],
+  options: { marketData: MarketData; timestamp: number; rules?: RiskRulesConfig }
+): RiskCheckResult => {
+  const { marketData, timestamp, rules } = options;
+  if (!hasRiskRules(rules) || trades.length === 0) {
+    return { trades, violations: [] };
+  }
+
+  const portfolioValue = calculatePortfolioValue(agent.portfolio, marketData);
+  const positions = new Map<string, number>(Object.values(agent.portfolio.positions).map(position => [position.ticker, position.quantity]));
+  const restricted = new Set((rules.restrictedTickers || []).map(ticker => ticker.toUpperCase()));
+  const day = getTradingDay(timestamp);
+  // Dividends and delisting closes are booked as trades but were not the agent's orders
+  let turnover = agent.tradeHistory
+    .filter(trade => !trade.corporateAction && getTradingDay(trade.timestamp) === day)
+    .reduce((sum, trade) => sum + Math.abs(trade.quantity * trade.price), 0);
+
+  const priceOf = (ticker: string): number => marketData[ticker]?.price || 0;
+  const getSectorExposure = (sector: string): number => Array.from(positions.entries())
+    .filter(([ticker]) => getTickerSector(ticker, marketData[ticker]) === sector)
+    .reduce((sum, [ticker, quantity]) => sum + Math.abs(quantity) * priceOf(ticker), 0);
+  const getInvestedValue = (): number => Array.from(positions.entries())
+    .reduce((sum, [ticker, quantity]) => sum + Math.max(0, quantity) * priceOf(ticker), 0);
+
+  const getLimits = (trade: DecidedTrade, price: number): RiskLimit[] => {
+    const current = positions.get(trade.ticker) ?? 0;
+    const closing = Math.max(0, trade.action === 'buy' ? -current : current);
+    const limits: RiskLimit[] = [];
+
+    if (restricted.has(trade.ticker.toUpperCase())) {
+      limits.push({ rule: 'restrictedTicker', allowed: closing, reason: `${trade.ticker} is restricted in this arena; only closing trades are allowed` });
+    }
+    if (rules.maxPositionWeight !== undefined) {
+      limits.push({
+        rule: 'maxPositionWeight',
+        allowed: getAllowedQuantity(closing, Math.abs(current) * price, rules.maxPositionWeight * portfolioValue, price),
+        reason: `position would exceed ${toPercent(rules.maxPositionWeight)} of portfolio value`,
+      });
+    }
+    const sector = getTickerSector(trade.ticker, marketData[trade.ticker]);
+    if (rules.maxSectorWeight !== undefined && sector) {
+      limits.push({
+        rule: 'maxSectorWeight',
+        allowed: getAllowedQuantity(closing, getSectorExposure(sector), rules.maxSectorWeight * portfolioValue, price),
+        reason: `${sector} exposure would exceed ${toPercent(rules.maxSectorWeight)} of portfolio value`,
+      });
+    }
+    if (rules.minInvestedFraction !== undefined && trade.action === 'sell' && current > 0) {
+      // Only the shares that close the long count; a sell that flips short must get through them first
+      const releasable = Math.max(0, Math.floor((getInvestedValue() - rules.minInvestedFraction * portfolioValue) / price + EPSILON));
+      if (releasable < current) {
+        limits.push({ rule: 'minInvestedFraction', allowed: releasable, reason: `stock holdings would fall below ${toPercent(rules.minInvestedFraction)} of portfolio value` });
+      }
+    }
+    if (rules.maxDailyTurnover !== undefined) {
+      limits.push({
+        rule: 'maxDailyTurnover',
+        allowed: Math.max(0, Math.floor((rules.maxDailyTurnover * portfolioValue - turnover) / price + EPSILON)),
+        reason: `today's traded value would exceed ${toPercent(rules.maxDailyTurnover)} of portfolio value`,
+      });
+    }
+    return limits;
+  };
+
+  const checked = new Map<number, DecidedTrade>();
+  const violations: RiskViolation[] = [];
+  const order = trades
+    .map((trade, index) => ({ trade, index }))
+    .sort((a, b) => (a.trade.action === 'sell' ? 0 : 1) - (b.trade.action === 'sell' ? 0 : 1));
+
+  order.forEach(({ trade, index }) => {
+    const price = priceOf(trade.ticker);
+    if ((trade.action !== 'buy' && trade.action !== 'sell') || price <= 0) {
+      // Holds pass through; execution reports unpriced tickers
+      checked.set(index, trade);
+      return;
+    }
+
+    const binding = getLimits(trade, price).reduce<RiskLimit | undefined>(
+      (tightest, limit) => (limit.allowed < (tightest?.allowed ?? Infinity) ? limit : tightest),
+      undefined
+    );
+    const quantity = binding && binding.allowed < trade.quantity ? binding.allowed : trade.quantity;
+    if (binding && quantity < trade.quantity) {
+      violations.push({
+        rule: binding.rule,
+        ticker: trade.ticker,
+        action: trade.action,
+        requestedQuantity: trade.quantity,
+        allowedQuantity: quantity,
+        timestamp,
+        message: quantity > 0 ? `Resized to ${quantity} shares: ${binding.reason}` : `Rejected: ${binding.reason}`,
+      });
+    }
+    if (quantity <= 0) {
+      return;
+    }
+
+    checked.set(index, quantity === trade.quantity ? trade : { ...trade, quantity });
+    positions.set(trade.ticker, (positions.get(trade.ticker) ?? 0) + (trade.action === 'buy' ? quantity : -quantity));
+    turnover += quantity * price;
+  });
+
+  return {
+    trades: trades.map((_, index) => checked.get(index)).filter((trade): trade is DecidedTrade => trade !== undefined),
+    violations,
+  };
+};
+
+// Prompt lines for the limits the arena enforces
+export const describeRiskRules = (rules: RiskRulesConfig): string[] => [
+  rules.maxPositionWeight !== undefined ? `No position, long or short, above ${toPercent(rules.maxPositionWeight)} of portfolio value` : '',
+  rules.maxSectorWeight !== undefined ? `No more than ${toPercent(rules.maxSectorWeight)} of portfolio value in any one sector` : '',
+  rules.minInvestedFraction !== undefined ? `Sells may not take your stock holdings below ${toPercent(rules.minInvestedFraction)} of portfolio value` : '',
+  rules.maxDailyTurnover !== undefined ? `Total traded value per day is capped at ${toPercent(rules.maxDailyTurnover)} of portfolio value` : '',
+  rules.restrictedTickers?.length ? `Restricted tickers (closing trades only): ${rules.restrictedTickers.join(', ')}` : '',
+].filter(Boolean);
+
+const EMPTY_COUNTS: RiskViolationCounts = { total: 0, rejected: 0, resized: 0, byRule: {} };
+
+const countRiskViolations = (counts: RiskViolationCounts, violations: RiskViolation[]): RiskViolationCounts =>
+  violations.reduce((totals, violation) => ({
+    total: totals.total + 1,
+    rejected: totals.rejected + (violation.allowedQuantity === 0 ? 1 : 0),
+    resized: totals.resized + (violation.allowedQuantity > 0 ? 1 : 0),
+    byRule: { ...totals.byRule, [violation.rule]: (totals.byRule[violation.rule] ?? 0) + 1 },
+  }), counts);
+
+// Snapshots from before the counts existed only have the list to go on
+const getRiskViolationCounts = (agent: Agent): RiskViolationCounts =>
+  agent.riskViolationCounts ?? countRiskViolations(EMPTY_COUNTS, agent.riskViolations || []);
+
+// Add new violations to the agent's counts and its capped list of recent ones
+export const recordRiskViolations = (
+  agent: Agent,
+  violations: RiskViolation[]
+): Pick<Agent, 'riskViolations' | 'riskViolationCounts'> => ({
+  riskViolations: [...(agent.riskViolations || []), ...violations].slice(-MAX_STORED_VIOLATIONS),
+  riskViolationCounts: countRiskViolations(getRiskViolationCounts(agent), violations),
+});
+
+// Violations per agent, by rule, with the most recent ones
+export const getRiskReport = (agents: Agent[]) => agents.map(agent => {
+  const counts = getRiskViolationCounts(agent);
+  return {
+    agentId: agent.id,
+    name: agent.name,
+    model: agent.model,
+    violations: counts.total,
+    rejected: counts.rejected,
+    resized: counts.resized,
+    byRule: counts.byRule,
+    recent: (agent.riskViolations || []).slice(-RECENT_VIOLATIONS),
+  };
+});
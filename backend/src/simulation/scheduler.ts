@@ -348,7 +348,7 @@ export const startScheduler = async (): Promise<void> => {
 
           lastMarketDay = etDateObj;
 
-          const newMarketData = await generateNextDayMarketData(snapshot.marketData);
+          const newMarketData = await generateNextDayMarketData(snapshot.marketData, snapshot.day + 1);
           const updatedSnapshot = await advanceDay(snapshot, newMarketData);
 
           // Reset intraday hour to 0 for new day
@@ -540,7 +540,7 @@ export const startScheduler = async (): Promise<void> => {
           nextDay: snapshot.day + 1
         });
 
-        const newMarketData = await generateNextDayMarketData(snapshot.marketData);
+        const newMarketData = await generateNextDayMarketData(snapshot.marketData, snapshot.day + 1);
         const updatedSnapshot = await advanceDay(snapshot, newMarketData);
 
         // Reset intraday hour to 0 for new day
@@ -1,8 +1,9 @@
 import type { SimulationSnapshot, Agent, Benchmark, MarketData, ChatState, ChatConfig, ChatMessage } from '../types.js';
 import { INITIAL_AGENTS, INITIAL_CASH, S_P500_BENCHMARK_ID, BENCHMARK_COLORS } from '../constants.js';
 import { calculateAllMetrics } from '../utils/portfolioCalculations.js';
-import { getSimulationMode } from '../services/marketDataService.js';
+import { getSimulationMode, getSimulationSeed, setSimulationSeed } from '../services/marketDataService.js';
 import { cloneChatMessages } from '../utils/chatUtils.js';
+import { getStartPrices } from '../utils/performanceAttribution.js';
 
 class SimulationState {
   private snapshot: SimulationSnapshot;
@@ -40,6 +41,7 @@ class SimulationState {
       agents: [],
       benchmarks: [],
       mode: getSimulationMode(),
+      seed: getSimulationSeed(),
       chat: this.createChatState(),
       lastUpdated: new Date().toISOString(),
     };
@@ -275,6 +277,8 @@ class SimulationState {
       agents: initialAgentStates,
       benchmarks,
       mode,
+      seed: getSimulationSeed(),
+      startPrices: getStartPrices(marketData),
       startDate,
       currentDate,
       currentTimestamp,
@@ -373,8 +377,13 @@ class SimulationState {
 
   loadFromSnapshot(snapshot: SimulationSnapshot): void {
     const restoredChat = snapshot.chat ? this.createChatState(snapshot.chat.messages) : this.createChatState();
+    // Keep generating prices from the seed the run started with
+    if (snapshot.seed !== undefined) {
+      setSimulationSeed(snapshot.seed);
+    }
     this.snapshot = {
       ...snapshot,
+      seed: getSimulationSeed(),
       chat: restoredChat,
     };
   }
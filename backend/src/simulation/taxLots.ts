@@ -0,0 +1,139 @@
+import type { Agent, LotReliefMethod, RealizedLot, TaxLot, TaxLotLedger, Trade } from '../types.js';
+
+const EPSILON = 1e-9;
+
+export const createTaxLotLedger = (method: LotReliefMethod = 'fifo'): TaxLotLedger => ({
+  method,
+  openLots: [],
+  realizedLots: [],
+  processedTrades: 0,
+  nextLotId: 1,
+});
+
+// Realtime trades are stamped in epoch seconds, the other modes in (fractional) simulation days
+export const getHoldingDays = (openedAt: number, closedAt: number): number =>
+  openedAt > 1_000_000_000 && closedAt > 1_000_000_000
+    ? (closedAt - openedAt) / 86400
+    : closedAt - openedAt;
+
+// Lots a reducing trade closes, in relief order. Specific-ID takes the named lots first and
+// falls back to FIFO for whatever they do not cover.
+const getReliefOrder = (lots: TaxLot[], trade: Trade, method: LotReliefMethod): TaxLot[] => {
+  if (method === 'lifo') {
+    return [...lots].reverse();
+  }
+  if (method === 'specific' && trade.lotIds?.length) {
+    const named = trade.lotIds
+      .map(id => lots.find(lot => lot.id === id))
+      .filter((lot): lot is TaxLot => lot !== undefined);
+    return [...named, ...lots.filter(lot => !named.includes(lot))];
+  }
+  return lots;
+};
+
+// Restate a ticker's lots after a split. The synthetic split entry carries the share delta,
+// so the ratio is recovered from the lot total; reverse splits can leave fractional lots.
+const applySplit = (ledger: TaxLotLedger, trade: Trade): void => {
+  const lots = ledger.openLots.filter(lot => lot.ticker === trade.ticker);
+  const total = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (Math.abs(total) < EPSILON) {
+    return;
+  }
+  const delta = trade.action === 'buy' ? trade.quantity : -trade.quantity;
+  const ratio = (total + delta) / total;
+  if (ratio <= 0) {
+    // Entirely paid out as cash in lieu
+    ledger.openLots = ledger.openLots.filter(lot => lot.ticker !== trade.ticker);
+    return;
+  }
+  lots.forEach(lot => {
+    lot.quantity *= ratio;
+    lot.costBasis /= ratio;
+  });
+};
+
+// Apply one trade to the ledger in place. Returns the P&L it realized, or null if it closed nothing.
+const applyTrade = (ledger: TaxLotLedger, trade: Trade): number | null => {
+  if (trade.action === 'hold' || trade.corporateAction === 'dividend' || trade.quantity <= 0) {
+    return null;
+  }
+  if (trade.corporateAction === 'split') {
+    applySplit(ledger, trade);
+    return null;
+  }
+
+  const direction = trade.action === 'buy' ? 1 : -1;
+  const feePerShare = (trade.fees ?? 0) / trade.quantity;
+  let remaining = trade.quantity;
+  let realized: number | null = null;
+
+  const opposing = ledger.openLots.filter(lot => lot.ticker === trade.ticker && Math.sign(lot.quantity) === -direction);
+  for (const lot of getReliefOrder(opposing, trade, ledger.method)) {
+    if (remaining < EPSILON) {
+      break;
+    }
+    const side = Math.sign(lot.quantity);
+    const closed = Math.min(remaining, Math.abs(lot.quantity));
+    // Long lots are sold (fee reduces proceeds), short lots are bought back (fee adds to cost)
+    const proceeds = trade.price - side * feePerShare;
+    const pnl = (proceeds - lot.costBasis) * closed * side;
+
+    ledger.realizedLots.push({
+      lotId: lot.id,
+      ticker: lot.ticker,
+      quantity: closed * side,
+      costBasis: lot.costBasis,
+      proceeds,
+      openedAt: lot.openedAt,
+      closedAt: trade.timestamp,
+      holdingDays: getHoldingDays(lot.openedAt, trade.timestamp),
+      realizedPnl: pnl,
+    });
+
+    realized = (realized ?? 0) + pnl;
+    lot.quantity -= closed * side;
+    remaining -= closed;
+  }
+  ledger.openLots = ledger.openLots.filter(lot => Math.abs(lot.quantity) >= EPSILON);
+
+  // Whatever was not closing opens a new lot (a flip through zero opens on the other side)
+  if (remaining >= EPSILON) {
+    ledger.openLots.push({
+      id: `${trade.ticker}-${ledger.nextLotId++}`,
+      ticker: trade.ticker,
+      quantity: remaining * direction,
+      costBasis: trade.price + direction * feePerShare,
+      openedAt: trade.timestamp,
+    });
+  }
+
+  return realized;
+};
+
+// Bring the agent's lot ledger up to date with its tradeHistory. Only entries added since the
+// last call are applied, so this is cheap to run after every tick; agents restored from older
+// snapshots without a ledger are rebuilt from their full history.
+export const updateTaxLots = (agent: Agent, method: LotReliefMethod = 'fifo'): Agent => {
+  const previous = agent.taxLots;
+  if (previous && previous.processedTrades === agent.tradeHistory.length && previous.method === method) {
+    return agent;
+  }
+
+  const ledger: TaxLotLedger = previous
+    ? { ...previous, method, openLots: previous.openLots.map(lot => ({ ...lot })), realizedLots: [...previous.realizedLots] }
+    : createTaxLotLedger(method);
+
+  const tradeHistory = agent.tradeHistory.map((trade, index) => {
+    if (index < ledger.processedTrades) {
+      return trade;
+    }
+    const realized = applyTrade(ledger, trade);
+    return realized === null ? trade : { ...trade, realizedPnl: realized };
+  });
+  ledger.processedTrades = tradeHistory.length;
+
+  return { ...agent, tradeHistory, taxLots: ledger };
+};
+
+export const getOpenLots = (agent: Agent, ticker: string): TaxLot[] =>
+  (agent.taxLots?.openLots || []).filter(lot => lot.ticker === ticker);
@@ -1,5 +1,5 @@
-import { Agent, Portfolio } from './types.js';
-import { AGENT_COLORS, UNIFIED_SYSTEM_PROMPT, INITIAL_CASH } from './constants.js';
+import { Agent, MarginConfig, ExecutionCostConfig, MarketModelConfig, LotReliefMethod, LlmProviderId, AgentToolConfig, WebhookAgentConfig, RiskRulesConfig, InstrumentType, ChatConfig, ExchangeId, ExtendedHoursConfig } from './types.js';
+import { AGENT_COLORS, UNIFIED_SYSTEM_PROMPT, INITIAL_CASH, DEFAULT_MARGIN_CONFIG, DEFAULT_RISK_RULES, MAX_POSITION_SIZE_PERCENT } from './constants.js';
 
 export interface TraderConfig {
   id: string;
@@ -8,6 +8,11 @@ export interface TraderConfig {
   systemPrompt?: string;
   color?: string;
   image?: string; // Path to agent image/logo
+  provider?: LlmProviderId; // 'openrouter' (default), 'openai' for OpenAI-compatible and local servers, or 'recorded'
+  baseUrl?: string; // Server for the 'openai' provider, e.g. http://localhost:11434/v1 for Ollama
+  tools?: AgentToolConfig; // Lets the model call research tools over several turns before it trades
+  inferenceBudget?: number; // USD of LLM spend after which the trader only holds
+  webhook?: WebhookAgentConfig; // Bot or human team that decides over HTTP instead of an LLM
 }
 
 export interface SimulationType {
@@ -17,6 +22,18 @@ export interface SimulationType {
   traderConfigs: TraderConfig[];
   chatEnabled: boolean;
   showModelNames: boolean;
+  margin?: MarginConfig; // Short selling and margin borrowing; cash-only when omitted or disabled
+  executionCost?: ExecutionCostConfig; // Spread and market impact on fills; DEFAULT_EXECUTION_COST_CONFIG when omitted
+  marketModel?: MarketModelConfig; // Simulated mode only: gives this arena its own price path instead of the shared one
+  lotRelief?: LotReliefMethod; // Which tax lots sells close; FIFO when omitted
+  riskRules?: RiskRulesConfig; // Pre-trade limits enforced on every order; none when omitted
+  instrumentTypes?: InstrumentType[]; // Asset classes the agents may trade; every class in the market data when omitted
+  universe?: string[]; // Tickers the agents may trade; everything in the market data when omitted
+  exchange?: ExchangeId; // Venue whose sessions apply to tickers without an exchange suffix; NYSE when omitted
+  extendedHours?: ExtendedHoursConfig; // Realtime pre-market and after-hours trading; regular session only when omitted
+  initialCash?: number; // Starting cash per agent; INITIAL_CASH when omitted
+  chat?: Partial<Omit<ChatConfig, 'enabled'>>; // Chat limits; the CHAT_* environment settings when omitted
+  source?: string; // Definition file for arenas loaded from ARENA_CONFIG_DIR
 }
 
 // Investing style prompts for the prompt variation simulation
@@ -162,6 +179,7 @@ Investment Approach:
 - Sell aggressively when markets seem euphoric
 - Focus on defensive, undervalued positions when you do invest
 - Wait for the "big short" opportunity - the bubble to burst
+- When short selling is enabled, short the most euphoric names instead of only sitting in cash
 - It's perfectly fine to hold 100% cash and wait
 
 Your goal is to preserve capital and wait for the right moment, avoiding participation in what you see as an overvalued market. All cash is not just acceptable - it's your preferred strategy.`;
@@ -294,7 +312,7 @@ const BLIND_TEST_CONFIGS: TraderConfig[] = [
   },
 ];
 
-const ALL_SIMULATION_TYPES: SimulationType[] = [
+const BUILT_IN_SIMULATION_TYPES: SimulationType[] = [
   {
     id: 'multi-model',
     name: 'Wall Street Arena',
@@ -302,6 +320,7 @@ const ALL_SIMULATION_TYPES: SimulationType[] = [
     traderConfigs: MULTI_MODEL_CONFIGS,
     chatEnabled: false,
     showModelNames: true,
+    riskRules: DEFAULT_RISK_RULES,
   },
   {
     id: 'model-sizes',
@@ -310,6 +329,7 @@ const ALL_SIMULATION_TYPES: SimulationType[] = [
     traderConfigs: OPENAI_MODEL_SIZES_CONFIGS,
     chatEnabled: false,
     showModelNames: true,
+    riskRules: DEFAULT_RISK_RULES,
   },
   {
     id: 'prompt-strategies',
@@ -318,6 +338,9 @@ const ALL_SIMULATION_TYPES: SimulationType[] = [
     traderConfigs: PROMPT_VARIATION_CONFIGS,
     chatEnabled: true,
     showModelNames: true,
+    margin: { ...DEFAULT_MARGIN_CONFIG, enabled: true },
+    // Personas set their own investment floor; the position cap applies to all of them
+    riskRules: { maxPositionWeight: MAX_POSITION_SIZE_PERCENT },
   },
   {
     id: 'blind-test',
@@ -326,6 +349,7 @@ const ALL_SIMULATION_TYPES: SimulationType[] = [
     traderConfigs: BLIND_TEST_CONFIGS,
     chatEnabled: false,
     showModelNames: false,
+    riskRules: DEFAULT_RISK_RULES,
   },
 ];
 
@@ -343,40 +367,52 @@ export const isSimulationEnabled = (simId: string): boolean => {
   return normalizedValue !== 'false' && normalizedValue !== '0' && normalizedValue !== 'no' && normalizedValue !== 'off';
 };
 
-export const SIMULATION_TYPES: SimulationType[] = ALL_SIMULATION_TYPES.filter(
-  simType => isSimulationEnabled(simType.id)
-);
+// Arenas loaded from definition files; a file replaces the built-in arena with the same id
+let fileSimulationTypes: SimulationType[] = [];
+
+export const setFileSimulationTypes = (types: SimulationType[]): void => {
+  fileSimulationTypes = types;
+};
+
+const getRegisteredSimulationTypes = (): SimulationType[] => {
+  const fileIds = new Set(fileSimulationTypes.map(simType => simType.id));
+  return [...BUILT_IN_SIMULATION_TYPES.filter(simType => !fileIds.has(simType.id)), ...fileSimulationTypes];
+};
+
+export const getSimulationTypes = (): SimulationType[] =>
+  getRegisteredSimulationTypes().filter(simType => isSimulationEnabled(simType.id));
 
 // Export all simulation types (including disabled ones) for API
 export const getAllSimulationTypes = (): Array<SimulationType & { enabled: boolean }> => {
-  return ALL_SIMULATION_TYPES.map(simType => ({
+  return getRegisteredSimulationTypes().map(simType => ({
     ...simType,
     enabled: isSimulationEnabled(simType.id),
   }));
 };
 
 // Helper function to create agents from configs
-const initialPortfolio: Portfolio = {
-  cash: INITIAL_CASH,
-  positions: {},
-};
-
-export const createAgentsFromConfigs = (configs: TraderConfig[]): Agent[] => {
+export const createAgentsFromConfigs = (configs: TraderConfig[], initialCash: number = INITIAL_CASH): Agent[] => {
   return configs.map((config, index) => ({
     id: config.id,
     name: config.name,
     model: config.model,
     color: config.color || AGENT_COLORS[index % AGENT_COLORS.length],
-    portfolio: { ...initialPortfolio, positions: {} },
+    portfolio: { cash: initialCash, positions: {} },
     tradeHistory: [],
     performanceHistory: [],
     rationale: 'Awaiting first trading day.',
     rationaleHistory: { 0: 'Awaiting first trading day.' },
     systemPrompt: config.systemPrompt || UNIFIED_SYSTEM_PROMPT,
     image: config.image,
+    provider: config.provider,
+    providerBaseUrl: config.baseUrl,
+    tools: config.tools,
+    webhook: config.webhook,
+    inferenceBudget: config.inferenceBudget,
+    initialCash: initialCash !== INITIAL_CASH ? initialCash : undefined,
   }));
 };
 
 export const getSimulationType = (id: string): SimulationType | undefined => {
-  return SIMULATION_TYPES.find((type) => type.id === id);
+  return getSimulationTypes().find((type) => type.id === id);
 };
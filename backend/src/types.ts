@@ -1,6 +1,15 @@
 // Shared types used by both web and backend
 // This file should be imported by both packages
 
+// Asset class of a tradable instrument; decides its trading hours, fees and lot size
+export type InstrumentType = 'equity' | 'etf' | 'bond_etf' | 'crypto' | 'fx';
+
+// Venue whose session hours and holidays apply to a listing
+export type ExchangeId = 'nyse' | 'lse' | 'xetra' | 'tse' | 'crypto';
+
+// NYSE session a fill happened in; pre-market and after-hours need ExtendedHoursConfig
+export type TradingSession = 'pre_market' | 'regular' | 'after_hours';
+
 export interface TickerData {
   ticker: string;
   price: number;
@@ -30,15 +39,31 @@ export interface TickerData {
   fiftyTwoWeekLow?: number;
   sector?: string;
   industry?: string;
+  instrumentType?: InstrumentType; // Inferred from the ticker when omitted (see simulation/instruments.ts)
+  exchange?: ExchangeId; // Listing venue; inferred from the ticker suffix when omitted (see simulation/exchanges.ts)
   longName?: string;
   shortName?: string;
+  corporateActions?: CorporateAction[]; // Actions taking effect at this day's open
 }
 
 export interface MarketData {
   [ticker: string]: TickerData;
 }
 
+export type CorporateActionType = 'split' | 'dividend' | 'delisting';
+
+// Split, cash dividend or delisting effective at the open of `date` (historical replay)
+export interface CorporateAction {
+  ticker: string;
+  type: CorporateActionType;
+  date: string; // YYYY-MM-DD
+  ratio?: number; // Split: new shares per old share (2 = 2-for-1, 0.1 = 1-for-10)
+  amount?: number; // Dividend: cash per share
+}
+
 export type TradeAction = 'buy' | 'sell' | 'hold';
+export type OrderType = 'market' | 'limit' | 'stop' | 'stop_limit';
+export type TimeInForce = 'day' | 'gtc' | 'ioc'; // Day order, good-til-cancelled, immediate-or-cancel
 
 export interface Trade {
   ticker: string;
@@ -51,20 +76,107 @@ export interface Trade {
   bottomOfBox?: number;
   justification?: string;
   fees?: number;
+  marginCall?: boolean; // Forced liquidation triggered by a maintenance margin breach
+  orderType?: OrderType; // Defaults to 'market' when omitted
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  orderId?: string; // Set when the fill came from a resting order
+  referencePrice?: number; // Quote the fill was priced from, before spread and market impact
+  slippage?: number; // Dollar cost of spread and market impact versus referencePrice
+  corporateAction?: CorporateActionType; // Synthetic entry recording a split, dividend or delisting
+  lotIds?: string[]; // Tax lots to relieve first under specific-ID relief
+  realizedPnl?: number; // Set on trades that closed lots, net of the fees on both legs
+  session?: TradingSession; // Set on realtime fills of exchange-traded instruments
 }
 
-export interface Position {
+// Resting (non-market) order waiting in an agent's order book
+export interface Order {
+  id: string;
+  agentId: string;
   ticker: string;
+  action: 'buy' | 'sell';
   quantity: number;
-  averageCost: number;
+  orderType: Exclude<OrderType, 'market'>;
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce: TimeInForce;
+  status: 'open' | 'triggered'; // 'triggered' = stop-limit whose stop has been hit, now resting as a limit
+  createdAt: number; // Simulation timestamp when the order was placed
+  createdDay: number;
+  triggeredAt?: number;
+  fairValue?: number;
+  topOfBox?: number;
+  bottomOfBox?: number;
+  justification?: string;
+}
+
+export interface OrderBooks {
+  [agentId: string]: Order[];
+}
+
+export interface Position {
+  ticker: string;
+  quantity: number; // Negative quantity = short position
+  averageCost: number; // Average entry price (for shorts: average price shares were sold at)
   lastFairValue?: number;
   lastTopOfBox?: number;
   lastBottomOfBox?: number;
 }
 
 export interface Portfolio {
-  cash: number;
+  cash: number; // Can go negative when margin is enabled (debit balance)
   positions: { [ticker: string]: Position };
+  borrowFeesPaid?: number; // Cumulative short borrow fees charged
+  marginInterestPaid?: number; // Cumulative interest charged on debit balances
+}
+
+export interface MarginConfig {
+  enabled: boolean;
+  initialMarginRate: number; // Equity required as a fraction of gross exposure to open new exposure
+  maintenanceMarginRate: number; // Equity below this fraction of gross exposure triggers a margin call
+  shortBorrowFeeRate: number; // Annualized fee on short market value
+  marginInterestRate: number; // Annualized interest on negative cash
+}
+
+// Opt-in pre-market (4:00-9:30 AM ET) and after-hours (until 8:00 PM ET) trading for NYSE listings
+export interface ExtendedHoursConfig {
+  enabled: boolean;
+  spreadMultiplier: number; // Multiple of the regular half-spread paid on extended-hours fills
+  liquidityFraction: number; // Extended-hours volume as a fraction of the regular session's; raises market impact
+}
+
+export type ExecutionCostModelName = 'none' | 'spread' | 'square_root';
+
+export interface ExecutionCostConfig {
+  model: ExecutionCostModelName;
+  halfSpreadBps: number; // Paid on every fill, in basis points of the quote
+  impactCoefficient: number; // Fractional price impact of trading 100% of average daily volume
+  maxImpactBps: number; // Cap on market impact for very large orders
+  feeBps?: number; // Commission on exchange-traded instruments; TRADING_FEE_RATE when omitted
+  minFee?: number; // Dollars per execution; MIN_TRADE_FEE when omitted
+}
+
+export type MarketModelName = 'gbm' | 'jump_diffusion' | 'regime_switching';
+
+export interface TickerDynamics {
+  drift: number; // Annualized expected return
+  volatility: number; // Annualized volatility
+}
+
+// Price process for simulated mode. Drift and volatility default by sector and can be overridden per ticker.
+export interface MarketModelConfig {
+  model: MarketModelName;
+  sectorCorrelation: number; // Return correlation between tickers in the same sector
+  crossSectorCorrelation: number; // Return correlation between tickers in different sectors
+  tickerDynamics?: Record<string, Partial<TickerDynamics>>;
+  jumpIntensity: number; // Expected jumps per ticker per year (jump_diffusion)
+  jumpMean: number; // Mean log jump size
+  jumpVolatility: number; // Standard deviation of log jump size
+  bullToBearProbability: number; // Daily regime switch probabilities (regime_switching)
+  bearToBullProbability: number;
+  bearDriftShift: number; // Added to annualized drift while in the bear regime
+  bearVolatilityMultiplier: number;
 }
 
 export type ChatSenderType = 'user' | 'agent';
@@ -106,6 +218,225 @@ export interface PerformanceMetrics {
   intradayHour?: number;
 }
 
+// Risk-adjusted performance versus the S&P 500 benchmark, from end-of-day values.
+// Ratios and return figures are annualized; null when there is not enough data.
+export interface PerformanceAnalytics {
+  tradingDays: number;
+  annualizedReturn: number;
+  annualizedVolatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  maxDrawdown: number;
+  beta: number | null;
+  alpha: number | null; // Jensen's alpha
+  trackingError: number | null;
+  informationRatio: number | null;
+  closedTrades: number; // Trades that reduced or closed a position
+  hitRate: number | null; // Share of closed trades with positive realized P&L
+  averageWin: number | null; // Mean realized P&L of winning trades, in dollars
+  averageLoss: number | null; // Mean realized P&L of losing trades (negative), in dollars
+}
+
+export interface SectorAttribution {
+  sector: string;
+  portfolioWeight: number; // Time-weighted share of starting capital invested in the sector
+  benchmarkWeight: number;
+  portfolioReturn: number; // Sector P&L over the capital invested in it
+  benchmarkReturn: number;
+  allocationEffect: number;
+  selectionEffect: number; // Includes the interaction term (Brinson-Fachler)
+}
+
+export interface TickerContribution {
+  ticker: string;
+  sector: string;
+  industry?: string;
+  quantity: number; // Open position, negative for shorts
+  realizedPnl: number; // Closed P&L and dividends, net of fees
+  unrealizedPnl: number;
+  contribution: number; // Total P&L as a fraction of starting capital
+}
+
+export interface PerformanceAttribution {
+  portfolioReturn: number;
+  benchmarkReturn: number; // S&P 500 return over the same period
+  excessReturn: number;
+  allocationEffect: number;
+  selectionEffect: number;
+  residual: number; // Excess return not explained by the sector effects (financing, universe vs index)
+  sectors: SectorAttribution[];
+  tickers: TickerContribution[];
+}
+
+// Monte Carlo tournament: one arena repeated over seeds and/or date windows, ranked by mean total return.
+// Confidence intervals and p-values come from a paired bootstrap over the runs.
+export interface TournamentStanding {
+  id: string;
+  name: string;
+  kind: 'agent' | 'benchmark';
+  rank: number;
+  tier: number; // Starts a new tier only where the entrant above is significantly ahead
+  runs: number;
+  meanReturn: number;
+  medianReturn: number;
+  stdReturn: number;
+  minReturn: number;
+  maxReturn: number;
+  confidenceInterval: [number, number]; // Of the mean return
+  winRate: number; // Share of head-to-head run results won against the rest of the field
+  significantlyAboveNext: boolean | null; // null for the last entrant
+}
+
+export interface TournamentPairwise {
+  a: string; // Ranked above b
+  b: string;
+  runs: number;
+  winRate: number; // Share of runs a finished ahead of b; ties count half
+  meanDifference: number; // Mean return of a minus b
+  confidenceInterval: [number, number];
+  pValue: number | null; // Two-sided; null with fewer than two shared runs
+  significant: boolean;
+}
+
+export interface TournamentRunReturns {
+  seed: number;
+  startDate?: string;
+  endDate?: string;
+  returns: Record<string, number>; // Total return per entrant id
+}
+
+export interface TournamentSummary {
+  id: string;
+  arenaId: string;
+  arenaName: string;
+  createdAt: string;
+  mode: 'historical' | 'simulated';
+  runs: number;
+  leaderId: string | null;
+}
+
+export interface TournamentResult extends TournamentSummary {
+  seeds: number[];
+  windows: Array<{ start: string; end?: string }>;
+  confidence: number;
+  bootstrapSamples: number;
+  dataset: string | null;
+  standings: TournamentStanding[];
+  pairwise: TournamentPairwise[];
+  runReturns: TournamentRunReturns[];
+}
+
+// How a reducing trade picks which tax lots it closes
+export type LotReliefMethod = 'fifo' | 'lifo' | 'specific';
+
+export interface TaxLot {
+  id: string;
+  ticker: string;
+  quantity: number; // Negative for short lots
+  costBasis: number; // Per share, including the opening fee (for shorts: net proceeds per share)
+  openedAt: number; // Trade timestamp the lot was opened at
+}
+
+export interface RealizedLot {
+  lotId: string;
+  ticker: string;
+  quantity: number; // Shares closed, negative for short lots
+  costBasis: number;
+  proceeds: number; // Per share, net of the closing fee
+  openedAt: number;
+  closedAt: number;
+  holdingDays: number; // Calendar days in realtime mode, simulation days otherwise
+  realizedPnl: number;
+}
+
+export interface TaxLotLedger {
+  method: LotReliefMethod;
+  openLots: TaxLot[];
+  realizedLots: RealizedLot[];
+  processedTrades: number; // tradeHistory entries already applied to the ledger
+  nextLotId: number;
+}
+
+// Backend that serves an agent's chat completions
+export type LlmProviderId = 'openrouter' | 'openai' | 'recorded';
+
+// Research functions a tool-calling agent can use before it commits trades
+export type AgentToolName = 'get_price_history' | 'get_fundamentals' | 'get_position' | 'get_sector_summary';
+
+// External HTTP endpoint that makes an agent's trading decisions instead of an LLM
+export interface WebhookAgentConfig {
+  url: string;
+  timeoutMs?: number; // Per decision, within the round's decision timeout (default 10000)
+  secretEnv?: string; // Env var holding the HMAC signing secret; WEBHOOK_AGENT_SECRET when omitted
+}
+
+// Tool-calling budget for one decision; agents without one get the single-shot prompt
+export interface AgentToolConfig {
+  maxCalls: number; // Tool calls across all turns
+  maxTurns?: number; // Model round trips per decision including the final one (default 4)
+  tools?: AgentToolName[]; // Tools offered to the model; all when omitted
+}
+
+// Tokens and dollar cost of one trading decision, across all of its model round trips
+export interface InferenceUsageRecord {
+  day: number;
+  intradayHour: number;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD from the model price table; 0 for unpriced (e.g. local) models
+  calls: number;
+}
+
+export interface InferenceUsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  calls: number;
+}
+
+export interface InferenceUsage extends InferenceUsageTotals {
+  rounds: InferenceUsageRecord[];
+}
+
+// Pre-trade limits checked on every order an agent places; fractions of portfolio value
+export interface RiskRulesConfig {
+  maxPositionWeight?: number; // Largest position, long or short
+  minInvestedFraction?: number; // Sells of long positions may not take stock holdings below this
+  maxSectorWeight?: number; // Gross exposure to a single sector
+  maxDailyTurnover?: number; // Traded notional per simulation day
+  restrictedTickers?: string[]; // Only closing trades are allowed
+}
+
+export type RiskRule = 'restrictedTicker' | 'maxPositionWeight' | 'minInvestedFraction' | 'maxSectorWeight' | 'maxDailyTurnover';
+
+export interface RiskViolation {
+  rule: RiskRule;
+  ticker: string;
+  action: 'buy' | 'sell';
+  requestedQuantity: number;
+  allowedQuantity: number; // 0 when the order was rejected, otherwise the size it was cut to
+  timestamp: number;
+  message: string;
+}
+
+// Running totals of the risk engine's interventions; the agent only keeps the latest violations themselves
+export interface RiskViolationCounts {
+  total: number;
+  rejected: number;
+  resized: number;
+  byRule: Partial<Record<RiskRule, number>>;
+}
+
+// How often an agent's raw decisions matched the decision schema
+export interface DecisionCompliance {
+  decisions: number;
+  compliant: number; // Valid JSON that passed the schema without repair
+  repaired: number; // Only parsed after fence stripping or truncation repair
+  fieldErrors: number;
+}
+
 export interface Agent {
   id: string;
   name: string;
@@ -117,6 +448,18 @@ export interface Agent {
   rationale: string;
   rationaleHistory: { [day: number]: string };
   image?: string; // Path to agent image/logo
+  provider?: LlmProviderId; // OpenRouter when omitted
+  providerBaseUrl?: string; // Overrides OPENAI_BASE_URL for the 'openai' provider
+  tools?: AgentToolConfig; // Multi-turn research before trading
+  webhook?: WebhookAgentConfig; // Decisions come from this endpoint; model is only a label
+  inferenceUsage?: InferenceUsage; // Token and dollar spend on trading decisions
+  inferenceBudget?: number; // USD; the agent only holds once its spend reaches this
+  decisionCompliance?: DecisionCompliance; // Schema reliability of its LLM decisions
+  riskViolations?: RiskViolation[]; // Latest orders the pre-trade risk engine resized or rejected
+  riskViolationCounts?: RiskViolationCounts; // Totals since the start, by rule
+  initialCash?: number; // Starting cash returns are measured against; INITIAL_CASH when omitted
+  retiredAt?: number; // Timestamp it was liquidated to cash; retired agents keep their history but stop trading
+  taxLots?: TaxLotLedger; // Lot-level cost basis and realized P&L, kept in step with tradeHistory
   memory?: {
     recentTrades: Trade[];
     pastRationales: string[];
@@ -129,6 +472,7 @@ export interface Benchmark {
   name: string;
   color: string;
   performanceHistory: PerformanceMetrics[];
+  initialCash?: number; // Starts at the arena's initial cash; INITIAL_CASH when omitted
   metadata?: {
     lastGspcPrice?: number;  // Track ^GSPC price for S&P 500 benchmark calculations
     [key: string]: any;
@@ -155,6 +499,7 @@ export interface YahooRateLimitStatus {
 
 export interface MarketDataTelemetry {
   sources: {
+    file: MarketDataSourceTelemetry;
     yahoo: MarketDataSourceTelemetry;
     alphaVantage: MarketDataSourceTelemetry;
     polygon: MarketDataSourceTelemetry;
@@ -180,6 +525,10 @@ export interface SimulationSnapshot {
   startDate?: string; // ISO date string when simulation started
   currentDate?: string; // ISO date string for current point in simulation
   chat: ChatState;
+  orderBooks?: OrderBooks; // Resting limit/stop orders per agent
+  seed?: number; // PRNG seed for generated prices and synthetic trades; replays the run exactly
+  startPrices?: { [ticker: string]: number }; // Prices at day 0, for benchmark sector returns
+  inferenceUsage?: InferenceUsageTotals; // Spend of all agents combined
   currentTimestamp?: number; // Timestamp in milliseconds for realtime mode
   lastUpdated: string;
   // Historical preload metadata (for saving historical data to preload in realtime mode)
@@ -0,0 +1,161 @@
+// Parse a model's JSON decision, repairing the usual failure modes: markdown fences,
+// output truncated mid-array and unterminated strings. Falls back to the rationale alone
+// with no trades, and throws only when not even a rationale can be recovered.
+export const parseDecisionJson = (jsonText: string, agentName: string): any => {
+  let result: any;
+  try {
+    result = JSON.parse(jsonText);
+  } catch (parseError) {
+    console.warn(`[${agentName}] Initial JSON parse failed, attempting repair. Error: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+    // Try to extract JSON from markdown code blocks
+    const jsonMatch = jsonText.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/);
+    if (jsonMatch) {
+      try {
+        result = JSON.parse(jsonMatch[1]);
+      } catch (e) {
+        // Continue to repair logic
+      }
+    }
+    
+    if (!result) {
+      // Find the start of JSON
+      const jsonStart = jsonText.indexOf('{');
+      if (jsonStart !== -1) {
+        let jsonCandidate = jsonText.substring(jsonStart);
+        
+        // Count braces to detect incomplete JSON
+        const openBraces = (jsonCandidate.match(/\{/g) || []).length;
+        const closeBraces = (jsonCandidate.match(/\}/g) || []).length;
+        const openBrackets = (jsonCandidate.match(/\[/g) || []).length;
+        const closeBrackets = (jsonCandidate.match(/\]/g) || []).length;
+        
+        // Repair incomplete JSON structure
+        if (openBraces > closeBraces || openBrackets > closeBrackets) {
+          // Check if trades array is incomplete
+          const tradesArrayStart = jsonCandidate.indexOf('"trades"');
+          if (tradesArrayStart !== -1) {
+            const tradesSection = jsonCandidate.substring(tradesArrayStart);
+            const tradesArrayMatch = tradesSection.match(/"trades"\s*:\s*\[/);
+            
+            if (tradesArrayMatch) {
+              // Find where the trades array should end
+              let arrayContent = tradesSection.substring(tradesArrayMatch.index! + tradesArrayMatch[0].length);
+              
+              // If array is incomplete, try to close it properly
+              if (!arrayContent.includes(']') || (arrayContent.match(/\[/g) || []).length > (arrayContent.match(/\]/g) || []).length) {
+                // Find the last complete trade object
+                const tradeObjects = arrayContent.match(/\{[^}]*"ticker"[^}]*\}/g);
+                if (tradeObjects && tradeObjects.length > 0) {
+                  // Use only complete trade objects
+                  const completeTrades = tradeObjects.filter(t => {
+                    try {
+                      JSON.parse(t);
+                      return true;
+                    } catch {
+                      return false;
+                    }
+                  });
+                  
+                  // Reconstruct JSON with only complete trades
+                  const rationaleMatch = jsonCandidate.match(/"rationale"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
+                  const rationale = rationaleMatch ? rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500) : 'Trading decision made.';
+                  
+                  result = {
+                    rationale: rationale,
+                    trades: completeTrades.map(t => {
+                      try {
+                        return JSON.parse(t);
+                      } catch {
+                        return null;
+                      }
+                    }).filter(t => t !== null)
+                  };
+                  
+                  // Add reply if present
+                  const replyMatch = jsonCandidate.match(/"reply"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
+                  if (replyMatch) {
+                    result.reply = replyMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 200);
+                  }
+                }
+              }
+            }
+          }
+          
+          // If still no result, try basic repair
+          if (!result) {
+            // Close incomplete strings in rationale
+            const rationaleMatch = jsonCandidate.match(/"rationale"\s*:\s*"([^"]*)/);
+            if (rationaleMatch && !jsonCandidate.includes(rationaleMatch[0] + '"')) {
+              const rationale = rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500);
+              jsonCandidate = jsonCandidate.replace(/"rationale"\s*:\s*"[^"]*/, `"rationale": "${rationale.replace(/"/g, '\\"')}"`);
+            }
+            
+            // Close brackets and braces
+            if (openBrackets > closeBrackets) {
+              jsonCandidate += ']'.repeat(openBrackets - closeBrackets);
+            }
+            if (openBraces > closeBraces) {
+              jsonCandidate += '}'.repeat(openBraces - closeBraces);
+            }
+            
+            try {
+              result = JSON.parse(jsonCandidate);
+            } catch (e) {
+              // Last resort: extract rationale and return empty trades
+              const rationaleMatch = jsonCandidate.match(/"rationale"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
+              if (rationaleMatch) {
+                result = {
+                  rationale: rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500),
+                  trades: []
+                };
+              }
+            }
+          }
+        } else {
+          // JSON structure seems complete, try parsing as-is
+          try {
+            result = JSON.parse(jsonCandidate);
+          } catch (e) {
+            // Extract rationale as fallback
+            const rationaleMatch = jsonCandidate.match(/"rationale"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
+            if (rationaleMatch) {
+              result = {
+                rationale: rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500),
+                trades: []
+              };
+            }
+          }
+        }
+      }
+    }
+    
+    // Final fallback: extract rationale and return empty trades
+    if (!result) {
+      const rationaleMatch = jsonText.match(/"rationale"\s*:\s*"([^"]*(?:\\.[^"]*)*)"/);
+      if (rationaleMatch) {
+        console.warn(`[${agentName}] JSON repair failed, using fallback: extracted rationale only`);
+        result = {
+          rationale: rationaleMatch[1].replace(/\\"/g, '"').replace(/\\n/g, ' ').substring(0, 500),
+          trades: []
+        };
+      } else {
+        console.error(`[${agentName}] Complete JSON parse failure. First 500 chars: ${jsonText.substring(0, 500)}`);
+        throw new Error(`Invalid JSON response from AI model. Received: ${jsonText.substring(0, 300)}...`);
+      }
+    } else {
+      console.log(`[${agentName}] JSON repair successful`);
+    }
+  }
+
+  return result;
+};
+
+// Whether the text parses as JSON as-is, without any of the repairs above
+export const isStrictJson = (jsonText: string): boolean => {
+  try {
+    JSON.parse(jsonText);
+    return true;
+  } catch {
+    return false;
+  }
+};
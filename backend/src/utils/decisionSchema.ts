@@ -0,0 +1,237 @@
+import type { Agent, DecisionCompliance } from '../types.js';
+
+// The subset of JSON Schema the decision payload needs
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: false; // Reject keys not listed in properties
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: readonly unknown[];
+  exclusiveMinimum?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+export interface DecisionValidationError {
+  path: string; // e.g. "trades[1].quantity"
+  message: string;
+  tradeIndex?: number;
+  ticker?: string;
+  action?: string;
+  quantity?: number;
+  rejectsTrade: boolean; // The trade cannot be placed without a valid value here
+}
+
+export interface DecisionValidation {
+  compliant: boolean; // Valid JSON that matched the schema without repair
+  repaired: boolean;
+  errors: DecisionValidationError[];
+}
+
+export const ORDER_TYPES = ['market', 'limit', 'stop', 'stop_limit'] as const;
+export const TIME_IN_FORCE_VALUES = ['day', 'gtc', 'ioc'] as const;
+
+// Invalid annotations (fairValue, justification, ...) are reported but the trade is still placed
+const ORDER_FIELDS = ['ticker', 'action', 'quantity', 'orderType', 'limitPrice', 'stopPrice', 'timeInForce'];
+
+const positivePrice: JsonSchema = { type: 'number', exclusiveMinimum: 0 };
+
+export const createTradeDecisionSchema = (tickers: string[]): JsonSchema => ({
+  type: 'object',
+  required: ['rationale', 'trades'],
+  properties: {
+    rationale: { type: 'string', minLength: 1 },
+    trades: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['ticker', 'action', 'quantity'],
+        properties: {
+          ticker: { type: 'string', enum: tickers },
+          action: { type: 'string', enum: ['buy', 'sell'] },
+          quantity: { type: 'integer', exclusiveMinimum: 0 },
+          fairValue: positivePrice,
+          topOfBox: positivePrice,
+          bottomOfBox: positivePrice,
+          justification: { type: 'string' },
+          orderType: { type: 'string', enum: ORDER_TYPES },
+          limitPrice: positivePrice,
+          stopPrice: positivePrice,
+          timeInForce: { type: 'string', enum: TIME_IN_FORCE_VALUES },
+          lotIds: { type: 'array', items: { type: 'string' } },
+        },
+      },
+    },
+    cancelOrderIds: { type: 'array', items: { type: 'string' } },
+    reply: { type: 'string' },
+  },
+});
+
+const describeValue = (value: unknown): string => {
+  const text = JSON.stringify(value);
+  return text === undefined ? String(value) : text.length > 40 ? `${text.slice(0, 40)}...` : text;
+};
+
+const getTypeError = (value: unknown, type: JsonSchema['type']): string | null => {
+  switch (type) {
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value) ? null : 'must be an object';
+    case 'array':
+      return Array.isArray(value) ? null : 'must be an array';
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+    case 'integer':
+      return Number.isInteger(value) ? null : 'must be a whole number';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true or false';
+    default:
+      return null;
+  }
+};
+
+export const validateSchema = (value: unknown, schema: JsonSchema, path: string = ''): Array<{ path: string; message: string }> => {
+  const at = path || '$';
+  const typeError = getTypeError(value, schema.type);
+  if (typeError) {
+    return [{ path: at, message: `${typeError} (got ${describeValue(value)})` }];
+  }
+
+  const errors: Array<{ path: string; message: string }> = [];
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({
+      path: at,
+      message: schema.enum.length <= 10
+        ? `must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')} (got ${describeValue(value)})`
+        : `${describeValue(value)} is not an allowed value`,
+    });
+  }
+  if (schema.exclusiveMinimum !== undefined && typeof value === 'number' && value <= schema.exclusiveMinimum) {
+    errors.push({ path: at, message: `must be greater than ${schema.exclusiveMinimum} (got ${value})` });
+  }
+  if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+    errors.push({ path: at, message: `must be at least ${schema.minimum} (got ${value})` });
+  }
+  if (schema.maximum !== undefined && typeof value === 'number' && value > schema.maximum) {
+    errors.push({ path: at, message: `must be at most ${schema.maximum} (got ${value})` });
+  }
+  if (schema.minLength !== undefined && typeof value === 'string' && value.trim().length < schema.minLength) {
+    errors.push({ path: at, message: 'must not be empty' });
+  }
+  if (schema.pattern !== undefined && typeof value === 'string' && !new RegExp(schema.pattern).test(value)) {
+    errors.push({ path: at, message: `must match ${schema.pattern} (got ${describeValue(value)})` });
+  }
+
+  if (schema.type === 'object' && value) {
+    const record = value as Record<string, unknown>;
+    (schema.required || []).forEach(key => {
+      if (record[key] === undefined || record[key] === null) {
+        errors.push({ path: path ? `${path}.${key}` : key, message: 'is required' });
+      }
+    });
+    Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+      if (record[key] !== undefined && record[key] !== null) {
+        errors.push(...validateSchema(record[key], propertySchema, path ? `${path}.${key}` : key));
+      }
+    });
+    if (schema.additionalProperties === false) {
+      Object.keys(record).filter(key => !schema.properties?.[key]).forEach(key => {
+        errors.push({ path: path ? `${path}.${key}` : key, message: 'is not a recognized field' });
+      });
+    }
+  }
+  if (schema.type === 'array' && schema.minItems !== undefined && (value as unknown[]).length < schema.minItems) {
+    errors.push({ path: at, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+  }
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+  return errors;
+};
+
+// Limit and stop orders need the price they rest at
+const validateOrderPrices = (trade: any, path: string): Array<{ path: string; message: string }> => {
+  const errors: Array<{ path: string; message: string }> = [];
+  if ((trade?.orderType === 'limit' || trade?.orderType === 'stop_limit') && trade.limitPrice === undefined) {
+    errors.push({ path: `${path}.limitPrice`, message: `is required for ${trade.orderType} orders` });
+  }
+  if ((trade?.orderType === 'stop' || trade?.orderType === 'stop_limit') && trade.stopPrice === undefined) {
+    errors.push({ path: `${path}.stopPrice`, message: `is required for ${trade.orderType} orders` });
+  }
+  return errors;
+};
+
+const TRADE_PATH = /^trades\[(\d+)\](?:\.(\w+))?/;
+
+// Validate a parsed decision against the schema for this round's tickers. `repaired` marks
+// responses that only parsed after fence stripping or truncation repair.
+export const validateTradeDecision = (decision: any, tickers: string[], repaired: boolean = false): DecisionValidation => {
+  const schemaErrors = validateSchema(decision, createTradeDecisionSchema(tickers));
+  const trades: any[] = Array.isArray(decision?.trades) ? decision.trades : [];
+  trades.forEach((trade, index) => schemaErrors.push(...validateOrderPrices(trade, `trades[${index}]`)));
+
+  const errors = schemaErrors.map<DecisionValidationError>(({ path, message }) => {
+    const match = path.match(TRADE_PATH);
+    if (!match) {
+      return { path, message, rejectsTrade: false };
+    }
+    const tradeIndex = Number(match[1]);
+    const trade = trades[tradeIndex];
+    return {
+      path,
+      message,
+      tradeIndex,
+      ticker: typeof trade?.ticker === 'string' ? trade.ticker : undefined,
+      action: typeof trade?.action === 'string' ? trade.action : undefined,
+      quantity: typeof trade?.quantity === 'number' ? trade.quantity : undefined,
+      rejectsTrade: !match[2] || ORDER_FIELDS.includes(match[2]),
+    };
+  });
+
+  return { compliant: !repaired && errors.length === 0, repaired, errors };
+};
+
+export const getRejectedTradeIndexes = (validation: DecisionValidation): Set<number> =>
+  new Set(validation.errors.filter(error => error.rejectsTrade && error.tradeIndex !== undefined).map(error => error.tradeIndex!));
+
+export const addDecisionCompliance = (
+  compliance: DecisionCompliance | undefined,
+  validation: DecisionValidation | undefined
+): DecisionCompliance | undefined => {
+  if (!validation) {
+    return compliance;
+  }
+  const current = compliance ?? { decisions: 0, compliant: 0, repaired: 0, fieldErrors: 0 };
+  return {
+    decisions: current.decisions + 1,
+    compliant: current.compliant + (validation.compliant ? 1 : 0),
+    repaired: current.repaired + (validation.repaired ? 1 : 0),
+    fieldErrors: current.fieldErrors + validation.errors.length,
+  };
+};
+
+// Schema compliance of every model in the arena, pooling agents that share a model
+export const getModelReliability = (agents: Agent[]): Array<DecisionCompliance & { model: string; agentIds: string[]; complianceRate: number | null }> => {
+  const byModel = new Map<string, DecisionCompliance & { agentIds: string[] }>();
+  agents.forEach(agent => {
+    const entry = byModel.get(agent.model) ?? { decisions: 0, compliant: 0, repaired: 0, fieldErrors: 0, agentIds: [] };
+    const compliance = agent.decisionCompliance;
+    byModel.set(agent.model, {
+      decisions: entry.decisions + (compliance?.decisions ?? 0),
+      compliant: entry.compliant + (compliance?.compliant ?? 0),
+      repaired: entry.repaired + (compliance?.repaired ?? 0),
+      fieldErrors: entry.fieldErrors + (compliance?.fieldErrors ?? 0),
+      agentIds: [...entry.agentIds, agent.id],
+    });
+  });
+  return Array.from(byModel.entries())
+    .map(([model, entry]) => ({ model, ...entry, complianceRate: entry.decisions > 0 ? entry.compliant / entry.decisions : null }))
+    .sort((a, b) => (b.complianceRate ?? -1) - (a.complianceRate ?? -1));
+};
@@ -0,0 +1,94 @@
+import type { Agent, InferenceUsage, InferenceUsageRecord, InferenceUsageTotals } from '../types.js';
+import { INITIAL_CASH } from '../constants.js';
+
+// USD per million tokens
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// OpenRouter list prices for the arena's models; update when providers reprice.
+// LLM_MODEL_PRICES adds or overrides entries, e.g. {"my/model": {"prompt": 0.5, "completion": 1.5}}
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'google/gemini-2.5-flash': { prompt: 0.3, completion: 2.5 },
+  'google/gemini-2.5-flash-lite': { prompt: 0.1, completion: 0.4 },
+  'google/gemini-2.5-pro': { prompt: 1.25, completion: 10 },
+  'anthropic/claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+  'openai/gpt-5-chat': { prompt: 1.25, completion: 10 },
+  'x-ai/grok-4-fast': { prompt: 0.2, completion: 0.5 },
+  'deepseek/deepseek-chat': { prompt: 0.3, completion: 0.85 },
+  'qwen/qwen-2.5-72b-instruct': { prompt: 0.12, completion: 0.39 },
+};
+
+const parseModelPrices = (value: string | undefined): Record<string, ModelPrice> => {
+  if (!value?.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Object.fromEntries(Object.entries(parsed ?? {}).filter(([, price]: [string, any]) =>
+      typeof price?.prompt === 'number' && typeof price?.completion === 'number')) as Record<string, ModelPrice>;
+  } catch (error) {
+    console.warn('Ignoring LLM_MODEL_PRICES: not valid JSON.');
+    return {};
+  }
+};
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  ...DEFAULT_MODEL_PRICES,
+  ...parseModelPrices(process.env.LLM_MODEL_PRICES),
+};
+
+// Variant suffixes (":free", ":nitro") price like the base model unless listed themselves
+export const getModelPrice = (model: string): ModelPrice | undefined =>
+  MODEL_PRICES[model] ?? MODEL_PRICES[model.split(':')[0]];
+
+export const getInferenceCost = (model: string, promptTokens: number, completionTokens: number): number => {
+  const price = getModelPrice(model);
+  if (!price) {
+    return 0;
+  }
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+};
+
+export const createInferenceUsage = (): InferenceUsage => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  cost: 0,
+  calls: 0,
+  rounds: [],
+});
+
+export const addInferenceUsage = (usage: InferenceUsage | undefined, record: InferenceUsageRecord | undefined): InferenceUsage | undefined => {
+  if (!record) {
+    return usage;
+  }
+  const current = usage ?? createInferenceUsage();
+  return {
+    promptTokens: current.promptTokens + record.promptTokens,
+    completionTokens: current.completionTokens + record.completionTokens,
+    cost: current.cost + record.cost,
+    calls: current.calls + record.calls,
+    rounds: [...current.rounds, record],
+  };
+};
+
+export const sumInferenceUsage = (agents: Agent[]): InferenceUsageTotals => agents.reduce<InferenceUsageTotals>((totals, agent) => ({
+  promptTokens: totals.promptTokens + (agent.inferenceUsage?.promptTokens ?? 0),
+  completionTokens: totals.completionTokens + (agent.inferenceUsage?.completionTokens ?? 0),
+  cost: totals.cost + (agent.inferenceUsage?.cost ?? 0),
+  calls: totals.calls + (agent.inferenceUsage?.calls ?? 0),
+}), { promptTokens: 0, completionTokens: 0, cost: 0, calls: 0 });
+
+export const isInferenceBudgetExhausted = (agent: Agent): boolean =>
+  agent.inferenceBudget !== undefined && (agent.inferenceUsage?.cost ?? 0) >= agent.inferenceBudget;
+
+// Dollars of P&L per dollar spent on inference; null until the agent has spent anything
+export const getReturnPerDollar = (agent: Agent): number | null => {
+  const cost = agent.inferenceUsage?.cost ?? 0;
+  const latest = agent.performanceHistory[agent.performanceHistory.length - 1];
+  if (cost <= 0 || !latest) {
+    return null;
+  }
+  return (latest.totalValue - (agent.initialCash ?? INITIAL_CASH)) / cost;
+};
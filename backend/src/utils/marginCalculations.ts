@@ -0,0 +1,61 @@
+import type { Portfolio, MarketData, MarginConfig } from '../types.js';
+import { TRADING_DAYS_PER_YEAR } from '../constants.js';
+
+export interface MarginSummary {
+  equity: number;
+  longMarketValue: number;
+  shortMarketValue: number; // Absolute value of short positions
+  grossExposure: number;
+  buyingPower: number; // Additional gross exposure that can be opened under the initial margin rate
+  maintenanceRequirement: number;
+  isMarginCall: boolean;
+}
+
+export const getMarginSummary = (
+  portfolio: Portfolio,
+  marketData: MarketData,
+  config: MarginConfig
+): MarginSummary => {
+  let longMarketValue = 0;
+  let shortMarketValue = 0;
+
+  Object.values(portfolio.positions).forEach(position => {
+    const price = marketData[position.ticker]?.price || 0;
+    const value = position.quantity * price;
+    if (value >= 0) {
+      longMarketValue += value;
+    } else {
+      shortMarketValue += -value;
+    }
+  });
+
+  const equity = portfolio.cash + longMarketValue - shortMarketValue;
+  const grossExposure = longMarketValue + shortMarketValue;
+  const buyingPower = Math.max(0, equity / config.initialMarginRate - grossExposure);
+  const maintenanceRequirement = grossExposure * config.maintenanceMarginRate;
+
+  return {
+    equity,
+    longMarketValue,
+    shortMarketValue,
+    grossExposure,
+    buyingPower,
+    maintenanceRequirement,
+    isMarginCall: grossExposure > 0 && equity < maintenanceRequirement,
+  };
+};
+
+// One trading day of financing: borrow fee on shorts plus interest on any debit balance
+export const calculateDailyFinancingCharges = (
+  portfolio: Portfolio,
+  marketData: MarketData,
+  config: MarginConfig
+): { borrowFee: number; marginInterest: number } => {
+  const { shortMarketValue } = getMarginSummary(portfolio, marketData, config);
+  const debitBalance = Math.max(0, -portfolio.cash);
+
+  return {
+    borrowFee: shortMarketValue * config.shortBorrowFeeRate / TRADING_DAYS_PER_YEAR,
+    marginInterest: debitBalance * config.marginInterestRate / TRADING_DAYS_PER_YEAR,
+  };
+};
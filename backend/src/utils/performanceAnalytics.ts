@@ -0,0 +1,157 @@
+import type { Agent, Benchmark, PerformanceAnalytics, PerformanceMetrics, Trade } from '../types.js';
+import { RISK_FREE_RATE, TRADING_DAYS_PER_YEAR } from '../constants.js';
+import { getDayIdentifier } from './portfolioCalculations.js';
+
+const DAILY_RISK_FREE_RATE = RISK_FREE_RATE / TRADING_DAYS_PER_YEAR;
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const standardDeviation = (values: number[]): number => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+const ratio = (numerator: number, denominator: number): number =>
+  denominator > 0 && Number.isFinite(numerator / denominator) ? numerator / denominator : 0;
+
+// Last value recorded on each day, keyed by day so agent and benchmark series can be aligned
+const getEndOfDayValues = (history: PerformanceMetrics[]): Map<string, number> => {
+  const values = new Map<string, number>();
+  history.forEach(entry => values.set(getDayIdentifier(entry.timestamp), entry.totalValue));
+  return values;
+};
+
+const toReturns = (values: number[]): number[] =>
+  values.slice(1).map((value, i) => (values[i] > 0 ? value / values[i] - 1 : 0));
+
+const getMaxDrawdown = (values: number[]): number => {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  values.forEach(value => {
+    peak = Math.max(peak, value);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - value) / peak);
+    }
+  });
+  return maxDrawdown;
+};
+
+export type TradeLedger = Map<string, { quantity: number; averageCost: number }>;
+
+// Apply one trade to a per-ticker ledger with the same average-cost accounting the engine uses.
+// Returns the gross P&L realized by the trade, or null if it did not reduce a position.
+export const applyTradeToLedger = (ledger: TradeLedger, trade: Trade): number | null => {
+  if (trade.action === 'hold' || trade.corporateAction === 'dividend') {
+    return null;
+  }
+
+  const position = ledger.get(trade.ticker) ?? { quantity: 0, averageCost: 0 };
+  const signedQuantity = trade.action === 'buy' ? trade.quantity : -trade.quantity;
+  const newQuantity = position.quantity + signedQuantity;
+
+  if (trade.corporateAction === 'split') {
+    // Share count changes, cost basis is restated, nothing is realized
+    if (position.quantity !== 0 && newQuantity !== 0) {
+      ledger.set(trade.ticker, { quantity: newQuantity, averageCost: position.averageCost * position.quantity / newQuantity });
+    } else {
+      ledger.delete(trade.ticker);
+    }
+    return null;
+  }
+
+  let realized: number | null = null;
+  if (position.quantity !== 0 && Math.sign(signedQuantity) !== Math.sign(position.quantity)) {
+    const closedQuantity = Math.min(Math.abs(signedQuantity), Math.abs(position.quantity));
+    realized = (trade.price - position.averageCost) * closedQuantity * Math.sign(position.quantity);
+  }
+
+  if (newQuantity === 0) {
+    ledger.delete(trade.ticker);
+  } else if (position.quantity === 0 || Math.sign(newQuantity) !== Math.sign(position.quantity)) {
+    ledger.set(trade.ticker, { quantity: newQuantity, averageCost: trade.price });
+  } else if (Math.abs(newQuantity) > Math.abs(position.quantity)) {
+    const aggregateCost = position.averageCost * Math.abs(position.quantity) + trade.price * Math.abs(signedQuantity);
+    ledger.set(trade.ticker, { quantity: newQuantity, averageCost: aggregateCost / Math.abs(newQuantity) });
+  } else {
+    ledger.set(trade.ticker, { quantity: newQuantity, averageCost: position.averageCost });
+  }
+
+  return realized;
+};
+
+// Realized P&L, net of the closing trade's fees, of every trade that reduced or closed a position
+export const getRealizedTradePnl = (trades: Trade[]): number[] => {
+  const ledger: TradeLedger = new Map();
+  const results: number[] = [];
+
+  trades.forEach(trade => {
+    const realized = applyTradeToLedger(ledger, trade);
+    if (realized !== null) {
+      results.push(realized - (trade.fees ?? 0));
+    }
+  });
+
+  return results;
+};
+
+export const calculatePerformanceAnalytics = (agent: Agent, benchmark?: Benchmark): PerformanceAnalytics => {
+  const agentValues = getEndOfDayValues(agent.performanceHistory);
+  const dailyValues = [...agentValues.values()];
+  const returns = toReturns(dailyValues);
+  const excessReturns = returns.map(r => r - DAILY_RISK_FREE_RATE);
+
+  const tradingDays = returns.length;
+  const growth = dailyValues.length > 1 && dailyValues[0] > 0 ? dailyValues[dailyValues.length - 1] / dailyValues[0] : 1;
+  const annualizedReturn = tradingDays > 0 ? growth ** (TRADING_DAYS_PER_YEAR / tradingDays) - 1 : 0;
+  const volatility = standardDeviation(returns);
+  const downsideDeviation = Math.sqrt(mean(excessReturns.map(r => Math.min(0, r) ** 2)));
+  const maxDrawdown = getMaxDrawdown(agent.performanceHistory.map(entry => entry.totalValue));
+
+  let beta: number | null = null;
+  let alpha: number | null = null;
+  let trackingError: number | null = null;
+  let informationRatio: number | null = null;
+
+  if (benchmark) {
+    const benchmarkValues = getEndOfDayValues(benchmark.performanceHistory);
+    const commonDays = [...agentValues.keys()].filter(day => benchmarkValues.has(day));
+    const agentReturns = toReturns(commonDays.map(day => agentValues.get(day)!));
+    const benchmarkReturns = toReturns(commonDays.map(day => benchmarkValues.get(day)!));
+
+    if (agentReturns.length >= 2) {
+      const agentMean = mean(agentReturns);
+      const benchmarkMean = mean(benchmarkReturns);
+      const covariance = mean(agentReturns.map((r, i) => (r - agentMean) * (benchmarkReturns[i] - benchmarkMean)));
+      const benchmarkVariance = mean(benchmarkReturns.map(r => (r - benchmarkMean) ** 2));
+      const activeReturns = agentReturns.map((r, i) => r - benchmarkReturns[i]);
+
+      beta = ratio(covariance, benchmarkVariance);
+      alpha = ((agentMean - DAILY_RISK_FREE_RATE) - beta * (benchmarkMean - DAILY_RISK_FREE_RATE)) * TRADING_DAYS_PER_YEAR;
+      trackingError = standardDeviation(activeReturns) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+      informationRatio = ratio(mean(activeReturns) * TRADING_DAYS_PER_YEAR, trackingError);
+    }
+  }
+
+  const tradePnl = getRealizedTradePnl(agent.tradeHistory);
+  const wins = tradePnl.filter(pnl => pnl > 0);
+  const losses = tradePnl.filter(pnl => pnl < 0);
+
+  return {
+    tradingDays,
+    annualizedReturn,
+    annualizedVolatility: volatility * Math.sqrt(TRADING_DAYS_PER_YEAR),
+    sharpeRatio: ratio(mean(excessReturns), volatility) * Math.sqrt(TRADING_DAYS_PER_YEAR),
+    sortinoRatio: ratio(mean(excessReturns), downsideDeviation) * Math.sqrt(TRADING_DAYS_PER_YEAR),
+    calmarRatio: ratio(annualizedReturn, maxDrawdown),
+    maxDrawdown,
+    beta,
+    alpha,
+    trackingError,
+    informationRatio,
+    closedTrades: tradePnl.length,
+    hitRate: tradePnl.length > 0 ? wins.length / tradePnl.length : null,
+    averageWin: wins.length > 0 ? mean(wins) : null,
+    averageLoss: losses.length > 0 ? mean(losses) : null,
+  };
+};
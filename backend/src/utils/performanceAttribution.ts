@@ -0,0 +1,190 @@
+import type {
+  Agent,
+  Benchmark,
+  MarketData,
+  PerformanceAttribution,
+  SectorAttribution,
+  TickerContribution,
+} from '../types.js';
+import { INITIAL_CASH } from '../constants.js';
+import { getTickerSector } from '../simulation/marketModels.js';
+import { applyTradeToLedger, type TradeLedger } from './performanceAnalytics.js';
+
+const UNCLASSIFIED_SECTOR = 'Other';
+const CASH_SECTOR = 'Cash';
+
+// Day-0 prices recorded on the snapshot so benchmark sector returns can be measured later
+export const getStartPrices = (marketData: MarketData): { [ticker: string]: number } =>
+  Object.fromEntries(Object.entries(marketData).map(([ticker, data]) => [ticker, data.price]));
+
+const getSector = (ticker: string, marketData: MarketData): string =>
+  getTickerSector(ticker, marketData[ticker]) || UNCLASSIFIED_SECTOR;
+
+const getPeriodReturn = (values: number[], base: number): number =>
+  values.length > 0 && base > 0 ? values[values.length - 1] / base - 1 : 0;
+
+interface TickerReplay {
+  realizedPnl: number;
+  exposure: number; // Integral of cost-basis exposure over time
+}
+
+// Replay the trade history once, accumulating realized P&L and how long capital sat in each ticker
+const replayTrades = (agent: Agent, start: number, end: number): Map<string, TickerReplay> => {
+  const ledger: TradeLedger = new Map();
+  const results = new Map<string, TickerReplay>();
+  const get = (ticker: string) => {
+    if (!results.has(ticker)) {
+      results.set(ticker, { realizedPnl: 0, exposure: 0 });
+    }
+    return results.get(ticker)!;
+  };
+
+  let clock = start;
+  const accrue = (until: number) => {
+    const dt = Math.max(0, Math.min(until, end) - clock);
+    if (dt > 0) {
+      ledger.forEach((position, ticker) => {
+        get(ticker).exposure += Math.abs(position.quantity) * position.averageCost * dt;
+      });
+    }
+    clock = Math.max(clock, Math.min(until, end));
+  };
+
+  [...agent.tradeHistory]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(trade => {
+      accrue(trade.timestamp);
+      const entry = get(trade.ticker);
+      if (trade.corporateAction === 'dividend') {
+        // Longs receive the dividend, shorts pay it
+        const side = Math.sign(ledger.get(trade.ticker)?.quantity ?? 0);
+        entry.realizedPnl += side * trade.quantity * trade.price;
+        return;
+      }
+      const realized = applyTradeToLedger(ledger, trade);
+      entry.realizedPnl += (realized ?? 0) - (trade.fees ?? 0);
+    });
+  accrue(end);
+
+  return results;
+};
+
+// Brinson-Fachler attribution of the agent's excess return over the S&P 500, plus per-ticker P&L.
+// The benchmark side is the arena's own universe (market-cap weighted when every ticker reports a cap),
+// bought and held from startPrices; the gap between that universe and the index lands in the residual.
+export const calculatePerformanceAttribution = (
+  agent: Agent,
+  marketData: MarketData,
+  startPrices: { [ticker: string]: number } = {},
+  benchmark?: Benchmark
+): PerformanceAttribution => {
+  const history = agent.performanceHistory;
+  const start = history[0]?.timestamp ?? 0;
+  const end = history[history.length - 1]?.timestamp ?? start;
+  const span = end - start;
+  const initialCash = agent.initialCash ?? INITIAL_CASH;
+
+  const portfolioReturn = getPeriodReturn(history.map(entry => entry.totalValue), initialCash);
+  const benchmarkValues = benchmark?.performanceHistory.map(entry => entry.totalValue) ?? [];
+  const benchmarkReturn = getPeriodReturn(benchmarkValues, benchmarkValues[0] ?? 0);
+
+  // Per-ticker contribution
+  const replay = replayTrades(agent, start, end);
+  const tickers: TickerContribution[] = [...new Set([...replay.keys(), ...Object.keys(agent.portfolio.positions)])]
+    .map(ticker => {
+      const position = agent.portfolio.positions[ticker];
+      const price = marketData[ticker]?.price ?? position?.averageCost ?? 0;
+      const realizedPnl = replay.get(ticker)?.realizedPnl ?? 0;
+      const unrealizedPnl = position ? (price - position.averageCost) * position.quantity : 0;
+      return {
+        ticker,
+        sector: getSector(ticker, marketData),
+        industry: marketData[ticker]?.industry,
+        quantity: position?.quantity ?? 0,
+        realizedPnl,
+        unrealizedPnl,
+        contribution: (realizedPnl + unrealizedPnl) / initialCash,
+      };
+    })
+    .sort((a, b) => b.contribution - a.contribution);
+
+  // Portfolio sector weights and returns
+  const portfolioSectors = new Map<string, { weight: number; pnl: number }>();
+  tickers.forEach(contribution => {
+    const replayed = replay.get(contribution.ticker);
+    // Without elapsed time, fall back to the current cost basis as the weight
+    const exposure = span > 0
+      ? (replayed?.exposure ?? 0) / span
+      : Math.abs(contribution.quantity) * (agent.portfolio.positions[contribution.ticker]?.averageCost ?? 0);
+    const sector = portfolioSectors.get(contribution.sector) ?? { weight: 0, pnl: 0 };
+    sector.weight += exposure / initialCash;
+    sector.pnl += contribution.realizedPnl + contribution.unrealizedPnl;
+    portfolioSectors.set(contribution.sector, sector);
+  });
+
+  // Benchmark sector weights and buy-and-hold returns
+  const universe = Object.keys(marketData).filter(ticker => !ticker.startsWith('^') && startPrices[ticker] > 0);
+  const capWeighted = universe.length > 0 && universe.every(ticker => (marketData[ticker].marketCap ?? 0) > 0);
+  const totalWeight = universe.reduce((sum, ticker) => sum + (capWeighted ? marketData[ticker].marketCap! : 1), 0);
+  const benchmarkSectors = new Map<string, { weight: number; weightedReturn: number }>();
+  universe.forEach(ticker => {
+    const weight = (capWeighted ? marketData[ticker].marketCap! : 1) / totalWeight;
+    const sector = benchmarkSectors.get(getSector(ticker, marketData)) ?? { weight: 0, weightedReturn: 0 };
+    sector.weight += weight;
+    sector.weightedReturn += weight * (marketData[ticker].price / startPrices[ticker] - 1);
+    benchmarkSectors.set(getSector(ticker, marketData), sector);
+  });
+  const universeReturn = [...benchmarkSectors.values()].reduce((sum, sector) => sum + sector.weightedReturn, 0);
+
+  const investedWeight = [...portfolioSectors.values()].reduce((sum, sector) => sum + sector.weight, 0);
+  const sectorNames = [...new Set([...benchmarkSectors.keys(), ...portfolioSectors.keys()])];
+
+  const sectors: SectorAttribution[] = sectorNames.map(name => {
+    const portfolio = portfolioSectors.get(name) ?? { weight: 0, pnl: 0 };
+    const bench = benchmarkSectors.get(name);
+    const benchmarkWeight = bench?.weight ?? 0;
+    // Sectors outside the universe are measured against the universe as a whole
+    const sectorBenchmarkReturn = bench && bench.weight > 0 ? bench.weightedReturn / bench.weight : universeReturn;
+    const sectorPortfolioReturn = portfolio.weight > 0 ? portfolio.pnl / (portfolio.weight * initialCash) : 0;
+    return {
+      sector: name,
+      portfolioWeight: portfolio.weight,
+      benchmarkWeight,
+      portfolioReturn: sectorPortfolioReturn,
+      benchmarkReturn: sectorBenchmarkReturn,
+      allocationEffect: (portfolio.weight - benchmarkWeight) * (sectorBenchmarkReturn - universeReturn),
+      selectionEffect: portfolio.weight * (sectorPortfolioReturn - sectorBenchmarkReturn),
+    };
+  });
+
+  // Uninvested (or borrowed) capital earns nothing against the fully invested benchmark
+  const cashWeight = 1 - investedWeight;
+  if (Math.abs(cashWeight) > 1e-9) {
+    sectors.push({
+      sector: CASH_SECTOR,
+      portfolioWeight: cashWeight,
+      benchmarkWeight: 0,
+      portfolioReturn: 0,
+      benchmarkReturn: 0,
+      allocationEffect: cashWeight * -universeReturn,
+      selectionEffect: 0,
+    });
+  }
+
+  sectors.sort((a, b) => (b.allocationEffect + b.selectionEffect) - (a.allocationEffect + a.selectionEffect));
+
+  const allocationEffect = sectors.reduce((sum, sector) => sum + sector.allocationEffect, 0);
+  const selectionEffect = sectors.reduce((sum, sector) => sum + sector.selectionEffect, 0);
+  const excessReturn = portfolioReturn - benchmarkReturn;
+
+  return {
+    portfolioReturn,
+    benchmarkReturn,
+    excessReturn,
+    allocationEffect,
+    selectionEffect,
+    residual: excessReturn - allocationEffect - selectionEffect,
+    sectors,
+    tickers,
+  };
+};
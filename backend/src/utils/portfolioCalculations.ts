@@ -1,7 +1,7 @@
 import type { Portfolio, MarketData, PerformanceMetrics, Trade } from '../types.js';
 import { INITIAL_CASH, RISK_FREE_RATE, TRADING_DAYS_PER_YEAR } from '../constants.js';
 
-const getDayIdentifier = (timestamp: number): string => {
+export const getDayIdentifier = (timestamp: number): string => {
   if (!Number.isFinite(timestamp)) {
     return 'unknown';
   }
@@ -27,11 +27,12 @@ export const calculateAllMetrics = (
   marketData: MarketData,
   history: PerformanceMetrics[],
   timestamp: number,
-  dailyTrades: Trade[] = []
+  dailyTrades: Trade[] = [],
+  initialCash: number = INITIAL_CASH
 ): PerformanceMetrics => {
   // Calculate total portfolio value using current prices - this is the robust approach
   const totalValue = calculatePortfolioValue(portfolio, marketData);
-  const totalReturn = (totalValue / INITIAL_CASH) - 1;
+  const totalReturn = (totalValue / initialCash) - 1;
 
   // Calculate daily return: use the previous entry's totalValue (which is based on prices)
   // This is simpler and more robust than trying to find "different day" entries
@@ -76,7 +77,10 @@ export const calculateAllMetrics = (
     }
   });
 
-  const tradedValue = dailyTrades.reduce((acc, trade) => acc + trade.quantity * trade.price, 0);
+  // Split and dividend entries are bookkeeping, not traded value
+  const tradedValue = dailyTrades
+    .filter(trade => trade.corporateAction !== 'split' && trade.corporateAction !== 'dividend')
+    .reduce((acc, trade) => acc + trade.quantity * trade.price, 0);
   const turnover = totalValue > 0 ? tradedValue / totalValue : 0;
 
   return {
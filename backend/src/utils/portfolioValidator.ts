@@ -590,8 +590,9 @@ const validateSinglePortfolio = (
 
   // 4. Check for invalid positions
   for (const position of Object.values(agent.portfolio.positions)) {
-    if (position.quantity < 0) {
-      errors.push(`Negative position quantity for ${position.ticker}: ${position.quantity}`);
+    // Negative quantities are short positions (margin-enabled simulations)
+    if (!Number.isFinite(position.quantity) || position.quantity === 0) {
+      errors.push(`Invalid position quantity for ${position.ticker}: ${position.quantity}`);
     }
     if (position.averageCost <= 0) {
       errors.push(`Invalid average cost for ${position.ticker}: ${position.averageCost}`);
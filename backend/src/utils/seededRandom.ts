@@ -0,0 +1,30 @@
+// Deterministic random numbers for simulated market data and synthetic trades.
+// Each generator is derived from the run seed plus a key (e.g. day and hour), so a
+// tick can be regenerated on its own without replaying every earlier draw.
+
+export type RandomSource = () => number;
+
+// FNV-1a hash of the seed and key parts, used as the generator's starting state
+const hashKey = (seed: number, keys: Array<string | number>): number => {
+  const input = [seed, ...keys].join(':');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: small, fast and good enough for price noise
+export const createSeededRandom = (seed: number, ...keys: Array<string | number>): RandomSource => {
+  let state = hashKey(seed, keys);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const generateSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,139 @@
+import type { TournamentPairwise, TournamentStanding } from '../types.js';
+import { createSeededRandom } from './seededRandom.js';
+
+export interface TournamentEntrant {
+  id: string;
+  name: string;
+  kind: 'agent' | 'benchmark';
+}
+
+export interface TournamentStatsOptions {
+  bootstrapSamples?: number; // 2000 when omitted
+  confidence?: number; // 0.95 when omitted
+  seed?: number; // Resampling seed, so the same runs always give the same intervals
+}
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1));
+};
+
+const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// Sorted means of the values over each bootstrap resample, for percentile intervals
+const bootstrapMeans = (values: number[], resamples: number[][]): number[] =>
+  resamples.map(indices => mean(indices.map(i => values[i]))).sort((a, b) => a - b);
+
+// Rank entrants by mean total return across the runs and test each pair with a paired bootstrap over runs.
+// `runs` holds one map of entrant id -> total return per repetition; entrants missing from a run skip it.
+// p-values are per comparison and not corrected for the number of pairs.
+export const calculateTournamentStats = (
+  entrants: TournamentEntrant[],
+  runs: Array<Record<string, number>>,
+  options: TournamentStatsOptions = {}
+): { standings: TournamentStanding[]; pairwise: TournamentPairwise[] } => {
+  const bootstrapSamples = options.bootstrapSamples ?? 2000;
+  const confidence = options.confidence ?? 0.95;
+  const alpha = 1 - confidence;
+  const random = createSeededRandom(options.seed ?? 0, 'tournament-bootstrap');
+
+  // Resampled run positions are drawn once per run count and shared by every entrant and pair
+  const resamplesFor = new Map<number, number[][]>();
+  const getResamples = (count: number): number[][] => {
+    let resamples = resamplesFor.get(count);
+    if (!resamples) {
+      resamples = Array.from({ length: bootstrapSamples }, () =>
+        Array.from({ length: count }, () => Math.floor(random() * count)));
+      resamplesFor.set(count, resamples);
+    }
+    return resamples;
+  };
+
+  const returnsOf = (id: string): number[] =>
+    runs.filter(run => run[id] !== undefined).map(run => run[id]);
+
+  const ranked = entrants
+    .map(entrant => ({ entrant, returns: returnsOf(entrant.id) }))
+    .filter(entry => entry.returns.length > 0)
+    .sort((a, b) => mean(b.returns) - mean(a.returns));
+
+  const compare = (a: string, b: string): TournamentPairwise => {
+    const shared = runs.filter(run => run[a] !== undefined && run[b] !== undefined);
+    const differences = shared.map(run => run[a] - run[b]);
+    const wins = differences.reduce((sum, difference) => sum + (difference > 0 ? 1 : difference === 0 ? 0.5 : 0), 0);
+
+    if (differences.length < 2) {
+      const difference = differences[0] ?? 0;
+      return { a, b, runs: differences.length, winRate: differences.length > 0 ? wins : 0, meanDifference: difference, confidenceInterval: [difference, difference], pValue: null, significant: false };
+    }
+
+    const means = bootstrapMeans(differences, getResamples(differences.length));
+    const below = means.filter(value => value <= 0).length / means.length;
+    const above = means.filter(value => value >= 0).length / means.length;
+    const pValue = Math.min(1, 2 * Math.min(below, above));
+    return {
+      a,
+      b,
+      runs: differences.length,
+      winRate: wins / differences.length,
+      meanDifference: mean(differences),
+      confidenceInterval: [quantile(means, alpha / 2), quantile(means, 1 - alpha / 2)],
+      pValue,
+      significant: pValue < alpha,
+    };
+  };
+
+  const pairwise: TournamentPairwise[] = [];
+  ranked.forEach((higher, i) => {
+    ranked.slice(i + 1).forEach(lower => pairwise.push(compare(higher.entrant.id, lower.entrant.id)));
+  });
+  const findPair = (a: string, b: string) => pairwise.find(pair => pair.a === a && pair.b === b);
+
+  let tier = 1;
+  const standings = ranked.map(({ entrant, returns }, i): TournamentStanding => {
+    if (i > 0 && findPair(ranked[i - 1].entrant.id, entrant.id)?.significant) {
+      tier += 1;
+    }
+    const sorted = [...returns].sort((a, b) => a - b);
+    const means = bootstrapMeans(returns, getResamples(returns.length));
+    // Head-to-head record against everyone else, weighted by shared runs
+    const headToHead = pairwise
+      .filter(pair => pair.a === entrant.id || pair.b === entrant.id)
+      .map(pair => ({ runs: pair.runs, won: (pair.a === entrant.id ? pair.winRate : 1 - pair.winRate) * pair.runs }));
+    const headToHeadRuns = headToHead.reduce((sum, entry) => sum + entry.runs, 0);
+    const next = ranked[i + 1];
+
+    return {
+      id: entrant.id,
+      name: entrant.name,
+      kind: entrant.kind,
+      rank: i + 1,
+      tier,
+      runs: returns.length,
+      meanReturn: mean(returns),
+      medianReturn: quantile(sorted, 0.5),
+      stdReturn: standardDeviation(returns),
+      minReturn: sorted[0],
+      maxReturn: sorted[sorted.length - 1],
+      confidenceInterval: [quantile(means, alpha / 2), quantile(means, 1 - alpha / 2)],
+      winRate: headToHeadRuns > 0 ? headToHead.reduce((sum, entry) => sum + entry.won, 0) / headToHeadRuns : 0,
+      significantlyAboveNext: next ? findPair(entrant.id, next.entrant.id)!.significant : null,
+    };
+  });
+
+  return { standings, pairwise };
+};
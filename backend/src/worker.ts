@@ -6,7 +6,7 @@
 import 'dotenv/config';
 import { simulationManager } from './simulation/SimulationManager.js';
 import { createInitialMarketData } from './services/marketDataService.js';
-import { S_P500_TICKERS } from './constants.js';
+import { ARENA_TICKERS } from './constants.js';
 import { logger, LogLevel, LogCategory } from './services/logger.js';
 import { startMultiSimScheduler, stopMultiSimScheduler } from './simulation/multiSimScheduler.js';
 
@@ -39,10 +39,10 @@ const startWorker = async (): Promise<void> => {
 
     // Initialize all simulations
     logger.logSimulationEvent('Initializing multi-simulation framework', {
-      tickers: S_P500_TICKERS.length,
+      tickers: ARENA_TICKERS.length,
     });
 
-    const initialMarketData = await createInitialMarketData(S_P500_TICKERS);
+    const initialMarketData = await createInitialMarketData(ARENA_TICKERS);
     await simulationManager.initializeAll(initialMarketData);
 
     logger.logSimulationEvent('All simulations initialized', {
@@ -1,8 +1,9 @@
-import React from 'react';
-import type { Agent, Position } from '../types';
+import React, { useEffect, useState } from 'react';
+import type { Agent, Position, PerformanceAnalytics, PerformanceAttribution } from '../types';
 import { PerformanceChart } from './PerformanceChart';
 import { XMarkIcon } from './icons/Icons';
 import { getAgentDisplayName } from '../utils/modelNameFormatter';
+import { getApiBaseUrl } from '../utils/apiConfig';
 
 interface AgentDetailViewProps {
   agent: Agent;
@@ -13,6 +14,7 @@ interface AgentDetailViewProps {
   simulationMode?: 'simulated' | 'realtime' | 'historical' | 'hybrid';
   showModelName?: boolean;
   simulationTypeName?: string;
+  simulationTypeId?: string; // Enables the risk analytics and attribution panels
 }
 
 const StatCard: React.FC<{ label: string; value: string; className?: string }> = ({ label, value, className = '' }) => (
@@ -21,7 +23,38 @@ const StatCard: React.FC<{ label: string; value: string; className?: string }> =
         <p className={`text-xl font-bold ${className}`}>{value}</p>
     </div>
 );
-export const AgentDetailView: React.FC<AgentDetailViewProps> = ({ agent, onClose, marketData = {}, startDate, currentDate, simulationMode, showModelName = true, simulationTypeName }) => {
+const formatPercent = (value: number | null) => value === null ? '-' : `${(value * 100).toFixed(2)}%`;
+const formatRatio = (value: number | null) => value === null ? '-' : value.toFixed(2);
+const formatDollars = (value: number | null) => value === null ? '-' : `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+
+export const AgentDetailView: React.FC<AgentDetailViewProps> = ({ agent, onClose, marketData = {}, startDate, currentDate, simulationMode, showModelName = true, simulationTypeName, simulationTypeId }) => {
+    const [analytics, setAnalytics] = useState<PerformanceAnalytics | null>(null);
+    const [attribution, setAttribution] = useState<PerformanceAttribution | null>(null);
+
+    useEffect(() => {
+      if (!simulationTypeId) {
+        return;
+      }
+      let cancelled = false;
+      const fetchAgentStats = async <T,>(path: string, apply: (data: T) => void) => {
+        try {
+          const response = await fetch(`${getApiBaseUrl()}/api/simulations/${simulationTypeId}/agents/${agent.id}/${path}`);
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          const data = await response.json();
+          if (!cancelled) {
+            apply(data);
+          }
+        } catch (err) {
+          console.warn(`Failed to load agent ${path}:`, err);
+        }
+      };
+      fetchAgentStats<{ analytics: PerformanceAnalytics }>('analytics', data => setAnalytics(data.analytics));
+      fetchAgentStats<{ attribution: PerformanceAttribution }>('attribution', data => setAttribution(data.attribution));
+      return () => { cancelled = true; };
+    }, [simulationTypeId, agent.id]);
+
     const latestPerf = agent.performanceHistory[agent.performanceHistory.length - 1];
     const positions = Object.values(agent.portfolio.positions).filter((p: Position) => p.quantity > 0);
     
@@ -135,6 +168,86 @@ export const AgentDetailView: React.FC<AgentDetailViewProps> = ({ agent, onClose
                     <StatCard label="Max Drawdown" value={`${((latestPerf?.maxDrawdown ?? 0) * 100).toFixed(2)}%`} className="text-brand-negative"/>
                 </div>
 
+                {/* Risk Analytics */}
+                {analytics && (
+                    <div className="md:col-span-2">
+                        <h3 className="text-lg font-semibold mb-2">Risk Analytics <span className="text-sm font-normal text-arena-text-secondary">vs S&amp;P 500, {analytics.tradingDays} trading days</span></h3>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                            <StatCard label="Sortino Ratio" value={formatRatio(analytics.sortinoRatio)} />
+                            <StatCard label="Calmar Ratio" value={formatRatio(analytics.calmarRatio)} />
+                            <StatCard label="Beta" value={formatRatio(analytics.beta)} />
+                            <StatCard label="Alpha (ann.)" value={formatPercent(analytics.alpha)} className={(analytics.alpha ?? 0) >= 0 ? 'text-brand-positive' : 'text-brand-negative'} />
+                            <StatCard label="Tracking Error" value={formatPercent(analytics.trackingError)} />
+                            <StatCard label="Information Ratio" value={formatRatio(analytics.informationRatio)} />
+                            <StatCard label={`Hit Rate (${analytics.closedTrades} closed)`} value={formatPercent(analytics.hitRate)} />
+                            <StatCard label="Avg Win / Loss" value={`${formatDollars(analytics.averageWin)} / ${formatDollars(analytics.averageLoss)}`} />
+                        </div>
+                    </div>
+                )}
+
+                {/* Performance Attribution */}
+                {attribution && (
+                    <div className="md:col-span-2">
+                        <h3 className="text-lg font-semibold mb-2">Performance Attribution <span className="text-sm font-normal text-arena-text-secondary">excess return {formatPercent(attribution.excessReturn)} vs S&amp;P 500</span></h3>
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-4">
+                            <StatCard label="Allocation" value={formatPercent(attribution.allocationEffect)} className={attribution.allocationEffect >= 0 ? 'text-brand-positive' : 'text-brand-negative'} />
+                            <StatCard label="Selection" value={formatPercent(attribution.selectionEffect)} className={attribution.selectionEffect >= 0 ? 'text-brand-positive' : 'text-brand-negative'} />
+                            <StatCard label="Residual" value={formatPercent(attribution.residual)} />
+                            <StatCard label="Agent / S&P 500" value={`${formatPercent(attribution.portfolioReturn)} / ${formatPercent(attribution.benchmarkReturn)}`} />
+                        </div>
+                        <div className="bg-arena-bg rounded-lg overflow-x-auto mb-4">
+                            <table className="w-full text-sm text-left">
+                                <thead className="bg-gray-900 text-arena-text-secondary">
+                                    <tr>
+                                        <th className="p-3">Sector</th>
+                                        <th className="p-3 text-right">Weight (Agent / Bench)</th>
+                                        <th className="p-3 text-right">Return (Agent / Bench)</th>
+                                        <th className="p-3 text-right">Allocation</th>
+                                        <th className="p-3 text-right">Selection</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-arena-border">
+                                    {attribution.sectors.map(sector => (
+                                        <tr key={sector.sector}>
+                                            <td className="p-3">{sector.sector}</td>
+                                            <td className="p-3 font-mono text-right">{formatPercent(sector.portfolioWeight)} / {formatPercent(sector.benchmarkWeight)}</td>
+                                            <td className="p-3 font-mono text-right">{formatPercent(sector.portfolioReturn)} / {formatPercent(sector.benchmarkReturn)}</td>
+                                            <td className={`p-3 font-mono text-right ${sector.allocationEffect >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPercent(sector.allocationEffect)}</td>
+                                            <td className={`p-3 font-mono text-right ${sector.selectionEffect >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPercent(sector.selectionEffect)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="bg-arena-bg rounded-lg overflow-x-auto">
+                            <table className="w-full text-sm text-left">
+                                <thead className="bg-gray-900 text-arena-text-secondary">
+                                    <tr>
+                                        <th className="p-3">Ticker</th>
+                                        <th className="p-3">Sector</th>
+                                        <th className="p-3 text-right">Realized</th>
+                                        <th className="p-3 text-right">Unrealized</th>
+                                        <th className="p-3 text-right">Contribution</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-arena-border">
+                                    {attribution.tickers.length > 0 ? attribution.tickers.map(ticker => (
+                                        <tr key={ticker.ticker}>
+                                            <td className="p-3 font-mono">{ticker.ticker}</td>
+                                            <td className="p-3 text-arena-text-secondary">{ticker.industry ? `${ticker.sector} · ${ticker.industry}` : ticker.sector}</td>
+                                            <td className="p-3 font-mono text-right">{formatDollars(ticker.realizedPnl)}</td>
+                                            <td className="p-3 font-mono text-right">{formatDollars(ticker.unrealizedPnl)}</td>
+                                            <td className={`p-3 font-mono text-right ${ticker.contribution >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPercent(ticker.contribution)}</td>
+                                        </tr>
+                                    )) : (
+                                        <tr><td colSpan={5} className="p-4 text-center text-arena-text-secondary">No trades yet.</td></tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+
                 {/* Rationale */}
                 <div className="md:col-span-2 bg-arena-bg p-4 rounded-lg">
                     <h3 className="text-lg font-semibold mb-2">Latest Rationale</h3>
@@ -2,6 +2,7 @@ import React, { useState, useMemo } from 'react';
 import type { Agent, PerformanceMetrics } from '../types';
 import { getAgentDisplayName } from '../utils/modelNameFormatter';
 import { InformationCircleIcon } from './icons/Icons';
+import { INITIAL_CASH } from '../constants';
 
 interface LeaderboardProps {
   agents: Agent[];
@@ -10,7 +11,7 @@ interface LeaderboardProps {
   simulationTypeName?: string;
 }
 
-type SortKey = keyof PerformanceMetrics | 'name';
+type SortKey = keyof PerformanceMetrics | 'name' | 'returnPerDollar';
 
 const formatPercent = (value: number | null | undefined) => {
   if (value == null || isNaN(value)) return '0.00%';
@@ -25,6 +26,21 @@ const formatValue = (value: number | null | undefined) => {
   return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 };
 
+// Dollars of P&L per dollar spent on LLM inference; null until the agent has spent anything
+const getReturnPerDollar = (agent: Agent): number | null => {
+  const cost = agent.inferenceUsage?.cost ?? 0;
+  const latest = agent.performanceHistory[agent.performanceHistory.length - 1];
+  if (cost <= 0 || !latest) return null;
+  return (latest.totalValue - INITIAL_CASH) / cost;
+};
+const formatReturnPerDollar = (value: number | null | undefined) => {
+  if (value == null || isNaN(value)) return '—';
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+};
+
+const returnPerDollarColumn: { key: SortKey; label: string; format: (val: any) => string; className?: string } =
+  { key: 'returnPerDollar', label: 'Return / $ Inference', format: formatReturnPerDollar, className: 'text-right' };
+
 const columns: { key: SortKey; label: string; format: (val: any) => string; className?: string }[] = [
   { key: 'name', label: 'Agent Name', format: (val) => val, className: 'text-left font-semibold' },
   { key: 'totalValue', label: 'Total Value', format: formatValue, className: 'text-right' },
@@ -37,6 +53,11 @@ const columns: { key: SortKey; label: string; format: (val: any) => string; clas
 
 export const Leaderboard: React.FC<LeaderboardProps> = ({ agents, onAgentClick, showModelNames = true, simulationTypeName }) => {
   const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'totalReturn', direction: 'desc' });
+  // Only arenas with metered LLM spend get the cost-efficiency column
+  const visibleColumns = useMemo(
+    () => agents.some(agent => (agent.inferenceUsage?.cost ?? 0) > 0) ? [...columns, returnPerDollarColumn] : columns,
+    [agents]
+  );
   
   const sortedAgents = useMemo(() => {
     const sortableAgents = [...agents];
@@ -50,6 +71,9 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ agents, onAgentClick,
       if (sortConfig.key === 'name') {
         aValue = a.name;
         bValue = b.name;
+      } else if (sortConfig.key === 'returnPerDollar') {
+        aValue = getReturnPerDollar(a) ?? -Infinity;
+        bValue = getReturnPerDollar(b) ?? -Infinity;
       } else {
         aValue = a.performanceHistory[a.performanceHistory.length - 1]?.[sortConfig.key as keyof PerformanceMetrics] ?? -Infinity;
         bValue = b.performanceHistory[b.performanceHistory.length - 1]?.[sortConfig.key as keyof PerformanceMetrics] ?? -Infinity;
@@ -85,7 +109,7 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ agents, onAgentClick,
             <tr>
               <th className="p-3 text-left">Rank</th>
               <th className="p-3 text-center">Check Individual Trades</th>
-              {columns.map(col => (
+              {visibleColumns.map(col => (
                 <th key={col.key} className={`p-3 cursor-pointer ${col.className || 'text-left'}`} onClick={() => requestSort(col.key)}>
                   <div className={`flex items-center ${col.className?.includes('right') ? 'justify-end' : 'justify-start'}`}>
                     {col.label}
@@ -129,11 +153,16 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({ agents, onAgentClick,
                         )}
                         <div>
                             <div className="font-semibold text-arena-text-primary">{getAgentDisplayName(agent, simulationTypeName)}</div>
+                            {agent.retiredAt !== undefined && (
+                              <div className="text-xs text-arena-text-secondary">Retired</div>
+                            )}
                         </div>
                     </div>
                   </td>
-                  {columns.slice(1).map(col => {
-                    const value = latestPerf[col.key as keyof PerformanceMetrics] as number | null | undefined;
+                  {visibleColumns.slice(1).map(col => {
+                    const value = col.key === 'returnPerDollar'
+                      ? getReturnPerDollar(agent)
+                      : latestPerf[col.key as keyof PerformanceMetrics] as number | null | undefined;
                     return (
                       <td key={col.key} className={`p-3 font-mono ${col.className}`}>
                         {col.key === 'totalReturn' || col.key === 'dailyReturn' ? (
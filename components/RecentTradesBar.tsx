@@ -178,7 +178,9 @@ export const RecentTradesBar: React.FC<RecentTradesBarProps> = ({
   agents.forEach(agent => {
     if (agent.tradeHistory && agent.tradeHistory.length > 0) {
       // Get the last 3 trades from each agent (most recent first)
-      const agentRecentTrades = [...agent.tradeHistory]
+      // Split and dividend entries are bookkeeping, not trades the agent made
+      const agentRecentTrades = agent.tradeHistory
+        .filter(trade => trade.corporateAction !== 'split' && trade.corporateAction !== 'dividend')
         .sort((a, b) => b.timestamp - a.timestamp)
         .slice(0, 3)
         .map(trade => ({
@@ -176,6 +176,15 @@ export function SimulationSelector() {
           })}
         </div>
 
+        <div className="mt-10 flex justify-center">
+          <button
+            onClick={() => navigate('/tournaments')}
+            className="px-5 py-2 rounded-lg border border-slate-600 text-slate-200 hover:text-white hover:border-slate-400 transition-colors"
+          >
+            Tournament Results
+          </button>
+        </div>
+
         {import.meta.env.VITE_ENABLE_SNAPSHOT_TOOL === 'true' && (
           <div className="mt-10 flex justify-center">
             <button
@@ -207,6 +207,7 @@ export function SimulationView() {
           currentDate={simState.currentDate}
           simulationMode={simulationMode}
           simulationTypeName={simulationType?.name}
+          simulationTypeId={simulationId}
         />
       )}
 
@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import type { TournamentPairwise, TournamentResult, TournamentSummary } from '../types';
+import { getApiBaseUrl } from '../utils/apiConfig';
+
+const formatPercent = (value: number | null | undefined) => {
+  if (value == null || isNaN(value)) return '—';
+  return `${(value * 100).toFixed(2)}%`;
+};
+
+const formatPValue = (value: number | null) => {
+  if (value === null) return '—';
+  return value < 0.001 ? '<0.001' : value.toFixed(3);
+};
+
+const returnColor = (value: number) => (value >= 0 ? 'text-green-400' : 'text-red-400');
+
+const PageShell: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-6">
+    <div className="max-w-6xl mx-auto">{children}</div>
+  </div>
+);
+
+const TournamentList: React.FC = () => {
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchTournaments = async () => {
+      try {
+        const response = await fetch(`${getApiBaseUrl()}/api/tournaments`);
+        if (!response.ok) {
+          throw new Error('Failed to fetch tournaments');
+        }
+        const data = await response.json();
+        setTournaments(data.tournaments);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load tournaments');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTournaments();
+  }, []);
+
+  return (
+    <PageShell>
+      <div className="mb-8 mt-8 flex items-end justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-white mb-2">Tournaments</h1>
+          <p className="text-slate-400">Arenas replayed over many seeds and date windows, ranked with bootstrap confidence intervals.</p>
+        </div>
+        <button onClick={() => navigate('/menu')} className="text-blue-400 hover:text-blue-300 font-medium">
+          ← Arenas
+        </button>
+      </div>
+
+      {loading && <p className="text-slate-300">Loading tournaments...</p>}
+      {error && <p className="text-red-400">{error}</p>}
+      {!loading && !error && tournaments.length === 0 && (
+        <p className="text-slate-400">
+          No tournaments yet. Run <code className="text-slate-200">npm run tournament</code> in the backend to create one.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {tournaments.map(tournament => (
+          <div
+            key={tournament.id}
+            onClick={() => navigate(`/tournaments/${encodeURIComponent(tournament.id)}`)}
+            className="cursor-pointer rounded-xl p-5 bg-slate-800/50 border border-slate-700/50 hover:border-blue-500/50 transition-colors"
+          >
+            <h2 className="text-lg font-bold text-white">{tournament.arenaName}</h2>
+            <p className="text-xs text-slate-500 font-mono mb-3">{tournament.id}</p>
+            <div className="flex gap-4 text-sm text-slate-400">
+              <span>{tournament.runs} runs</span>
+              <span>{tournament.mode === 'historical' ? 'Historical windows' : 'Simulated paths'}</span>
+              <span>{new Date(tournament.createdAt).toLocaleString()}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </PageShell>
+  );
+};
+
+const TournamentDetail: React.FC<{ tournamentId: string }> = ({ tournamentId }) => {
+  const [tournament, setTournament] = useState<TournamentResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const fetchTournament = async () => {
+      try {
+        const response = await fetch(`${getApiBaseUrl()}/api/tournaments/${encodeURIComponent(tournamentId)}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? 'Tournament not found' : 'Failed to fetch tournament');
+        }
+        const data = await response.json();
+        setTournament(data.tournament);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load tournament');
+      }
+    };
+
+    fetchTournament();
+  }, [tournamentId]);
+
+  // Pairwise results are stored once per pair with the higher-ranked entrant as "a"
+  const pairLookup = useMemo(() => {
+    const lookup = new Map<string, TournamentPairwise>();
+    tournament?.pairwise.forEach(pair => lookup.set(`${pair.a}|${pair.b}`, pair));
+    return lookup;
+  }, [tournament]);
+
+  if (error) {
+    return (
+      <PageShell>
+        <p className="text-red-400 mt-8">{error}</p>
+        <button onClick={() => navigate('/tournaments')} className="mt-4 text-blue-400 hover:text-blue-300">← All tournaments</button>
+      </PageShell>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <PageShell>
+        <p className="text-slate-300 mt-8">Loading tournament...</p>
+      </PageShell>
+    );
+  }
+
+  const confidenceLabel = `${Math.round(tournament.confidence * 100)}% CI`;
+  const standings = tournament.standings;
+
+  return (
+    <PageShell>
+      <div className="mb-8 mt-8 flex items-end justify-between">
+        <div>
+          <h1 className="text-4xl font-bold text-white mb-2">{tournament.arenaName}</h1>
+          <p className="text-slate-400 text-sm">
+            {tournament.runs} runs · {tournament.seeds.length} seeds
+            {tournament.windows.length > 0 && ` × ${tournament.windows.length} windows (${tournament.windows.map(window => `${window.start}–${window.end ?? 'end'}`).join(', ')})`}
+            {' '}· {tournament.bootstrapSamples.toLocaleString()} bootstrap samples
+            {tournament.dataset && ` · dataset ${tournament.dataset.slice(0, 12)}`}
+          </p>
+        </div>
+        <button onClick={() => navigate('/tournaments')} className="text-blue-400 hover:text-blue-300 font-medium">
+          ← All tournaments
+        </button>
+      </div>
+
+      <div className="rounded-xl bg-slate-800/50 border border-slate-700/50 overflow-x-auto mb-8">
+        <table className="w-full text-sm">
+          <thead className="text-slate-400 text-xs uppercase">
+            <tr className="border-b border-slate-700">
+              <th className="px-4 py-3 text-left">Rank</th>
+              <th className="px-4 py-3 text-left">Tier</th>
+              <th className="px-4 py-3 text-left">Trader</th>
+              <th className="px-4 py-3 text-right">Mean return</th>
+              <th className="px-4 py-3 text-right">{confidenceLabel}</th>
+              <th className="px-4 py-3 text-right">Median</th>
+              <th className="px-4 py-3 text-right">Std dev</th>
+              <th className="px-4 py-3 text-right">Worst / best</th>
+              <th className="px-4 py-3 text-right">Win rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map(standing => (
+              <tr
+                key={standing.id}
+                className={`border-b ${standing.significantlyAboveNext ? 'border-blue-500/60' : 'border-slate-700/50'}`}
+              >
+                <td className="px-4 py-3 text-white font-semibold">{standing.rank}</td>
+                <td className="px-4 py-3 text-slate-300">{standing.tier}</td>
+                <td className="px-4 py-3 text-white">
+                  {standing.name}
+                  {standing.kind === 'benchmark' && <span className="ml-2 text-xs text-slate-500">benchmark</span>}
+                </td>
+                <td className={`px-4 py-3 text-right font-mono ${returnColor(standing.meanReturn)}`}>{formatPercent(standing.meanReturn)}</td>
+                <td className="px-4 py-3 text-right font-mono text-slate-300">
+                  [{formatPercent(standing.confidenceInterval[0])}, {formatPercent(standing.confidenceInterval[1])}]
+                </td>
+                <td className="px-4 py-3 text-right font-mono text-slate-300">{formatPercent(standing.medianReturn)}</td>
+                <td className="px-4 py-3 text-right font-mono text-slate-300">{formatPercent(standing.stdReturn)}</td>
+                <td className="px-4 py-3 text-right font-mono text-slate-400">
+                  {formatPercent(standing.minReturn)} / {formatPercent(standing.maxReturn)}
+                </td>
+                <td className="px-4 py-3 text-right font-mono text-slate-300">{formatPercent(standing.winRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="px-4 py-3 text-xs text-slate-500">
+          A blue line and a new tier mark a significant gap (p &lt; {(1 - tournament.confidence).toFixed(2)}) to the trader below.
+        </p>
+      </div>
+
+      <h2 className="text-xl font-bold text-white mb-3">Head to head</h2>
+      <div className="rounded-xl bg-slate-800/50 border border-slate-700/50 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-slate-700 text-slate-400">
+              <th className="px-3 py-2 text-left">Row beats column</th>
+              {standings.map(standing => (
+                <th key={standing.id} className="px-3 py-2 text-center font-medium">{standing.name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {standings.map(row => (
+              <tr key={row.id} className="border-b border-slate-700/50">
+                <td className="px-3 py-2 text-slate-300 whitespace-nowrap">{row.name}</td>
+                {standings.map(column => {
+                  if (row.id === column.id) {
+                    return <td key={column.id} className="px-3 py-2 text-center text-slate-600">—</td>;
+                  }
+                  const pair = pairLookup.get(`${row.id}|${column.id}`);
+                  const reversed = pairLookup.get(`${column.id}|${row.id}`);
+                  const result = pair ?? reversed;
+                  if (!result) {
+                    return <td key={column.id} className="px-3 py-2" />;
+                  }
+                  const winRate = pair ? result.winRate : 1 - result.winRate;
+                  return (
+                    <td
+                      key={column.id}
+                      title={`Mean difference ${formatPercent(pair ? result.meanDifference : -result.meanDifference)}, p = ${formatPValue(result.pValue)}`}
+                      className={`px-3 py-2 text-center font-mono ${result.significant ? 'font-bold' : ''} ${winRate > 0.5 ? 'text-green-400' : winRate < 0.5 ? 'text-red-400' : 'text-slate-400'}`}
+                    >
+                      {formatPercent(winRate)}{result.significant && '*'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="px-3 py-2 text-xs text-slate-500">
+          Share of runs the row finished ahead of the column (ties count half). * marks a significant mean difference; hover for the p-value.
+        </p>
+      </div>
+    </PageShell>
+  );
+};
+
+export function TournamentResults() {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  return tournamentId ? <TournamentDetail tournamentId={tournamentId} /> : <TournamentList />;
+}
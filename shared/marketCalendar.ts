@@ -0,0 +1,140 @@
+// NYSE trading calendar: full-day holidays and 1:00 PM early closes, generated from the
+// exchange's rules for any year. Dates are exchange-local (America/New_York), months 1-12.
+// Mirrors backend/src/simulation/marketCalendar.ts for the frontend; keep the two in sync.
+
+export interface MarketCalendarDay {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export const REGULAR_CLOSE_MINUTES = 16 * 60;
+export const EARLY_CLOSE_MINUTES = 13 * 60;
+
+// Closures no rule predicts: storms and national days of mourning
+const SPECIAL_CLOSURES: MarketCalendarDay[] = [
+  { date: '2012-10-29', name: 'Hurricane Sandy' },
+  { date: '2012-10-30', name: 'Hurricane Sandy' },
+  { date: '2018-12-05', name: 'Day of Mourning for George H. W. Bush' },
+  { date: '2025-01-09', name: 'Day of Mourning for Jimmy Carter' },
+];
+
+const toDateKey = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+const toUtcDate = (year: number, month: number, day: number): Date => new Date(Date.UTC(year, month - 1, day));
+
+const keyOf = (date: Date): string => toDateKey(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+
+const shiftDays = (date: Date, days: number): Date => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+// The nth weekday (0 = Sunday) of a month; n = -1 is the last one
+export const nthWeekday = (year: number, month: number, weekday: number, n: number): Date => {
+  if (n > 0) {
+    const first = toUtcDate(year, month, 1).getUTCDay();
+    return toUtcDate(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+  const last = toUtcDate(year, month + 1, 0);
+  return shiftDays(last, -((last.getUTCDay() - weekday + 7) % 7));
+};
+
+// Anonymous Gregorian algorithm
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toUtcDate(year, month, day);
+};
+
+// Saturday holidays are observed the Friday before, Sunday holidays the Monday after
+const observed = (date: Date): Date => {
+  const weekday = date.getUTCDay();
+  return weekday === 6 ? shiftDays(date, -1) : weekday === 0 ? shiftDays(date, 1) : date;
+};
+
+interface YearCalendar {
+  holidays: Map<string, string>;
+  earlyCloses: Map<string, string>;
+}
+
+const calendars = new Map<number, YearCalendar>();
+
+const buildYearCalendar = (year: number): YearCalendar => {
+  const holidays = new Map<string, string>();
+  const add = (date: Date, name: string) => holidays.set(keyOf(date), name);
+
+  // A Saturday New Year's Day is not made up on Friday December 31
+  const newYear = toUtcDate(year, 1, 1);
+  if (newYear.getUTCDay() !== 6) {
+    add(observed(newYear), "New Year's Day");
+  }
+  if (year >= 1998) {
+    add(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+  }
+  add(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+  add(shiftDays(getEasterSunday(year), -2), 'Good Friday');
+  add(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+  if (year >= 2022) {
+    add(observed(toUtcDate(year, 6, 19)), 'Juneteenth');
+  }
+  add(observed(toUtcDate(year, 7, 4)), 'Independence Day');
+  add(nthWeekday(year, 9, 1, 1), 'Labor Day');
+  const thanksgiving = nthWeekday(year, 11, 4, 4);
+  add(thanksgiving, 'Thanksgiving Day');
+  add(observed(toUtcDate(year, 12, 25)), 'Christmas Day');
+  SPECIAL_CLOSURES.filter(closure => closure.date.startsWith(`${year}-`))
+    .forEach(closure => holidays.set(closure.date, closure.name));
+
+  // Early closes fall on the eves that are still trading days (Monday to Thursday)
+  const earlyCloses = new Map<string, string>();
+  const addEve = (date: Date, name: string) => {
+    const weekday = date.getUTCDay();
+    if (weekday >= 1 && weekday <= 4 && !holidays.has(keyOf(date))) {
+      earlyCloses.set(keyOf(date), name);
+    }
+  };
+  addEve(toUtcDate(year, 7, 3), 'Independence Day eve');
+  earlyCloses.set(keyOf(shiftDays(thanksgiving, 1)), 'Day after Thanksgiving');
+  addEve(toUtcDate(year, 12, 24), 'Christmas Eve');
+
+  return { holidays, earlyCloses };
+};
+
+const getYearCalendar = (year: number): YearCalendar => {
+  let calendar = calendars.get(year);
+  if (!calendar) {
+    calendar = buildYearCalendar(year);
+    calendars.set(year, calendar);
+  }
+  return calendar;
+};
+
+const toList = (days: Map<string, string>): MarketCalendarDay[] =>
+  [...days.entries()].map(([date, name]) => ({ date, name })).sort((a, b) => a.date.localeCompare(b.date));
+
+export const getMarketHolidays = (year: number): MarketCalendarDay[] => toList(getYearCalendar(year).holidays);
+
+export const getEarlyCloses = (year: number): MarketCalendarDay[] => toList(getYearCalendar(year).earlyCloses);
+
+// Name of the holiday the exchange is closed for, if any (weekends are not holidays)
+export const getMarketHoliday = (year: number, month: number, day: number): string | undefined =>
+  getYearCalendar(year).holidays.get(toDateKey(year, month, day));
+
+export const isTradingDate = (year: number, month: number, day: number): boolean => {
+  const weekday = toUtcDate(year, month, day).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && getMarketHoliday(year, month, day) === undefined;
+};
+
+// Minutes after midnight ET the regular session ends on a trading date
+export const getMarketCloseMinutes = (year: number, month: number, day: number): number =>
+  getYearCalendar(year).earlyCloses.has(toDateKey(year, month, day)) ? EARLY_CLOSE_MINUTES : REGULAR_CLOSE_MINUTES;
@@ -1,22 +1,28 @@
+import { isTradingDate } from './marketCalendar';
+
 export const isWeekendDate = (date: Date): boolean => {
   const day = date.getDay();
   return day === 0 || day === 6;
 };
 
+// Weekdays the NYSE is open, by the date's calendar day
+export const isTradingDay = (date: Date): boolean =>
+  isTradingDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+
 /**
  * Aligns the provided date to the nearest trading day going forward.
- * If the provided date already falls on a weekday, it's returned unchanged.
+ * If the provided date already falls on a trading day, it's returned unchanged.
  */
 export const alignToNextTradingDay = (date: Date): Date => {
   const aligned = new Date(date);
-  while (isWeekendDate(aligned)) {
+  while (!isTradingDay(aligned)) {
     aligned.setDate(aligned.getDate() + 1);
   }
   return aligned;
 };
 
 /**
- * Adds (or subtracts) trading days from a given date while skipping weekends.
+ * Adds (or subtracts) trading days from a given date while skipping weekends and holidays.
  */
 export const addTradingDays = (date: Date, tradingDays: number): Date => {
   const result = new Date(date);
@@ -29,7 +35,7 @@ export const addTradingDays = (date: Date, tradingDays: number): Date => {
 
   while (remaining > 0) {
     result.setDate(result.getDate() + step);
-    if (!isWeekendDate(result)) {
+    if (isTradingDay(result)) {
       remaining -= 1;
     }
   }
@@ -39,7 +45,8 @@ export const addTradingDays = (date: Date, tradingDays: number): Date => {
 
 /**
  * Returns the calendar date that corresponds to a trading-day offset from the provided start date.
- * Trading days skip weekends so a day offset of 5 from a Monday lands on the following Monday.
+ * Trading days skip weekends and holidays, so a day offset of 5 from a Monday lands on the following
+ * Monday unless the week has a holiday.
  */
 export const getTradingDateFromStart = (startDate: string | Date, tradingDayOffset: number): Date => {
   const start = typeof startDate === 'string' ? new Date(startDate) : new Date(startDate);
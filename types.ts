@@ -39,6 +39,7 @@ export interface MarketData {
 export type SimulationMode = 'simulated' | 'realtime' | 'historical' | 'hybrid';
 
 export type TradeAction = 'buy' | 'sell' | 'hold';
+export type CorporateActionType = 'split' | 'dividend' | 'delisting';
 
 export interface Trade {
   ticker: string;
@@ -51,6 +52,7 @@ export interface Trade {
   bottomOfBox?: number; // 10% worst case scenario price by next day
   justification?: string; // One sentence justification for the trade
   fees?: number; // Execution fees charged for the trade
+  corporateAction?: CorporateActionType; // Synthetic entry recording a split, dividend or delisting
 }
 
 export interface Position {
@@ -106,6 +108,137 @@ export interface PerformanceMetrics {
   intradayHour?: number; // 0, 2, 4, 6 for intraday updates
 }
 
+// Risk-adjusted performance versus the S&P 500 benchmark, from end-of-day values.
+// Ratios and return figures are annualized; null when there is not enough data.
+export interface PerformanceAnalytics {
+  tradingDays: number;
+  annualizedReturn: number;
+  annualizedVolatility: number;
+  sharpeRatio: number;
+  sortinoRatio: number;
+  calmarRatio: number;
+  maxDrawdown: number;
+  beta: number | null;
+  alpha: number | null; // Jensen's alpha
+  trackingError: number | null;
+  informationRatio: number | null;
+  closedTrades: number; // Trades that reduced or closed a position
+  hitRate: number | null; // Share of closed trades with positive realized P&L
+  averageWin: number | null; // Mean realized P&L of winning trades, in dollars
+  averageLoss: number | null; // Mean realized P&L of losing trades (negative), in dollars
+}
+
+export interface SectorAttribution {
+  sector: string;
+  portfolioWeight: number; // Time-weighted share of starting capital invested in the sector
+  benchmarkWeight: number;
+  portfolioReturn: number; // Sector P&L over the capital invested in it
+  benchmarkReturn: number;
+  allocationEffect: number;
+  selectionEffect: number; // Includes the interaction term (Brinson-Fachler)
+}
+
+export interface TickerContribution {
+  ticker: string;
+  sector: string;
+  industry?: string;
+  quantity: number; // Open position, negative for shorts
+  realizedPnl: number; // Closed P&L and dividends, net of fees
+  unrealizedPnl: number;
+  contribution: number; // Total P&L as a fraction of starting capital
+}
+
+export interface PerformanceAttribution {
+  portfolioReturn: number;
+  benchmarkReturn: number; // S&P 500 return over the same period
+  excessReturn: number;
+  allocationEffect: number;
+  selectionEffect: number;
+  residual: number; // Excess return not explained by the sector effects (financing, universe vs index)
+  sectors: SectorAttribution[];
+  tickers: TickerContribution[];
+}
+
+// Monte Carlo tournament: one arena repeated over seeds and/or date windows, ranked by mean total return.
+// Confidence intervals and p-values come from a paired bootstrap over the runs.
+export interface TournamentStanding {
+  id: string;
+  name: string;
+  kind: 'agent' | 'benchmark';
+  rank: number;
+  tier: number; // Starts a new tier only where the entrant above is significantly ahead
+  runs: number;
+  meanReturn: number;
+  medianReturn: number;
+  stdReturn: number;
+  minReturn: number;
+  maxReturn: number;
+  confidenceInterval: [number, number]; // Of the mean return
+  winRate: number; // Share of head-to-head run results won against the rest of the field
+  significantlyAboveNext: boolean | null; // null for the last entrant
+}
+
+export interface TournamentPairwise {
+  a: string; // Ranked above b
+  b: string;
+  runs: number;
+  winRate: number; // Share of runs a finished ahead of b; ties count half
+  meanDifference: number; // Mean return of a minus b
+  confidenceInterval: [number, number];
+  pValue: number | null; // Two-sided; null with fewer than two shared runs
+  significant: boolean;
+}
+
+export interface TournamentRunReturns {
+  seed: number;
+  startDate?: string;
+  endDate?: string;
+  returns: Record<string, number>; // Total return per entrant id
+}
+
+export interface TournamentSummary {
+  id: string;
+  arenaId: string;
+  arenaName: string;
+  createdAt: string;
+  mode: 'historical' | 'simulated';
+  runs: number;
+  leaderId: string | null;
+}
+
+export interface TournamentResult extends TournamentSummary {
+  seeds: number[];
+  windows: Array<{ start: string; end?: string }>;
+  confidence: number;
+  bootstrapSamples: number;
+  dataset: string | null;
+  standings: TournamentStanding[];
+  pairwise: TournamentPairwise[];
+  runReturns: TournamentRunReturns[];
+}
+
+// Tokens and dollar cost of one trading decision, across all of its model round trips
+export interface InferenceUsageRecord {
+  day: number;
+  intradayHour: number;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD from the model price table; 0 for unpriced (e.g. local) models
+  calls: number;
+}
+
+export interface InferenceUsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  calls: number;
+}
+
+export interface InferenceUsage extends InferenceUsageTotals {
+  rounds: InferenceUsageRecord[];
+}
+
 export interface Agent {
   id: string;
   name: string;
@@ -117,6 +250,9 @@ export interface Agent {
   rationale: string; // Current rationale
   rationaleHistory: { [day: number]: string }; // Historical rationales by day
   image?: string; // Path to agent image/logo
+  inferenceUsage?: InferenceUsage; // Token and dollar spend on trading decisions
+  inferenceBudget?: number; // USD cap on inference spend
+  retiredAt?: number; // Liquidated to cash; keeps its history but no longer trades
   memory?: { // Agent memory/context for past decisions
     recentTrades: Trade[]; // Last N trades for context
     pastRationales: string[]; // Recent rationales
@@ -151,6 +287,7 @@ export interface YahooRateLimitStatus {
 
 export interface MarketDataTelemetry {
   sources: {
+    file: MarketDataSourceTelemetry;
     yahoo: MarketDataSourceTelemetry;
     alphaVantage: MarketDataSourceTelemetry;
     polygon: MarketDataSourceTelemetry;
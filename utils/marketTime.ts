@@ -1,6 +1,8 @@
+import { getMarketCloseMinutes, isTradingDate, REGULAR_CLOSE_MINUTES } from '../shared/marketCalendar';
+
 export const MARKET_TIMEZONE = 'America/New_York';
 export const MARKET_OPEN_MINUTES = 9 * 60 + 30;
-export const MARKET_CLOSE_MINUTES = 16 * 60;
+export const MARKET_CLOSE_MINUTES = REGULAR_CLOSE_MINUTES;
 
 const WEEKDAY_INDEX: Record<string, number> = {
   sun: 0,
@@ -92,18 +94,25 @@ export const isWeekendEt = (date: Date): boolean => {
   return weekday === 0 || weekday === 6;
 };
 
+// Weekdays the NYSE is open, by the ET calendar day
+export const isTradingDayEt = (date: Date): boolean => {
+  const parts = getEtParts(date);
+  return isTradingDate(parts.year, parts.month, parts.day);
+};
+
 export const isWithinMarketHoursSeconds = (timestampSeconds: number): boolean => {
   const date = new Date(timestampSeconds * 1000);
-  if (isWeekendEt(date)) {
+  const parts = getEtParts(date);
+  if (!isTradingDate(parts.year, parts.month, parts.day)) {
     return false;
   }
-  const minutes = getEtMinutes(date);
-  return minutes >= MARKET_OPEN_MINUTES && minutes <= MARKET_CLOSE_MINUTES;
+  const minutes = parts.hour * 60 + parts.minute;
+  return minutes >= MARKET_OPEN_MINUTES && minutes <= getMarketCloseMinutes(parts.year, parts.month, parts.day);
 };
 
 const alignToNextTradingDay = (date: Date): Date => {
   const aligned = new Date(date);
-  while (isWeekendEt(aligned)) {
+  while (!isTradingDayEt(aligned)) {
     aligned.setUTCDate(aligned.getUTCDate() + 1);
   }
   return aligned;
@@ -120,7 +129,7 @@ const addTradingDaysUtc = (startDate: Date, tradingDays: number): Date => {
 
   while (remaining > 0) {
     result.setUTCDate(result.getUTCDate() + step);
-    if (!isWeekendEt(result)) {
+    if (isTradingDayEt(result)) {
       remaining -= 1;
     }
   }